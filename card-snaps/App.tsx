@@ -478,13 +478,10 @@ const App: React.FC = () => {
       });
   };
 
-  const handleMoveCard = async (card: Card, targetDeckId: string) => {
-      const targetDeck = decks.find(d => d.id === targetDeckId);
-      if (targetDeck) {
-          const updatedTarget = { ...targetDeck, cards: [...targetDeck.cards, card] };
-          await api.updateDeck(updatedTarget);
-          setDecks(decks.map(d => d.id === targetDeckId ? updatedTarget : d));
-      }
+  // Another deck changed from inside the deck editor (cards moved or copied into it)
+  const handleUpdateOtherDeck = async (deck: Deck) => {
+      setDecks(prev => prev.map(d => d.id === deck.id ? deck : d));
+      await api.updateDeck(deck);
   };
   
   const handleStudyDeck = (deckId: string, mode: AppView = AppView.STUDY) => {
@@ -592,7 +589,7 @@ const App: React.FC = () => {
                 onCancel={() => setView(AppView.DASHBOARD)} 
                 initialDeck={deckToEdit} 
                 allDecks={decks}
-                onMoveCard={handleMoveCard}
+                onUpdateDeck={handleUpdateOtherDeck}
               />
             </div>
         );
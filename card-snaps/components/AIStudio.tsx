@@ -1,8 +1,10 @@
 import React, { useState, useRef } from 'react';
 import { Upload, FileText, Image, ArrowRight, Loader2, Check, Sparkles, X, Video, Music, File } from 'lucide-react';
-import { generateDeckFromContent } from '../services/geminiService';
+import { generateDeckFromContent, GeneratedDeck } from '../services/geminiService';
 import { soundService } from '../services/soundService';
-import { Deck, Card, CARD_COLORS } from '../types';
+import { ExtractedDocument, documentKind, extractDocument, parsePageRange, documentText, sectionUnit } from '../services/documentService';
+import { PageRangeField } from './PageRangeField';
+import { Deck, CARD_COLORS } from '../types';
 
 interface AIStudioProps {
     onSaveDeck: (deck: Deck, fromAI?: boolean) => void;
@@ -20,6 +22,10 @@ export const AIStudio: React.FC<AIStudioProps> = ({ onSaveDeck, onCancel }) => {
     const [mimeType, setMimeType] = useState<string | null>(null);
     const [fileName, setFileName] = useState<string>('');
     const [textContent, setTextContent] = useState<string>('');
+    // PDFs, Word, PowerPoint and text files are read in the browser and sent as text
+    const [sourceDoc, setSourceDoc] = useState<ExtractedDocument | null>(null);
+    const [pageRange, setPageRange] = useState('');
+    const [isReading, setIsReading] = useState(false);
     
     // Configuration
     const [cardCount, setCardCount] = useState(10);
@@ -27,33 +33,48 @@ export const AIStudio: React.FC<AIStudioProps> = ({ onSaveDeck, onCancel }) => {
     const [deckTitle, setDeckTitle] = useState('');
     
     // Result
-    const [generatedDeck, setGeneratedDeck] = useState<{title: string, description: string, cards: Omit<Card, 'id'|'color'>[]} | null>(null);
+    const [generatedDeck, setGeneratedDeck] = useState<GeneratedDeck | null>(null);
 
     const fileInputRef = useRef<HTMLInputElement>(null);
 
-    const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
+        e.target.value = '';
         if (!file) return;
 
         soundService.playPop();
         setFileName(file.name);
-        
+        setFileData(null);
+        setMimeType(file.type || null);
+        setTextContent('');
+        setSourceDoc(null);
+        setPageRange('');
+
+        if (documentKind(file)) {
+            setIsReading(true);
+            try {
+                setSourceDoc(await extractDocument(file));
+            } catch (err: any) {
+                setFileName('');
+                alert(err.message || "Couldn't read that file.");
+            } finally {
+                setIsReading(false);
+            }
+            return;
+        }
+
+        // Images, video and audio go to the model as they are
         const reader = new FileReader();
         reader.onloadend = () => {
             const result = reader.result as string;
-            // Extract base64 and mime type
-            if (file.type === 'text/plain') {
-                setTextContent(atob(result.split(',')[1])); 
-            } else {
-                // For Images, Videos, Audio, PDF
-                const base64Content = result.split(',')[1];
-                setFileData(base64Content);
-                setMimeType(file.type);
-            }
+            setFileData(result.split(',')[1]);
         };
         reader.readAsDataURL(file);
     };
 
+    const selectedPages = sourceDoc ? parsePageRange(pageRange, sourceDoc.sections.length) : null;
+    const hasContent = sourceDoc ? !!selectedPages && selectedPages.length > 0 : !!fileData || !!textContent;
+
     const getFileIcon = () => {
         if (!mimeType) return <FileText className="w-10 h-10 text-sky-400" />;
         if (mimeType.startsWith('image/')) return <Image className="w-10 h-10 text-sky-400" />;
@@ -67,8 +88,8 @@ export const AIStudio: React.FC<AIStudioProps> = ({ onSaveDeck, onCancel }) => {
         soundService.playClick();
         
         try {
-            const instructions = `Generate ${cardCount} cards. Focus on: ${focus}. Create a Title for the deck if one isn't implied.`;
-            const result = await generateDeckFromContent(fileData, mimeType, textContent || null, instructions);
+            const text = sourceDoc && selectedPages ? documentText(sourceDoc, selectedPages) : textContent;
+            const result = await generateDeckFromContent(sourceDoc ? null : fileData, sourceDoc ? null : mimeType, text || null, { count: cardCount, focus });
             setGeneratedDeck(result);
             setDeckTitle(result.title);
             setStep(3);
@@ -146,17 +167,24 @@ export const AIStudio: React.FC<AIStudioProps> = ({ onSaveDeck, onCancel }) => {
                                 ref={fileInputRef} 
                                 className="hidden" 
                                 onChange={handleFileUpload}
-                                accept="image/*,video/*,audio/*,.txt,.pdf" 
+                                accept="image/*,video/*,audio/*,.txt,.md,.pdf,.docx,.pptx" 
                             />
                             
-                            {fileName ? (
+                            {isReading ? (
+                                <div className="flex flex-col items-center gap-4">
+                                    <Loader2 className="w-10 h-10 text-sky-400 animate-spin" />
+                                    <p className="text-[var(--text-secondary)] font-bold">Reading {fileName}...</p>
+                                </div>
+                            ) : fileName ? (
                                 <div className="flex flex-col items-center gap-4">
                                     <div className="w-20 h-20 rounded-2xl bg-sky-500/20 flex items-center justify-center animate-float">
                                         {getFileIcon()}
                                     </div>
                                     <div className="text-center">
                                         <p className="text-[var(--text-primary)] font-bold text-lg">{fileName}</p>
-                                        <p className="text-sky-400 text-sm mt-1">Ready to process</p>
+                                        <p className="text-sky-400 text-sm mt-1">
+                                            {sourceDoc ? `${sourceDoc.sections.length} ${sectionUnit(sourceDoc)}${sourceDoc.sections.length === 1 ? '' : 's'} of text found` : 'Ready to process'}
+                                        </p>
                                     </div>
                                 </div>
                             ) : (
@@ -165,14 +193,20 @@ export const AIStudio: React.FC<AIStudioProps> = ({ onSaveDeck, onCancel }) => {
                                         <Upload className="w-8 h-8 text-[var(--text-secondary)] group-hover:text-sky-400" />
                                     </div>
                                     <h3 className="text-2xl font-bold text-[var(--text-primary)] mb-2">Upload Content</h3>
-                                    <p className="text-[var(--text-secondary)]">Videos, Audio, Images, or Notes</p>
+                                    <p className="text-[var(--text-secondary)]">PDF, Word, PowerPoint, Images, Audio or Video</p>
                                 </>
                             )}
                         </div>
                         
+                        {sourceDoc && sourceDoc.sections.length > 1 && (
+                            <div className="mt-6 max-w-md mx-auto">
+                                <PageRangeField doc={sourceDoc} value={pageRange} onChange={setPageRange} color="sky" />
+                            </div>
+                        )}
+
                         <div className="mt-8 flex justify-center">
                              <button 
-                                disabled={!fileName && !textContent}
+                                disabled={isReading || !hasContent}
                                 onClick={() => { soundService.playClick(); setStep(2); }}
                                 className="w-full md:w-auto px-12 py-4 bg-sky-500 hover:bg-sky-400 text-white font-bold rounded-2xl transition-all disabled:opacity-50 disabled:cursor-not-allowed shadow-[0_0_30px_rgba(14,165,233,0.3)] hover:shadow-[0_0_50px_rgba(14,165,233,0.5)] flex items-center justify-center gap-2"
                              >
@@ -1,8 +1,9 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { Deck, AppView, Card, SortOption, Test, ThemeMode, ColorScheme, UserProfile, ChatMessage, UserStats, ChatSession, Note, SeasonalEvent, SEASONAL_EVENTS } from '../types';
+import { Deck, AppView, Card, SortOption, Test, ThemeMode, ColorScheme, UserProfile, ChatMessage, UserStats, ChatSession, Note, SeasonalEvent, SEASONAL_EVENTS, ReviewLog } from '../types';
 import { DeckBuilder } from './DeckBuilder';
 import { StudyMode } from './StudyMode';
+import { ReviewAllDialog } from './ReviewAllDialog';
 import { PreparationMode } from './PreparationMode';
 import { Sidebar } from './Sidebar';
 import { ProfileSetup } from './ProfileSetup';
@@ -21,9 +22,19 @@ import { FocusTimer } from './FocusTimer';
 import { ResourcesPage } from './ResourcesPage'; 
 import { ExplorePage } from './ExplorePage';
 import { Onboarding } from './Onboarding'; 
+import { SearchPalette } from './SearchPalette';
+import { DuplicatesPage } from './DuplicatesPage';
+import { TrashDialog } from './TrashDialog';
+import { Auth } from './Auth';
+import { UndoToast } from './UndoToast';
 import { soundService } from '../services/soundService';
 import { generateDailyGoals } from '../services/geminiService';
-import { api } from '../services/api'; 
+import { optimizeParameters, reviewsFromLogs, MIN_REVIEWS_TO_OPTIMIZE } from '../services/fsrsService';
+import { InterleaveStrategy } from '../services/srsService';
+import { uploadPendingMedia } from '../services/mediaService';
+import { SearchTarget } from '../services/searchService';
+import { decksInFolder, folderName } from '../services/libraryService';
+import { api, DeckConflict, describeFailedOp } from '../services/api'; 
 import { Plus, Play, Edit2, Trash2, Library, Zap, Share2, Menu, LogOut, Maximize2 } from 'lucide-react';
 
 const THEME_COLORS: Record<ColorScheme, string> = {
@@ -101,7 +112,9 @@ const DEFAULT_STATS: UserStats = {
 
 const App: React.FC = () => {
   const [appLoading, setAppLoading] = useState(true);
-  const [view, setView] = useState<AppView>(AppView.DASHBOARD);
+  // Opened from a share link (/?share=CODE): land in the Dock, which imports it
+  const [sharedCode, setSharedCode] = useState<string | null>(() => new URLSearchParams(window.location.search).get('share'));
+  const [view, setView] = useState<AppView>(sharedCode ? AppView.DOCK : AppView.DASHBOARD);
   
   // Data State
   const [decks, setDecks] = useState<Deck[]>([]);
@@ -114,6 +127,22 @@ const App: React.FC = () => {
   const [tempDeck, setTempDeck] = useState<Deck | null>(null);
   const [tempNote, setTempNote] = useState<Note | null>(null);
 
+  // Cross-deck review session
+  const [showReviewAll, setShowReviewAll] = useState(false);
+  const [reviewAllPreset, setReviewAllPreset] = useState<{ deckIds?: string[], tags?: string[] }>({});
+  const [reviewAll, setReviewAll] = useState<{ deckIds: string[], strategy: InterleaveStrategy, tags: string[] } | null>(null);
+
+  // Global Search
+  const [showSearch, setShowSearch] = useState(false);
+  const [focusCardId, setFocusCardId] = useState<string | null>(null);
+
+  // Duplicate review, scoped to a library folder ('' = everything)
+  const [duplicatesFolder, setDuplicatesFolder] = useState('');
+
+  // Trash & Undo
+  const [showTrash, setShowTrash] = useState(false);
+  const [undoToast, setUndoToast] = useState<{ id: number, label: string, undo: () => void } | null>(null);
+
   // User Profile & Stats
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
   const [stats, setStats] = useState<UserStats>(DEFAULT_STATS);
@@ -132,6 +161,13 @@ const App: React.FC = () => {
   // Event State
   const [activeEvent, setActiveEvent] = useState<SeasonalEvent | null>(null);
 
+  // Sync State
+  const [pendingChanges, setPendingChanges] = useState(0);
+  const [failedChanges, setFailedChanges] = useState<string[]>([]);
+  const [sessionExpired, setSessionExpired] = useState(false);
+  const [showSignIn, setShowSignIn] = useState(false);
+  const [deckConflicts, setDeckConflicts] = useState<DeckConflict[]>([]);
+
   // Focus Timer State
   const [focusTimeLeft, setFocusTimeLeft] = useState(25 * 60);
   const [focusIsActive, setFocusIsActive] = useState(false);
@@ -153,6 +189,8 @@ const App: React.FC = () => {
                   if (user.themeMode) setThemeMode(user.themeMode);
                   if (user.colorScheme) setColorScheme(user.colorScheme);
                   if (user.enableSeasonal !== undefined) setEnableSeasonal(user.enableSeasonal);
+                  // Images and audio added while signed out or offline
+                  uploadPendingMedia();
               }
 
               const [fetchedDecks, fetchedNotes, fetchedTests, fetchedStats, fetchedChats] = await Promise.all([
@@ -210,6 +248,33 @@ const App: React.FC = () => {
       initData();
   }, []);
 
+  // A card highlighted from search only stays highlighted while its deck is open
+  useEffect(() => {
+    if (view !== AppView.EDIT_DECK) setFocusCardId(null);
+  }, [view]);
+
+  // Ctrl+K / Cmd+K opens search from anywhere
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setShowSearch(prev => !prev);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => api.subscribePending(setPendingChanges), []);
+  useEffect(() => api.subscribeFailed(ops => setFailedChanges(ops.map(describeFailedOp))), []);
+  useEffect(() => api.subscribeSessionExpired(setSessionExpired), []);
+
+  // Ask once when the session lapses; the sidebar keeps a way back to the sign-in form
+  useEffect(() => {
+    if (sessionExpired) setShowSignIn(true);
+  }, [sessionExpired]);
+  useEffect(() => api.subscribeConflicts(setDeckConflicts), []);
+
   useEffect(() => {
     const now = new Date();
     const currentMonth = now.getMonth();
@@ -266,10 +331,10 @@ const App: React.FC = () => {
     try {
         if (activeDeckId) {
             await api.updateDeck(deck);
-            setDecks(decks.map(d => d.id === deck.id ? deck : d));
+            setDecks(prev => prev.map(d => d.id === deck.id ? deck : d));
         } else {
             const createdDeck = await api.createDeck(deck);
-            setDecks([createdDeck, ...decks]);
+            setDecks(prev => [createdDeck, ...prev]);
             const newStats = {
                 ...stats,
                 goals: stats.goals.map(g => g.type === 'create_deck' ? { ...g, current: g.current + 1 } : g)
@@ -285,13 +350,24 @@ const App: React.FC = () => {
     }
   };
 
+  // Deletions go to the trash, so they happen straight away with a chance to undo
+  const showUndo = (label: string, undo: () => void) => setUndoToast({ id: Date.now(), label, undo });
+
+  const handleRestoreDeck = (deck: Deck) => {
+      setDecks(prev => [deck, ...prev.filter(d => d.id !== deck.id)]);
+  };
+
+  const handleRestoreNote = (note: Note) => {
+      setNotes(prev => [note, ...prev.filter(n => n.id !== note.id)]);
+  };
+
   const handleDeleteDeck = async (e: React.MouseEvent, deckId: string) => {
     e.stopPropagation();
     soundService.playClick();
-    if (confirm("Are you sure you want to delete this deck?")) {
-      await api.deleteDeck(deckId);
-      setDecks(prev => prev.filter(d => d.id !== deckId));
-    }
+    const deck = decks.find(d => d.id === deckId);
+    await api.deleteDeck(deckId);
+    setDecks(prev => prev.filter(d => d.id !== deckId));
+    if (deck) showUndo(`Moved "${deck.title}" to the trash`, async () => handleRestoreDeck(await api.restoreDeck(deck)));
   };
 
   const handleSaveNote = async (note: Note) => {
@@ -311,10 +387,10 @@ const App: React.FC = () => {
 
   const handleDeleteNote = async (e: React.MouseEvent, id: string) => {
       e.stopPropagation();
-      if(confirm("Delete note?")) {
-          await api.deleteNote(id);
-          setNotes(prev => prev.filter(n => n.id !== id));
-      }
+      const note = notes.find(n => n.id === id);
+      await api.deleteNote(id);
+      setNotes(prev => prev.filter(n => n.id !== id));
+      if (note) showUndo(`Moved "${note.title || 'Untitled'}" to the trash`, async () => handleRestoreNote(await api.restoreNote(note)));
   };
 
   const handleAddTest = async (test: Test) => {
@@ -327,8 +403,13 @@ const App: React.FC = () => {
   };
   
   const handleDeleteTest = async (id: string) => {
+      const test = tests.find(t => t.id === id);
       await api.deleteTest(id);
       setTests(tests.filter(t => t.id !== id));
+      if (test) showUndo(`Deleted "${test.title}"`, async () => {
+          const restored = await api.addTest(test);
+          setTests(prev => [...prev, restored]);
+      });
   };
 
   // Stats & Unlock Logic
@@ -478,15 +559,85 @@ const App: React.FC = () => {
       });
   };
 
-  const handleMoveCard = async (card: Card, targetDeckId: string) => {
-      const targetDeck = decks.find(d => d.id === targetDeckId);
-      if (targetDeck) {
-          const updatedTarget = { ...targetDeck, cards: [...targetDeck.cards, card] };
-          await api.updateDeck(updatedTarget);
-          setDecks(decks.map(d => d.id === targetDeckId ? updatedTarget : d));
-      }
+  // Another deck changed from inside the deck editor (cards moved or copied into it)
+  const handleUpdateOtherDeck = async (deck: Deck) => {
+      setDecks(prev => prev.map(d => d.id === deck.id ? deck : d));
+      await api.updateDeck(deck);
   };
   
+  // Filing decks into folders is an ordinary deck edit, so it syncs (and merges) like any other
+  const handleMoveDecks = async (moves: Record<string, string>) => {
+      const moved = decks.filter(d => moves[d.id] !== undefined).map(d => ({ ...d, folder: moves[d.id] }));
+      setDecks(prev => prev.map(d => moved.find(m => m.id === d.id) || d));
+      for (const deck of moved) await api.updateDeck(deck);
+  };
+
+  const handleOpenDuplicates = (folder: string) => {
+      setDuplicatesFolder(folder);
+      setView(AppView.DUPLICATES);
+  };
+
+  // Merging duplicates can touch many decks; each one is saved once
+  const handleApplyDuplicates = async (changed: Deck[]) => {
+      const originals = decks.filter(d => changed.some(c => c.id === d.id));
+      setDecks(prev => prev.map(d => changed.find(c => c.id === d.id) || d));
+      for (const deck of changed) await api.updateDeck(deck);
+      showUndo(`Merged duplicates in ${changed.length} ${changed.length === 1 ? 'deck' : 'decks'}`, async () => {
+          setDecks(prev => prev.map(d => originals.find(o => o.id === d.id) || d));
+          for (const deck of originals) await api.updateDeck(deck);
+      });
+  };
+
+  const handleResolveConflict = async (merged: Deck, remote: Deck) => {
+      setDecks(prev => prev.map(d => d.id === merged.id ? merged : d));
+      await api.resolveDeckConflict(merged, remote);
+  };
+
+  // Set-aside edits go back to the server; decks and notes are then reloaded so what's shown matches it
+  const handleRetryFailedChanges = async () => {
+      soundService.playClick();
+      await api.retryFailedOps();
+      const [fetchedDecks, fetchedNotes] = await Promise.all([api.getDecks(), api.getNotes()]);
+      setDecks(fetchedDecks);
+      setNotes(fetchedNotes);
+  };
+
+  const handleDiscardFailedChanges = () => {
+      if (!confirm("Discard the changes that couldn't sync? They'll be lost for good.")) return;
+      api.discardFailedOps();
+  };
+
+  const handleLogReview = (log: ReviewLog) => {
+      api.addReviewLog(log);
+  };
+
+  const handleOptimizeScheduler = async (): Promise<number> => {
+      const reviews = reviewsFromLogs(await api.getReviewLogs());
+      if (reviews.length < MIN_REVIEWS_TO_OPTIMIZE) return 0;
+      const fsrsParams = optimizeParameters(reviews, stats.fsrsParams);
+      setStats(prev => {
+          const newStats = { ...prev, fsrsParams };
+          api.syncStats(newStats);
+          return newStats;
+      });
+      return reviews.length;
+  };
+
+  // The Library opens it for one folder or tag; the Dashboard for everything that's due
+  const handleOpenReviewAll = (preset: { deckIds?: string[], tags?: string[] } = {}) => {
+      soundService.playClick();
+      setReviewAllPreset(preset);
+      setShowReviewAll(true);
+  };
+
+  const handleStartReviewAll = (deckIds: string[], strategy: InterleaveStrategy, tags: string[]) => {
+      setShowReviewAll(false);
+      setReviewAll({ deckIds, strategy, tags });
+      setTempDeck(null);
+      setView(AppView.REVIEW_ALL);
+      setShowSidebarMobile(false);
+  };
+
   const handleStudyDeck = (deckId: string, mode: AppView = AppView.STUDY) => {
       soundService.playPop();
       setActiveDeckId(deckId);
@@ -494,6 +645,33 @@ const App: React.FC = () => {
       setView(mode);
   };
 
+  const handleOpenSearchResult = (target: SearchTarget) => {
+      setShowSearch(false);
+      setShowSidebarMobile(false);
+      setTempDeck(null);
+      setTempNote(null);
+      setFocusCardId(null);
+      switch (target.kind) {
+          case 'deck':
+          case 'card':
+              setActiveDeckId(target.deckId);
+              if (target.kind === 'card') setFocusCardId(target.cardId);
+              setView(AppView.EDIT_DECK);
+              break;
+          case 'note':
+              setActiveNoteId(target.noteId);
+              setView(AppView.EDIT_NOTE);
+              break;
+          case 'test':
+              setView(AppView.PREPARATION);
+              break;
+          case 'chat':
+              setCurrentSessionId(target.sessionId);
+              setView(AppView.CARDY);
+              break;
+      }
+  };
+
   // --- Community Hub Handlers ---
   const handleImportItem = (item: Deck | Note, type: 'deck' | 'note') => {
       if (type === 'deck') {
@@ -571,6 +749,8 @@ const App: React.FC = () => {
                     deck={deck} 
                     onExit={() => setView(AppView.DASHBOARD)} 
                     mode={view === AppView.STUDY_SRS ? 'srs' : 'standard'}
+                    fsrsParams={stats.fsrsParams}
+                    onLogReview={!tempDeck && activeDeckId ? handleLogReview : undefined}
                     onUpdateDeck={async (updated) => {
                         // Only save if it's a real deck in the user's library
                         if (!tempDeck && activeDeckId) {
@@ -583,16 +763,40 @@ const App: React.FC = () => {
         }
       }
 
+      if (view === AppView.REVIEW_ALL && reviewAll) {
+        return (
+             <StudyMode
+                  key="review-all"
+                  decks={decks.filter(d => reviewAll.deckIds.includes(d.id))}
+                  interleave={reviewAll.strategy}
+                  tags={reviewAll.tags}
+                  onExit={() => setView(AppView.DASHBOARD)}
+                  mode="srs"
+                  fsrsParams={stats.fsrsParams}
+                  onLogReview={handleLogReview}
+                  onUpdateDeck={async (updated) => {
+                      setDecks(prev => prev.map(d => d.id === updated.id ? updated : d));
+                      await api.updateDeck(updated);
+                  }}
+             />
+        );
+      }
+
       if (view === AppView.CREATE_DECK || (view === AppView.EDIT_DECK && activeDeckId)) {
         const deckToEdit = activeDeckId ? decks.find(d => d.id === activeDeckId) : undefined;
         return (
             <div className="h-full overflow-y-auto">
               <DeckBuilder 
+                key={deckToEdit?.id || 'new'}
                 onSave={handleSaveDeck} 
                 onCancel={() => setView(AppView.DASHBOARD)} 
                 initialDeck={deckToEdit} 
                 allDecks={decks}
-                onMoveCard={handleMoveCard}
+                onUpdateDeck={handleUpdateOtherDeck}
+                conflict={deckToEdit ? deckConflicts.find(c => c.deckId === deckToEdit.id) : undefined}
+                onResolveConflict={handleResolveConflict}
+                onOptimizeScheduler={handleOptimizeScheduler}
+                focusCardId={focusCardId || undefined}
               />
             </div>
         );
@@ -645,6 +849,11 @@ const App: React.FC = () => {
                   onStudy={(id) => handleStudyDeck(id)}
                   onEdit={(id) => { setActiveDeckId(id); setView(AppView.EDIT_DECK); }}
                   onDelete={handleDeleteDeck}
+                  onMoveDecks={handleMoveDecks}
+                  onReviewAll={handleOpenReviewAll}
+                  onFindDuplicates={handleOpenDuplicates}
+                  onOpenTrash={() => setShowTrash(true)}
+                  conflictedDeckIds={deckConflicts.map(c => c.deckId)}
                   onShare={(e, deck) => {
                       e.stopPropagation();
                       alert("Use the share button on the card itself to publish.");
@@ -653,6 +862,17 @@ const App: React.FC = () => {
           );
       }
 
+      if (view === AppView.DUPLICATES) {
+          return (
+              <DuplicatesPage
+                  decks={decksInFolder(decks, duplicatesFolder)}
+                  scopeLabel={duplicatesFolder ? `"${folderName(duplicatesFolder)}"` : 'your library'}
+                  onApply={handleApplyDuplicates}
+                  onBack={() => setView(AppView.FLASHCARDS)}
+              />
+          );
+      }
+
       if (view === AppView.NOTES) {
           return (
               <NotesPage 
@@ -660,6 +880,7 @@ const App: React.FC = () => {
                   onCreateNote={() => { setActiveNoteId(null); setView(AppView.CREATE_NOTE); }}
                   onEditNote={(id) => { setActiveNoteId(id); setView(AppView.EDIT_NOTE); }}
                   onDeleteNote={handleDeleteNote}
+                  onOpenTrash={() => setShowTrash(true)}
                   themeColor={themeColor}
               />
           );
@@ -669,6 +890,7 @@ const App: React.FC = () => {
           const noteToEdit = tempNote || (activeNoteId ? notes.find(n => n.id === activeNoteId) : undefined);
           return (
               <NoteEditor 
+                  key={noteToEdit?.id || 'new'}
                   initialNote={noteToEdit}
                   onSave={(n) => {
                       // If it was a temp note, saving it makes it real.
@@ -725,8 +947,16 @@ const App: React.FC = () => {
 
       if (view === AppView.DOCK) {
           return <DockPage 
+                    decks={decks}
                     onDeckAdded={(d) => setDecks(prev => [d, ...prev])} 
+                    onDeckUpdated={(d) => setDecks(prev => prev.map(x => x.id === d.id ? d : x))}
                     onNoteAdded={(n) => setNotes(prev => [n, ...prev])} 
+                    onTestAdded={(t) => setTests(prev => [...prev, t])}
+                    initialShareCode={sharedCode}
+                    onShareCodeUsed={() => {
+                        setSharedCode(null);
+                        window.history.replaceState(null, '', window.location.pathname);
+                    }}
                  />;
       }
 
@@ -764,6 +994,7 @@ const App: React.FC = () => {
               tests={tests}
               onNavigate={setView}
               onStudy={handleStudyDeck}
+              onReviewAll={() => handleOpenReviewAll()}
               onCreateDeck={handleCreateDeck}
               themeColor={themeColor}
               activeEvent={enableSeasonal ? activeEvent : null}
@@ -781,6 +1012,13 @@ const App: React.FC = () => {
                className={`md:flex fixed left-0 top-0 h-full w-72 transition-transform duration-300 z-50 ${showSidebarMobile ? 'translate-x-0 shadow-2xl' : '-translate-x-full md:translate-x-0'}`}
                themeColor={themeColor}
                activeEvent={enableSeasonal ? activeEvent : null}
+               pendingChanges={pendingChanges}
+               failedChanges={failedChanges}
+               onRetryFailed={handleRetryFailedChanges}
+               onDiscardFailed={handleDiscardFailedChanges}
+               sessionExpired={sessionExpired}
+               onSignIn={() => { soundService.playClick(); setShowSignIn(true); }}
+               onSearch={() => { soundService.playClick(); setShowSearch(true); setShowSidebarMobile(false); }}
            />
            
            {!showSidebarMobile && (
@@ -804,6 +1042,56 @@ const App: React.FC = () => {
            <main className="flex-1 ml-0 md:ml-72 relative transition-all duration-300">
               {renderContent()}
            </main>
+
+           {showSearch && (
+               <SearchPalette
+                   decks={decks}
+                   notes={notes}
+                   tests={tests}
+                   chats={chatSessions}
+                   onOpen={handleOpenSearchResult}
+                   onClose={() => setShowSearch(false)}
+               />
+           )}
+
+           {showReviewAll && (
+               <ReviewAllDialog
+                   decks={decks}
+                   initialDeckIds={reviewAllPreset.deckIds}
+                   initialTags={reviewAllPreset.tags}
+                   onStart={handleStartReviewAll}
+                   onClose={() => setShowReviewAll(false)}
+               />
+           )}
+
+           {showTrash && (
+               <TrashDialog
+                   onRestoreDeck={handleRestoreDeck}
+                   onRestoreNote={handleRestoreNote}
+                   onClose={() => setShowTrash(false)}
+               />
+           )}
+
+           {showSignIn && sessionExpired && (
+               <div className="fixed inset-0 z-[60] overflow-y-auto">
+                   <Auth
+                       notice={pendingChanges > 0
+                           ? `Your session has ended. Sign in again to sync ${pendingChanges} ${pendingChanges === 1 ? 'change' : 'changes'} saved on this device.`
+                           : "Your session has ended. Sign in again to keep syncing."}
+                       onAuthSuccess={() => setShowSignIn(false)}
+                       onCancel={() => setShowSignIn(false)}
+                   />
+               </div>
+           )}
+
+           {undoToast && (
+               <UndoToast
+                   key={undoToast.id}
+                   label={undoToast.label}
+                   onUndo={() => { soundService.playClick(); undoToast.undo(); setUndoToast(null); }}
+                   onDismiss={() => setUndoToast(null)}
+               />
+           )}
        </div>
     </BackgroundWrapper>
   );
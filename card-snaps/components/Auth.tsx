@@ -5,9 +5,12 @@ import { soundService } from '../services/soundService';
 
 interface AuthProps {
     onAuthSuccess: () => void;
+    // Shown above the form, e.g. why the user is asked to sign in again
+    notice?: string;
+    onCancel?: () => void;
 }
 
-export const Auth: React.FC<AuthProps> = ({ onAuthSuccess }) => {
+export const Auth: React.FC<AuthProps> = ({ onAuthSuccess, notice, onCancel }) => {
     const [isLogin, setIsLogin] = useState(true);
     const [email, setEmail] = useState('');
     const [password, setPassword] = useState('');
@@ -56,6 +59,13 @@ export const Auth: React.FC<AuthProps> = ({ onAuthSuccess }) => {
                     <p className="text-slate-400 font-medium">{isLogin ? 'Welcome back, learner!' : 'Create your account.'}</p>
                 </div>
 
+                {notice && (
+                    <div className="p-4 mb-6 bg-amber-500/10 border border-amber-500/20 rounded-xl text-amber-300 text-sm flex items-center gap-3">
+                        <AlertCircle className="w-5 h-5 flex-shrink-0" />
+                        {notice}
+                    </div>
+                )}
+
                 <form onSubmit={handleSubmit} className="space-y-4">
                     {!isLogin && (
                         <div>
@@ -122,6 +132,14 @@ export const Auth: React.FC<AuthProps> = ({ onAuthSuccess }) => {
                     >
                         {isLogin ? "Don't have an account? Sign up" : "Already have an account? Log in"}
                     </button>
+                    {onCancel && (
+                        <button
+                            onClick={onCancel}
+                            className="block mx-auto mt-4 text-slate-500 hover:text-slate-300 font-bold text-sm transition-colors"
+                        >
+                            Not now
+                        </button>
+                    )}
                 </div>
             </div>
         </div>
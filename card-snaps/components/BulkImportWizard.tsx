@@ -0,0 +1,323 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Card, Deck } from '../types';
+import { soundService } from '../services/soundService';
+import {
+  parseDelimited, detectSeparators, looksLikeHeader, guessColumnRoles, rowsToCards,
+  SEPARATOR_PRESETS, Separators, ColumnRole,
+} from '../services/csvService';
+import { CustomSelect } from './CustomSelect';
+import { FileSpreadsheet, X, FileUp, ChevronLeft, ArrowRight, AlertTriangle, Download } from 'lucide-react';
+
+export type BulkImportResult =
+  | { kind: 'new', title: string, cards: Card[] }
+  | { kind: 'append', deckId?: string, cards: Card[] };
+
+interface BulkImportWizardProps {
+  decks?: Deck[];
+  // Fixed destination (the deck open in DeckBuilder); hides the destination picker
+  target?: { title: string, cards: Card[] };
+  onSave: (result: BulkImportResult) => Promise<void> | void;
+  onClose: () => void;
+}
+
+const CUSTOM = 'custom';
+const PREVIEW_ROWS = 50;
+
+const ROLE_OPTIONS: { value: ColumnRole, label: string }[] = [
+  { value: 'front', label: 'Front' },
+  { value: 'back', label: 'Back' },
+  { value: 'color', label: 'Color' },
+  { value: 'tags', label: 'Tags' },
+  { value: 'ignore', label: 'Ignore' },
+];
+
+// Lets users type "\t" or "\n" for separators they can't enter directly
+const unescapeSeparator = (value: string) => value.replace(/\\t/g, '\t').replace(/\\n/g, '\n');
+
+export const BulkImportWizard: React.FC<BulkImportWizardProps> = ({ decks = [], target, onSave, onClose }) => {
+  const [step, setStep] = useState<'source' | 'map'>('source');
+  const [text, setText] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [customField, setCustomField] = useState('');
+  const [customRow, setCustomRow] = useState('');
+  const [fieldMode, setFieldMode] = useState('\t');
+  const [rowMode, setRowMode] = useState('\n');
+  const [hasHeader, setHasHeader] = useState(false);
+  const [roles, setRoles] = useState<ColumnRole[]>([]);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [destination, setDestination] = useState<string>(target ? 'target' : 'new');
+  const [title, setTitle] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const activeSeparators: Separators = {
+    field: fieldMode === CUSTOM ? unescapeSeparator(customField) : fieldMode,
+    row: rowMode === CUSTOM ? unescapeSeparator(customRow) : rowMode,
+  };
+
+  const rows = useMemo(
+    () => text.trim() && activeSeparators.field && activeSeparators.row ? parseDelimited(text, activeSeparators) : [],
+    [text, activeSeparators.field, activeSeparators.row]
+  );
+  const dataRows = useMemo(() => hasHeader ? rows.slice(1) : rows, [rows, hasHeader]);
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0);
+
+  const existingCards = useMemo(
+    () => target ? target.cards : decks.find(d => d.id === destination)?.cards || [],
+    [target, decks, destination]
+  );
+  const parsed = useMemo(
+    () => rowsToCards(dataRows, roles, existingCards),
+    [dataRows, roles, existingCards]
+  );
+  const duplicateCount = parsed.filter(r => r.duplicate).length;
+  const toImport = parsed.filter(r => !(skipDuplicates && r.duplicate)).map(r => r.card);
+
+  const loadText = (value: string, name: string | null) => {
+    // Guess separators for a fresh file or paste, but don't fight the user while they edit
+    if (name || !text.trim()) {
+      const detected = name?.toLowerCase().endsWith('.csv') ? { field: ',', row: '\n' } : detectSeparators(value);
+      setFieldMode(detected.field);
+      setRowMode(detected.row);
+    }
+    setText(value);
+    setFileName(name);
+    if (name && !title) setTitle(name.replace(/\.[^.]+$/, ''));
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    soundService.playClick();
+    loadText(await file.text(), file.name);
+  };
+
+  const handleContinue = () => {
+    if (rows.length === 0) return;
+    soundService.playPop();
+    const header = looksLikeHeader(rows[0]);
+    setHasHeader(header);
+    const width = Math.max(columnCount, 2);
+    const firstRow = Array.from({ length: width }, (_, i) => rows[0][i] || '');
+    setRoles(guessColumnRoles(firstRow, header));
+    setStep('map');
+  };
+
+  const setRole = (column: number, role: ColumnRole) => {
+    setRoles(prev => prev.map((r, i) => {
+      if (i === column) return role;
+      // Front and back map to a single column each
+      return (role === 'front' || role === 'back') && r === role ? 'ignore' : r;
+    }));
+  };
+
+  const canSave = toImport.length > 0 && roles.includes('front') && roles.includes('back') && (destination !== 'new' || title.trim());
+
+  const handleSave = async () => {
+    if (!canSave || saving) return;
+    setSaving(true);
+    setError('');
+    try {
+      await onSave(destination === 'new'
+        ? { kind: 'new', title: title.trim(), cards: toImport }
+        : { kind: 'append', deckId: target ? undefined : destination, cards: toImport });
+      soundService.playSuccess();
+      onClose();
+    } catch (err: any) {
+      setError(err?.message || "Couldn't save these cards.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const separatorSelect = (
+    label: string,
+    presets: { label: string, value: string }[],
+    mode: string,
+    setMode: (value: string) => void,
+    custom: string,
+    setCustom: (value: string) => void
+  ) => (
+    <div>
+      <label className="block text-[10px] font-bold text-[var(--text-tertiary)] mb-1 uppercase tracking-wider pl-1">{label}</label>
+      <CustomSelect
+        value={mode}
+        onChange={setMode}
+        options={[...presets.map(p => ({ value: p.value, label: p.label })), { value: CUSTOM, label: 'Custom' }]}
+      />
+      {mode === CUSTOM && (
+        <input
+          value={custom}
+          onChange={(e) => setCustom(e.target.value)}
+          placeholder="e.g. | or \t"
+          className="mt-2 w-full bg-[var(--input-bg)] glass-input border border-[var(--glass-border)] rounded-xl px-3 py-2 text-sm text-[var(--text-primary)] outline-none font-mono"
+        />
+      )}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-md p-4 animate-pop-in">
+      <div className="glass-panel w-full max-w-3xl max-h-[90vh] flex flex-col p-6 md:p-8 rounded-[2.5rem] shadow-2xl border-[var(--glass-border)] bg-[var(--glass-bg)]">
+        <div className="flex items-start justify-between mb-6">
+          <div>
+            <h3 className="text-2xl font-bold text-[var(--text-primary)] flex items-center gap-3">
+              <FileSpreadsheet className="w-6 h-6 text-sky-500" /> Bulk Import
+            </h3>
+            <p className="text-sm text-[var(--text-secondary)] font-medium mt-1">
+              {step === 'source' ? 'Upload a CSV/TSV file or paste cards exported from Quizlet.' : 'Choose what each column holds and check the preview.'}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 text-[var(--text-tertiary)] hover:text-[var(--text-primary)] transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {step === 'source' ? (
+          <div className="flex-1 overflow-y-auto custom-scrollbar pr-2 space-y-4">
+            <input ref={fileInputRef} type="file" accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values,text/plain" onChange={handleFile} className="hidden" />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="w-full py-4 bg-[var(--input-bg)] hover:bg-[var(--card-hover)] border border-dashed border-[var(--glass-border)] text-[var(--text-primary)] font-bold rounded-2xl transition-all flex items-center justify-center gap-3"
+            >
+              <FileUp className="w-5 h-5 text-sky-500" /> {fileName ? fileName : 'Choose a .csv, .tsv or .txt file'}
+            </button>
+            <textarea
+              value={text}
+              onChange={(e) => loadText(e.target.value, null)}
+              placeholder={'Or paste here, one card per line:\nphotosynthesis\tHow plants turn light into energy\nmitosis\tCell division into two identical cells'}
+              className="w-full h-48 bg-[var(--input-bg)] glass-input border border-[var(--glass-border)] rounded-3xl p-5 text-[var(--text-primary)] outline-none resize-none font-mono text-sm transition-all focus:ring-2 focus:ring-sky-500/50 shadow-inner"
+            />
+            <div className="grid grid-cols-2 gap-4">
+              {separatorSelect('Between term and definition', SEPARATOR_PRESETS.field, fieldMode, setFieldMode, customField, setCustomField)}
+              {separatorSelect('Between cards', SEPARATOR_PRESETS.row, rowMode, setRowMode, customRow, setCustomRow)}
+            </div>
+            {text.trim() && (
+              <p className="text-xs text-[var(--text-tertiary)] pl-1">{rows.length} {rows.length === 1 ? 'row' : 'rows'} · {columnCount} {columnCount === 1 ? 'column' : 'columns'} found</p>
+            )}
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto custom-scrollbar pr-2 space-y-4 min-h-0">
+            <label className="flex items-center gap-2 text-sm font-bold text-[var(--text-secondary)] pl-1 cursor-pointer">
+              <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} className="accent-indigo-500" />
+              First row is a header
+            </label>
+
+            <div className="overflow-x-auto rounded-2xl border border-[var(--glass-border)] bg-[var(--input-bg)]">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr>
+                    {roles.map((role, column) => (
+                      <th key={column} className="p-2 min-w-[140px] text-left align-top">
+                        <CustomSelect value={role} onChange={(value) => setRole(column, value as ColumnRole)} options={ROLE_OPTIONS} />
+                        {hasHeader && rows[0][column] && (
+                          <span className="block text-[10px] text-[var(--text-tertiary)] font-bold uppercase tracking-wider mt-1 pl-1 truncate">{rows[0][column]}</span>
+                        )}
+                      </th>
+                    ))}
+                    <th className="p-2 w-24"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {dataRows.slice(0, PREVIEW_ROWS).map((row, index) => {
+                    const status = parsed[index]?.duplicate;
+                    return (
+                      <tr key={index} className={`border-t border-[var(--glass-border)] ${status && skipDuplicates ? 'opacity-40' : ''}`}>
+                        {roles.map((role, column) => (
+                          <td key={column} className={`p-2 max-w-[220px] truncate ${role === 'ignore' ? 'text-[var(--text-tertiary)]' : 'text-[var(--text-primary)] font-medium'}`}>
+                            {row[column]}
+                          </td>
+                        ))}
+                        <td className="p-2 text-right">
+                          {status && (
+                            <span className="inline-flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider text-amber-500" title={status === 'existing' ? 'Already in the deck' : 'Repeated in this import'}>
+                              <AlertTriangle className="w-3 h-3" /> Duplicate
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            {dataRows.length > PREVIEW_ROWS && (
+              <p className="text-xs text-[var(--text-tertiary)] pl-1">Showing the first {PREVIEW_ROWS} of {dataRows.length} rows.</p>
+            )}
+
+            {duplicateCount > 0 && (
+              <label className="flex items-center gap-2 text-sm font-bold text-amber-500 pl-1 cursor-pointer">
+                <input type="checkbox" checked={skipDuplicates} onChange={(e) => setSkipDuplicates(e.target.checked)} className="accent-amber-500" />
+                Skip {duplicateCount} {duplicateCount === 1 ? 'duplicate' : 'duplicates'}
+              </label>
+            )}
+
+            {target && (
+              <p className="text-xs text-[var(--text-tertiary)] pl-1">Cards will be added to <span className="font-bold text-[var(--text-secondary)]">{target.title || 'this deck'}</span>.</p>
+            )}
+            {!target && (
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-[10px] font-bold text-[var(--text-tertiary)] mb-1 uppercase tracking-wider pl-1">Destination</label>
+                  <CustomSelect
+                    value={destination}
+                    onChange={setDestination}
+                    options={[{ value: 'new', label: 'New deck' }, ...decks.map(d => ({ value: d.id, label: d.title }))]}
+                  />
+                </div>
+                {destination === 'new' && (
+                  <div>
+                    <label className="block text-[10px] font-bold text-[var(--text-tertiary)] mb-1 uppercase tracking-wider pl-1">Deck Title</label>
+                    <input
+                      value={title}
+                      onChange={(e) => setTitle(e.target.value)}
+                      placeholder="e.g. Biology Vocabulary"
+                      className="w-full bg-[var(--input-bg)] glass-input border border-[var(--glass-border)] rounded-xl px-3 py-2.5 text-sm text-[var(--text-primary)] outline-none"
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+
+            {error && (
+              <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-2xl text-red-400 text-sm flex items-center gap-2">
+                <AlertTriangle className="w-4 h-4" /> {error}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-between gap-3 mt-6">
+          {step === 'map' ? (
+            <button onClick={() => setStep('source')} className="px-4 py-2 text-[var(--text-secondary)] hover:text-[var(--text-primary)] font-bold transition-colors flex items-center gap-1">
+              <ChevronLeft className="w-4 h-4" /> Back
+            </button>
+          ) : (
+            <button onClick={onClose} className="px-6 py-2 text-[var(--text-secondary)] hover:text-[var(--text-primary)] font-bold transition-colors">
+              Cancel
+            </button>
+          )}
+          {step === 'source' ? (
+            <button
+              onClick={handleContinue}
+              disabled={rows.length === 0}
+              className="px-6 py-3 bg-gradient-to-r from-sky-600 to-indigo-600 hover:from-sky-500 hover:to-indigo-500 text-white font-bold rounded-2xl shadow-xl shadow-indigo-500/20 transition-all flex items-center gap-2 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Continue <ArrowRight className="w-5 h-5" />
+            </button>
+          ) : (
+            <button
+              onClick={handleSave}
+              disabled={!canSave || saving}
+              className="px-6 py-3 bg-gradient-to-r from-sky-600 to-indigo-600 hover:from-sky-500 hover:to-indigo-500 text-white font-bold rounded-2xl shadow-xl shadow-indigo-500/20 transition-all flex items-center gap-2 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Download className="w-5 h-5" /> {saving ? 'Importing...' : `Import ${toImport.length} ${toImport.length === 1 ? 'card' : 'cards'}`}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
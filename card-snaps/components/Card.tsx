@@ -1,6 +1,8 @@
 import React from 'react';
 import { Card as CardType } from '../types';
 import { soundService } from '../services/soundService';
+import { clozeSegments } from '../services/clozeService';
+import { RichText, InlineRichText } from './RichText';
 
 interface CardProps {
   card: CardType;
@@ -11,6 +13,27 @@ interface CardProps {
   disabled?: boolean;
 }
 
+// One side of a card, with formatting and media. Cloze cards highlight the asked deletion instead of showing plain text.
+export const CardText: React.FC<{ card: CardType, side: 'front' | 'back' }> = ({ card, side }) => {
+  if (!card.cloze) return <RichText text={side === 'front' ? card.front : card.back} />;
+
+  const reveal = side === 'back';
+  return (
+    <>
+      <span className="whitespace-pre-wrap">
+        {clozeSegments(card.cloze.text, card.cloze.index, reveal).map((segment, i) =>
+          segment.kind === 'text' ? <InlineRichText key={i} text={segment.text} />
+          : segment.kind === 'blank' ? <span key={i} className="inline-block px-2 mx-0.5 rounded-lg bg-indigo-500/15 text-indigo-600 border-b-2 border-indigo-500">{segment.text}</span>
+          : <span key={i} className="px-1 rounded-md bg-indigo-400/25 text-indigo-200 font-bold"><InlineRichText text={segment.text} /></span>
+        )}
+      </span>
+      {reveal && card.cloze.extra && (
+        <RichText text={card.cloze.extra} className="mt-4 text-base font-normal opacity-70" />
+      )}
+    </>
+  );
+};
+
 export const Card: React.FC<CardProps> = ({ 
   card, 
   isFlipped, 
@@ -43,8 +66,8 @@ export const Card: React.FC<CardProps> = ({
            <div className="absolute inset-0 bg-gradient-to-br from-white/40 to-transparent pointer-events-none rounded-3xl"></div>
            
            <div className="relative z-10 w-full h-full flex flex-col items-center justify-center">
-             <div className="absolute top-0 left-0 text-[10px] font-bold opacity-40 uppercase tracking-[0.2em] text-slate-900 border border-slate-900/20 px-3 py-1 rounded-full">Question</div>
-             <div className="text-3xl font-bold leading-relaxed drop-shadow-sm text-slate-800">{card.front}</div>
+             <div className="absolute top-0 left-0 text-[10px] font-bold opacity-40 uppercase tracking-[0.2em] text-slate-900 border border-slate-900/20 px-3 py-1 rounded-full">{card.cloze ? 'Cloze' : card.direction === 'reverse' ? 'Reverse' : 'Question'}</div>
+             <div className="text-3xl font-bold leading-relaxed drop-shadow-sm text-slate-800"><CardText card={card} side="front" /></div>
              <div className="absolute bottom-0 text-[10px] font-medium opacity-50 uppercase tracking-widest flex items-center gap-2">
                 <span className="w-1 h-1 bg-slate-800 rounded-full animate-pulse"></span>
                 Tap to flip
@@ -63,7 +86,7 @@ export const Card: React.FC<CardProps> = ({
 
           <div className="relative z-10 w-full h-full flex flex-col items-center justify-center">
             <div className="absolute top-0 left-0 text-[10px] font-bold opacity-50 uppercase tracking-[0.2em] text-indigo-300 border border-indigo-500/30 px-3 py-1 rounded-full">Answer</div>
-            <div className="text-2xl font-medium leading-relaxed text-slate-100">{card.back}</div>
+            <div className="text-2xl font-medium leading-relaxed text-slate-100"><CardText card={card} side="back" /></div>
           </div>
         </div>
       </div>
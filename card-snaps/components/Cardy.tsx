@@ -1,18 +1,21 @@
 import React, { useState, useEffect } from 'react';
-import { Bot, X, MessageCircle, GraduationCap, Zap } from 'lucide-react';
+import { Bot, X, MessageCircle, GraduationCap, Zap, Layers } from 'lucide-react';
 import { Deck, Test } from '../types';
+import { getDueCards } from '../services/srsService';
 
 interface CardyProps {
   decks: Deck[];
   tests: Test[];
   onNavigateToStudy: (deckId: string) => void;
   onNavigateToPrep: () => void;
+  onReviewAll?: () => void;
 }
 
-export const Cardy: React.FC<CardyProps> = ({ decks, tests, onNavigateToStudy, onNavigateToPrep }) => {
+export const Cardy: React.FC<CardyProps> = ({ decks, tests, onNavigateToStudy, onNavigateToPrep, onReviewAll }) => {
   const [isOpen, setIsOpen] = useState(true);
   const [message, setMessage] = useState('');
   const [mood, setMood] = useState<'happy' | 'urgent' | 'chill'>('happy');
+  const [cardsWaiting, setCardsWaiting] = useState(0);
 
   useEffect(() => {
     // Logic to determine Cardy's advice
@@ -21,6 +24,7 @@ export const Cardy: React.FC<CardyProps> = ({ decks, tests, onNavigateToStudy, o
     
     // 1. Check upcoming tests (within 3 days)
     const urgentTest = tests.find(t => t.date > now && t.date < now + (3 * oneDay));
+    setCardsWaiting(0);
     
     if (urgentTest) {
       setMood('urgent');
@@ -31,11 +35,12 @@ export const Cardy: React.FC<CardyProps> = ({ decks, tests, onNavigateToStudy, o
     // 2. Check for overdue cards
     let totalDue = 0;
     decks.forEach(d => {
-      totalDue += d.cards.filter(c => !c.srs || c.srs.dueDate <= now).length;
+      totalDue += getDueCards(d, now).length;
     });
 
     if (totalDue > 5) {
       setMood('urgent');
+      setCardsWaiting(totalDue);
       setMessage(`You have ${totalDue} cards waiting for review. Consistency is key! 🧠`);
       return;
     }
@@ -90,7 +95,14 @@ export const Cardy: React.FC<CardyProps> = ({ decks, tests, onNavigateToStudy, o
              </p>
 
              <div className="flex gap-2">
-                {mood === 'urgent' ? (
+                {cardsWaiting > 0 && onReviewAll ? (
+                   <button 
+                      onClick={onReviewAll}
+                      className="px-3 py-1.5 bg-red-500 hover:bg-red-600 text-white text-xs font-bold rounded-lg transition-colors flex items-center gap-1"
+                   >
+                     <Layers className="w-3 h-3" /> Review All
+                   </button>
+                ) : mood === 'urgent' ? (
                    <button 
                       onClick={onNavigateToPrep}
                       className="px-3 py-1.5 bg-red-500 hover:bg-red-600 text-white text-xs font-bold rounded-lg transition-colors flex items-center gap-1"
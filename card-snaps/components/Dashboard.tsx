@@ -2,7 +2,8 @@
 import React from 'react';
 import { Deck, AppView, Test, UserProfile, SeasonalEvent } from '../types';
 import { soundService } from '../services/soundService';
-import { Plus, Play, Zap, ArrowRight, Layers, GraduationCap, ChevronRight, Snowflake, Flower, Sun, Flame, Wheat, Moon, Gift, Coffee } from 'lucide-react';
+import { getDueCards } from '../services/srsService';
+import { Plus, Play, Zap, ArrowRight, Layers, GraduationCap, ChevronRight, Clock, Snowflake, Flower, Sun, Flame, Wheat, Moon, Gift, Coffee } from 'lucide-react';
 
 interface DashboardProps {
     userProfile: UserProfile;
@@ -10,15 +11,18 @@ interface DashboardProps {
     tests: Test[];
     onNavigate: (view: AppView) => void;
     onStudy: (deckId: string) => void;
+    onReviewAll?: () => void;
     onCreateDeck: () => void;
     themeColor: string;
     activeEvent: SeasonalEvent | null;
 }
 
-export const Dashboard: React.FC<DashboardProps> = ({ userProfile, decks, tests, onNavigate, onStudy, onCreateDeck, themeColor, activeEvent }) => {
+export const Dashboard: React.FC<DashboardProps> = ({ userProfile, decks, tests, onNavigate, onStudy, onReviewAll, onCreateDeck, themeColor, activeEvent }) => {
     
     const recentDecks = [...decks].sort((a, b) => b.createdAt - a.createdAt).slice(0, 3);
     const upcomingTest = tests.sort((a, b) => a.date - b.date).find(t => t.date > Date.now());
+    const dueDecks = decks.map(d => getDueCards(d).length).filter(count => count > 0);
+    const totalDue = dueDecks.reduce((sum, count) => sum + count, 0);
 
     const getThemeClasses = () => {
         const map: Record<string, { bg: string, text: string, border: string, shadow: string, gradient: string }> = {
@@ -96,6 +100,27 @@ export const Dashboard: React.FC<DashboardProps> = ({ userProfile, decks, tests,
                 </div>
             )}
 
+            {/* Due Cards Banner */}
+            {onReviewAll && totalDue > 0 && (
+                <button
+                    onClick={onReviewAll}
+                    className="w-full mb-6 md:mb-8 glass-panel p-4 md:p-6 rounded-[1.5rem] md:rounded-[2rem] border border-[var(--glass-border)] hover:bg-[var(--card-hover)] flex items-center gap-4 text-left group transition-all duration-300 hover:-translate-y-1 hover:shadow-xl animate-pop-in"
+                >
+                    <div className={`w-12 h-12 md:w-14 md:h-14 rounded-xl md:rounded-2xl ${theme.bg}/10 flex items-center justify-center ${theme.text} flex-shrink-0 group-hover:scale-110 transition-transform`}>
+                        <Clock className="w-6 h-6 md:w-7 md:h-7" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                        <h3 className="text-lg md:text-2xl font-bold text-[var(--text-primary)]">Review All Due</h3>
+                        <p className="text-[var(--text-secondary)] font-medium text-xs md:text-base">
+                            {totalDue} {totalDue === 1 ? 'card' : 'cards'} waiting across {dueDecks.length} {dueDecks.length === 1 ? 'deck' : 'decks'}
+                        </p>
+                    </div>
+                    <div className={`hidden sm:inline-flex items-center gap-2 font-bold ${theme.bg} text-white px-4 py-2 md:px-5 md:py-3 rounded-xl md:rounded-2xl shadow-lg text-xs md:text-sm`}>
+                        Start <Play className="w-3 h-3 md:w-4 md:h-4 fill-current" />
+                    </div>
+                </button>
+            )}
+
             {/* Main Grid */}
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 md:gap-8">
                 
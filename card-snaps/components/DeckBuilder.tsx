@@ -1,71 +1,428 @@
-import React, { useState } from 'react';
-import { Deck, Card, CARD_COLORS } from '../types';
+import React, { useState, useRef, useEffect } from 'react';
+import { Deck, Card, CARD_COLORS, SchedulerType, StudyOptions, NewCardOrder, DeckVersion } from '../types';
 import { soundService } from '../services/soundService';
-import { Plus, Trash2, ArrowLeft, Save, MoveRight } from 'lucide-react';
+import { DeckConflict } from '../services/api';
+import { migrateFromSM2 } from '../services/fsrsService';
+import { parseSteps, formatSteps, getStudyOptions, studiesReverse, DEFAULT_LEARNING_STEPS, DEFAULT_RELEARNING_STEPS } from '../services/srsService';
+import { DeckMergeDialog } from './DeckMergeDialog';
+import { CustomSelect } from './CustomSelect';
+import { BulkImportWizard } from './BulkImportWizard';
+import { RichTextInput } from './RichTextInput';
+import { toPlainText, hasRichContent } from '../services/richTextService';
+import { RichText } from './RichText';
+import { buildClozeCards, getClozeNumbers, nextClozeNumber, renderCloze } from '../services/clozeService';
+import { getAllFolders, normalizeFolder, parseTags } from '../services/libraryService';
+import { History, MAX_HISTORY, createHistory, pushHistory, undoHistory, redoHistory, historyShortcut } from '../services/historyService';
+import { UndoToast } from './UndoToast';
+import { DeckHistoryPanel } from './DeckHistoryPanel';
+import { restoreVersionCards, restoreCardsFromVersion } from '../services/deckHistoryService';
+import { findAndReplace, swapSides, resetProgress, recolor, addTags, removeTags, copyCards, withSiblings, FindReplaceOptions, CardSide } from '../services/cardEditService';
+import { Plus, Trash2, ArrowLeft, Save, MoveRight, GitMerge, Sparkles, Loader2, FileSpreadsheet, ArrowLeftRight, Tag, Copy, Palette, RotateCcw, FlipHorizontal2, Replace, CheckSquare, Square, Undo2, Redo2, X, History as HistoryIcon } from 'lucide-react';
 
 interface DeckBuilderProps {
   onSave: (deck: Deck) => void;
   onCancel: () => void;
   initialDeck?: Deck;
   allDecks: Deck[];
-  onMoveCard: (card: Card, targetDeckId: string) => void;
+  // Saves another deck that cards were moved or copied into; called alongside onSave
+  onUpdateDeck: (deck: Deck) => void;
+  conflict?: DeckConflict;
+  onResolveConflict?: (merged: Deck, remote: Deck) => void;
+  // Fits FSRS to the user's review history; resolves to how many reviews were used (0 = not enough yet)
+  onOptimizeScheduler?: () => Promise<number>;
+  // Scrolled to and highlighted on open (a search result)
+  focusCardId?: string;
 }
 
-export const DeckBuilder: React.FC<DeckBuilderProps> = ({ onSave, onCancel, initialDeck, allDecks, onMoveCard }) => {
+// One step of the editor's undo history. `transfer` marks a step that also puts cards into another
+// deck. Like the rest of the edit it only lands there on Save, so Cancel leaves both decks as they were.
+// `details` marks one that also replaced the title, description and folder (a restore or a merge);
+// typing in those fields isn't a step, so only these changes are undone with the cards.
+interface EditStep {
+  cards: Card[];
+  label: string;
+  transfer?: { deckId: string, cards: Card[] };
+  details?: { before: DeckDetails, after: DeckDetails };
+}
+
+interface DeckDetails {
+  title: string;
+  description: string;
+  folder: string;
+}
+
+const cardCount = (n: number) => `${n} ${n === 1 ? 'card' : 'cards'}`;
+
+const BulkButton: React.FC<{ icon: React.ReactNode, label: string, onClick: () => void, active?: boolean, danger?: boolean, disabled?: boolean }> = ({ icon, label, onClick, active, danger, disabled }) => (
+  <button
+    onClick={onClick}
+    disabled={disabled}
+    title={label}
+    className={`p-2 rounded-xl transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${active ? 'bg-indigo-500 text-white' : danger ? 'text-[var(--text-secondary)] hover:text-red-400 hover:bg-red-500/10' : 'text-[var(--text-secondary)] hover:text-indigo-500 hover:bg-indigo-500/10'}`}
+  >
+    {icon}
+  </button>
+);
+
+export const DeckBuilder: React.FC<DeckBuilderProps> = ({ onSave, onCancel, initialDeck, allDecks, onUpdateDeck, conflict, onResolveConflict, onOptimizeScheduler, focusCardId }) => {
   const [title, setTitle] = useState(initialDeck?.title || '');
   const [description, setDescription] = useState(initialDeck?.description || '');
-  const [cards, setCards] = useState<Card[]>(initialDeck?.cards || []);
+  const [folder, setFolder] = useState(initialDeck?.folder || '');
+  const [history, setHistory] = useState<History<EditStep>>(() => createHistory({ cards: initialDeck?.cards || [], label: '' }));
+  const cards = history.present.cards;
+  // Transfers from steps that fell off the end of the undo history; they still go out on Save
+  const [settledTransfers, setSettledTransfers] = useState<NonNullable<EditStep['transfer']>[]>([]);
+  const pendingTransfers = [...settledTransfers, ...[...history.past, history.present].flatMap(step => step.transfer ? [step.transfer] : [])];
+  const [toast, setToast] = useState<{ id: number, label: string } | null>(null);
+  const [scheduler, setScheduler] = useState<SchedulerType>(initialDeck?.scheduler || 'sm2');
+  const [learningSteps, setLearningSteps] = useState(formatSteps(initialDeck?.learningSteps ?? DEFAULT_LEARNING_STEPS));
+  const [relearningSteps, setRelearningSteps] = useState(formatSteps(initialDeck?.relearningSteps ?? DEFAULT_RELEARNING_STEPS));
+  const parsedLearningSteps = parseSteps(learningSteps);
+  const parsedRelearningSteps = parseSteps(relearningSteps);
+  const [studyOptions, setStudyOptions] = useState<StudyOptions>(getStudyOptions(initialDeck || {}));
+  const updateStudyOptions = (changes: Partial<StudyOptions>) => setStudyOptions(prev => ({ ...prev, ...changes }));
+  const [studyReverse, setStudyReverse] = useState(!!initialDeck?.studyReverse);
   
   // New Card State
   const [front, setFront] = useState('');
   const [back, setBack] = useState('');
   const [selectedColor, setSelectedColor] = useState(CARD_COLORS[0]);
+  // Kept between cards, so a run of cards can share tags
+  const [newTags, setNewTags] = useState('');
+  const [cardType, setCardType] = useState<'basic' | 'cloze'>('basic');
+  const [clozeText, setClozeText] = useState('');
+  const [clozeExtra, setClozeExtra] = useState('');
+  const clozeInputRef = useRef<HTMLTextAreaElement>(null);
+  const clozeCount = getClozeNumbers(clozeText).length;
+
+  // Move / Copy Modal State
+  const [moveRequest, setMoveRequest] = useState<{ cards: Card[], copy: boolean } | null>(null);
+
+  // Selection & Bulk Edit State
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const lastSelectedId = useRef<string | null>(null);
+  const [showRecolor, setShowRecolor] = useState(false);
+  const [bulkTagMode, setBulkTagMode] = useState<'add' | 'remove' | null>(null);
+  const [bulkTagDraft, setBulkTagDraft] = useState('');
+  const [showFindReplace, setShowFindReplace] = useState(false);
+  const [findOptions, setFindOptions] = useState<FindReplaceOptions>({ find: '', replace: '', side: 'both', matchCase: false });
+  const selectedCards = cards.filter(c => selectedIds.has(c.id));
+  // Find & replace works on the selection, or on the whole deck when nothing is selected
+  const replaceScope = withSiblings(cards, selectedIds.size > 0 ? selectedIds : new Set(cards.map(c => c.id)));
+  const replacePreview = showFindReplace ? findAndReplace(cards, replaceScope, findOptions) : null;
+
+  // Tag Editor State
+  const [cardToTag, setCardToTag] = useState<Card | null>(null);
+  const [tagDraft, setTagDraft] = useState('');
+
+  // Sync Conflict State
+  const [showMerge, setShowMerge] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+
+  const [showBulkImport, setShowBulkImport] = useState(false);
+
+  // FSRS Personalisation State
+  const [optimizing, setOptimizing] = useState(false);
+  const [optimizeResult, setOptimizeResult] = useState<string | null>(null);
+
+  const cardListRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    if (!focusCardId) return;
+    cardListRef.current?.querySelector(`[data-card-id="${focusCardId}"]`)?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [focusCardId]);
+
+  // Undone steps can bring back or take away selected cards
+  useEffect(() => {
+    if ([...selectedIds].some(id => !cards.some(c => c.id === id))) {
+      setSelectedIds(new Set(cards.filter(c => selectedIds.has(c.id)).map(c => c.id)));
+    }
+  }, [cards]);
 
-  // Move Modal State
-  const [cardToMove, setCardToMove] = useState<Card | null>(null);
+  // Outside text fields, where the browser's own undo applies
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, [contenteditable="true"]')) return;
+      const action = historyShortcut(e);
+      if (!action) return;
+      e.preventDefault();
+      if (action === 'undo') handleUndo(); else handleRedo();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  const handleOptimize = async () => {
+    if (!onOptimizeScheduler || optimizing) return;
+    soundService.playClick();
+    setOptimizing(true);
+    try {
+      const used = await onOptimizeScheduler();
+      setOptimizeResult(used > 0 ? `Tuned to your last ${used} reviews.` : 'Not enough review history yet. Keep studying!');
+      if (used > 0) soundService.playSuccess();
+    } finally {
+      setOptimizing(false);
+    }
+  };
 
   const handleAddCard = () => {
     if (!front.trim() || !back.trim()) return;
     
     soundService.playPop();
+    const tags = parseTags(newTags);
     const newCard: Card = {
       id: crypto.randomUUID(),
       front,
       back,
-      color: selectedColor
+      color: selectedColor,
+      ...(tags.length > 0 && { tags })
     };
     
-    setCards([...cards, newCard]);
+    commitCards([...cards, newCard], 'Add card');
     setFront('');
     setBack('');
   };
 
+  // Wraps the selected text as the next cloze, {{cN::...}}
+  const handleMakeCloze = () => {
+    const input = clozeInputRef.current;
+    if (!input) return;
+    const { selectionStart, selectionEnd } = input;
+    const selected = clozeText.slice(selectionStart, selectionEnd);
+    const opening = `{{c${nextClozeNumber(clozeText)}::`;
+    const wrapped = `${opening}${selected}}}`;
+    setClozeText(clozeText.slice(0, selectionStart) + wrapped + clozeText.slice(selectionEnd));
+    // Put the caret inside an empty cloze, or after a wrapped selection
+    const caret = selectionStart + (selected ? wrapped.length : opening.length);
+    requestAnimationFrame(() => { input.focus(); input.setSelectionRange(caret, caret); });
+  };
+
+  const handleAddCloze = () => {
+    if (clozeCount === 0) return;
+    soundService.playPop();
+    const tags = parseTags(newTags);
+    const clozeCards = buildClozeCards(clozeText, clozeExtra, selectedColor);
+    commitCards([...cards, ...(tags.length > 0 ? clozeCards.map(c => ({ ...c, tags })) : clozeCards)], 'Add cloze');
+    setClozeText('');
+    setClozeExtra('');
+  };
+
+  // Flips whether this card is also asked back→front, overriding the deck setting
+  const handleToggleReverse = (card: Card) => {
+    soundService.playClick();
+    const reverse = !studiesReverse(card, { studyReverse });
+    commitCards(cards.map(c => c.id === card.id ? { ...c, reverse } : c), reverse ? 'Study both ways' : 'Study one way');
+  };
+
+  const openTagEditor = (card: Card) => {
+    soundService.playClick();
+    setCardToTag(card);
+    setTagDraft((card.tags || []).join(' '));
+  };
+
+  // Cloze siblings share their source, so they share tags too
+  const handleSaveTags = () => {
+    if (!cardToTag) return;
+    soundService.playPop();
+    const tags = parseTags(tagDraft);
+    const inGroup = (c: Card) => c.id === cardToTag.id || (!!cardToTag.cloze && !!c.groupId && c.groupId === cardToTag.groupId);
+    commitCards(cards.map(c => {
+      if (!inGroup(c)) return c;
+      const { tags: _, ...rest } = c;
+      return tags.length > 0 ? { ...rest, tags } : rest;
+    }), 'Edit tags');
+    setCardToTag(null);
+  };
+
   const handleDeleteCard = (id: string) => {
     soundService.playClick();
-    setCards(cards.filter(c => c.id !== id));
+    commitCards(cards.filter(c => c.id !== id), 'Deleted 1 card', { notify: true });
+  };
+
+  // Every change to the card list goes through here, so it can be undone.
+  // `notify` offers an undo toast, for edits that lose or move cards.
+  const commitCards = (next: Card[], label: string, { transfer, details, notify }: { transfer?: EditStep['transfer'], details?: DeckDetails, notify?: boolean } = {}) => {
+    const dropped = history.past.length >= MAX_HISTORY ? history.past[0].transfer : undefined;
+    if (dropped) setSettledTransfers(prev => [...prev, dropped]);
+    if (details) applyDetails(details);
+    setHistory(pushHistory(history, {
+      cards: next,
+      label,
+      ...(transfer && { transfer }),
+      ...(details && { details: { before: { title, description, folder }, after: details } }),
+    }));
+    setToast(notify ? { id: Date.now(), label } : null);
+  };
+
+  const applyDetails = (details: DeckDetails) => {
+    setTitle(details.title);
+    setDescription(details.description);
+    setFolder(details.folder);
+  };
+
+  const handleUndo = () => {
+    if (history.past.length === 0) return;
+    soundService.playClick();
+    if (history.present.details) applyDetails(history.present.details.before);
+    setHistory(undoHistory(history));
+    setToast(null);
+  };
+
+  const handleRedo = () => {
+    if (history.future.length === 0) return;
+    soundService.playClick();
+    if (history.future[0].details) applyDetails(history.future[0].details.after);
+    setHistory(redoHistory(history));
+    setToast(null);
+  };
+
+  // Shift-click selects everything between this card and the last one clicked
+  const toggleSelect = (id: string, range: boolean) => {
+    soundService.playClick();
+    const next = new Set(selectedIds);
+    const from = cards.findIndex(c => c.id === lastSelectedId.current);
+    const to = cards.findIndex(c => c.id === id);
+    if (range && from !== -1) {
+      const select = !selectedIds.has(id);
+      cards.slice(Math.min(from, to), Math.max(from, to) + 1).forEach(c => select ? next.add(c.id) : next.delete(c.id));
+    } else if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    lastSelectedId.current = id;
+    setSelectedIds(next);
+  };
+
+  const toggleSelectAll = () => {
+    soundService.playClick();
+    setSelectedIds(selectedIds.size === cards.length ? new Set() : new Set(cards.map(c => c.id)));
+  };
+
+  const clearSelection = () => {
+    setSelectedIds(new Set());
+    setShowRecolor(false);
+  };
+
+  const handleBulkDelete = () => {
+    soundService.playClick();
+    commitCards(cards.filter(c => !selectedIds.has(c.id)), `Deleted ${cardCount(selectedIds.size)}`, { notify: true });
+    clearSelection();
+  };
+
+  const handleBulkRecolor = (color: string) => {
+    soundService.playPop();
+    commitCards(recolor(cards, selectedIds, color), `Recolored ${cardCount(selectedIds.size)}`, { notify: true });
+    setShowRecolor(false);
+  };
+
+  // Tags are shared by cloze siblings, like in the single-card tag editor
+  const handleBulkTags = () => {
+    const tags = parseTags(bulkTagDraft);
+    if (!bulkTagMode || tags.length === 0) return;
+    soundService.playPop();
+    const ids = withSiblings(cards, selectedIds);
+    commitCards(
+      bulkTagMode === 'add' ? addTags(cards, ids, tags) : removeTags(cards, ids, tags),
+      `${bulkTagMode === 'add' ? 'Tagged' : 'Untagged'} ${cardCount(ids.size)}`,
+      { notify: true }
+    );
+    setBulkTagMode(null);
+    setBulkTagDraft('');
+  };
+
+  const handleBulkReset = () => {
+    soundService.playClick();
+    commitCards(resetProgress(cards, selectedIds), `Reset progress on ${cardCount(selectedIds.size)}`, { notify: true });
+  };
+
+  const swappable = selectedCards.filter(c => !c.cloze).length;
+  const handleBulkSwap = () => {
+    if (swappable === 0) return;
+    soundService.playClick();
+    commitCards(swapSides(cards, selectedIds), `Swapped sides on ${cardCount(swappable)}`, { notify: true });
+  };
+
+  const handleFindReplace = () => {
+    if (!replacePreview || replacePreview.matches === 0) return;
+    soundService.playSuccess();
+    commitCards(replacePreview.cards, `Replaced ${replacePreview.matches} ${replacePreview.matches === 1 ? 'match' : 'matches'}`, { notify: true });
+    setShowFindReplace(false);
   };
 
+  // A deck emptied by moving its cards elsewhere can still be saved, or the move would never land
+  const canSave = !!title.trim() && (cards.length > 0 || pendingTransfers.length > 0) && !!parsedLearningSteps && !!parsedRelearningSteps;
+
   const handleSaveDeck = () => {
-    if (!title.trim() || cards.length === 0) return;
+    if (!canSave) return;
+    if (!parsedLearningSteps || !parsedRelearningSteps) return;
     soundService.playSuccess();
     
     const deck: Deck = {
       id: initialDeck?.id || crypto.randomUUID(),
       title,
       description,
-      cards,
-      createdAt: initialDeck?.createdAt || Date.now()
+      folder: normalizeFolder(folder),
+      // Switching to FSRS converts existing progress instead of starting over
+      cards: scheduler === 'fsrs' ? cards.map(c => ({
+        ...c,
+        ...(c.srs && { srs: migrateFromSM2(c.srs) }),
+        ...(c.reverseSrs && { reverseSrs: migrateFromSM2(c.reverseSrs) }),
+      })) : cards,
+      scheduler,
+      learningSteps: parsedLearningSteps,
+      relearningSteps: parsedRelearningSteps,
+      studyOptions,
+      studyReverse,
+      studiedToday: initialDeck?.studiedToday,
+      createdAt: initialDeck?.createdAt || Date.now(),
+      revision: initialDeck?.revision
     };
+    // Each receiving deck gets one save with everything sent to it, on top of its latest cards
+    const targets = new Map<string, Deck>();
+    for (const { deckId, cards: incoming } of pendingTransfers) {
+      const target = targets.get(deckId) || allDecks.find(d => d.id === deckId);
+      if (!target) continue;
+      const ids = new Set(incoming.map(c => c.id));
+      targets.set(deckId, { ...target, cards: [...target.cards.filter(c => !ids.has(c.id)), ...incoming] });
+    }
+    targets.forEach(target => onUpdateDeck(target));
     onSave(deck);
   };
 
+  const handleResolveConflict = (merged: Deck, remote: Deck) => {
+    commitCards(merged.cards, 'Merge changes', { details: { title: merged.title, description: merged.description, folder: merged.folder || '' } });
+    setShowMerge(false);
+    onResolveConflict?.(merged, remote);
+  };
+
+  // Restores land in the editor like any other edit: undoable, and kept once the deck is saved
+  const handleRestoreVersion = (version: DeckVersion) => {
+    const details = { title: version.title, description: version.description, folder: version.folder || '' };
+    commitCards(restoreVersionCards(cards, version.cards), `Restore version #${version.revision}`, { details, notify: true });
+    setShowHistory(false);
+  };
+
+  const handleRestoreCards = (version: DeckVersion, ids: Set<string>) => {
+    const next = restoreCardsFromVersion(cards, version.cards, ids);
+    commitCards(next, `Restore ${ids.size === 1 ? 'a card' : cardCount(ids.size)} from version #${version.revision}`, { notify: true });
+  };
+
+  // The receiving deck is written on Save, together with this one
   const executeMove = (deckId: string) => {
-    if (cardToMove) {
-        onMoveCard(cardToMove, deckId);
-        setCards(cards.filter(c => c.id !== cardToMove.id));
-        setCardToMove(null);
-        soundService.playSuccess();
+    const targetDeck = allDecks.find(d => d.id === deckId);
+    if (!moveRequest || !targetDeck) return;
+    const incoming = moveRequest.copy ? copyCards(moveRequest.cards) : moveRequest.cards;
+    const transfer = { deckId, cards: incoming };
+    if (moveRequest.copy) {
+        commitCards(cards, `Copied ${cardCount(incoming.length)} to ${targetDeck.title}`, { transfer, notify: true });
+    } else {
+        const moved = new Set(incoming.map(c => c.id));
+        commitCards(cards.filter(c => !moved.has(c.id)), `Moved ${cardCount(incoming.length)} to ${targetDeck.title}`, { transfer, notify: true });
+        clearSelection();
     }
+    setMoveRequest(null);
+    soundService.playSuccess();
   };
 
   return (
@@ -83,9 +440,34 @@ export const DeckBuilder: React.FC<DeckBuilderProps> = ({ onSave, onCancel, init
         <h2 className="text-xl md:text-4xl font-extrabold bg-gradient-to-r from-pink-400 to-indigo-400 bg-clip-text text-transparent tracking-tight">
           {initialDeck ? 'Edit Deck' : 'Create Deck'}
         </h2>
-        <div className="w-20 md:w-32"></div> 
+        <div className="w-20 md:w-32 flex justify-end">
+          {!!initialDeck?.revision && (
+            <button
+              onClick={() => { soundService.playClick(); setShowHistory(true); }}
+              className="p-3 text-[var(--text-secondary)] hover:text-indigo-500 bg-[var(--input-bg)] hover:bg-indigo-500/10 border border-[var(--glass-border)] rounded-2xl transition-colors flex items-center gap-2 font-bold text-sm"
+              title="Version history"
+            >
+              <HistoryIcon className="w-5 h-5" /> <span className="hidden md:inline">History</span>
+            </button>
+          )}
+        </div>
       </div>
 
+      {conflict && onResolveConflict && (
+        <div className="mb-6 p-4 md:p-5 rounded-2xl bg-amber-500/10 border border-amber-500/20 flex flex-col sm:flex-row sm:items-center justify-between gap-3 animate-fade-in-up">
+          <div className="flex items-center gap-3 text-amber-500">
+            <GitMerge className="w-5 h-5 flex-shrink-0" />
+            <p className="text-sm font-bold">This deck was changed on another device. Your offline edits haven't been saved to the server yet.</p>
+          </div>
+          <button
+            onClick={() => { soundService.playClick(); setShowMerge(true); }}
+            className="px-5 py-2 bg-amber-500 hover:bg-amber-400 text-white text-sm font-bold rounded-xl transition-colors flex-shrink-0"
+          >
+            Review & Merge
+          </button>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-12 gap-6 md:gap-8">
         {/* Left Column: Deck Info & New Card Input */}
         <div className="lg:col-span-4 space-y-6">
@@ -104,6 +486,20 @@ export const DeckBuilder: React.FC<DeckBuilderProps> = ({ onSave, onCancel, init
                     className="w-full bg-[var(--input-bg)] glass-input border border-[var(--glass-border)] rounded-2xl px-5 py-4 text-[var(--text-primary)] outline-none transition-all placeholder-[var(--text-tertiary)]"
                     />
                 </div>
+                <div>
+                    <label className="block text-xs font-bold text-[var(--text-tertiary)] mb-2 uppercase tracking-wider pl-1">Folder</label>
+                    <input
+                    type="text"
+                    list="deck-folders"
+                    placeholder="e.g., Biology::Cells (optional)"
+                    value={folder}
+                    onChange={(e) => setFolder(e.target.value)}
+                    className="w-full bg-[var(--input-bg)] glass-input border border-[var(--glass-border)] rounded-2xl px-5 py-4 text-[var(--text-primary)] outline-none transition-all placeholder-[var(--text-tertiary)]"
+                    />
+                    <datalist id="deck-folders">
+                        {getAllFolders(allDecks).map(path => <option key={path} value={path} />)}
+                    </datalist>
+                </div>
                 <div>
                     <label className="block text-xs font-bold text-[var(--text-tertiary)] mb-2 uppercase tracking-wider pl-1">Description</label>
                     <textarea
@@ -113,31 +509,193 @@ export const DeckBuilder: React.FC<DeckBuilderProps> = ({ onSave, onCancel, init
                     className="w-full bg-[var(--input-bg)] glass-input border border-[var(--glass-border)] rounded-2xl px-5 py-4 text-[var(--text-primary)] outline-none transition-all h-24 md:h-32 resize-none placeholder-[var(--text-tertiary)]"
                     />
                 </div>
+                <div>
+                    <label className="block text-xs font-bold text-[var(--text-tertiary)] mb-2 uppercase tracking-wider pl-1">Review Scheduler</label>
+                    <CustomSelect
+                        value={scheduler}
+                        onChange={(v) => setScheduler(v as SchedulerType)}
+                        options={[
+                            { value: 'sm2', label: 'Classic (SM-2)' },
+                            { value: 'fsrs', label: 'FSRS (adaptive)' }
+                        ]}
+                    />
+                    <div className="grid grid-cols-2 gap-3 mt-3">
+                        <div>
+                            <label className="block text-[10px] font-bold text-[var(--text-tertiary)] mb-1 uppercase tracking-wider pl-1">Learning Steps</label>
+                            <input
+                                type="text"
+                                placeholder="1m 10m"
+                                value={learningSteps}
+                                onChange={(e) => setLearningSteps(e.target.value)}
+                                className={`w-full bg-[var(--input-bg)] glass-input border rounded-xl px-3 py-2 text-sm font-mono text-[var(--text-primary)] outline-none transition-all placeholder-[var(--text-tertiary)] ${parsedLearningSteps ? 'border-[var(--glass-border)]' : 'border-red-500'}`}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-[10px] font-bold text-[var(--text-tertiary)] mb-1 uppercase tracking-wider pl-1">Relearning Steps</label>
+                            <input
+                                type="text"
+                                placeholder="10m"
+                                value={relearningSteps}
+                                onChange={(e) => setRelearningSteps(e.target.value)}
+                                className={`w-full bg-[var(--input-bg)] glass-input border rounded-xl px-3 py-2 text-sm font-mono text-[var(--text-primary)] outline-none transition-all placeholder-[var(--text-tertiary)] ${parsedRelearningSteps ? 'border-[var(--glass-border)]' : 'border-red-500'}`}
+                            />
+                        </div>
+                    </div>
+                    {(!parsedLearningSteps || !parsedRelearningSteps) && (
+                        <p className="text-xs text-red-400 mt-2 pl-1">Use minutes, hours or days, e.g. "1m 10m 1h".</p>
+                    )}
+                    {scheduler === 'fsrs' && onOptimizeScheduler && (
+                        <div className="mt-3">
+                            <button
+                                onClick={handleOptimize}
+                                disabled={optimizing}
+                                className="w-full flex items-center justify-center gap-2 px-4 py-3 rounded-2xl bg-[var(--input-bg)] border border-[var(--glass-border)] text-sm font-bold text-[var(--text-primary)] hover:bg-[var(--card-hover)] transition-colors disabled:opacity-60"
+                            >
+                                {optimizing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4 text-indigo-400" />}
+                                Personalise from my reviews
+                            </button>
+                            {optimizeResult && <p className="text-xs text-[var(--text-secondary)] mt-2 pl-1">{optimizeResult}</p>}
+                        </div>
+                    )}
+                    <label className="block text-xs font-bold text-[var(--text-tertiary)] mt-5 mb-2 uppercase tracking-wider pl-1">Daily Limits</label>
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="block text-[10px] font-bold text-[var(--text-tertiary)] mb-1 uppercase tracking-wider pl-1">New Cards</label>
+                            <input
+                                type="number"
+                                min={0}
+                                value={studyOptions.newPerDay}
+                                onChange={(e) => updateStudyOptions({ newPerDay: Math.max(0, Number(e.target.value) || 0) })}
+                                className="w-full bg-[var(--input-bg)] glass-input border border-[var(--glass-border)] rounded-xl px-3 py-2 text-sm font-bold text-[var(--text-primary)] outline-none transition-all"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-[10px] font-bold text-[var(--text-tertiary)] mb-1 uppercase tracking-wider pl-1">Max Reviews</label>
+                            <input
+                                type="number"
+                                min={0}
+                                value={studyOptions.reviewsPerDay}
+                                onChange={(e) => updateStudyOptions({ reviewsPerDay: Math.max(0, Number(e.target.value) || 0) })}
+                                className="w-full bg-[var(--input-bg)] glass-input border border-[var(--glass-border)] rounded-xl px-3 py-2 text-sm font-bold text-[var(--text-primary)] outline-none transition-all"
+                            />
+                        </div>
+                    </div>
+                    <div className="mt-3">
+                        <CustomSelect
+                            value={studyOptions.newOrder}
+                            onChange={(v) => updateStudyOptions({ newOrder: v as NewCardOrder })}
+                            options={[
+                                { value: 'sequential', label: 'New cards in deck order' },
+                                { value: 'random', label: 'New cards in random order' }
+                            ]}
+                        />
+                    </div>
+                    <button
+                        onClick={() => { soundService.playClick(); updateStudyOptions({ burySiblings: !studyOptions.burySiblings }); }}
+                        className={`mt-3 w-full flex items-center justify-between px-4 py-3 rounded-2xl border text-sm font-bold transition-colors ${studyOptions.burySiblings ? 'bg-indigo-500/10 border-indigo-500/40 text-[var(--text-primary)]' : 'bg-[var(--input-bg)] border-[var(--glass-border)] text-[var(--text-secondary)]'}`}
+                    >
+                        Bury related cards until tomorrow
+                        <span className={`w-9 h-5 rounded-full p-0.5 transition-colors ${studyOptions.burySiblings ? 'bg-indigo-500' : 'bg-slate-600'}`}>
+                            <span className={`block w-4 h-4 rounded-full bg-white transition-transform ${studyOptions.burySiblings ? 'translate-x-4' : ''}`} />
+                        </span>
+                    </button>
+                    <button
+                        onClick={() => { soundService.playClick(); setStudyReverse(!studyReverse); }}
+                        className={`mt-3 w-full flex items-center justify-between px-4 py-3 rounded-2xl border text-sm font-bold transition-colors ${studyReverse ? 'bg-indigo-500/10 border-indigo-500/40 text-[var(--text-primary)]' : 'bg-[var(--input-bg)] border-[var(--glass-border)] text-[var(--text-secondary)]'}`}
+                    >
+                        Also study every card back → front
+                        <span className={`w-9 h-5 rounded-full p-0.5 transition-colors ${studyReverse ? 'bg-indigo-500' : 'bg-slate-600'}`}>
+                            <span className={`block w-4 h-4 rounded-full bg-white transition-transform ${studyReverse ? 'translate-x-4' : ''}`} />
+                        </span>
+                    </button>
+                </div>
             </div>
           </div>
 
           <div className="glass-panel p-6 md:p-8 rounded-[2rem] relative overflow-hidden group hover:shadow-xl transition-shadow border-[var(--glass-border)]">
-            <h3 className="text-lg font-bold mb-6 text-indigo-500 mt-2">Add New Card</h3>
+            <div className="flex items-center justify-between mb-6 mt-2">
+              <h3 className="text-lg font-bold text-indigo-500">Add New Card</h3>
+              <div className="flex p-1 rounded-xl bg-[var(--input-bg)] border border-[var(--glass-border)]">
+                {(['basic', 'cloze'] as const).map(type => (
+                  <button
+                    key={type}
+                    onClick={() => { soundService.playClick(); setCardType(type); }}
+                    className={`px-3 py-1 rounded-lg text-xs font-bold capitalize transition-colors ${cardType === type ? 'bg-indigo-500 text-white shadow-sm' : 'text-[var(--text-secondary)] hover:text-[var(--text-primary)]'}`}
+                  >
+                    {type}
+                  </button>
+                ))}
+              </div>
+            </div>
             
             <div className="space-y-4 md:space-y-6">
+              {cardType === 'cloze' ? (
+                <>
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <label className="block text-xs font-bold text-[var(--text-tertiary)] uppercase tracking-wider pl-1">Text</label>
+                      <button
+                        onClick={handleMakeCloze}
+                        className="text-xs font-bold text-indigo-500 hover:text-indigo-400 px-2 py-1 rounded-lg hover:bg-indigo-500/10 transition-colors"
+                        title="Wrap the selection as a new cloze (Ctrl+Shift+C)"
+                      >
+                        [...] Make cloze
+                      </button>
+                    </div>
+                    <textarea
+                      ref={clozeInputRef}
+                      value={clozeText}
+                      onChange={(e) => setClozeText(e.target.value)}
+                      onKeyDown={(e) => {
+                        if ((e.ctrlKey || e.metaKey) && e.shiftKey && e.key.toLowerCase() === 'c') { e.preventDefault(); handleMakeCloze(); }
+                      }}
+                      className="w-full bg-[var(--input-bg)] glass-input border border-[var(--glass-border)] rounded-2xl px-5 py-4 text-[var(--text-primary)] outline-none transition-all h-28 md:h-32 resize-none placeholder-[var(--text-tertiary)] font-mono text-sm"
+                      placeholder="The {{c1::mitochondria}} is the {{c2::powerhouse}} of the cell"
+                    />
+                    <p className="text-[11px] text-[var(--text-tertiary)] mt-1 pl-1">
+                      {clozeCount > 0 ? `Creates ${clozeCount} ${clozeCount === 1 ? 'card' : 'cards'}, one per cloze.` : 'Select a word and press Make cloze. Add a hint with {{c1::answer::hint}}.'}
+                    </p>
+                    {hasRichContent(clozeText) && (
+                      <div className="mt-2 p-4 rounded-2xl border border-dashed border-[var(--glass-border)] text-[var(--text-primary)] text-sm">
+                        <span className="block text-[10px] font-bold text-[var(--text-tertiary)] uppercase tracking-wider mb-2">Preview</span>
+                        <RichText text={renderCloze(clozeText, 0, true)} />
+                      </div>
+                    )}
+                  </div>
+
+                  <div>
+                    <label className="block text-xs font-bold text-[var(--text-tertiary)] mb-2 uppercase tracking-wider pl-1">Extra (optional)</label>
+                    <input
+                      type="text"
+                      value={clozeExtra}
+                      onChange={(e) => setClozeExtra(e.target.value)}
+                      className="w-full bg-[var(--input-bg)] glass-input border border-[var(--glass-border)] rounded-2xl px-5 py-4 text-[var(--text-primary)] outline-none transition-all placeholder-[var(--text-tertiary)]"
+                      placeholder="Shown with the answer..."
+                    />
+                  </div>
+                </>
+              ) : (
+                <>
+                  <div>
+                    <label className="block text-xs font-bold text-[var(--text-tertiary)] mb-2 uppercase tracking-wider pl-1">Front (Question)</label>
+                    <RichTextInput value={front} onChange={setFront} placeholder="Enter question..." className="h-20" />
+                  </div>
+              
+                  <div>
+                    <label className="block text-xs font-bold text-[var(--text-tertiary)] mb-2 uppercase tracking-wider pl-1">Back (Answer)</label>
+                    <RichTextInput value={back} onChange={setBack} placeholder="Enter answer..." />
+                  </div>
+                </>
+              )}
+
               <div>
-                <label className="block text-xs font-bold text-[var(--text-tertiary)] mb-2 uppercase tracking-wider pl-1">Front (Question)</label>
+                <label className="block text-xs font-bold text-[var(--text-tertiary)] mb-2 uppercase tracking-wider pl-1">Tags</label>
                 <input
                   type="text"
-                  value={front}
-                  onChange={(e) => setFront(e.target.value)}
+                  value={newTags}
+                  onChange={(e) => setNewTags(e.target.value)}
                   className="w-full bg-[var(--input-bg)] glass-input border border-[var(--glass-border)] rounded-2xl px-5 py-4 text-[var(--text-primary)] outline-none transition-all placeholder-[var(--text-tertiary)]"
-                  placeholder="Enter question..."
-                />
-              </div>
-              
-              <div>
-                <label className="block text-xs font-bold text-[var(--text-tertiary)] mb-2 uppercase tracking-wider pl-1">Back (Answer)</label>
-                <textarea
-                  value={back}
-                  onChange={(e) => setBack(e.target.value)}
-                  className="w-full bg-[var(--input-bg)] glass-input border border-[var(--glass-border)] rounded-2xl px-5 py-4 text-[var(--text-primary)] outline-none transition-all h-24 md:h-32 resize-none placeholder-[var(--text-tertiary)]"
-                  placeholder="Enter answer..."
+                  placeholder="e.g., exam-1 hard (optional)"
                 />
               </div>
 
@@ -155,8 +713,8 @@ export const DeckBuilder: React.FC<DeckBuilderProps> = ({ onSave, onCancel, init
               </div>
 
               <button
-                onClick={handleAddCard}
-                disabled={!front.trim() || !back.trim()}
+                onClick={cardType === 'cloze' ? handleAddCloze : handleAddCard}
+                disabled={cardType === 'cloze' ? clozeCount === 0 : !front.trim() || !back.trim()}
                 className="w-full py-4 bg-[var(--input-bg)] hover:bg-[var(--card-hover)] border border-[var(--glass-border)] disabled:opacity-50 disabled:cursor-not-allowed rounded-2xl font-bold text-[var(--text-primary)] flex items-center justify-center gap-3 transition-all active:scale-95 hover:shadow-lg mt-4"
               >
                 <Plus className="w-5 h-5" /> Add to Deck
@@ -171,16 +729,85 @@ export const DeckBuilder: React.FC<DeckBuilderProps> = ({ onSave, onCancel, init
                <h3 className="text-xl md:text-2xl font-bold text-[var(--text-primary)] flex items-center gap-3">
                    Cards <span className="bg-[var(--input-bg)] px-3 py-1 rounded-lg text-base text-indigo-500 font-extrabold border border-[var(--glass-border)]">{cards.length}</span>
                </h3>
+               {cards.length > 0 && (
+                 <button
+                    onClick={toggleSelectAll}
+                    className="ml-3 p-2 text-[var(--text-tertiary)] hover:text-indigo-500 rounded-xl transition-colors"
+                    title={selectedIds.size === cards.length ? 'Select none' : 'Select all'}
+                 >
+                   {selectedIds.size === cards.length ? <CheckSquare className="w-5 h-5 text-indigo-500" /> : <Square className="w-5 h-5" />}
+                 </button>
+               )}
+               <div className="ml-auto mr-3 flex bg-[var(--input-bg)] border border-[var(--glass-border)] rounded-2xl p-1">
+                 <button
+                    onClick={handleUndo}
+                    disabled={history.past.length === 0}
+                    className="p-2 text-[var(--text-secondary)] hover:text-indigo-500 rounded-xl transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                    title={history.past.length > 0 ? `Undo: ${history.present.label} (Ctrl+Z)` : 'Nothing to undo'}
+                 >
+                   <Undo2 className="w-5 h-5" />
+                 </button>
+                 <button
+                    onClick={handleRedo}
+                    disabled={history.future.length === 0}
+                    className="p-2 text-[var(--text-secondary)] hover:text-indigo-500 rounded-xl transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                    title={history.future.length > 0 ? `Redo: ${history.future[0].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                 >
+                   <Redo2 className="w-5 h-5" />
+                 </button>
+               </div>
+               <button
+                  onClick={() => { soundService.playClick(); setShowFindReplace(true); }}
+                  disabled={cards.length === 0}
+                  className="mr-3 p-3 text-[var(--text-secondary)] hover:text-indigo-500 bg-[var(--input-bg)] hover:bg-indigo-500/10 border border-[var(--glass-border)] rounded-2xl transition-colors flex items-center gap-2 font-bold text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Find and replace"
+               >
+                 <Replace className="w-5 h-5" />
+               </button>
+               <button
+                  onClick={() => { soundService.playClick(); setShowBulkImport(true); }}
+                  className="mr-3 p-3 text-[var(--text-secondary)] hover:text-sky-500 bg-[var(--input-bg)] hover:bg-sky-500/10 border border-[var(--glass-border)] rounded-2xl transition-colors flex items-center gap-2 font-bold text-sm"
+                  title="Import cards from CSV, TSV or Quizlet"
+               >
+                 <FileSpreadsheet className="w-5 h-5" /> <span className="hidden sm:inline">Import</span>
+               </button>
                <button
                   onClick={handleSaveDeck}
-                  disabled={cards.length === 0 || !title.trim()}
+                  disabled={!canSave}
                   className="px-6 md:px-10 py-3 bg-gradient-to-r from-emerald-500 to-teal-500 hover:from-emerald-400 hover:to-teal-400 text-white font-bold rounded-2xl shadow-xl shadow-emerald-500/20 transition-all flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed transform hover:-translate-y-1 active:translate-y-0 active:scale-95"
                >
                  <Save className="w-5 h-5" /> <span className="hidden sm:inline">Save Deck</span>
                </button>
             </div>
+
+            {selectedIds.size > 0 && (
+              <div className="mb-3 px-4 py-2 rounded-2xl bg-indigo-500/10 border border-indigo-500/30 animate-fade-in-up">
+                <div className="flex flex-wrap items-center gap-1">
+                  <span className="text-sm font-bold text-indigo-500 mr-auto">{selectedIds.size} selected</span>
+                  <BulkButton icon={<MoveRight className="w-5 h-5" />} label="Move to another deck" onClick={() => { soundService.playClick(); setMoveRequest({ cards: selectedCards, copy: false }); }} />
+                  <BulkButton icon={<Copy className="w-5 h-5" />} label="Copy to another deck" onClick={() => { soundService.playClick(); setMoveRequest({ cards: selectedCards, copy: true }); }} />
+                  <BulkButton icon={<Palette className="w-5 h-5" />} label="Recolor" active={showRecolor} onClick={() => { soundService.playClick(); setShowRecolor(!showRecolor); }} />
+                  <BulkButton icon={<Tag className="w-5 h-5" />} label="Add or remove tags" onClick={() => { soundService.playClick(); setBulkTagMode('add'); }} />
+                  <BulkButton icon={<FlipHorizontal2 className="w-5 h-5" />} label={swappable > 0 ? 'Swap front and back' : 'Cloze cards can\'t be swapped'} disabled={swappable === 0} onClick={handleBulkSwap} />
+                  <BulkButton icon={<RotateCcw className="w-5 h-5" />} label="Reset study progress" onClick={handleBulkReset} />
+                  <BulkButton icon={<Trash2 className="w-5 h-5" />} label="Delete" danger onClick={handleBulkDelete} />
+                  <BulkButton icon={<X className="w-5 h-5" />} label="Clear selection" onClick={clearSelection} />
+                </div>
+                {showRecolor && (
+                  <div className="flex flex-wrap gap-3 pt-3 pb-1">
+                    {CARD_COLORS.map(color => (
+                      <button
+                        key={color}
+                        onClick={() => handleBulkRecolor(color)}
+                        className={`w-8 h-8 rounded-full ${color} shadow-md transition-all duration-300 hover:scale-110 border border-black/5 hover:ring-2 hover:ring-indigo-500/40`}
+                      />
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
             
-            <div className="flex-1 glass-panel rounded-[2rem] p-4 md:p-6 overflow-y-auto custom-scrollbar space-y-3 md:space-y-4 bg-[var(--input-bg)]">
+            <div ref={cardListRef} className="flex-1 glass-panel rounded-[2rem] p-4 md:p-6 overflow-y-auto custom-scrollbar space-y-3 md:space-y-4 bg-[var(--input-bg)]">
               {cards.length === 0 ? (
                 <div className="h-full flex flex-col items-center justify-center text-[var(--text-tertiary)] py-20">
                    <div className="w-24 h-24 border-2 border-dashed border-[var(--glass-border)] rounded-3xl mb-6 flex items-center justify-center animate-pulse-soft">
@@ -192,18 +819,53 @@ export const DeckBuilder: React.FC<DeckBuilderProps> = ({ onSave, onCancel, init
                 cards.map((card, index) => (
                   <div 
                     key={card.id} 
+                    data-card-id={card.id}
                     style={{ animationDelay: `${index * 50}ms` }}
-                    className="group flex items-center gap-4 md:gap-6 bg-[var(--glass-bg)] hover:bg-[var(--card-hover)] p-4 md:p-5 rounded-2xl border border-[var(--glass-border)] transition-all animate-pop-in hover:shadow-lg hover:translate-x-1"
+                    className={`group flex items-center gap-4 md:gap-6 bg-[var(--glass-bg)] hover:bg-[var(--card-hover)] p-4 md:p-5 rounded-2xl border transition-all animate-pop-in hover:shadow-lg hover:translate-x-1 ${card.id === focusCardId ? 'border-indigo-500 ring-2 ring-indigo-500/40' : selectedIds.has(card.id) ? 'border-indigo-500/60' : 'border-[var(--glass-border)]'}`}
                   >
+                    <button
+                      onClick={(e) => toggleSelect(card.id, e.shiftKey)}
+                      className="-mr-2 md:-mr-3 p-1 text-[var(--text-tertiary)] hover:text-indigo-500 transition-colors flex-shrink-0"
+                      title="Select (Shift-click for a range)"
+                    >
+                      {selectedIds.has(card.id) ? <CheckSquare className="w-5 h-5 text-indigo-500" /> : <Square className="w-5 h-5" />}
+                    </button>
                     <div className={`w-12 h-16 md:w-16 md:h-24 rounded-xl shadow-sm flex-shrink-0 ${card.color} border border-black/5 transform transition-transform duration-300 group-hover:scale-110 group-hover:rotate-3`}></div>
                     <div className="flex-1 min-w-0">
-                      <p className="font-bold text-[var(--text-primary)] truncate text-base md:text-lg mb-1 md:mb-2">{card.front}</p>
-                      <p className="text-sm text-[var(--text-secondary)] truncate font-medium">{card.back}</p>
+                      <p className="font-bold text-[var(--text-primary)] truncate text-base md:text-lg mb-1 md:mb-2">
+                        {card.cloze && <span className="inline-block mr-2 px-2 py-0.5 rounded-md bg-indigo-500/10 text-indigo-500 text-[10px] font-extrabold uppercase tracking-wider align-middle">Cloze {card.cloze.index}</span>}
+                        {studiesReverse(card, { studyReverse }) && <span className="inline-block mr-2 px-2 py-0.5 rounded-md bg-violet-500/10 text-violet-500 text-[10px] font-extrabold uppercase tracking-wider align-middle">Both ways</span>}
+                        {toPlainText(card.front)}
+                      </p>
+                      <p className="text-sm text-[var(--text-secondary)] truncate font-medium">{toPlainText(card.back)}</p>
+                      {card.tags && card.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-2">
+                          {card.tags.map(tag => (
+                            <span key={tag} className="px-2 py-0.5 rounded-md bg-indigo-500/10 text-indigo-400 text-[10px] font-bold">#{tag}</span>
+                          ))}
+                        </div>
+                      )}
                     </div>
                     
                     <div className="flex gap-2 opacity-100 lg:opacity-0 lg:group-hover:opacity-100 transition-opacity duration-200 lg:transform lg:translate-x-4 lg:group-hover:translate-x-0">
+                        {!card.cloze && (
+                          <button
+                            onClick={() => handleToggleReverse(card)}
+                            className={`p-2 md:p-3 rounded-xl transition-colors ${studiesReverse(card, { studyReverse }) ? 'text-violet-500 bg-violet-500/10' : 'text-[var(--text-tertiary)] hover:text-violet-500 hover:bg-violet-500/10'}`}
+                            title={studiesReverse(card, { studyReverse }) ? 'Stop studying back → front' : 'Also study back → front'}
+                          >
+                            <ArrowLeftRight className="w-5 h-5" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => openTagEditor(card)}
+                          className="p-2 md:p-3 text-[var(--text-tertiary)] hover:text-indigo-500 hover:bg-indigo-500/10 rounded-xl transition-colors"
+                          title="Edit tags"
+                        >
+                            <Tag className="w-5 h-5" />
+                        </button>
                         <button
-                          onClick={() => setCardToMove(card)}
+                          onClick={() => setMoveRequest({ cards: [card], copy: false })}
                           className="p-2 md:p-3 text-[var(--text-tertiary)] hover:text-indigo-500 hover:bg-indigo-500/10 rounded-xl transition-colors"
                           title="Move to another deck"
                         >
@@ -224,12 +886,62 @@ export const DeckBuilder: React.FC<DeckBuilderProps> = ({ onSave, onCancel, init
         </div>
       </div>
 
-      {/* Move Card Modal */}
-      {cardToMove && (
+      {showBulkImport && (
+        <BulkImportWizard
+          target={{ title, cards }}
+          onSave={(result) => commitCards([...cards, ...result.cards], 'Import cards')}
+          onClose={() => setShowBulkImport(false)}
+        />
+      )}
+
+      {showMerge && conflict && (
+        <DeckMergeDialog conflict={conflict} onResolve={handleResolveConflict} onClose={() => setShowMerge(false)} />
+      )}
+
+      {/* Tag Editor Modal */}
+      {cardToTag && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-md p-4 animate-pop-in">
+             <div className="glass-panel w-full max-w-sm p-8 rounded-[2.5rem] shadow-2xl border-[var(--glass-border)] bg-[var(--glass-bg)]">
+                <h3 className="text-2xl font-bold mb-4 text-[var(--text-primary)]">Edit Tags</h3>
+                <p className="text-sm text-[var(--text-secondary)] mb-6 font-medium">Tags for "<span className="text-[var(--text-primary)] font-bold">{toPlainText(cardToTag.front)}</span>". Separate them with spaces.</p>
+                <input
+                    type="text"
+                    autoFocus
+                    value={tagDraft}
+                    onChange={(e) => setTagDraft(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') handleSaveTags(); }}
+                    className="w-full bg-[var(--input-bg)] glass-input border border-[var(--glass-border)] rounded-2xl px-5 py-4 text-[var(--text-primary)] outline-none transition-all placeholder-[var(--text-tertiary)] mb-8"
+                    placeholder="exam-1 hard"
+                />
+                <div className="flex justify-end gap-3">
+                    <button 
+                        onClick={() => setCardToTag(null)}
+                        className="px-6 py-2 text-[var(--text-secondary)] hover:text-[var(--text-primary)] font-bold transition-colors"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleSaveTags}
+                        className="px-6 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl font-bold transition-colors"
+                    >
+                        Save
+                    </button>
+                </div>
+             </div>
+        </div>
+      )}
+
+      {/* Move / Copy Cards Modal */}
+      {moveRequest && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-md p-4 animate-pop-in">
              <div className="glass-panel w-full max-w-sm p-8 rounded-[2.5rem] shadow-2xl border-[var(--glass-border)] bg-[var(--glass-bg)]">
-                <h3 className="text-2xl font-bold mb-4 text-[var(--text-primary)]">Move Card</h3>
-                <p className="text-sm text-[var(--text-secondary)] mb-8 font-medium">Where should we move "<span className="text-[var(--text-primary)] font-bold">{cardToMove.front}</span>"?</p>
+                <h3 className="text-2xl font-bold mb-4 text-[var(--text-primary)]">{moveRequest.copy ? 'Copy' : 'Move'} {moveRequest.cards.length === 1 ? 'Card' : 'Cards'}</h3>
+                <p className="text-sm text-[var(--text-secondary)] mb-8 font-medium">
+                    Where should we {moveRequest.copy ? 'copy' : 'move'} {moveRequest.cards.length === 1
+                        ? <>"<span className="text-[var(--text-primary)] font-bold">{toPlainText(moveRequest.cards[0].front)}</span>"</>
+                        : <span className="text-[var(--text-primary)] font-bold">{cardCount(moveRequest.cards.length)}</span>}?
+                    {moveRequest.copy && ' Copies start with no study progress.'}
+                </p>
                 
                 <div className="max-h-60 overflow-y-auto space-y-3 mb-8 pr-2 custom-scrollbar">
                     {allDecks.filter(d => d.id !== (initialDeck?.id)).map(deck => (
@@ -249,15 +961,143 @@ export const DeckBuilder: React.FC<DeckBuilderProps> = ({ onSave, onCancel, init
 
                 <div className="flex justify-end">
                     <button 
-                        onClick={() => setCardToMove(null)}
+                        onClick={() => setMoveRequest(null)}
+                        className="px-6 py-2 text-[var(--text-secondary)] hover:text-[var(--text-primary)] font-bold transition-colors"
+                    >
+                        Cancel
+                    </button>
+                </div>
+             </div>
+        </div>
+      )}
+
+      {/* Bulk Tags Modal */}
+      {bulkTagMode && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-md p-4 animate-pop-in">
+             <div className="glass-panel w-full max-w-sm p-8 rounded-[2.5rem] shadow-2xl border-[var(--glass-border)] bg-[var(--glass-bg)]">
+                <h3 className="text-2xl font-bold mb-4 text-[var(--text-primary)]">Tag {cardCount(selectedIds.size)}</h3>
+                <div className="flex p-1 rounded-xl bg-[var(--input-bg)] border border-[var(--glass-border)] mb-4">
+                  {(['add', 'remove'] as const).map(mode => (
+                    <button
+                      key={mode}
+                      onClick={() => { soundService.playClick(); setBulkTagMode(mode); }}
+                      className={`flex-1 px-3 py-1.5 rounded-lg text-xs font-bold capitalize transition-colors ${bulkTagMode === mode ? 'bg-indigo-500 text-white shadow-sm' : 'text-[var(--text-secondary)] hover:text-[var(--text-primary)]'}`}
+                    >
+                      {mode}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-sm text-[var(--text-secondary)] mb-6 font-medium">
+                    {bulkTagMode === 'add' ? 'Added to the tags each card already has.' : 'Taken off every selected card that has them.'} Separate them with spaces.
+                </p>
+                <input
+                    type="text"
+                    autoFocus
+                    value={bulkTagDraft}
+                    onChange={(e) => setBulkTagDraft(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') handleBulkTags(); }}
+                    className="w-full bg-[var(--input-bg)] glass-input border border-[var(--glass-border)] rounded-2xl px-5 py-4 text-[var(--text-primary)] outline-none transition-all placeholder-[var(--text-tertiary)] mb-8"
+                    placeholder="exam-1 hard"
+                />
+                <div className="flex justify-end gap-3">
+                    <button
+                        onClick={() => { setBulkTagMode(null); setBulkTagDraft(''); }}
                         className="px-6 py-2 text-[var(--text-secondary)] hover:text-[var(--text-primary)] font-bold transition-colors"
                     >
                         Cancel
                     </button>
+                    <button
+                        onClick={handleBulkTags}
+                        disabled={parseTags(bulkTagDraft).length === 0}
+                        className="px-6 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl font-bold transition-colors disabled:opacity-50"
+                    >
+                        {bulkTagMode === 'add' ? 'Add' : 'Remove'}
+                    </button>
                 </div>
              </div>
         </div>
       )}
+
+      {/* Find & Replace Modal */}
+      {showFindReplace && replacePreview && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-md p-4 animate-pop-in">
+             <div className="glass-panel w-full max-w-md p-8 rounded-[2.5rem] shadow-2xl border-[var(--glass-border)] bg-[var(--glass-bg)]">
+                <h3 className="text-2xl font-bold mb-2 text-[var(--text-primary)]">Find & Replace</h3>
+                <p className="text-sm text-[var(--text-secondary)] mb-6 font-medium">
+                    In {selectedIds.size > 0 ? `the ${cardCount(replaceScope.size)} selected` : `all ${cardCount(cards.length)}`}.
+                </p>
+                <div className="space-y-3 mb-4">
+                    <input
+                        type="text"
+                        autoFocus
+                        value={findOptions.find}
+                        onChange={(e) => setFindOptions({ ...findOptions, find: e.target.value })}
+                        className="w-full bg-[var(--input-bg)] glass-input border border-[var(--glass-border)] rounded-2xl px-5 py-4 text-[var(--text-primary)] outline-none transition-all placeholder-[var(--text-tertiary)]"
+                        placeholder="Find..."
+                    />
+                    <input
+                        type="text"
+                        value={findOptions.replace}
+                        onChange={(e) => setFindOptions({ ...findOptions, replace: e.target.value })}
+                        onKeyDown={(e) => { if (e.key === 'Enter') handleFindReplace(); }}
+                        className="w-full bg-[var(--input-bg)] glass-input border border-[var(--glass-border)] rounded-2xl px-5 py-4 text-[var(--text-primary)] outline-none transition-all placeholder-[var(--text-tertiary)]"
+                        placeholder="Replace with..."
+                    />
+                </div>
+                <div className="flex items-center gap-3 mb-6">
+                    <div className="flex flex-1 p-1 rounded-xl bg-[var(--input-bg)] border border-[var(--glass-border)]">
+                      {(['both', 'front', 'back'] as CardSide[]).map(side => (
+                        <button
+                          key={side}
+                          onClick={() => { soundService.playClick(); setFindOptions({ ...findOptions, side }); }}
+                          className={`flex-1 px-3 py-1.5 rounded-lg text-xs font-bold capitalize transition-colors ${findOptions.side === side ? 'bg-indigo-500 text-white shadow-sm' : 'text-[var(--text-secondary)] hover:text-[var(--text-primary)]'}`}
+                        >
+                          {side}
+                        </button>
+                      ))}
+                    </div>
+                    <button
+                        onClick={() => { soundService.playClick(); setFindOptions({ ...findOptions, matchCase: !findOptions.matchCase }); }}
+                        className={`px-3 py-2 rounded-xl border text-xs font-bold transition-colors ${findOptions.matchCase ? 'bg-indigo-500/10 border-indigo-500/40 text-indigo-500' : 'bg-[var(--input-bg)] border-[var(--glass-border)] text-[var(--text-secondary)]'}`}
+                        title="Match case"
+                    >
+                        Aa
+                    </button>
+                </div>
+                <p className="text-xs text-[var(--text-tertiary)] mb-6 pl-1">
+                    {!findOptions.find ? 'Cloze cards are searched in their text and extra.' : replacePreview.matches === 0 ? 'No matches.' : `${replacePreview.matches} ${replacePreview.matches === 1 ? 'match' : 'matches'} will be replaced.`}
+                </p>
+                <div className="flex justify-end gap-3">
+                    <button
+                        onClick={() => setShowFindReplace(false)}
+                        className="px-6 py-2 text-[var(--text-secondary)] hover:text-[var(--text-primary)] font-bold transition-colors"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleFindReplace}
+                        disabled={replacePreview.matches === 0}
+                        className="px-6 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl font-bold transition-colors disabled:opacity-50"
+                    >
+                        Replace All
+                    </button>
+                </div>
+             </div>
+        </div>
+      )}
+
+      {showHistory && initialDeck && (
+        <DeckHistoryPanel
+          deckId={initialDeck.id}
+          title={title}
+          cards={cards}
+          onRestoreVersion={handleRestoreVersion}
+          onRestoreCards={handleRestoreCards}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
+      {toast && <UndoToast key={toast.id} label={toast.label} onUndo={handleUndo} onDismiss={() => setToast(null)} />}
     </div>
   );
 };
\ No newline at end of file
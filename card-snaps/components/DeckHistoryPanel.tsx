@@ -0,0 +1,199 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card, DeckVersion, DeckVersionSummary } from '../types';
+import { api } from '../services/api';
+import { soundService } from '../services/soundService';
+import { toPlainText } from '../services/richTextService';
+import { diffVersion, VersionCardChange, CardField } from '../services/deckHistoryService';
+import { History, X, Loader2, ArchiveRestore, UserRound, AlertCircle } from 'lucide-react';
+
+interface DeckHistoryPanelProps {
+  deckId: string;
+  // What's in the editor now; versions are compared against it
+  title: string;
+  cards: Card[];
+  onRestoreVersion: (version: DeckVersion) => void;
+  onRestoreCards: (version: DeckVersion, ids: Set<string>) => void;
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<CardField, string> = {
+  front: 'Front',
+  back: 'Back',
+  color: 'Color',
+  tags: 'Tags',
+  reverse: 'Reverse',
+};
+
+const KIND_STYLES: Record<VersionCardChange['kind'], { label: string, className: string }> = {
+  removed: { label: 'Deleted since', className: 'border-red-500/30 bg-red-500/5 text-red-400' },
+  changed: { label: 'Changed since', className: 'border-amber-500/30 bg-amber-500/5 text-amber-400' },
+  added: { label: 'Added since', className: 'border-emerald-500/30 bg-emerald-500/5 text-emerald-400' },
+};
+
+const describeField = (card: Card, field: CardField) => {
+  if (field === 'tags') return (card.tags || []).map(tag => `#${tag}`).join(' ') || 'No tags';
+  if (field === 'reverse') return card.reverse ? 'Also studied back to front' : 'Front to back only';
+  if (field === 'color') return card.color;
+  return toPlainText(card[field]) || '(empty)';
+};
+
+// Saved versions of a deck, newest first. Picking one compares it with the editor's cards;
+// the whole version or single cards can be restored into the editor, then saved as usual.
+export const DeckHistoryPanel: React.FC<DeckHistoryPanelProps> = ({ deckId, title, cards, onRestoreVersion, onRestoreCards, onClose }) => {
+  const [versions, setVersions] = useState<DeckVersionSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<DeckVersion | null>(null);
+  const [loadingRevision, setLoadingRevision] = useState<number | null>(null);
+
+  useEffect(() => {
+    api.getDeckVersions(deckId).then(setVersions).catch((e: Error) => setError(e.message));
+  }, [deckId]);
+
+  const changes = useMemo(() => selected ? diffVersion(selected.cards, cards) : [], [selected, cards]);
+
+  const handleSelect = async (summary: DeckVersionSummary) => {
+    soundService.playClick();
+    setLoadingRevision(summary.revision);
+    try {
+      setSelected(await api.getDeckVersion(deckId, summary.revision));
+    } catch (e: any) {
+      alert(e.message);
+    } finally {
+      setLoadingRevision(null);
+    }
+  };
+
+  const renderChange = (change: VersionCardChange) => {
+    const style = KIND_STYLES[change.kind];
+    const card = change.version || change.current!;
+    return (
+      <div key={change.id} className={`p-3 rounded-2xl border ${style.className}`}>
+        <div className="flex items-start gap-3">
+          <div className="flex-1 min-w-0">
+            <p className="text-[10px] font-bold uppercase tracking-wider mb-1">
+              {style.label}{change.kind === 'changed' && `: ${change.fields.map(f => FIELD_LABELS[f].toLowerCase()).join(', ')}`}
+            </p>
+            {change.kind === 'changed' ? (
+              change.fields.map(field => (
+                <div key={field} className="text-xs mb-1 break-words">
+                  <span className="font-bold text-[var(--text-tertiary)]">{FIELD_LABELS[field]}: </span>
+                  <span className="text-[var(--text-primary)]">{describeField(change.version!, field)}</span>
+                  <span className="text-[var(--text-tertiary)]"> → now </span>
+                  <span className="text-[var(--text-secondary)] line-through">{describeField(change.current!, field)}</span>
+                </div>
+              ))
+            ) : (
+              <>
+                <p className="font-bold text-sm text-[var(--text-primary)] break-words">{toPlainText(card.front)}</p>
+                <p className="text-xs text-[var(--text-secondary)] break-words">{toPlainText(card.back)}</p>
+              </>
+            )}
+          </div>
+          {change.kind !== 'added' && (
+            <button
+              onClick={() => { soundService.playClick(); onRestoreCards(selected!, new Set([change.id])); }}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-xl bg-[var(--input-bg)] border border-[var(--glass-border)] text-xs font-bold text-[var(--text-primary)] hover:text-indigo-500 transition-colors flex-shrink-0"
+              title="Put this card back the way it was in this version"
+            >
+              <ArchiveRestore className="w-4 h-4" /> Restore
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-md p-4 animate-pop-in">
+      <div className="glass-panel w-full max-w-4xl h-[85vh] flex flex-col p-6 md:p-8 rounded-[2.5rem] shadow-2xl border-[var(--glass-border)] bg-[var(--glass-bg)]">
+        <div className="flex items-start justify-between mb-6">
+          <div>
+            <h3 className="text-2xl font-bold text-[var(--text-primary)] flex items-center gap-3">
+              <History className="w-6 h-6 text-indigo-500" /> Deck History
+            </h3>
+            <p className="text-sm text-[var(--text-secondary)] font-medium mt-1">
+              Every saved change to this deck. Pick a version to compare it with your cards now.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 text-[var(--text-tertiary)] hover:text-[var(--text-primary)] transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 grid grid-cols-1 md:grid-cols-5 gap-4">
+          <div className="md:col-span-2 overflow-y-auto space-y-2 pr-2 custom-scrollbar">
+            {error && (
+              <p className="flex items-center gap-2 p-3 text-sm text-red-400 font-medium"><AlertCircle className="w-4 h-4 flex-shrink-0" /> {error}</p>
+            )}
+            {!versions && !error && (
+              <div className="flex justify-center py-8 text-[var(--text-tertiary)]">
+                <Loader2 className="w-6 h-6 animate-spin" />
+              </div>
+            )}
+            {versions && versions.length === 0 && (
+              <p className="text-center py-8 text-sm text-[var(--text-tertiary)] font-medium">No saved versions yet. Save the deck to start its history.</p>
+            )}
+            {versions?.map((summary, index) => (
+              <button
+                key={summary.revision}
+                onClick={() => handleSelect(summary)}
+                className={`w-full p-3 rounded-2xl border text-left transition-colors ${selected?.revision === summary.revision ? 'bg-indigo-500/10 border-indigo-500/40' : 'bg-[var(--input-bg)] border-[var(--glass-border)] hover:bg-[var(--card-hover)]'}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-bold text-sm text-[var(--text-primary)] truncate">{summary.title || 'Untitled'}</span>
+                  {loadingRevision === summary.revision
+                    ? <Loader2 className="w-4 h-4 animate-spin text-indigo-500 flex-shrink-0" />
+                    : <span className="text-[10px] font-mono text-[var(--text-tertiary)] flex-shrink-0">{index === 0 ? 'Latest' : `#${summary.revision}`}</span>}
+                </div>
+                <p className="text-[10px] text-[var(--text-tertiary)] font-bold mt-1 flex items-center gap-1">
+                  <UserRound className="w-3 h-3" /> {summary.author || 'Before history'} · {new Date(summary.createdAt).toLocaleString()} · {summary.cardCount} cards
+                </p>
+              </button>
+            ))}
+          </div>
+
+          <div className="md:col-span-3 min-h-0 flex flex-col">
+            {!selected ? (
+              <div className="flex-1 flex items-center justify-center text-sm text-[var(--text-tertiary)] font-medium text-center p-6 rounded-2xl border border-dashed border-[var(--glass-border)]">
+                Pick a version on the left to see how it differs.
+              </div>
+            ) : (
+              <>
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+                  <div className="flex flex-wrap gap-2 text-[10px] font-bold uppercase tracking-wider">
+                    {(['removed', 'changed', 'added'] as const).map(kind => {
+                      const count = changes.filter(c => c.kind === kind).length;
+                      return count > 0 && (
+                        <span key={kind} className={`px-2 py-1 rounded-lg border ${KIND_STYLES[kind].className}`}>{count} {KIND_STYLES[kind].label.toLowerCase()}</span>
+                      );
+                    })}
+                  </div>
+                  <button
+                    onClick={() => { soundService.playSuccess(); onRestoreVersion(selected); }}
+                    disabled={changes.length === 0 && selected.title === title}
+                    className="flex items-center gap-2 px-4 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-bold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <ArchiveRestore className="w-4 h-4" /> Restore this version
+                  </button>
+                </div>
+                {selected.title !== title && (
+                  <p className="text-xs mb-3 break-words">
+                    <span className="font-bold text-[var(--text-tertiary)]">Title: </span>
+                    <span className="text-[var(--text-primary)]">{selected.title}</span>
+                    <span className="text-[var(--text-tertiary)]"> → now </span>
+                    <span className="text-[var(--text-secondary)] line-through">{title}</span>
+                  </p>
+                )}
+                <div className="flex-1 overflow-y-auto space-y-2 pr-2 custom-scrollbar">
+                  {changes.length === 0
+                    ? <p className="text-center py-8 text-sm text-[var(--text-tertiary)] font-medium">The cards are the same as in the editor now.</p>
+                    : changes.map(renderChange)}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
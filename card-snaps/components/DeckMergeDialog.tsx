@@ -0,0 +1,182 @@
+import React, { useMemo, useState } from 'react';
+import { Deck, Card } from '../types';
+import { DeckConflict } from '../services/api';
+import { diffDecks, defaultChoice, mergeDecks, CardDiff, CardDiffKind, MergeChoice } from '../services/deckMerge';
+import { soundService } from '../services/soundService';
+import { toPlainText } from '../services/richTextService';
+import { GitMerge, X, Smartphone, Cloud, Check } from 'lucide-react';
+
+interface DeckMergeDialogProps {
+  conflict: DeckConflict;
+  onResolve: (merged: Deck, remote: Deck) => void;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<CardDiffKind, { label: string, color: string }> = {
+  added_local: { label: 'Added on this device', color: 'text-emerald-400 bg-emerald-500/10 border-emerald-500/20' },
+  added_remote: { label: 'Added on another device', color: 'text-emerald-400 bg-emerald-500/10 border-emerald-500/20' },
+  removed_local: { label: 'Removed on this device', color: 'text-red-400 bg-red-500/10 border-red-500/20' },
+  removed_remote: { label: 'Removed on another device', color: 'text-red-400 bg-red-500/10 border-red-500/20' },
+  edited: { label: 'Edited on both', color: 'text-amber-400 bg-amber-500/10 border-amber-500/20' },
+  srs_diverged: { label: 'Review progress differs', color: 'text-sky-400 bg-sky-500/10 border-sky-500/20' },
+};
+
+const formatDue = (card?: Card) => {
+  if (!card?.srs) return 'New';
+  return `Rep ${card.srs.repetition} · due ${new Date(card.srs.dueDate).toLocaleDateString()}`;
+};
+
+// For one-sided diffs the two options read as keep / drop rather than mine / theirs
+const optionLabels = (diff: CardDiff): Record<MergeChoice, string> => {
+  switch (diff.kind) {
+    case 'added_local':
+    case 'removed_remote':
+      return { local: 'Keep', remote: 'Drop' };
+    case 'added_remote':
+    case 'removed_local':
+      return { local: 'Drop', remote: 'Keep' };
+    default:
+      return { local: 'This device', remote: 'Other device' };
+  }
+};
+
+const CardSide = ({ card, title, showSRS }: { card?: Card, title: string, showSRS: boolean }) => (
+  <div className="flex-1 min-w-0 p-3 rounded-xl bg-[var(--glass-bg)] border border-[var(--glass-border)]">
+    <p className="text-[10px] font-bold uppercase tracking-wider text-[var(--text-tertiary)] mb-1">{title}</p>
+    {card ? (
+      <>
+        <p className="font-bold text-sm text-[var(--text-primary)] break-words">{toPlainText(card.front)}</p>
+        <p className="text-xs text-[var(--text-secondary)] break-words">{toPlainText(card.back)}</p>
+        {card.tags && card.tags.length > 0 && <p className="text-[10px] font-bold text-indigo-400 mt-1 break-words">{card.tags.map(tag => `#${tag}`).join(' ')}</p>}
+        {showSRS && <p className="text-[10px] font-mono text-[var(--text-tertiary)] mt-1">{formatDue(card)}</p>}
+      </>
+    ) : (
+      <p className="text-xs italic text-[var(--text-tertiary)]">Not present</p>
+    )}
+  </div>
+);
+
+export const DeckMergeDialog: React.FC<DeckMergeDialogProps> = ({ conflict, onResolve, onClose }) => {
+  const { local, remote, base } = conflict;
+  const diffs = useMemo(() => diffDecks(local, remote, base), [local, remote, base]);
+
+  const [choices, setChoices] = useState<Record<string, MergeChoice>>(() =>
+    Object.fromEntries(diffs.map(d => [d.id, defaultChoice(d)]))
+  );
+  const [titleChoice, setTitleChoice] = useState<MergeChoice>('local');
+  const [descriptionChoice, setDescriptionChoice] = useState<MergeChoice>('local');
+  const [folderChoice, setFolderChoice] = useState<MergeChoice>('local');
+
+  const chooseAll = (choice: MergeChoice) => {
+    soundService.playClick();
+    // "All mine" means: the deck as it is on this device, so one-sided cards follow that side too
+    setChoices(Object.fromEntries(diffs.map(d => [d.id, choice])));
+    setTitleChoice(choice);
+    setDescriptionChoice(choice);
+    setFolderChoice(choice);
+  };
+
+  const handleApply = () => {
+    soundService.playSuccess();
+    onResolve(mergeDecks(local, remote, diffs, choices, { title: titleChoice, description: descriptionChoice, folder: folderChoice }), remote);
+  };
+
+  const ChoiceButtons = ({ value, onChange, labels }: { value: MergeChoice, onChange: (c: MergeChoice) => void, labels: Record<MergeChoice, string> }) => (
+    <div className="flex bg-[var(--input-bg)] rounded-xl p-1 border border-[var(--glass-border)] flex-shrink-0">
+      {(['local', 'remote'] as MergeChoice[]).map(option => (
+        <button
+          key={option}
+          onClick={() => onChange(option)}
+          className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-colors ${value === option ? 'bg-indigo-500 text-white shadow-sm' : 'text-[var(--text-secondary)] hover:text-[var(--text-primary)]'}`}
+        >
+          {labels[option]}
+        </button>
+      ))}
+    </div>
+  );
+
+  const metaRows = [
+    { key: 'title', label: 'Title', local: local.title, remote: remote.title, value: titleChoice, set: setTitleChoice },
+    { key: 'description', label: 'Description', local: local.description, remote: remote.description, value: descriptionChoice, set: setDescriptionChoice },
+    { key: 'folder', label: 'Folder', local: local.folder || 'Top level', remote: remote.folder || 'Top level', value: folderChoice, set: setFolderChoice },
+  ].filter(row => row.local !== row.remote);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-md p-4 animate-pop-in">
+      <div className="glass-panel w-full max-w-3xl max-h-[90vh] flex flex-col p-6 md:p-8 rounded-[2.5rem] shadow-2xl border-[var(--glass-border)] bg-[var(--glass-bg)]">
+        <div className="flex items-start justify-between mb-4">
+          <div>
+            <h3 className="text-2xl font-bold text-[var(--text-primary)] flex items-center gap-3">
+              <GitMerge className="w-6 h-6 text-indigo-500" /> Merge Changes
+            </h3>
+            <p className="text-sm text-[var(--text-secondary)] font-medium mt-1">
+              "{remote.title}" was edited on another device while you were offline. Pick what to keep.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 text-[var(--text-tertiary)] hover:text-[var(--text-primary)] transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex gap-2 mb-4">
+          <button onClick={() => chooseAll('local')} className="flex items-center gap-2 px-4 py-2 rounded-xl bg-[var(--input-bg)] border border-[var(--glass-border)] text-xs font-bold text-[var(--text-primary)] hover:bg-[var(--card-hover)] transition-colors">
+            <Smartphone className="w-4 h-4" /> Keep all mine
+          </button>
+          <button onClick={() => chooseAll('remote')} className="flex items-center gap-2 px-4 py-2 rounded-xl bg-[var(--input-bg)] border border-[var(--glass-border)] text-xs font-bold text-[var(--text-primary)] hover:bg-[var(--card-hover)] transition-colors">
+            <Cloud className="w-4 h-4" /> Keep all theirs
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-3 pr-2 custom-scrollbar">
+          {metaRows.map(row => (
+            <div key={row.key} className="p-4 rounded-2xl bg-[var(--input-bg)] border border-[var(--glass-border)]">
+              <div className="flex items-center justify-between gap-3 mb-3">
+                <span className="text-xs font-bold uppercase tracking-wider text-amber-400">{row.label} changed</span>
+                <ChoiceButtons value={row.value} onChange={row.set} labels={{ local: 'This device', remote: 'Other device' }} />
+              </div>
+              <div className="flex flex-col md:flex-row gap-2 text-sm text-[var(--text-primary)]">
+                <div className="flex-1 p-3 rounded-xl bg-[var(--glass-bg)] border border-[var(--glass-border)] break-words">{row.local || <i className="text-[var(--text-tertiary)]">Empty</i>}</div>
+                <div className="flex-1 p-3 rounded-xl bg-[var(--glass-bg)] border border-[var(--glass-border)] break-words">{row.remote || <i className="text-[var(--text-tertiary)]">Empty</i>}</div>
+              </div>
+            </div>
+          ))}
+
+          {diffs.map(diff => (
+            <div key={diff.id} className="p-4 rounded-2xl bg-[var(--input-bg)] border border-[var(--glass-border)]">
+              <div className="flex items-center justify-between gap-3 mb-3">
+                <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded-lg border ${KIND_LABELS[diff.kind].color}`}>
+                  {KIND_LABELS[diff.kind].label}
+                </span>
+                <ChoiceButtons
+                  value={choices[diff.id]}
+                  onChange={(c) => setChoices(prev => ({ ...prev, [diff.id]: c }))}
+                  labels={optionLabels(diff)}
+                />
+              </div>
+              <div className="flex flex-col md:flex-row gap-2">
+                <CardSide card={diff.local} title="This device" showSRS={diff.kind === 'srs_diverged'} />
+                <CardSide card={diff.remote} title="Other device" showSRS={diff.kind === 'srs_diverged'} />
+              </div>
+            </div>
+          ))}
+
+          {diffs.length === 0 && metaRows.length === 0 && (
+            <div className="text-[var(--text-tertiary)] text-sm italic text-center py-6 bg-[var(--input-bg)] rounded-2xl">Both versions are identical.</div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button onClick={onClose} className="px-6 py-2 text-[var(--text-secondary)] hover:text-[var(--text-primary)] font-bold transition-colors">
+            Later
+          </button>
+          <button
+            onClick={handleApply}
+            className="px-6 py-3 bg-gradient-to-r from-emerald-500 to-teal-500 hover:from-emerald-400 hover:to-teal-400 text-white font-bold rounded-2xl shadow-xl shadow-emerald-500/20 transition-all flex items-center gap-2 active:scale-95"
+          >
+            <Check className="w-5 h-5" /> Apply Merge
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,19 +1,41 @@
-import React, { useState, useEffect } from 'react';
-import { Anchor, Link as LinkIcon, Download, Check, AlertCircle, ArrowRight } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Anchor, Link as LinkIcon, Download, Check, AlertCircle, ArrowRight, Package, FileSpreadsheet, FileJson } from 'lucide-react';
 import { soundService } from '../services/soundService';
 import { api } from '../services/api';
+import { importAnkiPackage } from '../services/ankiService';
+import { parseCardSnapsFile, saveFileMedia, FormatError, FormatIssue } from '../services/bundleService';
+import { BulkImportWizard, BulkImportResult } from './BulkImportWizard';
 import confetti from 'canvas-confetti';
-import { Deck, Note } from '../types';
+import { Deck, Note, Test } from '../types';
 
 interface DockPageProps {
+    decks?: Deck[]; // Offered as destinations for bulk imports
     onDeckAdded?: (deck: Deck) => void;
+    onDeckUpdated?: (deck: Deck) => void;
     onNoteAdded?: (note: Note) => void;
+    onTestAdded?: (test: Test) => void;
+    // From a share URL the app was opened with; imported straight away
+    initialShareCode?: string | null;
+    onShareCodeUsed?: () => void;
 }
 
-export const DockPage: React.FC<DockPageProps> = ({ onDeckAdded, onNoteAdded }) => {
-    const [inputValue, setInputValue] = useState('');
+// Share links look like https://host/?share=CODE; a bare code works too
+const extractShareCode = (input: string): string | null => {
+    const text = input.trim();
+    if (/^[A-Za-z0-9]{4,16}$/.test(text)) return text;
+    try {
+        const url = new URL(text);
+        return url.searchParams.get('share') || url.pathname.match(/\/share\/([A-Za-z0-9]+)\/?$/)?.[1] || null;
+    } catch {
+        return null;
+    }
+};
+
+export const DockPage: React.FC<DockPageProps> = ({ decks = [], onDeckAdded, onDeckUpdated, onNoteAdded, onTestAdded, initialShareCode, onShareCodeUsed }) => {
+    const [inputValue, setInputValue] = useState(initialShareCode || '');
     const [status, setStatus] = useState<'idle' | 'importing' | 'success' | 'error'>('idle');
     const [errorMsg, setErrorMsg] = useState('');
+    const [errorIssues, setErrorIssues] = useState<FormatIssue[]>([]);
     
     // Animation States
     const [isAnimating, setIsAnimating] = useState(false);
@@ -21,58 +43,141 @@ export const DockPage: React.FC<DockPageProps> = ({ onDeckAdded, onNoteAdded })
     const [cardFlipped, setCardFlipped] = useState(false);
     const [showContinue, setShowContinue] = useState(false);
     
-    const [importedItem, setImportedItem] = useState<{ type: 'Deck' | 'Note', title: string } | null>(null);
+    const [importedItem, setImportedItem] = useState<{ type: 'Deck' | 'Note' | 'Test' | 'Bundle', title: string } | null>(null);
+    const ankiInputRef = useRef<HTMLInputElement>(null);
+    const bundleInputRef = useRef<HTMLInputElement>(null);
+    const [showBulkImport, setShowBulkImport] = useState(false);
 
-    const handleImport = async () => {
-        if (!inputValue.trim()) return;
+    const importJson = async (text: string) => {
         setStatus('importing');
+        setErrorIssues([]);
         soundService.playClick();
 
         try {
-            // Attempt to parse JSON
-            const data = JSON.parse(inputValue);
-            
-            // Determine type and validate
-            let type: 'Deck' | 'Note' | null = null;
-            let title = '';
-
-            if (data.cards && Array.isArray(data.cards)) {
-                type = 'Deck';
-                title = data.title || 'Untitled Deck';
-                const newDeck: Deck = {
-                    ...data,
-                    id: crypto.randomUUID(), // Assign new ID to avoid conflicts
-                    createdAt: Date.now()
-                };
-                const savedDeck = await api.createDeck(newDeck);
+            // Validates and upgrades older formats; throws FormatError listing every bad field
+            const { decks, notes, tests, media } = parseCardSnapsFile(text);
+            await saveFileMedia(media);
+
+            for (const deck of decks) {
+                const savedDeck = await api.createDeck(deck);
                 if (onDeckAdded) onDeckAdded(savedDeck);
-            } else if (data.content && typeof data.content === 'string') {
-                type = 'Note';
-                title = data.title || 'Untitled Note';
-                const newNote: Note = {
-                    ...data,
-                    id: crypto.randomUUID(), // Assign new ID
-                    createdAt: Date.now(),
-                    lastModified: Date.now()
-                };
-                const savedNote = await api.saveNote(newNote);
+            }
+            for (const note of notes) {
+                const savedNote = await api.saveNote(note);
                 if (onNoteAdded) onNoteAdded(savedNote);
-            } else {
-                throw new Error("Invalid format: Not a Deck or Note.");
+            }
+            for (const test of tests) {
+                const savedTest = await api.addTest(test);
+                if (onTestAdded) onTestAdded(savedTest);
             }
 
-            setImportedItem({ type, title });
+            const items = [...decks, ...notes, ...tests];
+            if (items.length === 1) {
+                setImportedItem({ type: decks.length ? 'Deck' : notes.length ? 'Note' : 'Test', title: items[0].title });
+            } else {
+                setImportedItem({ type: 'Bundle', title: `${items.length} items` });
+            }
             setStatus('success');
             setInputValue('');
             startAnimation();
 
         } catch (e) {
             setStatus('error');
-            setErrorMsg("Invalid link code. Please check the text and try again.");
+            if (e instanceof FormatError) {
+                setErrorMsg(e.message);
+                setErrorIssues(e.issues);
+            } else {
+                // Media that won't fit, storage running out...: the file itself was fine
+                setErrorMsg(e instanceof Error ? e.message : "Couldn't import this. Please try again.");
+            }
+            soundService.playClick(); // Error sound
+        }
+    };
+
+    const importShareCode = async (code: string) => {
+        setStatus('importing');
+        setErrorIssues([]);
+        try {
+            const shared = await api.getSharedItem(code);
+            await importJson(JSON.stringify(shared.file));
+        } catch (e: any) {
+            setStatus('error');
+            setErrorMsg(e?.message || "Couldn't open that share link.");
+            soundService.playClick(); // Error sound
+        }
+    };
+
+    const handleImport = () => {
+        if (!inputValue.trim()) return;
+        const code = extractShareCode(inputValue);
+        if (code) importShareCode(code);
+        else importJson(inputValue);
+    };
+
+    useEffect(() => {
+        if (!initialShareCode) return;
+        onShareCodeUsed?.();
+        importShareCode(initialShareCode);
+    }, []);
+
+    const handleBundleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        importJson(await file.text());
+    };
+
+    const handleAnkiFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setStatus('importing');
+        soundService.playClick();
+
+        try {
+            const result = await importAnkiPackage(await file.arrayBuffer());
+            if (result.decks.length === 0) throw new Error("This package doesn't contain any cards.");
+
+            for (const deck of result.decks) {
+                const savedDeck = await api.createDeck(deck);
+                if (onDeckAdded) onDeckAdded(savedDeck);
+            }
+
+            const title = result.decks.length === 1 ? result.decks[0].title : `${result.decks.length} Anki decks`;
+            setImportedItem({ type: 'Deck', title });
+            setStatus('success');
+            startAnimation();
+        } catch (err: any) {
+            setStatus('error');
+            setErrorMsg(err?.message || "Couldn't read that Anki package.");
             soundService.playClick(); // Error sound
         }
     };
 
+    const handleBulkImport = async (result: BulkImportResult) => {
+        if (result.kind === 'new') {
+            const newDeck: Deck = {
+                id: crypto.randomUUID(),
+                title: result.title,
+                description: '',
+                cards: result.cards,
+                createdAt: Date.now()
+            };
+            const savedDeck = await api.createDeck(newDeck);
+            if (onDeckAdded) onDeckAdded(savedDeck);
+            setImportedItem({ type: 'Deck', title: savedDeck.title });
+        } else {
+            const deck = decks.find(d => d.id === result.deckId);
+            if (!deck) throw new Error("That deck no longer exists.");
+            const updatedDeck = { ...deck, cards: [...deck.cards, ...result.cards] };
+            await api.updateDeck(updatedDeck);
+            if (onDeckUpdated) onDeckUpdated(updatedDeck);
+            setImportedItem({ type: 'Deck', title: `${result.cards.length} cards added to ${deck.title}` });
+        }
+        setStatus('success');
+        startAnimation();
+    };
+
     const startAnimation = () => {
         setIsAnimating(true);
         // Stage 1: Slide In
@@ -132,7 +237,7 @@ export const DockPage: React.FC<DockPageProps> = ({ onDeckAdded, onNoteAdded })
                             <textarea 
                                 value={inputValue}
                                 onChange={(e) => setInputValue(e.target.value)}
-                                placeholder='Paste JSON code here (e.g. {"title": "Math", "cards": [...]})'
+                                placeholder='Paste a share link, its code, or JSON (e.g. {"title": "Math", "cards": [...]})'
                                 className="w-full h-40 bg-[var(--input-bg)] glass-input border border-[var(--glass-border)] rounded-3xl p-6 text-[var(--text-primary)] outline-none resize-none font-mono text-sm transition-all focus:ring-2 focus:ring-sky-500/50 shadow-inner"
                             />
                             <div className="absolute bottom-4 right-4 p-2 bg-[var(--glass-bg)] rounded-xl border border-[var(--glass-border)]">
@@ -141,9 +246,19 @@ export const DockPage: React.FC<DockPageProps> = ({ onDeckAdded, onNoteAdded })
                         </div>
 
                         {status === 'error' && (
-                            <div className="mb-6 p-4 bg-red-500/10 border border-red-500/20 rounded-2xl text-red-400 flex items-center gap-3 animate-shake">
-                                <AlertCircle className="w-5 h-5" />
-                                {errorMsg}
+                            <div className="mb-6 p-4 bg-red-500/10 border border-red-500/20 rounded-2xl text-red-400 text-left animate-shake">
+                                <div className="flex items-center gap-3">
+                                    <AlertCircle className="w-5 h-5 flex-shrink-0" />
+                                    {errorMsg}
+                                </div>
+                                {errorIssues.length > 0 && (
+                                    <ul className="mt-3 ml-8 space-y-1 text-xs max-h-40 overflow-y-auto custom-scrollbar">
+                                        {errorIssues.slice(0, 20).map((issue, i) => (
+                                            <li key={i}><span className="font-mono font-bold">{issue.path}</span>: {issue.message}</li>
+                                        ))}
+                                        {errorIssues.length > 20 && <li>...and {errorIssues.length - 20} more</li>}
+                                    </ul>
+                                )}
                             </div>
                         )}
 
@@ -155,10 +270,47 @@ export const DockPage: React.FC<DockPageProps> = ({ onDeckAdded, onNoteAdded })
                             {status === 'importing' ? 'Docking...' : 'Import to Library'}
                             <Download className="w-5 h-5" />
                         </button>
+
+                        <div className="flex items-center gap-4 my-6">
+                            <div className="flex-1 h-px bg-[var(--glass-border)]"></div>
+                            <span className="text-xs font-bold text-[var(--text-tertiary)] uppercase tracking-wider">or</span>
+                            <div className="flex-1 h-px bg-[var(--glass-border)]"></div>
+                        </div>
+
+                        <input ref={bundleInputRef} type="file" accept=".json,application/json" onChange={handleBundleFile} className="hidden" />
+                        <button
+                            onClick={() => bundleInputRef.current?.click()}
+                            disabled={status === 'importing'}
+                            className="w-full mb-4 py-4 bg-[var(--input-bg)] hover:bg-[var(--card-hover)] border border-[var(--glass-border)] text-[var(--text-primary)] font-bold rounded-2xl transition-all flex items-center justify-center gap-3 disabled:opacity-50"
+                        >
+                            <FileJson className="w-5 h-5 text-sky-500" /> Open CardSnaps File (.json)
+                        </button>
+
+                        <input ref={ankiInputRef} type="file" accept=".apkg,.colpkg" onChange={handleAnkiFile} className="hidden" />
+                        <button
+                            onClick={() => ankiInputRef.current?.click()}
+                            disabled={status === 'importing'}
+                            className="w-full py-4 bg-[var(--input-bg)] hover:bg-[var(--card-hover)] border border-[var(--glass-border)] text-[var(--text-primary)] font-bold rounded-2xl transition-all flex items-center justify-center gap-3 disabled:opacity-50"
+                        >
+                            <Package className="w-5 h-5 text-sky-500" /> Import Anki Package (.apkg / .colpkg)
+                        </button>
+                        <p className="text-xs text-[var(--text-tertiary)] mt-3">Review progress, images and audio come along.</p>
+
+                        <button
+                            onClick={() => { soundService.playClick(); setShowBulkImport(true); }}
+                            disabled={status === 'importing'}
+                            className="w-full mt-4 py-4 bg-[var(--input-bg)] hover:bg-[var(--card-hover)] border border-[var(--glass-border)] text-[var(--text-primary)] font-bold rounded-2xl transition-all flex items-center justify-center gap-3 disabled:opacity-50"
+                        >
+                            <FileSpreadsheet className="w-5 h-5 text-sky-500" /> Bulk Import CSV / Quizlet
+                        </button>
                     </div>
                 </div>
             </div>
 
+            {showBulkImport && (
+                <BulkImportWizard decks={decks} onSave={handleBulkImport} onClose={() => setShowBulkImport(false)} />
+            )}
+
             {/* FULL SCREEN ANIMATION OVERLAY */}
             {isAnimating && (
                 <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-md flex items-center justify-center overflow-hidden">
@@ -0,0 +1,200 @@
+import React, { useMemo, useState } from 'react';
+import { Deck, Card } from '../types';
+import { soundService } from '../services/soundService';
+import { toPlainText } from '../services/richTextService';
+import { findDuplicates, suggestKeeper, applyDuplicateResolutions, DuplicateGroup, DuplicateResolution, DEFAULT_SIMILARITY } from '../services/duplicateService';
+import { ArrowLeft, CopyCheck, Merge, EyeOff, Check, Crown } from 'lucide-react';
+
+interface DuplicatesPageProps {
+  // The decks to search; the library or one folder of it
+  decks: Deck[];
+  scopeLabel: string;
+  // Every deck that changed, each saved once
+  onApply: (changed: Deck[]) => void;
+  onBack: () => void;
+}
+
+const formatProgress = (card: Card) => {
+  if (!card.srs) return 'New';
+  return `Rep ${card.srs.repetition} · due ${new Date(card.srs.dueDate).toLocaleDateString()}`;
+};
+
+// Review screen for repeated cards. Each group keeps one card (the best-known by default);
+// the others are folded into it and removed. Unticking a card leaves it out of the merge.
+export const DuplicatesPage: React.FC<DuplicatesPageProps> = ({ decks, scopeLabel, onApply, onBack }) => {
+  const [acrossDecks, setAcrossDecks] = useState(true);
+  const [threshold, setThreshold] = useState(DEFAULT_SIMILARITY);
+  const [keepers, setKeepers] = useState<Record<string, string>>({});
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+
+  const groups = useMemo(
+    () => findDuplicates(decks, { acrossDecks, threshold }).filter(g => !dismissed.has(g.key)),
+    [decks, acrossDecks, threshold, dismissed]
+  );
+
+  const keeperOf = (group: DuplicateGroup) => group.entries.find(e => e.key === keepers[group.key]) || suggestKeeper(group);
+
+  const resolve = (group: DuplicateGroup): DuplicateResolution | null => {
+    const keep = keeperOf(group);
+    const remove = group.entries.filter(e => e !== keep && !excluded.has(e.key));
+    return remove.length > 0 ? { keep, remove } : null;
+  };
+
+  const resolutions = groups.map(resolve).filter((r): r is DuplicateResolution => r !== null);
+  const extraCards = resolutions.reduce((sum, r) => sum + r.remove.length, 0);
+
+  const apply = (toApply: DuplicateResolution[]) => {
+    if (toApply.length === 0) return;
+    soundService.playSuccess();
+    onApply(applyDuplicateResolutions(decks, toApply));
+  };
+
+  const handleMergeAll = () => {
+    if (!confirm(`Merge ${resolutions.length} groups? ${extraCards} cards will be removed and their progress kept on the card that stays.`)) return;
+    apply(resolutions);
+  };
+
+  const toggleExcluded = (key: string) => {
+    soundService.playClick();
+    const next = new Set(excluded);
+    if (next.has(key)) next.delete(key); else next.add(key);
+    setExcluded(next);
+  };
+
+  const dismiss = (group: DuplicateGroup) => {
+    soundService.playClick();
+    setDismissed(new Set(dismissed).add(group.key));
+  };
+
+  return (
+    <div className="p-6 md:p-12 animate-fade-in-up">
+      <button
+        onClick={() => { soundService.playClick(); onBack(); }}
+        className="flex items-center text-[var(--text-secondary)] hover:text-[var(--text-primary)] transition-colors group px-3 py-2 rounded-xl hover:bg-[var(--glass-bg)] mb-6"
+      >
+        <div className="p-2 rounded-full bg-[var(--input-bg)] group-hover:bg-indigo-500/20 mr-3 transition-colors">
+          <ArrowLeft className="w-4 h-4" />
+        </div>
+        <span className="font-bold">Library</span>
+      </button>
+
+      <div className="flex flex-col md:flex-row md:items-end justify-between mb-8 gap-6">
+        <div>
+          <h1 className="text-4xl md:text-5xl font-extrabold text-[var(--text-primary)] mb-2 flex items-center gap-4">
+            <CopyCheck className="w-10 h-10 md:w-12 md:h-12 text-indigo-500" /> Duplicates
+          </h1>
+          <p className="text-[var(--text-secondary)] text-lg">
+            {groups.length === 0 ? `No repeated cards in ${scopeLabel}.` : `${groups.length} ${groups.length === 1 ? 'group' : 'groups'} in ${scopeLabel}, ${extraCards} extra ${extraCards === 1 ? 'card' : 'cards'}.`}
+          </p>
+        </div>
+        {resolutions.length > 0 && (
+          <button
+            onClick={handleMergeAll}
+            className="px-8 py-4 bg-indigo-600 hover:bg-indigo-500 text-white rounded-2xl font-bold shadow-lg shadow-indigo-500/30 hover:-translate-y-1 transition-all flex items-center gap-2"
+          >
+            <Merge className="w-5 h-5" /> Merge All
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mb-8">
+        <div className="flex p-1 rounded-xl bg-[var(--input-bg)] border border-[var(--glass-border)]">
+          {[{ value: true, label: 'Across decks' }, { value: false, label: 'Within each deck' }].map(option => (
+            <button
+              key={option.label}
+              onClick={() => { soundService.playClick(); setAcrossDecks(option.value); }}
+              className={`px-4 py-2 rounded-lg text-xs font-bold transition-colors ${acrossDecks === option.value ? 'bg-indigo-500 text-white shadow-sm' : 'text-[var(--text-secondary)] hover:text-[var(--text-primary)]'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-3 text-xs font-bold text-[var(--text-secondary)]">
+          <span className="uppercase tracking-wider text-[var(--text-tertiary)]">Similarity</span>
+          <input
+            type="range"
+            min={60}
+            max={100}
+            step={5}
+            value={Math.round(threshold * 100)}
+            onChange={(e) => setThreshold(Number(e.target.value) / 100)}
+            className="w-40 accent-indigo-500"
+          />
+          <span className="w-24">{threshold >= 1 ? 'Exact only' : `${Math.round(threshold * 100)}% or more`}</span>
+        </label>
+      </div>
+
+      <div className="space-y-4">
+        {groups.map(group => {
+          const resolution = resolve(group);
+          const keepKey = keeperOf(group).key;
+          return (
+            <div key={group.key} className="glass-panel p-5 md:p-6 rounded-[2rem] border-[var(--glass-border)]">
+              <div className="flex items-center justify-between gap-3 mb-4">
+                <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded-lg border ${group.exact ? 'text-red-400 bg-red-500/10 border-red-500/20' : 'text-amber-400 bg-amber-500/10 border-amber-500/20'}`}>
+                  {group.exact ? 'Exact duplicate' : `${Math.round(group.similarity * 100)}% similar`}
+                </span>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => dismiss(group)}
+                    className="flex items-center gap-2 px-4 py-2 rounded-xl bg-[var(--input-bg)] border border-[var(--glass-border)] text-xs font-bold text-[var(--text-secondary)] hover:text-[var(--text-primary)] transition-colors"
+                    title="Hide this group until you come back"
+                  >
+                    <EyeOff className="w-4 h-4" /> Not duplicates
+                  </button>
+                  <button
+                    onClick={() => resolution && apply([resolution])}
+                    disabled={!resolution}
+                    className="flex items-center gap-2 px-4 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-bold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Merge className="w-4 h-4" /> Merge
+                  </button>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                {group.entries.map(entry => {
+                  const isKeeper = entry.key === keepKey;
+                  const isExcluded = !isKeeper && excluded.has(entry.key);
+                  return (
+                    <div
+                      key={entry.key}
+                      className={`flex items-start gap-3 p-3 rounded-2xl border transition-colors ${isKeeper ? 'border-emerald-500/40 bg-emerald-500/5' : 'border-[var(--glass-border)] bg-[var(--input-bg)]'} ${isExcluded ? 'opacity-50' : ''}`}
+                    >
+                      <button
+                        onClick={() => { soundService.playClick(); setKeepers({ ...keepers, [group.key]: entry.key }); }}
+                        className={`mt-0.5 p-1.5 rounded-lg flex-shrink-0 transition-colors ${isKeeper ? 'bg-emerald-500 text-white' : 'text-[var(--text-tertiary)] hover:text-emerald-500 hover:bg-emerald-500/10'}`}
+                        title={isKeeper ? 'This card stays' : 'Keep this card instead'}
+                      >
+                        <Crown className="w-4 h-4" />
+                      </button>
+                      <div className="flex-1 min-w-0">
+                        <p className="font-bold text-sm text-[var(--text-primary)] break-words">{toPlainText(entry.card.front)}</p>
+                        <p className="text-xs text-[var(--text-secondary)] break-words">{toPlainText(entry.card.back)}</p>
+                        <p className="text-[10px] text-[var(--text-tertiary)] mt-1">
+                          <span className="font-bold">{entry.deckTitle}</span>
+                          <span className="font-mono"> · {formatProgress(entry.card)}</span>
+                          {entry.card.tags && entry.card.tags.length > 0 && <span className="font-bold text-indigo-400"> · {entry.card.tags.map(tag => `#${tag}`).join(' ')}</span>}
+                        </p>
+                      </div>
+                      {!isKeeper && (
+                        <button
+                          onClick={() => toggleExcluded(entry.key)}
+                          className={`mt-0.5 w-6 h-6 rounded-lg border flex items-center justify-center flex-shrink-0 transition-colors ${isExcluded ? 'border-[var(--glass-border)]' : 'bg-indigo-500 border-indigo-500 text-white'}`}
+                          title={isExcluded ? 'Merge this card' : 'Leave this card alone'}
+                        >
+                          {!isExcluded && <Check className="w-4 h-4" />}
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
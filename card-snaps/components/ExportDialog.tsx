@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { Deck } from '../types';
+import { soundService } from '../services/soundService';
+import { decksToCsv } from '../services/csvService';
+import { createBundle, attachMedia, bundleToBlob, withoutProgress } from '../services/bundleService';
+import { printDecks } from '../services/printService';
+import { exportAnkiPackage } from '../services/ankiService';
+import { downloadBlob, safeFileName } from '../services/fileService';
+import { FileDown, X, Check, FileSpreadsheet, FileJson, Printer, Package, Loader2 } from 'lucide-react';
+
+type ExportFormat = 'json' | 'csv' | 'print' | 'apkg';
+
+interface ExportDialogProps {
+  decks: Deck[];
+  initialSelection?: string[];
+  onClose: () => void;
+}
+
+const FORMATS: { value: ExportFormat, label: string, hint: string, icon: React.ReactNode }[] = [
+  { value: 'json', label: 'CardSnaps file', hint: 'Cards, deck settings and media. Import it in the Dock', icon: <FileJson className="w-4 h-4" /> },
+  { value: 'csv', label: 'CSV', hint: 'Front, back, color and tags for spreadsheets', icon: <FileSpreadsheet className="w-4 h-4" /> },
+  { value: 'print', label: 'Print', hint: 'Double-sided cut-out sheets', icon: <Printer className="w-4 h-4" /> },
+  { value: 'apkg', label: 'Anki', hint: 'An .apkg package for Anki', icon: <Package className="w-4 h-4" /> },
+];
+
+// Formats that can carry each card's review schedule
+const PROGRESS_FORMATS: ExportFormat[] = ['json', 'apkg'];
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ decks, initialSelection, onClose }) => {
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(initialSelection || decks.map(d => d.id)));
+  const [format, setFormat] = useState<ExportFormat>('json');
+  // Off by default: a file sent to someone else shouldn't drive their queue with your reviews
+  const [includeProgress, setIncludeProgress] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState('');
+
+  const toggle = (deckId: string) => {
+    soundService.playClick();
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(deckId)) next.delete(deckId);
+      else next.add(deckId);
+      return next;
+    });
+  };
+
+  const chosen = decks.filter(d => selected.has(d.id));
+  const cardCount = chosen.reduce((sum, d) => sum + d.cards.length, 0);
+  const baseName = chosen.length === 1 ? chosen[0].title : `card-snaps-${chosen.length}-decks`;
+
+  const handleExport = async () => {
+    if (chosen.length === 0 || exporting) return;
+    setExporting(true);
+    setError('');
+    soundService.playClick();
+
+    try {
+      if (format === 'json') downloadBlob(bundleToBlob(await attachMedia(createBundle({ decks: chosen }, { includeProgress }))), safeFileName(baseName, 'cardsnaps.json'));
+      else if (format === 'csv') downloadBlob(new Blob([decksToCsv(chosen)], { type: 'text/csv' }), safeFileName(baseName, 'csv'));
+      else if (format === 'print') printDecks(chosen);
+      else downloadBlob(await exportAnkiPackage(includeProgress ? chosen : chosen.map(withoutProgress)), safeFileName(baseName, 'apkg'));
+      soundService.playSuccess();
+      onClose();
+    } catch (err: any) {
+      setError(err?.message || 'Failed to export.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-md p-4 animate-pop-in">
+      <div className="glass-panel w-full max-w-xl max-h-[90vh] flex flex-col p-6 md:p-8 rounded-[2.5rem] shadow-2xl border-[var(--glass-border)] bg-[var(--glass-bg)]">
+        <div className="flex items-start justify-between mb-6">
+          <div>
+            <h3 className="text-2xl font-bold text-[var(--text-primary)] flex items-center gap-3">
+              <FileDown className="w-6 h-6 text-indigo-500" /> Export Decks
+            </h3>
+            <p className="text-sm text-[var(--text-secondary)] font-medium mt-1">
+              Take your cards anywhere, or print them out.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 text-[var(--text-tertiary)] hover:text-[var(--text-primary)] transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <label className="block text-xs font-bold text-[var(--text-tertiary)] mb-2 uppercase tracking-wider pl-1">Decks</label>
+        <div className="flex-1 overflow-y-auto space-y-2 pr-2 custom-scrollbar mb-6 min-h-[80px]">
+          {decks.map(deck => (
+            <button
+              key={deck.id}
+              onClick={() => toggle(deck.id)}
+              className={`w-full flex items-center gap-3 p-3 rounded-2xl border text-left transition-colors ${selected.has(deck.id) ? 'bg-indigo-500/10 border-indigo-500/40' : 'bg-[var(--input-bg)] border-[var(--glass-border)] hover:bg-[var(--card-hover)]'}`}
+            >
+              <span className={`w-5 h-5 rounded-md flex items-center justify-center border flex-shrink-0 ${selected.has(deck.id) ? 'bg-indigo-500 border-indigo-500 text-white' : 'border-[var(--glass-border)]'}`}>
+                {selected.has(deck.id) && <Check className="w-3 h-3" />}
+              </span>
+              <span className="flex-1 font-bold text-sm text-[var(--text-primary)] truncate">{deck.title}</span>
+              <span className="text-xs font-mono font-bold text-indigo-400">{deck.cards.length} cards</span>
+            </button>
+          ))}
+        </div>
+
+        <label className="block text-xs font-bold text-[var(--text-tertiary)] mb-2 uppercase tracking-wider pl-1">Format</label>
+        <div className="grid grid-cols-2 gap-2 mb-6">
+          {FORMATS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => { soundService.playClick(); setFormat(option.value); }}
+              className={`p-3 rounded-2xl border text-left transition-colors ${format === option.value ? 'bg-indigo-500/10 border-indigo-500/40' : 'bg-[var(--input-bg)] border-[var(--glass-border)] hover:bg-[var(--card-hover)]'}`}
+            >
+              <span className="flex items-center gap-2 font-bold text-sm text-[var(--text-primary)]">{option.icon} {option.label}</span>
+              <span className="block text-[11px] text-[var(--text-tertiary)] mt-0.5">{option.hint}</span>
+            </button>
+          ))}
+        </div>
+
+        {PROGRESS_FORMATS.includes(format) && (
+          <button
+            onClick={() => { soundService.playClick(); setIncludeProgress(!includeProgress); }}
+            className="w-full flex items-center gap-3 p-3 mb-6 rounded-2xl border border-[var(--glass-border)] bg-[var(--input-bg)] hover:bg-[var(--card-hover)] text-left transition-colors"
+          >
+            <span className={`w-5 h-5 rounded-md flex items-center justify-center border flex-shrink-0 ${includeProgress ? 'bg-indigo-500 border-indigo-500 text-white' : 'border-[var(--glass-border)]'}`}>
+              {includeProgress && <Check className="w-3 h-3" />}
+            </span>
+            <span className="flex-1">
+              <span className="block font-bold text-sm text-[var(--text-primary)]">Include study progress</span>
+              <span className="block text-[11px] text-[var(--text-tertiary)] mt-0.5">Keep when each card is due. Leave off when sharing with someone else.</span>
+            </span>
+          </button>
+        )}
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-500/10 border border-red-500/20 rounded-2xl text-red-400 text-sm">{error}</div>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <button onClick={onClose} className="px-6 py-2 text-[var(--text-secondary)] hover:text-[var(--text-primary)] font-bold transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={chosen.length === 0 || exporting}
+            className="px-6 py-3 bg-gradient-to-r from-violet-600 to-indigo-600 hover:from-violet-500 hover:to-indigo-500 text-white font-bold rounded-2xl shadow-xl shadow-indigo-500/20 transition-all flex items-center gap-2 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {exporting ? <Loader2 className="w-5 h-5 animate-spin" /> : <FileDown className="w-5 h-5" />}
+            {format === 'print' ? 'Print' : 'Export'} {cardCount > 0 && `(${cardCount} cards)`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -3,7 +3,10 @@ import React, { useState } from 'react';
 import { Deck, AppView } from '../types';
 import { soundService } from '../services/soundService';
 import { api } from '../services/api';
-import { Plus, Play, Edit2, Trash2, Library, Zap, Share2, WalletCards, Globe, Loader2, Check } from 'lucide-react';
+import { ExportDialog } from './ExportDialog';
+import { ShareLinkDialog } from './ShareLinkDialog';
+import { decksInFolder, getSubfolders, getAllFolders, normalizeFolder, folderParts, folderName, parentFolder, joinFolder, moveFolderPath, canMoveFolder, isInFolder, collectTags, hasAnyTag, FOLDER_SEPARATOR } from '../services/libraryService';
+import { Plus, Play, Edit2, Trash2, Library, Zap, Share2, WalletCards, Globe, Loader2, Check, GitMerge, FileDown, Link2, Folder, FolderPlus, FolderInput, ChevronRight, Tag, CopyCheck } from 'lucide-react';
 
 interface FlashcardsPageProps {
     decks: Deck[];
@@ -12,10 +15,123 @@ interface FlashcardsPageProps {
     onEdit: (deckId: string) => void;
     onDelete: (e: React.MouseEvent, deckId: string) => void;
     onShare: (e: React.MouseEvent, deck: Deck) => void; 
+    // Deck id -> new folder path, for every deck that moved
+    onMoveDecks?: (moves: Record<string, string>) => void;
+    onReviewAll?: (preset: { deckIds?: string[], tags?: string[] }) => void;
+    // Opens the duplicate review for a folder ('' = the whole library)
+    onFindDuplicates?: (folder: string) => void;
+    onOpenTrash?: () => void;
+    conflictedDeckIds?: string[];
 }
 
-export const FlashcardsPage: React.FC<FlashcardsPageProps> = ({ decks, onCreateDeck, onStudy, onEdit, onDelete }) => {
+// What is being dragged: a deck, or a folder along with everything inside it
+type DragItem = { kind: 'deck', id: string } | { kind: 'folder', path: string };
+
+export const FlashcardsPage: React.FC<FlashcardsPageProps> = ({ decks, onCreateDeck, onStudy, onEdit, onDelete, onMoveDecks, onReviewAll, onFindDuplicates, onOpenTrash, conflictedDeckIds = [] }) => {
     const [sharingId, setSharingId] = useState<string | null>(null);
+    // Deck ids to preselect in the export dialog; null while it's closed
+    const [exportSelection, setExportSelection] = useState<string[] | null>(null);
+    const [linkDeck, setLinkDeck] = useState<Deck | null>(null);
+
+    // Folder navigation. Empty folders only live here until a deck is filed into them.
+    const [folder, setFolder] = useState('');
+    const [newFolders, setNewFolders] = useState<string[]>([]);
+    const [dragItem, setDragItem] = useState<DragItem | null>(null);
+    const [dropTarget, setDropTarget] = useState<string | null>(null);
+    // Tap-friendly alternative to dragging
+    const [deckToFile, setDeckToFile] = useState<Deck | null>(null);
+
+    const folderDecks = decks.filter(d => normalizeFolder(d.folder) === folder);
+    const subfolders = [
+        ...getSubfolders(decks, folder),
+        ...newFolders
+            .filter(path => parentFolder(path) === folder && decksInFolder(decks, path).length === 0)
+            .map(path => ({ path, name: folderName(path), deckCount: 0, cardCount: 0 })),
+    ];
+    const scopeDecks = decksInFolder(decks, folder);
+    const tags = collectTags(scopeDecks);
+
+    const openFolder = (path: string) => {
+        soundService.playClick();
+        setFolder(path);
+    };
+
+    const handleNewFolder = () => {
+        const name = prompt('Folder name');
+        const path = joinFolder(folder, name || '');
+        if (!name?.trim() || path === folder) return;
+        soundService.playPop();
+        setNewFolders(prev => [...prev, path]);
+    };
+
+    const moveDeck = (deckId: string, target: string) => {
+        const deck = decks.find(d => d.id === deckId);
+        if (!deck || normalizeFolder(deck.folder) === target) return;
+        soundService.playSuccess();
+        onMoveDecks?.({ [deckId]: target });
+    };
+
+    // The folder keeps its name and sub-tree under the new parent
+    const moveFolder = (from: string, to: string) => {
+        if (!canMoveFolder(from, to)) return;
+        const moves: Record<string, string> = {};
+        decksInFolder(decks, from).forEach(d => { moves[d.id] = moveFolderPath(d.folder, from, to); });
+        setNewFolders(prev => prev.map(path => isInFolder(path, from) ? moveFolderPath(path, from, to) : path));
+        soundService.playSuccess();
+        onMoveDecks?.(moves);
+    };
+
+    const renameFolder = (path: string) => {
+        const name = prompt('Rename folder', folderName(path));
+        const renamed = joinFolder(parentFolder(path), name || '');
+        if (!name?.trim() || renamed === path) return;
+        const moves: Record<string, string> = {};
+        decksInFolder(decks, path).forEach(d => { moves[d.id] = joinFolder(renamed, normalizeFolder(d.folder).slice(path.length)); });
+        setNewFolders(prev => prev.map(p => isInFolder(p, path) ? joinFolder(renamed, p.slice(path.length)) : p));
+        soundService.playPop();
+        onMoveDecks?.(moves);
+    };
+
+    const handleDrop = (e: React.DragEvent, target: string) => {
+        e.preventDefault();
+        setDropTarget(null);
+        if (!dragItem) return;
+        if (dragItem.kind === 'deck') moveDeck(dragItem.id, target);
+        else moveFolder(dragItem.path, target);
+        setDragItem(null);
+    };
+
+    // Spread onto anything decks and folders can be dropped into
+    const dropProps = (target: string) => ({
+        onDragOver: (e: React.DragEvent) => {
+            if (!dragItem || (dragItem.kind === 'folder' && !canMoveFolder(dragItem.path, target))) return;
+            e.preventDefault();
+            setDropTarget(target);
+        },
+        onDragLeave: () => setDropTarget(prev => prev === target ? null : prev),
+        onDrop: (e: React.DragEvent) => handleDrop(e, target),
+    });
+
+    const startDrag = (e: React.DragEvent, item: DragItem) => {
+        e.dataTransfer.effectAllowed = 'move';
+        setDragItem(item);
+    };
+
+    const endDrag = () => {
+        setDragItem(null);
+        setDropTarget(null);
+    };
+
+    const studyTag = (tag: string) => {
+        onReviewAll?.({ deckIds: scopeDecks.filter(d => d.cards.some(c => hasAnyTag(c, [tag]))).map(d => d.id), tags: [tag] });
+    };
+
+    const breadcrumbs = ['', ...folderParts(folder).map((_, i, parts) => parts.slice(0, i + 1).join(FOLDER_SEPARATOR))];
+
+    const openExport = (deckIds: string[]) => {
+        soundService.playClick();
+        setExportSelection(deckIds);
+    };
 
     const handleCommunityShare = async (e: React.MouseEvent, deck: Deck) => {
         e.stopPropagation();
@@ -47,20 +163,137 @@ export const FlashcardsPage: React.FC<FlashcardsPageProps> = ({ decks, onCreateD
                     </h1>
                     <p className="text-[var(--text-secondary)] text-lg">Manage all your study decks in one place.</p>
                 </div>
-                <button 
-                    onClick={onCreateDeck}
-                    className="px-8 py-4 bg-indigo-600 hover:bg-indigo-500 text-white rounded-2xl font-bold shadow-lg shadow-indigo-500/30 hover:-translate-y-1 transition-all flex items-center gap-2"
-                >
-                    <Plus className="w-5 h-5" /> Create Deck
-                </button>
+                <div className="flex gap-3">
+                    <button
+                        onClick={handleNewFolder}
+                        className="px-6 py-4 bg-[var(--input-bg)] hover:bg-[var(--card-hover)] border border-[var(--glass-border)] text-[var(--text-primary)] rounded-2xl font-bold transition-all flex items-center gap-2"
+                        title="New folder"
+                    >
+                        <FolderPlus className="w-5 h-5 text-indigo-500" /> <span className="hidden sm:inline">Folder</span>
+                    </button>
+                    {onFindDuplicates && scopeDecks.length > 0 && (
+                        <button
+                            onClick={() => { soundService.playClick(); onFindDuplicates(folder); }}
+                            className="px-6 py-4 bg-[var(--input-bg)] hover:bg-[var(--card-hover)] border border-[var(--glass-border)] text-[var(--text-primary)] rounded-2xl font-bold transition-all flex items-center gap-2"
+                            title="Find duplicate cards"
+                        >
+                            <CopyCheck className="w-5 h-5 text-indigo-500" /> <span className="hidden sm:inline">Duplicates</span>
+                        </button>
+                    )}
+                    {onOpenTrash && (
+                        <button
+                            onClick={() => { soundService.playClick(); onOpenTrash(); }}
+                            className="px-6 py-4 bg-[var(--input-bg)] hover:bg-[var(--card-hover)] border border-[var(--glass-border)] text-[var(--text-primary)] rounded-2xl font-bold transition-all flex items-center gap-2"
+                            title="Recently deleted decks and notes"
+                        >
+                            <Trash2 className="w-5 h-5 text-indigo-500" /> <span className="hidden sm:inline">Trash</span>
+                        </button>
+                    )}
+                    {scopeDecks.length > 0 && (
+                        <button
+                            onClick={() => openExport(scopeDecks.map(d => d.id))}
+                            className="px-6 py-4 bg-[var(--input-bg)] hover:bg-[var(--card-hover)] border border-[var(--glass-border)] text-[var(--text-primary)] rounded-2xl font-bold transition-all flex items-center gap-2"
+                        >
+                            <FileDown className="w-5 h-5 text-indigo-500" /> Export
+                        </button>
+                    )}
+                    <button 
+                        onClick={onCreateDeck}
+                        className="px-8 py-4 bg-indigo-600 hover:bg-indigo-500 text-white rounded-2xl font-bold shadow-lg shadow-indigo-500/30 hover:-translate-y-1 transition-all flex items-center gap-2"
+                    >
+                        <Plus className="w-5 h-5" /> Create Deck
+                    </button>
+                </div>
             </div>
 
+            {/* Breadcrumbs double as drop targets for moving things up */}
+            {(folder || subfolders.length > 0) && (
+                <div className="flex flex-wrap items-center gap-1 mb-6">
+                    {breadcrumbs.map((path, i) => (
+                        <React.Fragment key={path || 'root'}>
+                            {i > 0 && <ChevronRight className="w-4 h-4 text-[var(--text-tertiary)]" />}
+                            <button
+                                onClick={() => openFolder(path)}
+                                {...dropProps(path)}
+                                className={`px-3 py-1.5 rounded-xl text-sm font-bold transition-colors ${dropTarget === path ? 'bg-indigo-500 text-white' : path === folder ? 'text-[var(--text-primary)] bg-[var(--input-bg)]' : 'text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--input-bg)]'}`}
+                            >
+                                {path ? folderName(path) : 'All decks'}
+                            </button>
+                        </React.Fragment>
+                    ))}
+                </div>
+            )}
+
+            {onReviewAll && tags.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2 mb-8">
+                    <span className="text-xs font-bold text-[var(--text-tertiary)] uppercase tracking-wider mr-1 flex items-center gap-1.5"><Tag className="w-3.5 h-3.5" /> Study by tag</span>
+                    {tags.slice(0, 20).map(({ tag, count }) => (
+                        <button
+                            key={tag}
+                            onClick={() => studyTag(tag)}
+                            className="px-3 py-1.5 rounded-xl bg-[var(--input-bg)] hover:bg-indigo-500/10 border border-[var(--glass-border)] hover:border-indigo-500/40 text-xs font-bold text-[var(--text-secondary)] hover:text-indigo-500 transition-colors"
+                        >
+                            #{tag} <span className="opacity-60">{count}</span>
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {subfolders.length > 0 && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 mb-8">
+                    {subfolders.map(sub => (
+                        <div
+                            key={sub.path}
+                            draggable
+                            onDragStart={(e) => startDrag(e, { kind: 'folder', path: sub.path })}
+                            onDragEnd={endDrag}
+                            {...dropProps(sub.path)}
+                            onClick={() => openFolder(sub.path)}
+                            className={`glass-panel group rounded-2xl p-4 flex items-center gap-3 cursor-pointer transition-all animate-pop-in ${dropTarget === sub.path ? 'ring-2 ring-indigo-500 bg-indigo-500/10' : 'hover:bg-[var(--card-hover)]'} ${dragItem?.kind === 'folder' && dragItem.path === sub.path ? 'opacity-40' : ''}`}
+                        >
+                            <div className="w-11 h-11 rounded-xl bg-amber-500/10 border border-amber-500/20 text-amber-500 flex items-center justify-center flex-shrink-0">
+                                <Folder className="w-5 h-5" />
+                            </div>
+                            <div className="flex-1 min-w-0">
+                                <p className="font-bold text-[var(--text-primary)] truncate">{sub.name}</p>
+                                <p className="text-xs text-[var(--text-tertiary)] font-medium">
+                                    {sub.deckCount === 0 ? 'Drag decks here' : `${sub.deckCount} ${sub.deckCount === 1 ? 'deck' : 'decks'} · ${sub.cardCount} cards`}
+                                </p>
+                            </div>
+                            {sub.deckCount > 0 && (
+                                <div className="flex gap-1 opacity-100 lg:opacity-0 group-hover:opacity-100 transition-opacity">
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); renameFolder(sub.path); }}
+                                        className="p-2 text-[var(--text-tertiary)] hover:text-[var(--text-primary)] hover:bg-[var(--glass-bg)] rounded-xl transition-colors"
+                                        title="Rename folder"
+                                    >
+                                        <Edit2 className="w-4 h-4" />
+                                    </button>
+                                    {onReviewAll && (
+                                        <button
+                                            onClick={(e) => { e.stopPropagation(); onReviewAll({ deckIds: decksInFolder(decks, sub.path).map(d => d.id) }); }}
+                                            className="p-2 text-[var(--text-tertiary)] hover:text-indigo-500 hover:bg-indigo-500/10 rounded-xl transition-colors"
+                                            title="Review everything due in this folder"
+                                        >
+                                            <Play className="w-4 h-4" />
+                                        </button>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6 md:gap-8">
-                {decks.map((deck, index) => (
+                {folderDecks.map((deck, index) => (
                     <div 
                         key={deck.id}
+                        draggable
+                        onDragStart={(e) => startDrag(e, { kind: 'deck', id: deck.id })}
+                        onDragEnd={endDrag}
                         style={{ animationDelay: `${index * 50}ms` }}
-                        className="glass-panel group relative rounded-[2rem] p-6 md:p-8 hover:bg-[var(--card-hover)] transition-all duration-500 hover:-translate-y-2 animate-pop-in flex flex-col hover:shadow-2xl hover:shadow-indigo-500/10"
+                        className={`glass-panel group relative rounded-[2rem] p-6 md:p-8 hover:bg-[var(--card-hover)] transition-all duration-500 hover:-translate-y-2 animate-pop-in flex flex-col hover:shadow-2xl hover:shadow-indigo-500/10 ${dragItem?.kind === 'deck' && dragItem.id === deck.id ? 'opacity-40' : ''}`}
                     >
                         <div className="flex justify-between items-start mb-6">
                             <div className="w-14 h-14 rounded-2xl bg-indigo-500/10 border border-indigo-500/20 text-indigo-500 flex items-center justify-center group-hover:scale-110 transition-transform duration-500 group-hover:rotate-6 shadow-inner">
@@ -75,11 +308,40 @@ export const FlashcardsPage: React.FC<FlashcardsPageProps> = ({ decks, onCreateD
                                 >
                                     {sharingId === deck.id ? <Loader2 className="w-4 h-4 animate-spin"/> : <Globe className="w-4 h-4" />}
                                 </button>
+                                <button 
+                                    onClick={(e) => { e.stopPropagation(); soundService.playClick(); setLinkDeck(deck); }} 
+                                    className="p-2 text-[var(--text-tertiary)] hover:text-sky-400 hover:bg-sky-500/10 rounded-xl transition-colors" 
+                                    title="Create share link"
+                                >
+                                    <Link2 className="w-4 h-4" />
+                                </button>
+                                <button 
+                                    onClick={(e) => { e.stopPropagation(); openExport([deck.id]); }} 
+                                    className="p-2 text-[var(--text-tertiary)] hover:text-sky-400 hover:bg-sky-500/10 rounded-xl transition-colors" 
+                                    title="Export or print"
+                                >
+                                    <FileDown className="w-4 h-4" />
+                                </button>
+                                <button 
+                                    onClick={(e) => { e.stopPropagation(); soundService.playClick(); setDeckToFile(deck); }} 
+                                    className="p-2 text-[var(--text-tertiary)] hover:text-amber-400 hover:bg-amber-500/10 rounded-xl transition-colors" 
+                                    title="Move to folder"
+                                >
+                                    <FolderInput className="w-4 h-4" />
+                                </button>
                                 <button onClick={(e) => { e.stopPropagation(); onEdit(deck.id); }} className="p-2 text-[var(--text-tertiary)] hover:text-[var(--text-primary)] hover:bg-[var(--glass-bg)] rounded-xl transition-colors"><Edit2 className="w-4 h-4" /></button>
                                 <button onClick={(e) => { e.stopPropagation(); onDelete(e, deck.id); }} className="p-2 text-[var(--text-tertiary)] hover:text-red-400 hover:bg-red-500/10 rounded-xl transition-colors relative z-30"><Trash2 className="w-4 h-4" /></button>
                             </div>
                         </div>
 
+                        {conflictedDeckIds.includes(deck.id) && (
+                            <button
+                                onClick={(e) => { e.stopPropagation(); onEdit(deck.id); }}
+                                className="self-start mb-3 flex items-center gap-1.5 px-3 py-1 rounded-lg bg-amber-500/10 border border-amber-500/20 text-amber-500 text-[10px] font-bold uppercase tracking-wider hover:bg-amber-500/20 transition-colors"
+                            >
+                                <GitMerge className="w-3 h-3" /> Needs merge
+                            </button>
+                        )}
                         <h3 className="text-xl md:text-2xl font-bold text-[var(--text-primary)] mb-2 md:mb-3 line-clamp-1 cursor-pointer hover:text-indigo-500 transition-colors" onClick={() => onStudy(deck.id)}>{deck.title}</h3>
                         <p className="text-[var(--text-secondary)] text-sm line-clamp-2 mb-6 md:mb-8 flex-1 leading-relaxed font-medium">{deck.description || 'No description provided.'}</p>
 
@@ -97,7 +359,56 @@ export const FlashcardsPage: React.FC<FlashcardsPageProps> = ({ decks, onCreateD
                         <button onClick={onCreateDeck} className="text-indigo-500 font-bold hover:underline">Create a deck</button>
                      </div>
                 )}
+
+                {decks.length > 0 && folder && folderDecks.length === 0 && subfolders.length === 0 && (
+                     <div className="col-span-full p-12 text-center text-[var(--text-tertiary)] border-2 border-dashed border-[var(--glass-border)] rounded-[3rem]">
+                        <p className="text-xl font-bold mb-2">This folder is empty.</p>
+                        <p className="text-sm font-medium">Drag a deck onto "{folderName(folder)}" above, or use its move button.</p>
+                     </div>
+                )}
             </div>
+
+            {deckToFile && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-md p-4 animate-pop-in">
+                    <div className="glass-panel w-full max-w-sm p-8 rounded-[2.5rem] shadow-2xl border-[var(--glass-border)] bg-[var(--glass-bg)]">
+                        <h3 className="text-2xl font-bold mb-4 text-[var(--text-primary)]">Move to Folder</h3>
+                        <p className="text-sm text-[var(--text-secondary)] mb-8 font-medium">Where should "<span className="text-[var(--text-primary)] font-bold">{deckToFile.title}</span>" live?</p>
+
+                        <div className="max-h-60 overflow-y-auto space-y-3 mb-8 pr-2 custom-scrollbar">
+                            {['', ...new Set([...getAllFolders(decks), ...newFolders])].map(path => (
+                                <button
+                                    key={path || 'root'}
+                                    onClick={() => { moveDeck(deckToFile.id, path); setDeckToFile(null); }}
+                                    disabled={normalizeFolder(deckToFile.folder) === path}
+                                    style={{ paddingLeft: `${1 + folderParts(path).length * 0.75}rem` }}
+                                    className="w-full text-left p-4 rounded-2xl bg-[var(--input-bg)] hover:bg-indigo-600/10 border border-[var(--glass-border)] hover:border-indigo-500/50 transition-all flex items-center gap-3 disabled:opacity-50 disabled:cursor-default"
+                                >
+                                    <Folder className="w-4 h-4 text-amber-500 flex-shrink-0" />
+                                    <span className="truncate text-[var(--text-secondary)] font-bold">{path ? folderName(path) : 'Top level'}</span>
+                                    {normalizeFolder(deckToFile.folder) === path && <Check className="w-4 h-4 ml-auto text-indigo-500" />}
+                                </button>
+                            ))}
+                        </div>
+
+                        <div className="flex justify-end">
+                            <button
+                                onClick={() => setDeckToFile(null)}
+                                className="px-6 py-2 text-[var(--text-secondary)] hover:text-[var(--text-primary)] font-bold transition-colors"
+                            >
+                                Cancel
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {linkDeck && (
+                <ShareLinkDialog kind="deck" item={linkDeck} onClose={() => setLinkDeck(null)} />
+            )}
+
+            {exportSelection && (
+                <ExportDialog decks={decks} initialSelection={exportSelection} onClose={() => setExportSelection(null)} />
+            )}
         </div>
     );
 };
@@ -1,8 +1,11 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Deck, Exercise, SnapCard, SNAP_CARDS_DATA, CRACK_CARDS_DATA, UserStats } from '../types';
 import { generateGamifiedExercises, checkAnswerWithAI } from '../services/geminiService';
 import { soundService } from '../services/soundService';
-import { Gamepad2, Sparkles, BookOpen, Edit, ArrowRight, Check, X, Trophy, RefreshCcw, Loader2, ArrowLeft, BrainCircuit, Coins, Flame, ArrowUp, ArrowDown, Zap, Eye, Shield, RotateCcw, Ghost, Star, Feather, EyeOff, Scale, HelpCircle, Lock } from 'lucide-react';
+import { MathText } from './MathText';
+import { PageRangeField } from './PageRangeField';
+import { ExtractedDocument, extractDocument, parsePageRange, documentText } from '../services/documentService';
+import { Gamepad2, Sparkles, BookOpen, Edit, ArrowRight, Check, X, Trophy, RefreshCcw, Loader2, ArrowLeft, BrainCircuit, Coins, Flame, ArrowUp, ArrowDown, Zap, Eye, Shield, RotateCcw, Ghost, Star, Feather, EyeOff, Scale, HelpCircle, Lock, FileUp } from 'lucide-react';
 import confetti from 'canvas-confetti';
 
 interface LearnModeProps {
@@ -26,6 +29,10 @@ export const LearnMode: React.FC<LearnModeProps> = ({ decks, onExit, onUpdateSta
   const [sourceType, setSourceType] = useState<SourceType | null>(null);
   const [selectedDeck, setSelectedDeck] = useState<Deck | null>(null);
   const [manualText, setManualText] = useState('');
+  const [manualDoc, setManualDoc] = useState<ExtractedDocument | null>(null);
+  const [manualRange, setManualRange] = useState('');
+  const [readingFile, setReadingFile] = useState(false);
+  const manualFileRef = useRef<HTMLInputElement>(null);
   const [questionCount, setQuestionCount] = useState(20); 
 
   // Game Engine
@@ -135,6 +142,32 @@ export const LearnMode: React.FC<LearnModeProps> = ({ decks, onExit, onUpdateSta
 
   // --- Logic ---
 
+  // An imported document fills the content box; picking pages refills it
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    soundService.playPop();
+    setReadingFile(true);
+    try {
+      const doc = await extractDocument(file);
+      setManualDoc(doc);
+      setManualRange('');
+      setManualText(documentText(doc, doc.sections.map((_, i) => i)));
+      if (!topic) setTopic(file.name.replace(/\.[^.]+$/, ''));
+    } catch (err: any) {
+      alert(err.message || "Couldn't read that file.");
+    } finally {
+      setReadingFile(false);
+    }
+  };
+
+  const handleManualRange = (value: string) => {
+    setManualRange(value);
+    const pages = manualDoc && parsePageRange(value, manualDoc.sections.length);
+    if (manualDoc && pages) setManualText(documentText(manualDoc, pages));
+  };
+
   const handleStart = async () => {
     // Check limit
     if (userStats.learnSessionsToday >= DAILY_LIMIT) {
@@ -454,7 +487,18 @@ export const LearnMode: React.FC<LearnModeProps> = ({ decks, onExit, onUpdateSta
                             />
                         </div>
                         <div>
-                            <label className="block text-xs font-bold text-[var(--text-tertiary)] uppercase tracking-wider mb-2 pl-1">Content</label>
+                            <div className="flex items-center justify-between mb-2 pl-1">
+                                <label className="block text-xs font-bold text-[var(--text-tertiary)] uppercase tracking-wider">Content</label>
+                                <button
+                                    onClick={() => manualFileRef.current?.click()}
+                                    disabled={readingFile}
+                                    className="flex items-center gap-1.5 text-xs font-bold text-indigo-500 hover:text-indigo-400 transition-colors disabled:opacity-50"
+                                >
+                                    {readingFile ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileUp className="w-4 h-4" />}
+                                    {manualDoc ? manualDoc.name : 'Import PDF, Word or PowerPoint'}
+                                </button>
+                                <input type="file" ref={manualFileRef} className="hidden" onChange={handleImportFile} accept=".pdf,.docx,.pptx,.txt,.md" />
+                            </div>
                             <textarea 
                                 value={manualText}
                                 onChange={(e) => setManualText(e.target.value)}
@@ -462,6 +506,9 @@ export const LearnMode: React.FC<LearnModeProps> = ({ decks, onExit, onUpdateSta
                                 placeholder="Paste your text here..."
                             />
                         </div>
+                        {manualDoc && manualDoc.sections.length > 1 && (
+                            <PageRangeField doc={manualDoc} value={manualRange} onChange={handleManualRange} />
+                        )}
                       </>
                   )}
 
@@ -525,7 +572,7 @@ export const LearnMode: React.FC<LearnModeProps> = ({ decks, onExit, onUpdateSta
                           soundService.playClick();
                       }} disabled={idx === orderedItems.length - 1} className="p-1 hover:bg-white/10 rounded disabled:opacity-30"><ArrowDown className="w-4 h-4"/></button>
                   </div>
-                  <div className="flex-1 font-bold text-[var(--text-primary)]">{item.text}</div>
+                  <div className="flex-1 font-bold text-[var(--text-primary)]"><MathText text={item.text} /></div>
                   <div className="text-2xl font-black text-white/10">{idx + 1}</div>
               </div>
           ))}
@@ -542,7 +589,7 @@ export const LearnMode: React.FC<LearnModeProps> = ({ decks, onExit, onUpdateSta
               {ex.pairs?.map((p, i) => (
                   <button key={i} disabled={matchedPairs.has(p.left)} onClick={() => { setSelectedLeft(p.left); soundService.playClick(); }} 
                     className={`w-full p-3 md:p-4 text-left rounded-xl border-2 transition-all text-sm md:text-base ${matchedPairs.has(p.left) ? 'opacity-30 border-transparent bg-emerald-500/20' : selectedLeft === p.left ? 'border-indigo-500 bg-indigo-500/20' : 'border-[var(--glass-border)] bg-[var(--input-bg)]'}`}>
-                      {p.left}
+                      <MathText text={p.left} />
                   </button>
               ))}
           </div>
@@ -565,7 +612,7 @@ export const LearnMode: React.FC<LearnModeProps> = ({ decks, onExit, onUpdateSta
                       // Check if this right item is already matched
                       matchedPairs.has(ex.pairs?.find(p => p.right === item.text)?.left || '') ? 'opacity-30 border-transparent bg-emerald-500/20' : 'border-[var(--glass-border)] bg-[var(--input-bg)] hover:bg-white/5'
                   }`}>
-                      {item.text}
+                      <MathText text={item.text} />
                   </button>
               ))}
           </div>
@@ -617,7 +664,7 @@ export const LearnMode: React.FC<LearnModeProps> = ({ decks, onExit, onUpdateSta
                   setEliminatedIds(newSet);
                   soundService.playClick();
               }} className={`w-full p-4 text-left rounded-xl border-2 transition-all ${eliminatedIds.has(stmt.id) ? 'bg-red-500/20 border-red-500 text-red-300 line-through opacity-70' : 'bg-[var(--input-bg)] border-[var(--glass-border)]'}`}>
-                  {stmt.text}
+                  <MathText text={stmt.text} />
               </button>
           ))}
           <button onClick={() => {
@@ -634,15 +681,15 @@ export const LearnMode: React.FC<LearnModeProps> = ({ decks, onExit, onUpdateSta
   const renderComparison = (ex: Exercise) => (
       <div className="w-full text-center">
           <div className="flex flex-col md:flex-row items-center justify-center gap-4 md:gap-8 mb-8">
-              <div className="text-xl font-bold">{ex.comparisonItems?.left}</div>
+              <div className="text-xl font-bold"><MathText text={ex.comparisonItems?.left || ''} /></div>
               <div className="text-[var(--text-tertiary)] font-bold">VS</div>
-              <div className="text-xl font-bold">{ex.comparisonItems?.right}</div>
+              <div className="text-xl font-bold"><MathText text={ex.comparisonItems?.right || ''} /></div>
           </div>
-          <p className="mb-6 font-medium text-lg">{ex.question}</p>
+          <p className="mb-6 font-medium text-lg"><MathText text={ex.question} /></p>
           <div className="flex flex-col sm:flex-row gap-4 justify-center">
-              <button onClick={() => checkAnswer('left', 'comparison')} className="px-8 py-4 bg-[var(--input-bg)] border border-[var(--glass-border)] hover:bg-indigo-500 hover:text-white rounded-2xl transition-all font-bold">{ex.comparisonItems?.left}</button>
+              <button onClick={() => checkAnswer('left', 'comparison')} className="px-8 py-4 bg-[var(--input-bg)] border border-[var(--glass-border)] hover:bg-indigo-500 hover:text-white rounded-2xl transition-all font-bold"><MathText text={ex.comparisonItems?.left || ''} /></button>
               <button onClick={() => checkAnswer('equal', 'comparison')} className="px-8 py-4 bg-[var(--input-bg)] border border-[var(--glass-border)] hover:bg-purple-500 hover:text-white rounded-2xl transition-all font-bold">Equal / Both</button>
-              <button onClick={() => checkAnswer('right', 'comparison')} className="px-8 py-4 bg-[var(--input-bg)] border border-[var(--glass-border)] hover:bg-cyan-500 hover:text-white rounded-2xl transition-all font-bold">{ex.comparisonItems?.right}</button>
+              <button onClick={() => checkAnswer('right', 'comparison')} className="px-8 py-4 bg-[var(--input-bg)] border border-[var(--glass-border)] hover:bg-cyan-500 hover:text-white rounded-2xl transition-all font-bold"><MathText text={ex.comparisonItems?.right || ''} /></button>
           </div>
       </div>
   );
@@ -657,7 +704,7 @@ export const LearnMode: React.FC<LearnModeProps> = ({ decks, onExit, onUpdateSta
               </div>
           ) : (
               <div className="animate-pop-in">
-                  <h3 className="text-2xl font-bold mb-6">{ex.question}</h3>
+                  <h3 className="text-2xl font-bold mb-6"><MathText text={ex.question} /></h3>
                   <input type="text" value={textInput} onChange={e => setTextInput(e.target.value)} className="w-full bg-[var(--input-bg)] border border-[var(--glass-border)] rounded-xl p-4 text-center mb-4" placeholder="Answer..." />
                   <button onClick={() => checkAnswer(textInput, 'short_answer')} className="px-8 py-3 bg-indigo-600 text-white rounded-xl font-bold">Submit</button>
               </div>
@@ -681,7 +728,7 @@ export const LearnMode: React.FC<LearnModeProps> = ({ decks, onExit, onUpdateSta
                 <button key={opt} onClick={() => checkAnswer(opt, 'true_false')} className={`py-6 md:py-8 rounded-2xl border-2 font-bold text-lg md:text-xl transition-all hover:scale-105 ${opt === 'True' ? 'border-emerald-500/50 bg-emerald-500/10 hover:bg-emerald-500 hover:text-white' : 'border-red-500/50 bg-red-500/10 hover:bg-red-500 hover:text-white'}`}>{opt}</button>
             ))
             : ex.options?.map((opt, i) => (
-                <button key={i} onClick={() => checkAnswer(opt, ex.type)} className="p-4 md:p-6 rounded-2xl bg-[var(--input-bg)] border border-[var(--glass-border)] hover:bg-indigo-600 hover:text-white transition-all font-bold text-base md:text-lg text-left shadow-sm">{opt}</button>
+                <button key={i} onClick={() => checkAnswer(opt, ex.type)} className="p-4 md:p-6 rounded-2xl bg-[var(--input-bg)] border border-[var(--glass-border)] hover:bg-indigo-600 hover:text-white transition-all font-bold text-base md:text-lg text-left shadow-sm"><MathText text={opt} /></button>
             ))
           }
       </div>
@@ -764,13 +811,13 @@ export const LearnMode: React.FC<LearnModeProps> = ({ decks, onExit, onUpdateSta
                       <div className={`absolute inset-0 z-50 flex flex-col items-center justify-center backdrop-blur-md animate-fade-in-up p-6 md:p-8 text-center break-words ${feedback === 'correct' ? 'bg-emerald-600' : 'bg-red-600'}`}>
                           {feedback === 'correct' ? <Check className="w-16 h-16 md:w-24 md:h-24 mb-6 animate-bounce text-white"/> : <X className="w-16 h-16 md:w-24 md:h-24 mb-6 animate-shake text-white"/>}
                           <div className="text-3xl md:text-5xl font-black text-white">{feedback === 'correct' ? 'Excellent!' : 'Missed it!'}</div>
-                          <div className="mt-4 font-bold text-white text-lg md:text-xl max-w-lg">{feedbackMsg}</div>
+                          <div className="mt-4 font-bold text-white text-lg md:text-xl max-w-lg"><MathText text={feedbackMsg} /></div>
                       </div>
                   )}
 
                   {riskToggle}
 
-                  <h2 className="text-xl md:text-3xl font-bold text-center mb-6 md:mb-8">{ex.question}</h2>
+                  <h2 className="text-xl md:text-3xl font-bold text-center mb-6 md:mb-8"><MathText text={ex.question} /></h2>
 
                   {/* Switch on types */}
                   {(ex.type === 'quiz' || ex.type === 'odd_one_out' || ex.type === 'true_false') && renderOptions(ex)}
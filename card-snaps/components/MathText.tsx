@@ -0,0 +1,18 @@
+import React from 'react';
+import 'katex/dist/katex.min.css';
+import { splitMath, renderMath } from '../services/mathService';
+
+// One formula. KaTeX escapes everything it outputs, so its HTML is safe to inject.
+export const MathFormula: React.FC<{ tex: string, display?: boolean }> = ({ tex, display = false }) => (
+  <span className={display ? 'block my-2 overflow-x-auto overflow-y-hidden' : undefined} dangerouslySetInnerHTML={{ __html: renderMath(tex, display) }} />
+);
+
+// Plain text with $...$, $$...$$ and \ce{...} rendered (e.g. AI-written exercises)
+export const MathText: React.FC<{ text: string }> = ({ text }) => (
+  <>
+    {splitMath(text).map((segment, i) => segment.kind === 'text'
+      ? <React.Fragment key={i}>{segment.text}</React.Fragment>
+      : <MathFormula key={i} tex={segment.tex} display={segment.display} />
+    )}
+  </>
+);
@@ -2,7 +2,19 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Note } from '../types';
 import { soundService } from '../services/soundService';
-import { ArrowLeft, Save, Bold, Italic, Heading1, Heading2, Grid3X3, AlignLeft, File, Underline, Check, Palette } from 'lucide-react';
+import { renderMathInElement } from '../services/mathService';
+import { History, createHistory, pushHistory, undoHistory, redoHistory, historyShortcut } from '../services/historyService';
+import 'katex/dist/katex.min.css';
+import { ArrowLeft, Save, Bold, Italic, Heading1, Heading2, Grid3X3, AlignLeft, File, Underline, Check, Palette, Sigma, Undo2, Redo2 } from 'lucide-react';
+
+// What undo/redo steps through; the title and subject fields keep the browser's own undo
+interface NoteSnapshot {
+  content: string;
+  background: Note['background'];
+}
+
+// Typing becomes one undo step once the keyboard goes quiet for this long
+const TYPING_PAUSE_MS = 600;
 
 interface NoteEditorProps {
   initialNote?: Note;
@@ -17,6 +29,15 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({ initialNote, onSave, onC
   const [background, setBackground] = useState<'blank' | 'lined' | 'grid'>(initialNote?.background || 'blank');
   
   const contentRef = useRef<HTMLDivElement>(null);
+  // Math preview: a rendered copy of the content; the editable original stays untouched underneath
+  const previewRef = useRef<HTMLDivElement>(null);
+  const [showMath, setShowMath] = useState(false);
+
+  useEffect(() => {
+      if (!showMath || !previewRef.current || !contentRef.current) return;
+      previewRef.current.innerHTML = contentRef.current.innerHTML;
+      renderMathInElement(previewRef.current);
+  }, [showMath]);
 
   useEffect(() => {
       if (contentRef.current && initialNote) {
@@ -24,6 +45,69 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({ initialNote, onSave, onC
       }
   }, []);
 
+  const [history, setHistory] = useState<History<NoteSnapshot>>(() => createHistory({ content: initialNote?.content || '', background }));
+  const pendingRecord = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Typing not yet recorded as a step can still be undone, so Undo is enabled meanwhile
+  const [typingPending, setTypingPending] = useState(false);
+
+  useEffect(() => () => { if (pendingRecord.current) clearTimeout(pendingRecord.current); }, []);
+
+  // The history with anything typed since the last step added as a step of its own
+  const withPendingEdits = (current: History<NoteSnapshot>, nextBackground = background) => {
+      if (pendingRecord.current) {
+          clearTimeout(pendingRecord.current);
+          pendingRecord.current = null;
+      }
+      const content = contentRef.current?.innerHTML || '';
+      if (content === current.present.content && nextBackground === current.present.background) return current;
+      return pushHistory(current, { content, background: nextBackground });
+  };
+
+  const record = (nextBackground = background) => {
+      setTypingPending(false);
+      setHistory(h => withPendingEdits(h, nextBackground));
+  };
+
+  const scheduleRecord = () => {
+      setTypingPending(true);
+      if (pendingRecord.current) clearTimeout(pendingRecord.current);
+      pendingRecord.current = setTimeout(() => record(), TYPING_PAUSE_MS);
+  };
+
+  const restore = (next: History<NoteSnapshot>) => {
+      setHistory(next);
+      if (contentRef.current) contentRef.current.innerHTML = next.present.content;
+      setBackground(next.present.background);
+  };
+
+  const handleUndo = () => {
+      setTypingPending(false);
+      const current = withPendingEdits(history);
+      if (current.past.length === 0) return;
+      soundService.playClick();
+      restore(undoHistory(current));
+  };
+
+  const handleRedo = () => {
+      setTypingPending(false);
+      const current = withPendingEdits(history);
+      if (current.future.length === 0) return;
+      soundService.playClick();
+      restore(redoHistory(current));
+  };
+
+  const handleEditorKeyDown = (e: React.KeyboardEvent) => {
+      const action = historyShortcut(e);
+      if (!action) return;
+      e.preventDefault();
+      if (action === 'undo') handleUndo(); else handleRedo();
+  };
+
+  const changeBackground = (next: Note['background']) => {
+      setBackground(next);
+      record(next);
+  };
+
   const handleSave = () => {
     soundService.playSuccess();
     onSave({
@@ -37,9 +121,12 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({ initialNote, onSave, onC
     });
   };
 
+  // Formatting is a step of its own, separate from the typing around it
   const execCmd = (command: string, value: string | undefined = undefined) => {
+      record();
       document.execCommand(command, false, value);
       contentRef.current?.focus();
+      record();
   };
 
   const bgStyles = {
@@ -81,6 +168,12 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({ initialNote, onSave, onC
                     <BackButton />
                 </div>
                 
+                {/* History Group */}
+                <div className="flex items-center bg-[var(--input-bg)] rounded-xl p-1 border border-[var(--glass-border)]">
+                    <button onClick={handleUndo} disabled={history.past.length === 0 && !typingPending} className="p-2.5 hover:bg-[var(--glass-bg)] rounded-lg text-[var(--text-primary)] disabled:opacity-40" title="Undo (Ctrl+Z)"><Undo2 className="w-5 h-5" /></button>
+                    <button onClick={handleRedo} disabled={history.future.length === 0} className="p-2.5 hover:bg-[var(--glass-bg)] rounded-lg text-[var(--text-primary)] disabled:opacity-40" title="Redo (Ctrl+Shift+Z)"><Redo2 className="w-5 h-5" /></button>
+                </div>
+
                 {/* Text Style Group */}
                 <div className="flex items-center bg-[var(--input-bg)] rounded-xl p-1 border border-[var(--glass-border)]">
                     <button onClick={() => execCmd('bold')} className="p-2.5 hover:bg-[var(--glass-bg)] rounded-lg text-[var(--text-primary)]" title="Bold"><Bold className="w-5 h-5" /></button>
@@ -94,11 +187,16 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({ initialNote, onSave, onC
                     <button onClick={() => execCmd('formatBlock', 'H2')} className="p-2.5 hover:bg-[var(--glass-bg)] rounded-lg text-[var(--text-primary)] font-bold" title="H2"><Heading2 className="w-5 h-5" /></button>
                 </div>
 
+                {/* Math Preview */}
+                <div className="flex items-center bg-[var(--input-bg)] rounded-xl p-1 border border-[var(--glass-border)]">
+                    <button onClick={() => { soundService.playClick(); setShowMath(!showMath); }} className={`p-2.5 rounded-lg transition-colors ${showMath ? `bg-${themeColor}-500 text-white shadow-sm` : 'text-[var(--text-primary)] hover:bg-[var(--glass-bg)]'}`} title="Preview math ($...$, $$...$$, \ce{...})"><Sigma className="w-5 h-5" /></button>
+                </div>
+
                 {/* Paper Style Group */}
                 <div className="flex items-center bg-[var(--input-bg)] rounded-xl p-1 border border-[var(--glass-border)]">
-                    <button onClick={() => setBackground('blank')} className={`p-2.5 rounded-lg transition-colors ${background === 'blank' ? `bg-${themeColor}-500 text-white shadow-sm` : 'text-[var(--text-secondary)] hover:text-[var(--text-primary)]'}`}><File className="w-5 h-5" /></button>
-                    <button onClick={() => setBackground('lined')} className={`p-2.5 rounded-lg transition-colors ${background === 'lined' ? `bg-${themeColor}-500 text-white shadow-sm` : 'text-[var(--text-secondary)] hover:text-[var(--text-primary)]'}`}><AlignLeft className="w-5 h-5" /></button>
-                    <button onClick={() => setBackground('grid')} className={`p-2.5 rounded-lg transition-colors ${background === 'grid' ? `bg-${themeColor}-500 text-white shadow-sm` : 'text-[var(--text-secondary)] hover:text-[var(--text-primary)]'}`}><Grid3X3 className="w-5 h-5" /></button>
+                    <button onClick={() => changeBackground('blank')} className={`p-2.5 rounded-lg transition-colors ${background === 'blank' ? `bg-${themeColor}-500 text-white shadow-sm` : 'text-[var(--text-secondary)] hover:text-[var(--text-primary)]'}`}><File className="w-5 h-5" /></button>
+                    <button onClick={() => changeBackground('lined')} className={`p-2.5 rounded-lg transition-colors ${background === 'lined' ? `bg-${themeColor}-500 text-white shadow-sm` : 'text-[var(--text-secondary)] hover:text-[var(--text-primary)]'}`}><AlignLeft className="w-5 h-5" /></button>
+                    <button onClick={() => changeBackground('grid')} className={`p-2.5 rounded-lg transition-colors ${background === 'grid' ? `bg-${themeColor}-500 text-white shadow-sm` : 'text-[var(--text-secondary)] hover:text-[var(--text-primary)]'}`}><Grid3X3 className="w-5 h-5" /></button>
                 </div>
             </div>
 
@@ -135,9 +233,16 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({ initialNote, onSave, onC
                 </div>
 
                 {/* Content Area */}
-                <div className={`min-h-[60vh] outline-none text-lg leading-relaxed text-[var(--text-primary)] ${bgStyles[background]} transition-colors duration-300 rounded-xl p-2`}
+                {showMath && (
+                    <div ref={previewRef} onClick={() => setShowMath(false)} title="Click to keep editing"
+                        className={`note-preview min-h-[60vh] text-lg leading-relaxed text-[var(--text-primary)] ${bgStyles[background]} rounded-xl p-2 cursor-text`}
+                    />
+                )}
+                <div className={`${showMath ? 'hidden' : ''} min-h-[60vh] outline-none text-lg leading-relaxed text-[var(--text-primary)] ${bgStyles[background]} transition-colors duration-300 rounded-xl p-2`}
                     contentEditable
                     ref={contentRef}
+                    onInput={scheduleRecord}
+                    onKeyDown={handleEditorKeyDown}
                     suppressContentEditableWarning
                     data-placeholder="Start typing..."
                 />
@@ -146,10 +251,10 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({ initialNote, onSave, onC
         
         {/* Style injection for editable content typography & placeholder */}
         <style>{`
-           [contenteditable] h1 { font-size: 1.8em; font-weight: 800; margin-bottom: 0.5em; margin-top: 1em; line-height: 1.2; color: var(--text-primary); }
-           [contenteditable] h2 { font-size: 1.4em; font-weight: 700; margin-bottom: 0.5em; margin-top: 1em; color: var(--text-primary); }
-           [contenteditable] b { font-weight: 800; color: var(--text-primary); }
-           [contenteditable] i { font-style: italic; opacity: 0.9; }
+           [contenteditable] h1, .note-preview h1 { font-size: 1.8em; font-weight: 800; margin-bottom: 0.5em; margin-top: 1em; line-height: 1.2; color: var(--text-primary); }
+           [contenteditable] h2, .note-preview h2 { font-size: 1.4em; font-weight: 700; margin-bottom: 0.5em; margin-top: 1em; color: var(--text-primary); }
+           [contenteditable] b, .note-preview b { font-weight: 800; color: var(--text-primary); }
+           [contenteditable] i, .note-preview i { font-style: italic; opacity: 0.9; }
            [contenteditable]:empty:before { content: attr(data-placeholder); color: var(--text-tertiary); pointer-events: none; opacity: 0.6; }
            [contenteditable]:focus { outline: none; }
         `}</style>
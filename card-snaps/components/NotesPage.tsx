@@ -3,18 +3,21 @@ import React, { useState } from 'react';
 import { Note } from '../types';
 import { soundService } from '../services/soundService';
 import { api } from '../services/api';
-import { Plus, StickyNote, Edit2, Trash2, Globe, Loader2, Check } from 'lucide-react';
+import { ShareLinkDialog } from './ShareLinkDialog';
+import { Plus, StickyNote, Edit2, Trash2, Globe, Loader2, Check, Link2 } from 'lucide-react';
 
 interface NotesPageProps {
   notes: Note[];
   onCreateNote: () => void;
   onEditNote: (id: string) => void;
   onDeleteNote: (e: React.MouseEvent, id: string) => void;
+  onOpenTrash?: () => void;
   themeColor: string;
 }
 
-export const NotesPage: React.FC<NotesPageProps> = ({ notes, onCreateNote, onEditNote, onDeleteNote, themeColor }) => {
+export const NotesPage: React.FC<NotesPageProps> = ({ notes, onCreateNote, onEditNote, onDeleteNote, onOpenTrash, themeColor }) => {
   const [sharingId, setSharingId] = useState<string | null>(null);
+  const [linkNote, setLinkNote] = useState<Note | null>(null);
 
   const handleCommunityShare = async (e: React.MouseEvent, note: Note) => {
         e.stopPropagation();
@@ -46,12 +49,23 @@ export const NotesPage: React.FC<NotesPageProps> = ({ notes, onCreateNote, onEdi
                 </h1>
                 <p className="text-[var(--text-secondary)] text-lg">Your knowledge base, organized.</p>
             </div>
-            <button 
-                onClick={onCreateNote}
-                className={`px-8 py-4 bg-${themeColor}-600 hover:bg-${themeColor}-500 text-white rounded-2xl font-bold shadow-lg shadow-${themeColor}-500/30 hover:-translate-y-1 transition-all flex items-center gap-2`}
-            >
-                <Plus className="w-5 h-5" /> Create Note
-            </button>
+            <div className="flex gap-3">
+                {onOpenTrash && (
+                    <button
+                        onClick={() => { soundService.playClick(); onOpenTrash(); }}
+                        className="px-6 py-4 bg-[var(--input-bg)] hover:bg-[var(--card-hover)] border border-[var(--glass-border)] text-[var(--text-primary)] rounded-2xl font-bold transition-all flex items-center gap-2"
+                        title="Recently deleted decks and notes"
+                    >
+                        <Trash2 className={`w-5 h-5 text-${themeColor}-500`} /> <span className="hidden sm:inline">Trash</span>
+                    </button>
+                )}
+                <button 
+                    onClick={onCreateNote}
+                    className={`px-8 py-4 bg-${themeColor}-600 hover:bg-${themeColor}-500 text-white rounded-2xl font-bold shadow-lg shadow-${themeColor}-500/30 hover:-translate-y-1 transition-all flex items-center gap-2`}
+                >
+                    <Plus className="w-5 h-5" /> Create Note
+                </button>
+            </div>
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6 md:gap-8">
@@ -76,6 +90,13 @@ export const NotesPage: React.FC<NotesPageProps> = ({ notes, onCreateNote, onEdi
                             >
                                 {sharingId === note.id ? <Loader2 className="w-4 h-4 animate-spin"/> : <Globe className="w-4 h-4" />}
                             </button>
+                            <button 
+                                onClick={(e) => { e.stopPropagation(); soundService.playClick(); setLinkNote(note); }} 
+                                className="p-2 text-[var(--text-tertiary)] hover:text-sky-400 hover:bg-sky-500/10 rounded-xl transition-colors" 
+                                title="Create share link"
+                            >
+                                <Link2 className="w-4 h-4" />
+                            </button>
                             <button 
                                 onClick={(e) => { e.stopPropagation(); onDeleteNote(e, note.id); }} 
                                 className="p-2 text-[var(--text-tertiary)] hover:text-red-400 hover:bg-red-500/10 rounded-xl transition-colors"
@@ -106,6 +127,10 @@ export const NotesPage: React.FC<NotesPageProps> = ({ notes, onCreateNote, onEdi
                  </div>
             )}
         </div>
+
+        {linkNote && (
+            <ShareLinkDialog kind="note" item={linkNote} onClose={() => setLinkNote(null)} />
+        )}
     </div>
   );
 };
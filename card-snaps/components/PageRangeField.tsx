@@ -0,0 +1,37 @@
+import React from 'react';
+import { ExtractedDocument, parsePageRange, documentText, sectionUnit, countWords } from '../services/documentService';
+
+interface PageRangeFieldProps {
+  doc: ExtractedDocument;
+  value: string;
+  onChange: (value: string) => void;
+  color?: string;
+}
+
+// Which pages (or slides) of an uploaded document to use, e.g. "1-3, 5"
+export const PageRangeField: React.FC<PageRangeFieldProps> = ({ doc, value, onChange, color = 'indigo' }) => {
+  const unit = sectionUnit(doc);
+  const total = doc.sections.length;
+  const pages = parsePageRange(value, total);
+  const words = pages ? countWords(documentText(doc, pages)) : 0;
+
+  return (
+    <div>
+      <label className="block text-xs font-bold text-[var(--text-tertiary)] uppercase tracking-wider mb-2 pl-1">
+        {unit === 'slide' ? 'Slides' : 'Pages'} <span className="normal-case tracking-normal font-medium">of {total}</span>
+      </label>
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className={`w-full bg-[var(--input-bg)] glass-input border rounded-xl px-4 py-3 text-[var(--text-primary)] outline-none transition-colors ${pages ? `border-[var(--glass-border)] focus:border-${color}-500` : 'border-red-500/60'}`}
+        placeholder={`All ${total} ${unit}s, or e.g. 1-3, 5`}
+      />
+      <p className={`text-xs font-medium mt-2 pl-1 ${pages ? 'text-[var(--text-tertiary)]' : 'text-red-400'}`}>
+        {pages
+          ? `${pages.length} ${pages.length === 1 ? unit : `${unit}s`} · ${words.toLocaleString()} words`
+          : `Use ${unit} numbers from 1 to ${total}, like 1-3, 5`}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,140 @@
+import React, { useMemo, useState } from 'react';
+import { Deck } from '../types';
+import { getDueCards, InterleaveStrategy } from '../services/srsService';
+import { soundService } from '../services/soundService';
+import { collectTags, filterDeckByTags } from '../services/libraryService';
+import { Layers, X, Check, Play, Shuffle, Repeat, AlarmClock, ListChecks, Folder } from 'lucide-react';
+
+interface ReviewAllDialogProps {
+  decks: Deck[];
+  // Preselected from the Library (a folder or a tag); otherwise every deck with due cards
+  initialDeckIds?: string[];
+  initialTags?: string[];
+  onStart: (deckIds: string[], strategy: InterleaveStrategy, tags: string[]) => void;
+  onClose: () => void;
+}
+
+const STRATEGIES: { value: InterleaveStrategy, label: string, hint: string, icon: React.ReactNode }[] = [
+  { value: 'round_robin', label: 'Interleave', hint: 'One card from each deck in turn', icon: <Repeat className="w-4 h-4" /> },
+  { value: 'shuffle', label: 'Shuffle', hint: 'Fully random order', icon: <Shuffle className="w-4 h-4" /> },
+  { value: 'most_overdue', label: 'Most overdue', hint: 'Oldest due cards first', icon: <AlarmClock className="w-4 h-4" /> },
+  { value: 'deck_by_deck', label: 'Deck by deck', hint: 'Finish one deck before the next', icon: <ListChecks className="w-4 h-4" /> },
+];
+
+export const ReviewAllDialog: React.FC<ReviewAllDialogProps> = ({ decks, initialDeckIds, initialTags = [], onStart, onClose }) => {
+  const [tags, setTags] = useState<string[]>(initialTags);
+  const allTags = useMemo(() => collectTags(decks), [decks]);
+
+  const dueCounts = useMemo(() => {
+    const now = Date.now();
+    return Object.fromEntries(decks.map(d => [d.id, getDueCards(filterDeckByTags(d, tags), now).length]));
+  }, [decks, tags]);
+
+  const decksWithDue = decks.filter(d => dueCounts[d.id] > 0);
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(initialDeckIds ?? decksWithDue.map(d => d.id)));
+  const [strategy, setStrategy] = useState<InterleaveStrategy>('round_robin');
+
+  const toggleTag = (tag: string) => {
+    soundService.playClick();
+    setTags(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+  };
+
+  const toggle = (deckId: string) => {
+    soundService.playClick();
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(deckId)) next.delete(deckId);
+      else next.add(deckId);
+      return next;
+    });
+  };
+
+  const total = decksWithDue.filter(d => selected.has(d.id)).reduce((sum, d) => sum + dueCounts[d.id], 0);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-md p-4 animate-pop-in">
+      <div className="glass-panel w-full max-w-xl max-h-[90vh] flex flex-col p-6 md:p-8 rounded-[2.5rem] shadow-2xl border-[var(--glass-border)] bg-[var(--glass-bg)]">
+        <div className="flex items-start justify-between mb-6">
+          <div>
+            <h3 className="text-2xl font-bold text-[var(--text-primary)] flex items-center gap-3">
+              <Layers className="w-6 h-6 text-indigo-500" /> Review All Due
+            </h3>
+            <p className="text-sm text-[var(--text-secondary)] font-medium mt-1">
+              Study due cards from several decks in one session.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 text-[var(--text-tertiary)] hover:text-[var(--text-primary)] transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <label className="block text-xs font-bold text-[var(--text-tertiary)] mb-2 uppercase tracking-wider pl-1">Decks</label>
+        <div className="flex-1 overflow-y-auto space-y-2 pr-2 custom-scrollbar mb-6 min-h-[80px]">
+          {decksWithDue.map(deck => (
+            <button
+              key={deck.id}
+              onClick={() => toggle(deck.id)}
+              className={`w-full flex items-center gap-3 p-3 rounded-2xl border text-left transition-colors ${selected.has(deck.id) ? 'bg-indigo-500/10 border-indigo-500/40' : 'bg-[var(--input-bg)] border-[var(--glass-border)] hover:bg-[var(--card-hover)]'}`}
+            >
+              <span className={`w-5 h-5 rounded-md flex items-center justify-center border flex-shrink-0 ${selected.has(deck.id) ? 'bg-indigo-500 border-indigo-500 text-white' : 'border-[var(--glass-border)]'}`}>
+                {selected.has(deck.id) && <Check className="w-3 h-3" />}
+              </span>
+              <span className="flex-1 min-w-0">
+                <span className="block font-bold text-sm text-[var(--text-primary)] truncate">{deck.title}</span>
+                {deck.folder && <span className="flex items-center gap-1 text-[10px] text-[var(--text-tertiary)] truncate"><Folder className="w-3 h-3 flex-shrink-0" /> {deck.folder.split('::').join(' / ')}</span>}
+              </span>
+              <span className="text-xs font-mono font-bold text-indigo-400">{dueCounts[deck.id]} due</span>
+            </button>
+          ))}
+          {decksWithDue.length === 0 && (
+            <div className="text-[var(--text-tertiary)] text-sm italic text-center py-6 bg-[var(--input-bg)] rounded-2xl">{tags.length > 0 ? 'Nothing with these tags is due right now.' : 'Nothing is due right now. Great job keeping up!'}</div>
+          )}
+        </div>
+
+        {allTags.length > 0 && (
+          <>
+            <label className="block text-xs font-bold text-[var(--text-tertiary)] mb-2 uppercase tracking-wider pl-1">Tags {tags.length === 0 && <span className="normal-case font-medium">(none picked: all cards)</span>}</label>
+            <div className="flex flex-wrap gap-2 mb-6 max-h-24 overflow-y-auto custom-scrollbar">
+              {allTags.map(({ tag, count }) => (
+                <button
+                  key={tag}
+                  onClick={() => toggleTag(tag)}
+                  className={`px-3 py-1.5 rounded-xl border text-xs font-bold transition-colors ${tags.includes(tag) ? 'bg-indigo-500 border-indigo-500 text-white' : 'bg-[var(--input-bg)] border-[var(--glass-border)] text-[var(--text-secondary)] hover:bg-[var(--card-hover)]'}`}
+                >
+                  #{tag} <span className="opacity-60">{count}</span>
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+
+        <label className="block text-xs font-bold text-[var(--text-tertiary)] mb-2 uppercase tracking-wider pl-1">Order</label>
+        <div className="grid grid-cols-2 gap-2 mb-6">
+          {STRATEGIES.map(option => (
+            <button
+              key={option.value}
+              onClick={() => { soundService.playClick(); setStrategy(option.value); }}
+              className={`p-3 rounded-2xl border text-left transition-colors ${strategy === option.value ? 'bg-indigo-500/10 border-indigo-500/40' : 'bg-[var(--input-bg)] border-[var(--glass-border)] hover:bg-[var(--card-hover)]'}`}
+            >
+              <span className="flex items-center gap-2 font-bold text-sm text-[var(--text-primary)]">{option.icon} {option.label}</span>
+              <span className="block text-[11px] text-[var(--text-tertiary)] mt-0.5">{option.hint}</span>
+            </button>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <button onClick={onClose} className="px-6 py-2 text-[var(--text-secondary)] hover:text-[var(--text-primary)] font-bold transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={() => { soundService.playPop(); onStart(decksWithDue.filter(d => selected.has(d.id)).map(d => d.id), strategy, tags); }}
+            disabled={total === 0}
+            className="px-6 py-3 bg-gradient-to-r from-violet-600 to-indigo-600 hover:from-violet-500 hover:to-indigo-500 text-white font-bold rounded-2xl shadow-xl shadow-indigo-500/20 transition-all flex items-center gap-2 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Play className="w-5 h-5" /> Start {total > 0 && `(${total})`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React, { useEffect, useState } from 'react';
+import { parseRichText, parseInline, Inline } from '../services/richTextService';
+import { getMediaUrl } from '../services/mediaService';
+import { MathFormula } from './MathText';
+import { ImageOff } from 'lucide-react';
+
+// An image or audio clip from the media store. Clicks on players don't flip the card underneath.
+export const MediaEmbed: React.FC<{ id: string, name: string }> = ({ id, name }) => {
+  const [media, setMedia] = useState<{ url: string, type: string } | null | undefined>(undefined);
+
+  useEffect(() => {
+    let active = true;
+    getMediaUrl(id).then(result => { if (active) setMedia(result); });
+    return () => { active = false; };
+  }, [id]);
+
+  if (media === undefined) return <span className="inline-block w-24 h-16 rounded-xl bg-black/10 animate-pulse align-middle" />;
+  if (media === null) {
+    return (
+      <span className="inline-flex items-center gap-1.5 px-2 py-1 rounded-lg bg-black/10 text-xs font-bold opacity-70 align-middle" title="Not on this device yet. Connect to download it.">
+        <ImageOff className="w-3.5 h-3.5" /> {name || 'Media'}
+      </span>
+    );
+  }
+  if (media.type.startsWith('audio/')) {
+    return <audio controls src={media.url} className="inline-block max-w-full align-middle my-1" onClick={(e) => e.stopPropagation()} />;
+  }
+  return <img src={media.url} alt={name} className="inline-block max-w-full max-h-48 rounded-xl align-middle my-1 object-contain" />;
+};
+
+const renderInline = (content: Inline[]): React.ReactNode[] => content.map((node, i) => {
+  switch (node.kind) {
+    case 'text': return <React.Fragment key={i}>{node.text}</React.Fragment>;
+    case 'bold': return <strong key={i} className="font-extrabold">{renderInline(node.children)}</strong>;
+    case 'italic': return <em key={i}>{renderInline(node.children)}</em>;
+    case 'code': return <code key={i} className="px-1.5 py-0.5 rounded-md bg-black/10 font-mono text-[0.85em]">{node.text}</code>;
+    case 'media': return <MediaEmbed key={i} id={node.id} name={node.name} />;
+    case 'math': return <MathFormula key={i} tex={node.tex} display={node.display} />;
+  }
+});
+
+// Formatting, media and math within a single line (e.g. the pieces of a cloze)
+export const InlineRichText: React.FC<{ text: string }> = ({ text }) => <>{renderInline(parseInline(text))}</>;
+
+// Renders card markup (see richTextService) as React elements, never as raw HTML
+export const RichText: React.FC<{ text: string, className?: string }> = ({ text, className = '' }) => (
+  <span className={`block space-y-2 ${className}`}>
+    {parseRichText(text).map((block, i) => {
+      if (block.kind === 'code') {
+        return <pre key={i} className="text-left text-[0.6em] leading-snug font-mono p-3 rounded-xl bg-black/10 overflow-x-auto whitespace-pre">{block.text}</pre>;
+      }
+      if (block.kind === 'list') {
+        const List = block.ordered ? 'ol' : 'ul';
+        return (
+          <List key={i} className={`inline-block text-left pl-6 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+            {block.items.map((item, j) => <li key={j}>{renderInline(item)}</li>)}
+          </List>
+        );
+      }
+      return <span key={i} className="block whitespace-pre-wrap">{renderInline(block.content)}</span>;
+    })}
+  </span>
+);
@@ -0,0 +1,137 @@
+import React, { useRef, useState } from 'react';
+import { soundService } from '../services/soundService';
+import { addMedia } from '../services/mediaService';
+import { hasRichContent, mediaToken } from '../services/richTextService';
+import { RichText } from './RichText';
+import { Bold, Italic, Code, List, Sigma, Paperclip, Loader2 } from 'lucide-react';
+
+interface RichTextInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+// A textarea for card sides with a formatting toolbar, image/audio attachments and a live preview
+export const RichTextInput: React.FC<RichTextInputProps> = ({ value, onChange, placeholder, className = 'h-24 md:h-32' }) => {
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [attaching, setAttaching] = useState(false);
+  const [error, setError] = useState('');
+
+  // Replaces the selection with `before + selection + after` and keeps the selection inside the markers
+  const wrapSelection = (before: string, after: string) => {
+    const input = inputRef.current;
+    if (!input) return;
+    soundService.playClick();
+    const { selectionStart, selectionEnd } = input;
+    const selected = value.slice(selectionStart, selectionEnd);
+    onChange(value.slice(0, selectionStart) + before + selected + after + value.slice(selectionEnd));
+    requestAnimationFrame(() => {
+      input.focus();
+      input.setSelectionRange(selectionStart + before.length, selectionEnd + before.length);
+    });
+  };
+
+  const makeList = () => {
+    const input = inputRef.current;
+    if (!input) return;
+    soundService.playClick();
+    const lineStart = value.lastIndexOf('\n', input.selectionStart - 1) + 1;
+    const lineEnd = value.indexOf('\n', input.selectionEnd);
+    const end = lineEnd === -1 ? value.length : lineEnd;
+    const lines = value.slice(lineStart, end).split('\n').map(line => line.startsWith('- ') ? line : `- ${line}`).join('\n');
+    onChange(value.slice(0, lineStart) + lines + value.slice(end));
+    requestAnimationFrame(() => input.focus());
+  };
+
+  const insertAtCaret = (text: string) => {
+    const input = inputRef.current;
+    const position = input ? input.selectionStart : value.length;
+    onChange(value.slice(0, position) + text + value.slice(position));
+  };
+
+  const attach = async (files: File[]) => {
+    if (files.length === 0) return;
+    setAttaching(true);
+    setError('');
+    try {
+      const tokens: string[] = [];
+      for (const file of files) {
+        const stored = await addMedia(file, file.name || 'pasted');
+        tokens.push(mediaToken(stored.name, stored.id));
+      }
+      insertAtCaret(tokens.join(' '));
+      soundService.playPop();
+    } catch (err: any) {
+      setError(err?.message || "Couldn't add that file.");
+    } finally {
+      setAttaching(false);
+    }
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0) return;
+    e.preventDefault();
+    attach(files);
+  };
+
+  const tools = [
+    { title: 'Bold', icon: <Bold className="w-4 h-4" />, action: () => wrapSelection('**', '**') },
+    { title: 'Italic', icon: <Italic className="w-4 h-4" />, action: () => wrapSelection('*', '*') },
+    { title: 'Code', icon: <Code className="w-4 h-4" />, action: () => wrapSelection('`', '`') },
+    { title: 'List', icon: <List className="w-4 h-4" />, action: makeList },
+    { title: 'Math ($...$, \\ce{...} for chemistry)', icon: <Sigma className="w-4 h-4" />, action: () => wrapSelection('$', '$') },
+  ];
+
+  return (
+    <div>
+      <div className="flex items-center gap-1 mb-2">
+        {tools.map(tool => (
+          <button
+            key={tool.title}
+            type="button"
+            onClick={tool.action}
+            title={tool.title}
+            className="p-2 rounded-lg text-[var(--text-tertiary)] hover:text-indigo-500 hover:bg-indigo-500/10 transition-colors"
+          >
+            {tool.icon}
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={attaching}
+          title="Attach an image or audio clip"
+          className="ml-auto flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold text-[var(--text-tertiary)] hover:text-indigo-500 hover:bg-indigo-500/10 transition-colors disabled:opacity-50"
+        >
+          {attaching ? <Loader2 className="w-4 h-4 animate-spin" /> : <Paperclip className="w-4 h-4" />} Image / Audio
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*,audio/*"
+          multiple
+          className="hidden"
+          onChange={(e) => { attach(Array.from(e.target.files || [])); e.target.value = ''; }}
+        />
+      </div>
+      <textarea
+        ref={inputRef}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onPaste={handlePaste}
+        className={`w-full bg-[var(--input-bg)] glass-input border border-[var(--glass-border)] rounded-2xl px-5 py-4 text-[var(--text-primary)] outline-none transition-all resize-none placeholder-[var(--text-tertiary)] ${className}`}
+        placeholder={placeholder}
+      />
+      {error && <p className="text-xs text-red-400 mt-1 pl-1">{error}</p>}
+      {hasRichContent(value) && (
+        <div className="mt-2 p-4 rounded-2xl border border-dashed border-[var(--glass-border)] text-[var(--text-primary)] text-sm">
+          <span className="block text-[10px] font-bold text-[var(--text-tertiary)] uppercase tracking-wider mb-2">Preview</span>
+          <RichText text={value} />
+        </div>
+      )}
+    </div>
+  );
+};
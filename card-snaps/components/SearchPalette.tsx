@@ -0,0 +1,119 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { buildSearchIndex, searchIndex, SearchSources, SearchTarget, SearchKind, Highlighted } from '../services/searchService';
+import { soundService } from '../services/soundService';
+import { Search, Library, Layers, StickyNote, GraduationCap, Bot, CornerDownLeft } from 'lucide-react';
+
+interface SearchPaletteProps extends SearchSources {
+  onOpen: (target: SearchTarget) => void;
+  onClose: () => void;
+}
+
+const KINDS: Record<SearchKind, { label: string, icon: React.ReactNode, color: string }> = {
+  deck: { label: 'Deck', icon: <Library className="w-4 h-4" />, color: 'text-indigo-500 bg-indigo-500/10' },
+  card: { label: 'Card', icon: <Layers className="w-4 h-4" />, color: 'text-sky-500 bg-sky-500/10' },
+  note: { label: 'Note', icon: <StickyNote className="w-4 h-4" />, color: 'text-amber-500 bg-amber-500/10' },
+  test: { label: 'Test', icon: <GraduationCap className="w-4 h-4" />, color: 'text-emerald-500 bg-emerald-500/10' },
+  chat: { label: 'Cardy', icon: <Bot className="w-4 h-4" />, color: 'text-fuchsia-500 bg-fuchsia-500/10' },
+};
+
+const Marked: React.FC<{ parts: Highlighted }> = ({ parts }) => (
+  <>
+    {parts.map((part, i) => part.match
+      ? <mark key={i} className="bg-indigo-500/25 text-[var(--text-primary)] rounded px-0.5">{part.text}</mark>
+      : <React.Fragment key={i}>{part.text}</React.Fragment>
+    )}
+  </>
+);
+
+// Ctrl+K search over everything in the library. Arrow keys move, Enter opens, Escape closes.
+export const SearchPalette: React.FC<SearchPaletteProps> = ({ decks, notes, tests, chats, onOpen, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const index = useMemo(() => buildSearchIndex({ decks, notes, tests, chats }), [decks, notes, tests, chats]);
+  const results = useMemo(() => searchIndex(index, query), [index, query]);
+
+  useEffect(() => setActiveIndex(0), [query]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const open = (target: SearchTarget) => {
+    soundService.playPop();
+    onOpen(target);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(i => Math.min(i + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter' && results[activeIndex]) {
+      e.preventDefault();
+      open(results[activeIndex].target);
+    } else if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-start justify-center bg-black/70 backdrop-blur-md p-4 pt-[10vh] animate-pop-in" onClick={onClose}>
+      <div
+        className="glass-panel w-full max-w-2xl max-h-[75vh] flex flex-col rounded-[2rem] shadow-2xl border-[var(--glass-border)] bg-[var(--glass-bg)] overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 px-6 py-5 border-b border-[var(--glass-border)]">
+          <Search className="w-5 h-5 text-[var(--text-tertiary)] flex-shrink-0" />
+          <input
+            autoFocus
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search decks, cards, notes, tests and chats..."
+            className="flex-1 bg-transparent text-lg text-[var(--text-primary)] outline-none placeholder-[var(--text-tertiary)]"
+          />
+          <kbd className="hidden sm:block px-2 py-1 rounded-lg bg-[var(--input-bg)] border border-[var(--glass-border)] text-[10px] font-bold text-[var(--text-tertiary)]">ESC</kbd>
+        </div>
+
+        <div ref={listRef} className="flex-1 overflow-y-auto p-3 custom-scrollbar">
+          {query.trim() && results.length === 0 && (
+            <div className="text-[var(--text-tertiary)] text-sm italic text-center py-10">Nothing matches "{query.trim()}".</div>
+          )}
+          {!query.trim() && (
+            <div className="text-[var(--text-tertiary)] text-sm text-center py-10">Type to search everything you've made.</div>
+          )}
+          {results.map((result, i) => {
+            const kind = KINDS[result.target.kind];
+            return (
+              <button
+                key={result.key}
+                data-index={i}
+                onClick={() => open(result.target)}
+                onMouseMove={() => setActiveIndex(i)}
+                className={`w-full flex items-start gap-3 p-3 rounded-2xl text-left transition-colors ${i === activeIndex ? 'bg-[var(--card-hover)]' : ''}`}
+              >
+                <span className={`w-9 h-9 rounded-xl flex items-center justify-center flex-shrink-0 ${kind.color}`}>{kind.icon}</span>
+                <span className="flex-1 min-w-0">
+                  <span className="flex items-center gap-2">
+                    <span className="font-bold text-sm text-[var(--text-primary)] truncate"><Marked parts={result.title} /></span>
+                    <span className="text-[10px] font-bold uppercase tracking-wider text-[var(--text-tertiary)] flex-shrink-0">{kind.label}</span>
+                  </span>
+                  {result.snippet.length > 0 && (
+                    <span className="block text-xs text-[var(--text-secondary)] line-clamp-2 mt-0.5"><Marked parts={result.snippet} /></span>
+                  )}
+                  {result.subtitle && <span className="block text-[10px] text-[var(--text-tertiary)] truncate mt-0.5">{result.subtitle}</span>}
+                </span>
+                {i === activeIndex && <CornerDownLeft className="w-4 h-4 text-[var(--text-tertiary)] flex-shrink-0 mt-2" />}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { Deck, Note } from '../types';
+import { soundService } from '../services/soundService';
+import { api, ShareLink } from '../services/api';
+import { createItemFile } from '../services/bundleService';
+import { uploadPendingMedia } from '../services/mediaService';
+import { Link2, X, Copy, Check, Clock, Loader2 } from 'lucide-react';
+
+interface ShareLinkDialogProps {
+  kind: 'deck' | 'note';
+  item: Deck | Note;
+  onClose: () => void;
+}
+
+const EXPIRY_OPTIONS: { label: string, days: number | undefined }[] = [
+  { label: 'Never', days: undefined },
+  { label: '1 day', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+];
+
+export const ShareLinkDialog: React.FC<ShareLinkDialogProps> = ({ kind, item, onClose }) => {
+  const [expiresInDays, setExpiresInDays] = useState<number | undefined>(undefined);
+  const [link, setLink] = useState<ShareLink | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [copied, setCopied] = useState<'url' | 'code' | null>(null);
+  const [error, setError] = useState('');
+
+  const handleCreate = async () => {
+    if (creating) return;
+    setCreating(true);
+    setError('');
+    soundService.playClick();
+    try {
+      // Shared decks load their images and audio from the server, so send any still waiting
+      await uploadPendingMedia();
+      setLink(await api.createShareLink(createItemFile(kind, item), expiresInDays));
+      soundService.playSuccess();
+    } catch (err: any) {
+      setError(err?.message || "Couldn't create a share link.");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const copy = async (what: 'url' | 'code') => {
+    if (!link) return;
+    try {
+      await navigator.clipboard.writeText(what === 'url' ? link.url : link.code);
+      soundService.playPop();
+      setCopied(what);
+      setTimeout(() => setCopied(null), 1500);
+    } catch {
+      setError('Copy failed. Select the text and copy it manually.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-md p-4 animate-pop-in" onClick={(e) => e.stopPropagation()}>
+      <div className="glass-panel w-full max-w-md p-6 md:p-8 rounded-[2.5rem] shadow-2xl border-[var(--glass-border)] bg-[var(--glass-bg)]">
+        <div className="flex items-start justify-between mb-6">
+          <div className="min-w-0">
+            <h3 className="text-2xl font-bold text-[var(--text-primary)] flex items-center gap-3">
+              <Link2 className="w-6 h-6 text-sky-500" /> Share Link
+            </h3>
+            <p className="text-sm text-[var(--text-secondary)] font-medium mt-1 truncate">
+              Anyone with the link can import "{item.title}" in their Dock.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 text-[var(--text-tertiary)] hover:text-[var(--text-primary)] transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {link ? (
+          <div className="space-y-3">
+            <div className="flex items-center gap-2 p-3 rounded-2xl bg-[var(--input-bg)] border border-[var(--glass-border)]">
+              <input readOnly value={link.url} onFocus={(e) => e.target.select()} className="flex-1 min-w-0 bg-transparent text-sm font-mono text-[var(--text-primary)] outline-none" />
+              <button onClick={() => copy('url')} className="p-2 rounded-xl text-[var(--text-tertiary)] hover:text-sky-500 hover:bg-sky-500/10 transition-colors" title="Copy link">
+                {copied === 'url' ? <Check className="w-4 h-4 text-emerald-500" /> : <Copy className="w-4 h-4" />}
+              </button>
+            </div>
+            <div className="flex items-center justify-between p-3 rounded-2xl bg-[var(--input-bg)] border border-[var(--glass-border)]">
+              <span className="text-xs font-bold text-[var(--text-tertiary)] uppercase tracking-wider">Code</span>
+              <button onClick={() => copy('code')} className="flex items-center gap-2 font-mono font-extrabold text-lg tracking-widest text-[var(--text-primary)] hover:text-sky-500 transition-colors">
+                {link.code} {copied === 'code' ? <Check className="w-4 h-4 text-emerald-500" /> : <Copy className="w-4 h-4" />}
+              </button>
+            </div>
+            <p className="text-xs text-[var(--text-tertiary)] pl-1 flex items-center gap-1.5">
+              <Clock className="w-3 h-3" />
+              {link.expiresAt ? `Expires ${new Date(link.expiresAt).toLocaleDateString()}` : 'Never expires'}. Later edits aren't included; share again to send an update.
+            </p>
+          </div>
+        ) : (
+          <>
+            <label className="block text-xs font-bold text-[var(--text-tertiary)] mb-2 uppercase tracking-wider pl-1">Expires after</label>
+            <div className="grid grid-cols-4 gap-2 mb-6">
+              {EXPIRY_OPTIONS.map(option => (
+                <button
+                  key={option.label}
+                  onClick={() => { soundService.playClick(); setExpiresInDays(option.days); }}
+                  className={`py-2.5 rounded-xl border text-sm font-bold transition-colors ${expiresInDays === option.days ? 'bg-sky-500/10 border-sky-500/40 text-sky-500' : 'bg-[var(--input-bg)] border-[var(--glass-border)] text-[var(--text-secondary)] hover:bg-[var(--card-hover)]'}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={handleCreate}
+              disabled={creating}
+              className="w-full py-4 bg-gradient-to-r from-sky-600 to-indigo-600 hover:from-sky-500 hover:to-indigo-500 text-white font-bold rounded-2xl shadow-xl shadow-indigo-500/20 transition-all flex items-center justify-center gap-2 active:scale-95 disabled:opacity-50"
+            >
+              {creating ? <Loader2 className="w-5 h-5 animate-spin" /> : <Link2 className="w-5 h-5" />} Create Link
+            </button>
+          </>
+        )}
+
+        {error && (
+          <div className="mt-4 p-3 bg-red-500/10 border border-red-500/20 rounded-2xl text-red-400 text-sm">{error}</div>
+        )}
+      </div>
+    </div>
+  );
+};
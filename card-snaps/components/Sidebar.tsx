@@ -1,6 +1,6 @@
 
 import React from 'react';
-import { LayoutDashboard, WalletCards, PlusCircle, GraduationCap, Palette, LayoutGrid, Bot, Sparkles, Gamepad2, Trophy, StickyNote, Anchor, Zap, BookOpen, Calculator, Book, Globe, Clock } from 'lucide-react';
+import { LayoutDashboard, WalletCards, PlusCircle, GraduationCap, Palette, LayoutGrid, Bot, Sparkles, Gamepad2, Trophy, StickyNote, Anchor, Zap, BookOpen, Calculator, Book, Globe, Clock, CloudOff, Search, AlertTriangle, RefreshCw, LogIn } from 'lucide-react';
 import { AppView, UserProfile, ColorScheme, SeasonalEvent } from '../types';
 import { soundService } from '../services/soundService';
 
@@ -11,6 +11,13 @@ interface SidebarProps {
   className?: string;
   themeColor?: string; // e.g. 'indigo', 'cyan', 'red'
   activeEvent?: SeasonalEvent | null;
+  pendingChanges?: number; // Local edits waiting in the sync outbox
+  failedChanges?: string[]; // Why each set-aside edit couldn't sync
+  onRetryFailed?: () => void;
+  onDiscardFailed?: () => void;
+  sessionExpired?: boolean; // The server turned down the saved sign-in; syncing waits for a new one
+  onSignIn?: () => void;
+  onSearch?: () => void;
 }
 
 // Helper to map color scheme/event to Tailwind classes
@@ -34,7 +41,14 @@ export const Sidebar: React.FC<SidebarProps> = ({
   userProfile,
   className = '',
   themeColor = 'indigo',
-  activeEvent
+  activeEvent,
+  pendingChanges = 0,
+  failedChanges = [],
+  onRetryFailed,
+  onDiscardFailed,
+  sessionExpired = false,
+  onSignIn,
+  onSearch
 }) => {
   
   const styles = getThemeStyles(themeColor);
@@ -93,6 +107,15 @@ export const Sidebar: React.FC<SidebarProps> = ({
 
       {/* Navigation */}
       <div className="flex-1 px-6 space-y-3 overflow-y-auto custom-scrollbar">
+        {onSearch && (
+          <button
+            onClick={onSearch}
+            className="w-full flex items-center gap-3 px-5 py-3 mb-4 rounded-2xl bg-[var(--input-bg)] border border-[var(--glass-border)] text-[var(--text-tertiary)] hover:text-[var(--text-primary)] transition-colors text-sm font-medium"
+          >
+            <Search className="w-4 h-4" /> Search
+            <kbd className="ml-auto px-1.5 py-0.5 rounded-md border border-[var(--glass-border)] text-[10px] font-bold">Ctrl K</kbd>
+          </button>
+        )}
         <div className="text-xs font-bold text-[var(--text-tertiary)] uppercase tracking-widest px-4 mb-4">Menu</div>
         <NavItem view={AppView.DASHBOARD} icon={LayoutDashboard} label="Dashboard" />
         <NavItem view={AppView.PLAY} icon={Trophy} label="Play & Stats" highlight={true} />
@@ -109,6 +132,41 @@ export const Sidebar: React.FC<SidebarProps> = ({
 
       {/* Footer Nav */}
       <div className="p-6 mx-4 mb-6">
+         {pendingChanges > 0 && (
+            <div className="flex items-center gap-2 px-4 py-2 mb-3 rounded-2xl bg-amber-500/10 border border-amber-500/20 text-amber-500 text-xs font-bold animate-fade-in-up" title="These edits are saved on this device and will sync when you're back online">
+                <CloudOff className="w-4 h-4 flex-shrink-0" />
+                {pendingChanges} {pendingChanges === 1 ? 'change' : 'changes'} pending
+            </div>
+         )}
+         {sessionExpired && (
+            <button
+                onClick={onSignIn}
+                className="w-full flex items-center gap-2 px-4 py-2 mb-3 rounded-2xl bg-amber-500/10 border border-amber-500/20 text-amber-500 text-xs font-bold text-left hover:bg-amber-500/20 transition-colors animate-fade-in-up"
+            >
+                <LogIn className="w-4 h-4 flex-shrink-0" />
+                Signed out. Sign in to sync.
+            </button>
+         )}
+         {failedChanges.length > 0 && (
+            <div className="px-4 py-3 mb-3 rounded-2xl bg-red-500/10 border border-red-500/20 text-red-400 text-xs font-bold animate-fade-in-up">
+                <div className="flex items-center gap-2">
+                    <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                    {failedChanges.length} {failedChanges.length === 1 ? "change" : "changes"} couldn't sync
+                </div>
+                <ul className="mt-2 space-y-1 font-medium text-[11px] text-[var(--text-secondary)] break-words">
+                    {failedChanges.slice(0, 3).map((reason, i) => <li key={i}>{reason}</li>)}
+                    {failedChanges.length > 3 && <li>and {failedChanges.length - 3} more</li>}
+                </ul>
+                <div className="flex gap-2 mt-2">
+                    <button onClick={onRetryFailed} className="flex items-center gap-1 px-2 py-1 rounded-lg bg-red-500/10 hover:bg-red-500/20 transition-colors">
+                        <RefreshCw className="w-3 h-3" /> Retry
+                    </button>
+                    <button onClick={onDiscardFailed} className="px-2 py-1 rounded-lg text-[var(--text-tertiary)] hover:text-red-400 transition-colors">
+                        Discard
+                    </button>
+                </div>
+            </div>
+         )}
          <NavItem view={AppView.THEMES} icon={Palette} label="Themes" />
       </div>
     </div>
@@ -1,25 +1,57 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Deck, Card as CardType } from '../types';
-import { Card } from './Card';
+import { Deck, Card as CardType, ReviewLog } from '../types';
+import { Card, CardText } from './Card';
 import { soundService } from '../services/soundService';
-import { calculateReview, SRSRating } from '../services/srsService';
+import { calculateReview, previewInterval, createReviewLog, isLearning, buildReviewQueue, countStudied, getStudyItems, applyReview, SRSRating, SchedulerOptions, InterleaveStrategy } from '../services/srsService';
+import { getExpectedAnswer } from '../services/clozeService';
+import { toPlainText } from '../services/richTextService';
+import { filterDeckByTags } from '../services/libraryService';
 import { ArrowLeft, RotateCcw, Check, X, Clock, Ghost, Send } from 'lucide-react';
 import confetti from 'canvas-confetti';
 
 interface StudyModeProps {
-  deck: Deck;
+  deck?: Deck;
+  // Cross-deck review: due cards from all of these decks in one session, each written back to its own deck
+  decks?: Deck[];
+  interleave?: InterleaveStrategy;
+  // Only study cards carrying one of these tags
+  tags?: string[];
   onExit: () => void;
   onUpdateDeck: (updatedDeck: Deck) => void;
   mode: 'standard' | 'srs';
+  fsrsParams?: number[];
+  onLogReview?: (log: ReviewLog) => void;
 }
 
-export const StudyMode: React.FC<StudyModeProps> = ({ deck, onExit, onUpdateDeck, mode }) => {
+export const StudyMode: React.FC<StudyModeProps> = ({ deck, decks, interleave = 'round_robin', tags = [], onExit, onUpdateDeck, mode, fsrsParams, onLogReview }) => {
+  const sessionDecks = decks ?? (deck ? [deck] : []);
+  const sessionKey = [...sessionDecks.map(d => d.id), ...tags].join(',');
+  const tagLabel = tags.map(tag => `#${tag}`).join(' ');
+  const title = decks ? (tags.length > 0 ? `Review ${tagLabel}` : 'Review All') : deck?.title;
+
+  // Which deck each queued card belongs to, so answers are saved to the right place
+  const ownerRef = useRef(new Map<string, string>());
+  const deckFor = (card: CardType) => sessionDecks.find(d => d.id === ownerRef.current.get(card.id)) || sessionDecks[0];
+
+  const optionsFor = (owner?: Deck): SchedulerOptions => ({
+    scheduler: owner?.scheduler,
+    fsrsParams,
+    learningSteps: owner?.learningSteps,
+    relearningSteps: owner?.relearningSteps
+  });
+
   // If SRS mode, filter for due cards first
   const [studyCards, setStudyCards] = useState<CardType[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isFlipped, setIsFlipped] = useState(false);
   const [direction, setDirection] = useState<'left' | 'right' | null>(null);
   const [finished, setFinished] = useState(false);
+
+  // Learning cards answered this session wait here until their step is due, then rejoin the queue
+  const [waitingCards, setWaitingCards] = useState<CardType[]>([]);
+  // Set when only waiting cards are left: when the next one is due
+  const [waitingUntil, setWaitingUntil] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
   
   // Ghost Mode State
   const [ghostMode, setGhostMode] = useState(false);
@@ -27,20 +59,29 @@ export const StudyMode: React.FC<StudyModeProps> = ({ deck, onExit, onUpdateDeck
   const [ghostFeedback, setGhostFeedback] = useState<'correct' | 'wrong' | null>(null);
   const ghostCardRef = useRef<CardType | null>(null);
 
+  // When the current card appeared, for response times in the review log
+  const shownAtRef = useRef(Date.now());
   useEffect(() => {
-    if (mode === 'srs') {
-      const now = Date.now();
-      const due = deck.cards.filter(c => !c.srs || c.srs.dueDate <= now);
-      setStudyCards(due.length > 0 ? due : []);
-    } else {
-      setStudyCards(deck.cards);
-    }
-  }, [deck, mode]);
+    shownAtRef.current = Date.now();
+  }, [currentIndex, finished]);
+
+  // The queue is built once per session; saving reviewed cards back to the deck must not reshuffle it
+  useEffect(() => {
+    // Filtered copies only shape the queue; answers are saved into the full decks
+    const queueDecks = sessionDecks.map(d => filterDeckByTags(d, tags));
+    const items = mode === 'srs'
+      ? buildReviewQueue(queueDecks, decks ? interleave : 'deck_by_deck')
+      : queueDecks.flatMap(d => getStudyItems(d).map(card => ({ deckId: d.id, card })));
+    ownerRef.current = new Map(items.map(item => [item.card.id, item.deckId]));
+    setStudyCards(items.map(item => item.card));
+    setWaitingCards([]);
+    setWaitingUntil(null);
+  }, [sessionKey, mode]);
 
   // Keyboard controls
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (finished || studyCards.length === 0) return;
+      if (finished || studyCards.length === 0 || waitingUntil !== null) return;
       
       // If in ghost mode with input focused, don't hijack keys
       if (ghostMode && document.activeElement?.tagName === 'INPUT') {
@@ -68,7 +109,7 @@ export const StudyMode: React.FC<StudyModeProps> = ({ deck, onExit, onUpdateDeck
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [currentIndex, finished, isFlipped, studyCards.length, mode, ghostMode]);
+  }, [currentIndex, finished, isFlipped, studyCards.length, mode, ghostMode, waitingUntil]);
 
   const nextCard = useCallback((dir: 'left' | 'right' = 'right') => {
     if (finished) return;
@@ -78,6 +119,9 @@ export const StudyMode: React.FC<StudyModeProps> = ({ deck, onExit, onUpdateDeck
     
     // Check for Ghost Mode Trigger (20% chance on correct answer in Standard Mode)
     const currentCard = studyCards[currentIndex];
+    if (currentCard) {
+        onLogReview?.(createReviewLog(deckFor(currentCard).id, currentCard, currentCard, dir === 'right' ? 'good' : 'again', 'standard', Date.now() - shownAtRef.current));
+    }
     const triggerGhost = mode === 'standard' && dir === 'right' && Math.random() < 0.2;
 
     setTimeout(() => {
@@ -100,12 +144,12 @@ export const StudyMode: React.FC<StudyModeProps> = ({ deck, onExit, onUpdateDeck
             }
         }
     }, 300);
-  }, [currentIndex, studyCards.length, finished, mode, studyCards]);
+  }, [currentIndex, studyCards.length, finished, mode, studyCards, sessionKey, onLogReview]);
 
   const handleGhostSubmit = () => {
       if (!ghostCardRef.current || !ghostInput.trim()) return;
       
-      const correct = ghostCardRef.current.back.toLowerCase().trim();
+      const correct = toPlainText(getExpectedAnswer(ghostCardRef.current), false).toLowerCase().trim();
       const user = ghostInput.toLowerCase().trim();
       
       // Simple fuzzy check or direct match
@@ -144,25 +188,56 @@ export const StudyMode: React.FC<StudyModeProps> = ({ deck, onExit, onUpdateDeck
     
     // Update the card logic
     const currentCard = studyCards[currentIndex];
-    const updatedCard = calculateReview(currentCard, rating);
+    const owner = deckFor(currentCard);
+    const updatedCard = calculateReview(currentCard, rating, optionsFor(owner));
+    onLogReview?.(createReviewLog(owner.id, currentCard, updatedCard, rating, 'srs', Date.now() - shownAtRef.current));
+
+    // Cards still in learning come back later in this session, once their step is due
+    const waiting = isLearning(updatedCard) ? [...waitingCards, updatedCard] : waitingCards;
     
     // Update the actual deck data immediately
-    const updatedDeckCards = deck.cards.map(c => c.id === updatedCard.id ? updatedCard : c);
-    onUpdateDeck({ ...deck, cards: updatedDeckCards });
+    onUpdateDeck({ ...owner, cards: applyReview(owner.cards, updatedCard), studiedToday: countStudied(owner, currentCard) });
 
     setDirection('right');
     
-    setTimeout(() => {
-        if (currentIndex < studyCards.length - 1) {
-            setCurrentIndex(prev => prev + 1);
-            setIsFlipped(false);
-            setDirection(null);
-        } else {
-            finishSession();
-        }
-    }, 300);
+    setTimeout(() => showNext(waiting), 300);
+  };
+
+  const dueAt = (card: CardType) => card.srs?.dueDate ?? 0;
+
+  // Moves on from the card just answered. A waiting card whose step is due goes first, then the
+  // rest of the queue; when only waiting cards are left, the session waits for the next one
+  // rather than asking it minutes early (unless the user chooses to study ahead).
+  const showNext = (waiting: CardType[], studyAhead = false) => {
+    const [next, ...rest] = [...waiting].sort((a, b) => dueAt(a) - dueAt(b));
+    setIsFlipped(false);
+    setDirection(null);
+    setWaitingUntil(null);
+    if (next && (studyAhead || dueAt(next) <= Date.now())) {
+        setWaitingCards(rest);
+        setStudyCards(prev => [...prev.slice(0, currentIndex + 1), next, ...prev.slice(currentIndex + 1)]);
+        setCurrentIndex(prev => prev + 1);
+    } else if (currentIndex < studyCards.length - 1) {
+        setWaitingCards(waiting);
+        setCurrentIndex(prev => prev + 1);
+    } else if (next) {
+        setWaitingCards(waiting);
+        setNow(Date.now());
+        setWaitingUntil(dueAt(next));
+    } else {
+        finishSession();
+    }
   };
 
+  useEffect(() => {
+    if (waitingUntil === null) return;
+    const timer = setInterval(() => {
+        setNow(Date.now());
+        if (Date.now() >= waitingUntil) showNext(waitingCards);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [waitingUntil, waitingCards]);
+
   const finishSession = () => {
     setFinished(true);
     soundService.playSuccess();
@@ -180,6 +255,8 @@ export const StudyMode: React.FC<StudyModeProps> = ({ deck, onExit, onUpdateDeck
       setFinished(false);
       setDirection(null);
       setGhostMode(false);
+      setWaitingCards([]);
+      setWaitingUntil(null);
       soundService.playPop();
   };
 
@@ -190,7 +267,7 @@ export const StudyMode: React.FC<StudyModeProps> = ({ deck, onExit, onUpdateDeck
                 <Check className="w-14 h-14 text-indigo-400" />
             </div>
             <h2 className="text-4xl font-extrabold text-[var(--text-primary)] mb-4">All Caught Up!</h2>
-            <p className="text-[var(--text-secondary)] mb-8 max-w-md text-lg">No cards are due for review in this deck right now. Great job keeping up!</p>
+            <p className="text-[var(--text-secondary)] mb-8 max-w-md text-lg">No cards are due for review in {decks ? 'your decks' : 'this deck'} right now. Great job keeping up!</p>
             <button 
                 onClick={onExit}
                 className="px-8 py-3.5 rounded-xl bg-[var(--input-bg)] border border-[var(--glass-border)] text-[var(--text-primary)] font-bold hover:bg-[var(--glass-bg)] transition-all hover:scale-105"
@@ -234,6 +311,40 @@ export const StudyMode: React.FC<StudyModeProps> = ({ deck, onExit, onUpdateDeck
       );
   }
 
+  if (waitingUntil !== null) {
+      const seconds = Math.max(0, Math.ceil((waitingUntil - now) / 1000));
+      const countdown = seconds >= 3600
+        ? `${Math.floor(seconds / 3600)}h ${Math.floor(seconds / 60) % 60}m`
+        : `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+      return (
+          <div className="flex flex-col items-center justify-center h-full animate-fade-in-up text-center p-8">
+              <div className="w-28 h-28 bg-amber-500/10 rounded-full flex items-center justify-center mb-6 border border-amber-500/20 animate-pulse-soft">
+                  <Clock className="w-14 h-14 text-amber-400" />
+              </div>
+              <h2 className="text-4xl font-extrabold text-[var(--text-primary)] mb-4">Next card in {countdown}</h2>
+              <p className="text-[var(--text-secondary)] mb-8 max-w-md text-lg">
+                {waitingCards.length} {waitingCards.length === 1 ? 'card is' : 'cards are'} still in learning and will come back when {waitingCards.length === 1 ? "it's" : "they're"} due.
+              </p>
+              <div className="flex gap-5">
+                  <button
+                    onClick={() => { soundService.playClick(); onExit(); }}
+                    className="px-8 py-3.5 rounded-xl bg-[var(--input-bg)] border border-[var(--glass-border)] text-[var(--text-primary)] font-bold hover:bg-[var(--glass-bg)] transition-colors"
+                  >
+                      Back to Home
+                  </button>
+                  <button
+                    onClick={() => { soundService.playClick(); showNext(waitingCards, true); }}
+                    className="px-8 py-3.5 rounded-xl bg-gradient-to-r from-violet-600 to-indigo-600 text-white font-bold hover:from-violet-500 hover:to-indigo-500 shadow-lg shadow-indigo-500/30 transition-all hover:scale-105"
+                  >
+                      Study Now
+                  </button>
+              </div>
+          </div>
+      );
+  }
+
+  const currentOptions = studyCards[currentIndex] ? optionsFor(deckFor(studyCards[currentIndex])) : optionsFor(sessionDecks[0]);
+
   // Determine cards to render for the stack effect
   const visibleCards = studyCards.slice(currentIndex, currentIndex + 3);
 
@@ -249,10 +360,16 @@ export const StudyMode: React.FC<StudyModeProps> = ({ deck, onExit, onUpdateDeck
             </button>
             
             <div className="flex flex-col items-center">
-                 <h2 className="text-lg font-bold text-[var(--text-primary)] tracking-wide truncate max-w-[200px]">{deck.title}</h2>
+                 <h2 className="text-lg font-bold text-[var(--text-primary)] tracking-wide truncate max-w-[200px]">{title}</h2>
+                 {decks && studyCards[currentIndex] && (
+                     <p className="text-xs font-medium text-[var(--text-secondary)] truncate max-w-[200px]">{deckFor(studyCards[currentIndex])?.title}</p>
+                 )}
                  <div className="text-xs font-bold text-[var(--text-tertiary)] uppercase tracking-widest flex items-center gap-2 mt-1 bg-[var(--input-bg)] px-3 py-1 rounded-full backdrop-blur-sm border border-[var(--glass-border)]">
                      {mode === 'srs' && <Clock className="w-3 h-3 text-indigo-400" />}
                      Card {currentIndex + 1} / {studyCards.length}
+                     {mode === 'srs' && studyCards[currentIndex] && isLearning(studyCards[currentIndex]) && (
+                         <span className="text-amber-400">· Learning</span>
+                     )}
                  </div>
             </div>
 
@@ -280,7 +397,7 @@ export const StudyMode: React.FC<StudyModeProps> = ({ deck, onExit, onUpdateDeck
                 
                 return (
                     <div
-                        key={card.id}
+                        key={`${card.id}:${currentIndex + offset}`}
                         className={`absolute w-[85vw] max-w-sm md:max-w-md aspect-[3/4] md:aspect-[4/3] h-auto transition-all duration-500 cubic-bezier(0.23, 1, 0.32, 1) ${transformClass} ${isCurrent ? 'animate-float' : ''}`}
                         style={{
                             zIndex,
@@ -299,7 +416,7 @@ export const StudyMode: React.FC<StudyModeProps> = ({ deck, onExit, onUpdateDeck
                                     <div className="absolute top-2 right-2 p-2 bg-indigo-600 rounded-full text-white animate-pulse">
                                         <Ghost className="w-6 h-6" />
                                     </div>
-                                    <div className="text-3xl font-bold leading-relaxed drop-shadow-sm text-slate-800">{card.front}</div>
+                                    <div className="text-3xl font-bold leading-relaxed drop-shadow-sm text-slate-800"><CardText card={card} side="front" /></div>
                                     <div className="absolute bottom-8 text-[10px] font-bold uppercase tracking-widest opacity-60 flex items-center gap-2">
                                         <span className="w-1 h-1 bg-slate-800 rounded-full animate-pulse"></span>
                                         Tap to Answer
@@ -320,13 +437,13 @@ export const StudyMode: React.FC<StudyModeProps> = ({ deck, onExit, onUpdateDeck
                                         <div className="animate-pop-in flex flex-col items-center relative z-10">
                                             <Check className="w-16 h-16 text-emerald-400 mb-4" />
                                             <h3 className="text-2xl font-bold text-white">Correct!</h3>
-                                            <p className="text-slate-400 mt-2">{card.back}</p>
+                                            <p className="text-slate-400 mt-2"><CardText card={card} side="back" /></p>
                                         </div>
                                     ) : ghostFeedback === 'wrong' ? (
                                         <div className="animate-shake flex flex-col items-center w-full relative z-10">
                                             <X className="w-16 h-16 text-red-400 mb-4" />
                                             <h3 className="text-xl font-bold text-white mb-2">Not quite...</h3>
-                                            <p className="text-slate-300 mb-6 bg-white/10 p-3 rounded-lg w-full font-bold">{card.back}</p>
+                                            <p className="text-slate-300 mb-6 bg-white/10 p-3 rounded-lg w-full font-bold"><CardText card={card} side="back" /></p>
                                             <button onClick={skipGhost} className="px-6 py-2 bg-white text-black font-bold rounded-xl hover:scale-105 transition-transform">Continue</button>
                                         </div>
                                     ) : (
@@ -415,19 +532,19 @@ export const StudyMode: React.FC<StudyModeProps> = ({ deck, onExit, onUpdateDeck
                         <div className="grid grid-cols-2 md:grid-cols-4 gap-3 max-w-3xl mx-auto">
                             <button onClick={() => handleSRSReview('again')} className="group flex flex-col items-center justify-center p-4 rounded-2xl bg-[var(--input-bg)] border border-slate-700 hover:bg-red-500/10 hover:border-red-500 transition-all hover:-translate-y-1">
                                 <span className="text-sm text-red-400 font-extrabold uppercase mb-1 group-hover:text-red-300">Again</span>
-                                <span className="text-xs text-slate-500 group-hover:text-slate-300 font-mono">&lt; 1min</span>
+                                <span className="text-xs text-slate-500 group-hover:text-slate-300 font-mono">{previewInterval(studyCards[currentIndex], 'again', currentOptions)}</span>
                             </button>
                             <button onClick={() => handleSRSReview('hard')} className="group flex flex-col items-center justify-center p-4 rounded-2xl bg-[var(--input-bg)] border border-slate-700 hover:bg-orange-500/10 hover:border-orange-500 transition-all hover:-translate-y-1">
                                 <span className="text-sm text-orange-400 font-extrabold uppercase mb-1 group-hover:text-orange-300">Hard</span>
-                                <span className="text-xs text-slate-500 group-hover:text-slate-300 font-mono">~1d</span>
+                                <span className="text-xs text-slate-500 group-hover:text-slate-300 font-mono">{previewInterval(studyCards[currentIndex], 'hard', currentOptions)}</span>
                             </button>
                             <button onClick={() => handleSRSReview('good')} className="group flex flex-col items-center justify-center p-4 rounded-2xl bg-[var(--input-bg)] border border-slate-700 hover:bg-blue-500/10 hover:border-blue-500 transition-all hover:-translate-y-1">
                                 <span className="text-sm text-blue-400 font-extrabold uppercase mb-1 group-hover:text-blue-300">Good</span>
-                                <span className="text-xs text-slate-500 group-hover:text-slate-300 font-mono">~3d</span>
+                                <span className="text-xs text-slate-500 group-hover:text-slate-300 font-mono">{previewInterval(studyCards[currentIndex], 'good', currentOptions)}</span>
                             </button>
                             <button onClick={() => handleSRSReview('easy')} className="group flex flex-col items-center justify-center p-4 rounded-2xl bg-[var(--input-bg)] border border-slate-700 hover:bg-green-500/10 hover:border-green-500 transition-all hover:-translate-y-1">
                                 <span className="text-sm text-green-400 font-extrabold uppercase mb-1 group-hover:text-green-300">Easy</span>
-                                <span className="text-xs text-slate-500 group-hover:text-slate-300 font-mono">~7d</span>
+                                <span className="text-xs text-slate-500 group-hover:text-slate-300 font-mono">{previewInterval(studyCards[currentIndex], 'easy', currentOptions)}</span>
                             </button>
                         </div>
                     )}
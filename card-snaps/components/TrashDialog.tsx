@@ -0,0 +1,133 @@
+import React, { useEffect, useState } from 'react';
+import { Deck, Note } from '../types';
+import { api, Trash, TRASH_RETENTION_DAYS } from '../services/api';
+import { soundService } from '../services/soundService';
+import { Trash2, X, ArchiveRestore, Layers, StickyNote, Loader2 } from 'lucide-react';
+
+interface TrashDialogProps {
+  onRestoreDeck: (deck: Deck) => void;
+  onRestoreNote: (note: Note) => void;
+  onClose: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysLeft = (deletedAt = Date.now()) =>
+  Math.max(0, Math.ceil((deletedAt + TRASH_RETENTION_DAYS * DAY_MS - Date.now()) / DAY_MS));
+
+type TrashItem = { kind: 'deck', item: Deck } | { kind: 'note', item: Note };
+
+// Deleted decks and notes, kept for TRASH_RETENTION_DAYS before the server purges them
+export const TrashDialog: React.FC<TrashDialogProps> = ({ onRestoreDeck, onRestoreNote, onClose }) => {
+  const [trash, setTrash] = useState<Trash | null>(null);
+
+  useEffect(() => {
+    api.getTrash().then(setTrash);
+  }, []);
+
+  const items: TrashItem[] = trash
+    ? [
+        ...trash.decks.map(item => ({ kind: 'deck' as const, item })),
+        ...trash.notes.map(item => ({ kind: 'note' as const, item })),
+      ].sort((a, b) => (b.item.deletedAt || 0) - (a.item.deletedAt || 0))
+    : [];
+
+  const drop = (entry: TrashItem) => setTrash(prev => prev && (entry.kind === 'deck'
+    ? { ...prev, decks: prev.decks.filter(d => d.id !== entry.item.id) }
+    : { ...prev, notes: prev.notes.filter(n => n.id !== entry.item.id) }));
+
+  const handleRestore = async (entry: TrashItem) => {
+    soundService.playSuccess();
+    drop(entry);
+    if (entry.kind === 'deck') onRestoreDeck(await api.restoreDeck(entry.item));
+    else onRestoreNote(await api.restoreNote(entry.item));
+  };
+
+  const handleDeleteForever = async (entry: TrashItem) => {
+    if (!confirm(`Delete "${entry.item.title}" forever? This can't be undone.`)) return;
+    soundService.playClick();
+    drop(entry);
+    await api.deleteForever(entry.kind, entry.item.id);
+  };
+
+  const handleEmpty = async () => {
+    if (!confirm(`Delete all ${items.length} items in the trash forever? This can't be undone.`)) return;
+    soundService.playClick();
+    setTrash({ decks: [], notes: [] });
+    for (const entry of items) await api.deleteForever(entry.kind, entry.item.id);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-md p-4 animate-pop-in">
+      <div className="glass-panel w-full max-w-xl max-h-[90vh] flex flex-col p-6 md:p-8 rounded-[2.5rem] shadow-2xl border-[var(--glass-border)] bg-[var(--glass-bg)]">
+        <div className="flex items-start justify-between mb-6">
+          <div>
+            <h3 className="text-2xl font-bold text-[var(--text-primary)] flex items-center gap-3">
+              <Trash2 className="w-6 h-6 text-indigo-500" /> Trash
+            </h3>
+            <p className="text-sm text-[var(--text-secondary)] font-medium mt-1">
+              Deleted decks and notes stay here for {TRASH_RETENTION_DAYS} days.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 text-[var(--text-tertiary)] hover:text-[var(--text-primary)] transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-2 pr-2 custom-scrollbar mb-6 min-h-[80px]">
+          {!trash && (
+            <div className="flex justify-center py-8 text-[var(--text-tertiary)]">
+              <Loader2 className="w-6 h-6 animate-spin" />
+            </div>
+          )}
+          {trash && items.length === 0 && (
+            <p className="text-center py-8 text-sm text-[var(--text-tertiary)] font-medium">The trash is empty.</p>
+          )}
+          {items.map(entry => (
+            <div key={`${entry.kind}:${entry.item.id}`} className="flex items-center gap-3 p-3 rounded-2xl border bg-[var(--input-bg)] border-[var(--glass-border)]">
+              {entry.kind === 'deck'
+                ? <Layers className="w-5 h-5 text-indigo-500 flex-shrink-0" />
+                : <StickyNote className="w-5 h-5 text-amber-500 flex-shrink-0" />}
+              <div className="flex-1 min-w-0">
+                <p className="font-bold text-sm text-[var(--text-primary)] truncate">{entry.item.title || 'Untitled'}</p>
+                <p className="text-[10px] text-[var(--text-tertiary)] font-bold">
+                  {entry.kind === 'deck' ? `${entry.item.cards.length} cards · ` : ''}
+                  {daysLeft(entry.item.deletedAt)} days left
+                </p>
+              </div>
+              <button
+                onClick={() => handleRestore(entry)}
+                className="flex items-center gap-1.5 px-3 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-bold transition-colors"
+              >
+                <ArchiveRestore className="w-4 h-4" /> Restore
+              </button>
+              <button
+                onClick={() => handleDeleteForever(entry)}
+                className="p-2 rounded-xl text-[var(--text-tertiary)] hover:text-red-500 hover:bg-red-500/10 transition-colors"
+                title="Delete forever"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-3">
+          <button
+            onClick={handleEmpty}
+            disabled={items.length === 0}
+            className="flex-1 py-4 rounded-2xl bg-[var(--input-bg)] border border-[var(--glass-border)] text-red-500 font-bold hover:bg-red-500/10 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Empty Trash
+          </button>
+          <button
+            onClick={onClose}
+            className="flex-1 py-4 rounded-2xl bg-indigo-600 hover:bg-indigo-500 text-white font-bold transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
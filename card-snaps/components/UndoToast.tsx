@@ -0,0 +1,33 @@
+import React, { useEffect } from 'react';
+import { Undo2, X } from 'lucide-react';
+
+interface UndoToastProps {
+  label: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+}
+
+const VISIBLE_MS = 8000;
+
+// Shown after anything destructive, for a few seconds
+export const UndoToast: React.FC<UndoToastProps> = ({ label, onUndo, onDismiss }) => {
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, VISIBLE_MS);
+    return () => clearTimeout(timer);
+  }, [label]);
+
+  return (
+    <div className="fixed bottom-24 md:bottom-8 left-1/2 -translate-x-1/2 z-[70] flex items-center gap-3 pl-5 pr-2 py-2 rounded-2xl bg-slate-900/90 text-white shadow-2xl backdrop-blur-xl animate-fade-in-up">
+      <span className="text-sm font-bold">{label}</span>
+      <button
+        onClick={onUndo}
+        className="flex items-center gap-1.5 px-3 py-1.5 rounded-xl bg-white/10 hover:bg-white/20 text-sm font-bold transition-colors"
+      >
+        <Undo2 className="w-4 h-4" /> Undo
+      </button>
+      <button onClick={onDismiss} className="p-1.5 text-white/60 hover:text-white transition-colors" title="Dismiss">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
@@ -6,11 +6,11 @@ const jwt = require('jsonwebtoken');
 const crypto = require('crypto');
 const path = require('path');
 const fs = require('fs');
+const { createStorage } = require('./storage');
 
 const app = express();
 const PORT = process.env.PORT || 3001; // Use env PORT for deployment
 const SECRET_KEY = 'super-secret-key-change-this-in-prod';
-const DB_FILE = path.resolve(__dirname, 'database.json');
 
 // --- HELPER: UUID Polyfill ---
 const generateUUID = () => {
@@ -21,73 +21,44 @@ const generateUUID = () => {
   });
 };
 
-// --- DATABASE SYSTEM (JSON FILE BASED) ---
-const db = {
-  data: {
-    users: [],
-    decks: [],
-    notes: [],
-    tests: [],
-    stats: [], 
-    chat_sessions: [],
-    community: []
-  },
-  load() {
-    try {
-      if (fs.existsSync(DB_FILE)) {
-        const fileData = fs.readFileSync(DB_FILE, 'utf8');
-        this.data = { ...this.data, ...JSON.parse(fileData) };
-        console.log("Database loaded from file.");
-      } else {
-        console.log("No database found, creating new one.");
-        this.seed();
-        this.save();
-      }
-    } catch (e) {
-      console.error("Error loading database:", e);
-      this.seed();
-    }
-  },
-  save() {
-    try {
-      fs.writeFileSync(DB_FILE, JSON.stringify(this.data, null, 2));
-    } catch (e) {
-      console.error("Error saving database:", e);
+// --- DATABASE SYSTEM (see storage/index.js for the interface) ---
+const store = createStorage();
+
+const seedCommunity = () => {
+  const seeds = [
+    {
+        id: generateUUID(), type: 'deck', title: 'Biology: Cell Structure', description: 'Comprehensive guide to organelles and functions.', author: 'Dr. Science', downloads: 124, 
+        data: { id: 's1', title: 'Biology: Cell Structure', description: 'Deep dive into mitochondria.', cards: [{id:'c1', front:'Powerhouse?', back:'Mitochondria', color:'bg-green-100'}], createdAt: Date.now() },
+        timestamp: Date.now()
+    },
+    {
+        id: generateUUID(), type: 'deck', title: 'Spanish Verbs 101', description: 'Conjugations for ser, estar, and ir.', author: 'Señorita A', downloads: 45, 
+        data: { id: 's2', title: 'Spanish Verbs 101', description: 'Conjugations.', cards: [{id:'c2', front:'Ser', back:'To be', color:'bg-orange-100'}], createdAt: Date.now() },
+        timestamp: Date.now() - 10000
+    },
+    {
+        id: generateUUID(), type: 'note', title: 'Calculus Cheat Sheet', description: 'Derivatives and Integrals quick ref.', author: 'MathWhiz', downloads: 89, 
+        data: { id: 's3', title: 'Calculus Cheat Sheet', subject: 'Math', content: '<b>Power Rule:</b> nx^(n-1)', background: 'grid', createdAt: Date.now(), lastModified: Date.now() },
+        timestamp: Date.now() - 20000
+    },
+    {
+        id: generateUUID(), type: 'deck', title: 'World Capitals', description: 'Test your geography knowledge.', author: 'GeoMaster', downloads: 12,
+        data: { id: 's4', title: 'World Capitals', description: 'Hard mode geography.', cards: [{id:'c3', front:'Capital of Australia?', back:'Canberra', color:'bg-blue-100'}], createdAt: Date.now() },
+        timestamp: Date.now() - 30000
+    },
+    {
+        id: generateUUID(), type: 'note', title: 'React Hooks Guide', description: 'useEffect, useState, and custom hooks.', author: 'CodeNinja', downloads: 156,
+        data: { id: 's5', title: 'React Hooks', subject: 'CS', content: '<b>useEffect:</b> Side effects.', background: 'lined', createdAt: Date.now(), lastModified: Date.now() },
+        timestamp: Date.now() - 40000
     }
-  },
-  seed() {
-    const seeds = [
-      {
-          id: generateUUID(), type: 'deck', title: 'Biology: Cell Structure', description: 'Comprehensive guide to organelles and functions.', author: 'Dr. Science', downloads: 124, 
-          data: { id: 's1', title: 'Biology: Cell Structure', description: 'Deep dive into mitochondria.', cards: [{id:'c1', front:'Powerhouse?', back:'Mitochondria', color:'bg-green-100'}], createdAt: Date.now() },
-          timestamp: Date.now()
-      },
-      {
-          id: generateUUID(), type: 'deck', title: 'Spanish Verbs 101', description: 'Conjugations for ser, estar, and ir.', author: 'Señorita A', downloads: 45, 
-          data: { id: 's2', title: 'Spanish Verbs 101', description: 'Conjugations.', cards: [{id:'c2', front:'Ser', back:'To be', color:'bg-orange-100'}], createdAt: Date.now() },
-          timestamp: Date.now() - 10000
-      },
-      {
-          id: generateUUID(), type: 'note', title: 'Calculus Cheat Sheet', description: 'Derivatives and Integrals quick ref.', author: 'MathWhiz', downloads: 89, 
-          data: { id: 's3', title: 'Calculus Cheat Sheet', subject: 'Math', content: '<b>Power Rule:</b> nx^(n-1)', background: 'grid', createdAt: Date.now(), lastModified: Date.now() },
-          timestamp: Date.now() - 20000
-      },
-      {
-          id: generateUUID(), type: 'deck', title: 'World Capitals', description: 'Test your geography knowledge.', author: 'GeoMaster', downloads: 12,
-          data: { id: 's4', title: 'World Capitals', description: 'Hard mode geography.', cards: [{id:'c3', front:'Capital of Australia?', back:'Canberra', color:'bg-blue-100'}], createdAt: Date.now() },
-          timestamp: Date.now() - 30000
-      },
-      {
-          id: generateUUID(), type: 'note', title: 'React Hooks Guide', description: 'useEffect, useState, and custom hooks.', author: 'CodeNinja', downloads: 156,
-          data: { id: 's5', title: 'React Hooks', subject: 'CS', content: '<b>useEffect:</b> Side effects.', background: 'lined', createdAt: Date.now(), lastModified: Date.now() },
-          timestamp: Date.now() - 40000
-      }
-    ];
-    this.data.community = seeds;
-  }
+  ];
+  store.transaction(() => seeds.forEach(item => store.insertCommunityItem(item)));
 };
 
-db.load();
+if (store.isEmpty()) {
+  console.log("No database found, creating new one.");
+  seedCommunity();
+}
 
 app.use(cors({
     origin: '*', 
@@ -105,6 +76,96 @@ app.use((req, res, next) => {
 
 // --- API Routes (Prefix /api) ---
 
+// Key-order independent comparison (cards read back from storage may list fields differently)
+const canonical = (value) => {
+    if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`;
+    if (value && typeof value === 'object') {
+        return `{${Object.keys(value).filter(k => value[k] !== undefined).sort().map(k => `${JSON.stringify(k)}:${canonical(value[k])}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
+};
+
+// Deck folders are "Parent::Child" paths ('' is the top level); card tags are single words
+const FOLDER_SEPARATOR = '::';
+const cleanFolder = (folder) => typeof folder === 'string'
+    ? folder.split(FOLDER_SEPARATOR).map(part => part.trim()).filter(Boolean).join(FOLDER_SEPARATOR)
+    : '';
+const cleanTags = (tags) => Array.isArray(tags)
+    ? [...new Set(tags.filter(tag => typeof tag === 'string').map(tag => tag.trim().replace(/\s+/g, '_')).filter(Boolean))]
+    : [];
+
+// Deck settings a client may write. Everything else on a stored deck (revision, trash state...)
+// is set by the server, so a request body can't slip it in.
+const CLIENT_DECK_FIELDS = ['scheduler', 'learningSteps', 'relearningSteps', 'studyOptions', 'studiedToday', 'studyReverse'];
+const clientDeckFields = (body) => Object.fromEntries(
+    CLIENT_DECK_FIELDS.filter(key => body[key] !== undefined).map(key => [key, body[key]])
+);
+
+// Cards are stored by (deck, card id), so each card in a deck needs an id of its own.
+// Returns what's wrong with the list, or null when it can be written.
+const invalidCards = (cards) => {
+    if (cards === undefined) return null;
+    if (!Array.isArray(cards)) return "Cards must be a list";
+    const ids = new Set();
+    for (const card of cards) {
+        const id = card && card.id;
+        if ((typeof id !== 'string' && typeof id !== 'number') || id === '') return "Every card needs an id";
+        if (ids.has(String(id))) return `More than one card has the id "${id}"`;
+        ids.add(String(id));
+    }
+    return null;
+};
+
+// Stamps per-card revisions by comparing incoming cards with the stored copies
+const stampCards = (incoming, previous = []) => {
+    const now = Date.now();
+    const byId = new Map(previous.map(c => [c.id, c]));
+    return (incoming || []).map(card => {
+        const { revision: _r, updatedAt: _u, tags: rawTags, ...rest } = card;
+        const tags = cleanTags(rawTags);
+        const content = tags.length ? { ...rest, tags } : rest;
+        const old = byId.get(card.id);
+        if (!old) return { ...content, revision: 1, updatedAt: now };
+        const { revision, updatedAt, ...oldContent } = old;
+        if (canonical(content) === canonical(oldContent)) return old;
+        return { ...content, revision: (revision || 0) + 1, updatedAt: now };
+    });
+};
+
+// DECK HISTORY: a snapshot per saved revision, newest DECK_VERSION_LIMIT kept per deck.
+// Saves that only change study progress aren't snapshotted; every review session saves the
+// deck, and those would push the edits worth going back to out of the cap.
+const DECK_VERSION_LIMIT = 50;
+
+const deckContent = (deck) => canonical({
+    title: deck.title || '',
+    description: deck.description || '',
+    folder: deck.folder || '',
+    cards: (deck.cards || []).map(({ srs, reverseSrs, revision, updatedAt, ...card }) => card)
+});
+
+const snapshotDeck = (deck, author, createdAt) => store.insertDeckVersion({
+    userId: deck.userId,
+    deckId: deck.id,
+    revision: deck.revision || 0,
+    title: deck.title,
+    description: deck.description,
+    folder: deck.folder,
+    cards: deck.cards,
+    author,
+    createdAt
+}, DECK_VERSION_LIMIT);
+
+const recordDeckVersion = (before, after, userId) => {
+    if (before && deckContent(before) === deckContent(after)) return;
+    const user = store.findUserById(userId);
+    // Decks saved before history existed get their last state recorded first, so there's a way back to it
+    if (before && store.countDeckVersions(userId, before.id) === 0) {
+        snapshotDeck(before, null, before.updatedAt || before.createdAt);
+    }
+    snapshotDeck(after, user ? (user.name || user.email) : null, after.updatedAt);
+};
+
 const authenticateToken = (req, res, next) => {
   const authHeader = req.headers['authorization'];
   const token = authHeader && authHeader.split(' ')[1];
@@ -127,7 +188,7 @@ app.post('/api/auth/register', async (req, res) => {
     const { email, password, name } = req.body;
     if (!email || !password) return res.status(400).json({ error: "Missing fields" });
 
-    if (db.data.users.find(u => u.email === email)) {
+    if (store.findUserByEmail(email)) {
         return res.status(400).json({ error: "Email already exists" });
     }
 
@@ -142,9 +203,10 @@ app.post('/api/auth/register', async (req, res) => {
         created_at: Date.now()
     };
 
-    db.data.users.push(newUser);
-    db.data.stats.push({ userId: id, xp: 0, goals: [] });
-    db.save();
+    store.transaction(() => {
+        store.insertUser(newUser);
+        store.saveStats(id, { xp: 0, goals: [] });
+    });
 
     const token = jwt.sign({ id, email }, SECRET_KEY);
     const { password: _, ...userSafe } = newUser;
@@ -157,7 +219,7 @@ app.post('/api/auth/register', async (req, res) => {
 
 app.post('/api/auth/login', async (req, res) => {
   const { email, password } = req.body;
-  const user = db.data.users.find(u => u.email === email);
+  const user = store.findUserByEmail(email);
   
   if (!user) return res.status(400).json({ error: "User not found" });
   
@@ -171,7 +233,7 @@ app.post('/api/auth/login', async (req, res) => {
 });
 
 app.get('/api/auth/me', authenticateToken, (req, res) => {
-    const user = db.data.users.find(u => u.id === req.user.id);
+    const user = store.findUserById(req.user.id);
     if(!user) return res.sendStatus(404);
     const { password: _, ...userSafe } = user;
     res.json(userSafe);
@@ -179,12 +241,8 @@ app.get('/api/auth/me', authenticateToken, (req, res) => {
 
 app.put('/api/user/preferences', authenticateToken, (req, res) => {
     const { themeMode, colorScheme, enableSeasonal } = req.body;
-    const user = db.data.users.find(u => u.id === req.user.id);
-    if (user) {
-        user.themeMode = themeMode;
-        user.colorScheme = colorScheme;
-        user.enableSeasonal = enableSeasonal;
-        db.save();
+    if (store.findUserById(req.user.id)) {
+        store.updateUser(req.user.id, { themeMode, colorScheme, enableSeasonal });
         res.json({ success: true });
     } else {
         res.status(404).json({ error: "User not found" });
@@ -193,170 +251,311 @@ app.put('/api/user/preferences', authenticateToken, (req, res) => {
 
 // DECKS
 app.get('/api/decks', authenticateToken, (req, res) => {
-    const userDecks = db.data.decks.filter(d => d.userId === req.user.id).sort((a,b) => b.created_at - a.created_at);
-    const processed = userDecks.map(d => ({
-        ...d,
-        cards: typeof d.cards === 'string' ? JSON.parse(d.cards) : d.cards,
-        createdAt: d.created_at
-    }));
-    res.json(processed);
+    res.json(store.listDecks(req.user.id));
 });
 
 app.post('/api/decks', authenticateToken, (req, res) => {
-    const { id, title, description, cards } = req.body;
-    const deckId = id || generateUUID();
+    const { id, title, description, folder, cards } = req.body;
+    const cardError = invalidCards(cards);
+    if (cardError) return res.status(400).json({ error: cardError });
+    // Offline clients may replay a create that already landed
+    const existing = id && store.getDeck(req.user.id, id);
+    if (existing) return res.json(existing);
     const newDeck = {
-        id: deckId,
+        ...clientDeckFields(req.body),
+        id: id || generateUUID(),
         userId: req.user.id,
         title,
         description,
-        cards: cards, 
-        created_at: Date.now()
+        folder: cleanFolder(folder),
+        cards: stampCards(cards),
+        revision: 1,
+        updatedAt: Date.now(),
+        createdAt: Date.now()
     };
-    db.data.decks.unshift(newDeck);
-    db.save();
+    store.transaction(() => {
+        store.insertDeck(newDeck);
+        recordDeckVersion(null, newDeck, req.user.id);
+    });
     res.json(newDeck);
 });
 
 app.put('/api/decks/:id', authenticateToken, (req, res) => {
-    const { title, description, cards } = req.body;
-    const deck = db.data.decks.find(d => d.id === req.params.id && d.userId === req.user.id);
+    const { title, description, folder, cards, baseRevision } = req.body;
+    const cardError = invalidCards(cards);
+    if (cardError) return res.status(400).json({ error: cardError });
+    const deck = store.getDeck(req.user.id, req.params.id);
     if (deck) {
-        deck.title = title;
-        deck.description = description;
-        deck.cards = cards;
-        db.save();
-        res.json({ success: true });
+        // Clients send the revision their edit was based on; anything older loses
+        if (baseRevision !== undefined && (deck.revision || 0) !== baseRevision) {
+            return res.status(409).json({ error: "Deck was modified on another device", deck });
+        }
+        const updated = {
+            ...deck,
+            ...clientDeckFields(req.body),
+            id: deck.id,
+            userId: deck.userId,
+            createdAt: deck.createdAt,
+            title,
+            description,
+            // Clients from before folders existed don't send one; keep where the deck was filed
+            folder: folder === undefined ? deck.folder : cleanFolder(folder),
+            cards: stampCards(cards, deck.cards),
+            revision: (deck.revision || 0) + 1,
+            updatedAt: Date.now()
+        };
+        store.transaction(() => {
+            store.updateDeck(updated);
+            recordDeckVersion(deck, updated, req.user.id);
+        });
+        res.json({ success: true, revision: updated.revision, cards: updated.cards });
     } else {
         res.status(404).json({ error: "Deck not found" });
     }
 });
 
+// Deleting only moves a deck to the trash; see purgeTrash for when it's gone for good
 app.delete('/api/decks/:id', authenticateToken, (req, res) => {
-    const initialLen = db.data.decks.length;
-    db.data.decks = db.data.decks.filter(d => !(d.id === req.params.id && d.userId === req.user.id));
-    if (db.data.decks.length !== initialLen) {
-        db.save();
-        res.json({ success: true });
-    } else {
-        res.status(404).json({ error: "Deck not found" });
-    }
+    const deck = store.getDeck(req.user.id, req.params.id);
+    if (!deck) return res.status(404).json({ error: "Deck not found" });
+    if (!deck.deletedAt) store.trashDeck(req.user.id, deck.id, Date.now());
+    res.json({ success: true });
+});
+
+app.post('/api/decks/:id/restore', authenticateToken, (req, res) => {
+    const deck = store.getDeck(req.user.id, req.params.id);
+    if (!deck) return res.status(404).json({ error: "Deck not found" });
+    store.restoreDeck(req.user.id, deck.id);
+    res.json({ success: true, revision: deck.revision, cards: deck.cards });
+});
+
+app.get('/api/decks/:id/versions', authenticateToken, (req, res) => {
+    const deck = store.getDeck(req.user.id, req.params.id);
+    if (!deck) return res.status(404).json({ error: "Deck not found" });
+    res.json(store.listDeckVersions(req.user.id, deck.id));
+});
+
+app.get('/api/decks/:id/versions/:revision', authenticateToken, (req, res) => {
+    const version = store.getDeckVersion(req.user.id, req.params.id, Number(req.params.revision));
+    if (!version) return res.status(404).json({ error: "Version not found" });
+    res.json(version);
 });
 
 // NOTES
 app.get('/api/notes', authenticateToken, (req, res) => {
-    const userNotes = db.data.notes.filter(n => n.userId === req.user.id).sort((a,b) => b.updated_at - a.updated_at);
-    res.json(userNotes.map(n => ({
-        ...n,
-        createdAt: n.created_at,
-        lastModified: n.updated_at
-    })));
+    res.json(store.listNotes(req.user.id));
 });
 
 app.post('/api/notes', authenticateToken, (req, res) => {
     const { id, title, subject, content, background } = req.body;
-    const existing = db.data.notes.find(n => n.id === id && n.userId === req.user.id);
-    
-    if (existing) {
-        existing.title = title;
-        existing.subject = subject;
-        existing.content = content;
-        existing.background = background;
-        existing.updated_at = Date.now();
-    } else {
-        db.data.notes.unshift({
-            id: id || generateUUID(),
-            userId: req.user.id,
-            title, subject, content, background,
-            created_at: Date.now(),
-            updated_at: Date.now()
-        });
-    }
-    db.save();
+    const existing = id && store.getNote(req.user.id, id);
+    store.upsertNote({
+        id: id || generateUUID(),
+        userId: req.user.id,
+        title, subject, content, background,
+        createdAt: existing ? existing.createdAt : Date.now(),
+        lastModified: Date.now()
+    });
     res.json(req.body);
 });
 
 app.delete('/api/notes/:id', authenticateToken, (req, res) => {
-    db.data.notes = db.data.notes.filter(n => !(n.id === req.params.id && n.userId === req.user.id));
-    db.save();
+    const note = store.getNote(req.user.id, req.params.id);
+    if (note && !note.deletedAt) store.trashNote(req.user.id, note.id, Date.now());
+    res.json({ success: true });
+});
+
+app.post('/api/notes/:id/restore', authenticateToken, (req, res) => {
+    if (store.restoreNote(req.user.id, req.params.id)) {
+        res.json({ success: true });
+    } else {
+        res.status(404).json({ error: "Note not found" });
+    }
+});
+
+// TRASH (deleted decks and notes, restorable for TRASH_RETENTION_DAYS)
+const TRASH_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const purgeTrash = () => {
+    const purged = store.purgeTrash(Date.now() - TRASH_RETENTION_DAYS * DAY_MS);
+    if (purged > 0) console.log(`Purged ${purged} items from the trash.`);
+};
+purgeTrash();
+setInterval(purgeTrash, 6 * 60 * 60 * 1000).unref();
+
+app.get('/api/trash', authenticateToken, (req, res) => {
+    res.json({
+        retentionDays: TRASH_RETENTION_DAYS,
+        decks: store.listTrashedDecks(req.user.id),
+        notes: store.listTrashedNotes(req.user.id)
+    });
+});
+
+// "Delete forever" only works on things already in the trash
+app.delete('/api/trash/decks/:id', authenticateToken, (req, res) => {
+    const deck = store.getDeck(req.user.id, req.params.id);
+    if (deck && deck.deletedAt) store.deleteDeck(req.user.id, deck.id);
+    res.json({ success: true });
+});
+
+app.delete('/api/trash/notes/:id', authenticateToken, (req, res) => {
+    const note = store.getNote(req.user.id, req.params.id);
+    if (note && note.deletedAt) store.deleteNote(req.user.id, note.id);
     res.json({ success: true });
 });
 
 // TESTS
 app.get('/api/tests', authenticateToken, (req, res) => {
-    const userTests = db.data.tests.filter(t => t.userId === req.user.id).sort((a,b) => a.date - b.date);
-    res.json(userTests.map(t => ({...t, topics: Array.isArray(t.topics) ? t.topics : JSON.parse(t.topics)})));
+    res.json(store.listTests(req.user.id));
 });
 
 app.post('/api/tests', authenticateToken, (req, res) => {
     const { id, title, date, topics } = req.body;
+    if (id && store.getTest(req.user.id, id)) {
+        return res.json({ success: true, message: "Already exists" });
+    }
     const newTest = {
         id: id || generateUUID(),
         userId: req.user.id,
         title, date, topics
     };
-    db.data.tests.push(newTest);
-    db.save();
+    store.insertTest(newTest);
     res.json(newTest);
 });
 
 app.delete('/api/tests/:id', authenticateToken, (req, res) => {
-    db.data.tests = db.data.tests.filter(t => !(t.id === req.params.id && t.userId === req.user.id));
-    db.save();
+    store.deleteTest(req.user.id, req.params.id);
     res.json({ success: true });
 });
 
 // STATS
 app.get('/api/stats', authenticateToken, (req, res) => {
-    const s = db.data.stats.find(s => s.userId === req.user.id);
-    if (!s) return res.json(null);
-    res.json(s);
+    res.json(store.getStats(req.user.id));
 });
 
 app.post('/api/stats', authenticateToken, (req, res) => {
-    const newStats = req.body;
-    const index = db.data.stats.findIndex(s => s.userId === req.user.id);
-    if (index !== -1) {
-        db.data.stats[index] = { ...db.data.stats[index], ...newStats };
-    } else {
-        db.data.stats.push({ userId: req.user.id, ...newStats });
-    }
-    db.save();
+    store.transaction(() => {
+        const current = store.getStats(req.user.id) || {};
+        store.saveStats(req.user.id, { ...current, ...req.body });
+    });
     res.json({ success: true });
 });
 
 // CHATS
 app.get('/api/chats', authenticateToken, (req, res) => {
-    const chats = db.data.chat_sessions.filter(c => c.userId === req.user.id).sort((a,b) => b.lastActive - a.lastActive);
-    res.json(chats);
+    res.json(store.listChats(req.user.id));
 });
 
 app.post('/api/chats', authenticateToken, (req, res) => {
     const { id, title, messages, lastActive } = req.body;
-    const existing = db.data.chat_sessions.find(c => c.id === id && c.userId === req.user.id);
-    
-    if (existing) {
-        existing.title = title;
-        existing.messages = messages;
-        existing.lastActive = lastActive;
-    } else {
-        db.data.chat_sessions.unshift({
-            id, userId: req.user.id, title, messages, lastActive
-        });
-    }
-    db.save();
+    store.upsertChat({ id, userId: req.user.id, title, messages, lastActive });
     res.json({ success: true });
 });
 
+// REVIEW LOGS
+app.get('/api/review-logs', authenticateToken, (req, res) => {
+    const since = Number(req.query.since) || 0;
+    res.json(store.listReviewLogs(req.user.id, since));
+});
+
+app.post('/api/review-logs', authenticateToken, (req, res) => {
+    // Accepts a single log or a batch
+    const logs = Array.isArray(req.body) ? req.body : [req.body];
+    const valid = logs.filter(l => l && l.id && l.cardId && l.deckId && ['again', 'hard', 'good', 'easy'].includes(l.rating));
+    if (valid.length !== logs.length) return res.status(400).json({ error: "Invalid review log" });
+    store.insertReviewLogs(req.user.id, valid);
+    res.json({ success: true, count: valid.length });
+});
+
+// SHARE LINKS
+const SHARE_CODE_ALPHABET = 'abcdefghijkmnpqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No look-alikes (0/O, 1/l/I)
+const SHARE_CODE_LENGTH = 8;
+const MAX_SHARE_DAYS = 365;
+
+const generateShareCode = () => {
+    const bytes = crypto.randomBytes(SHARE_CODE_LENGTH);
+    return Array.from(bytes, b => SHARE_CODE_ALPHABET[b % SHARE_CODE_ALPHABET.length]).join('');
+};
+
+// Snapshots a deck or note (as a single-item cardsnaps file) behind a short code
+app.post('/api/share', authenticateToken, (req, res) => {
+    const { file, expiresInDays } = req.body || {};
+    const payload = file && file.payload;
+    const valid = file && file.format === 'cardsnaps' && payload && typeof payload === 'object' &&
+        ((file.kind === 'deck' && Array.isArray(payload.cards)) || (file.kind === 'note' && typeof payload.content === 'string'));
+    if (!valid) return res.status(400).json({ error: "Only a deck or note can be shared" });
+
+    let expiresAt = null;
+    if (expiresInDays !== undefined && expiresInDays !== null) {
+        const days = Number(expiresInDays);
+        if (!Number.isFinite(days) || days < 1 || days > MAX_SHARE_DAYS) {
+            return res.status(400).json({ error: `Expiry must be between 1 and ${MAX_SHARE_DAYS} days` });
+        }
+        expiresAt = Date.now() + days * 24 * 60 * 60 * 1000;
+    }
+
+    let code = generateShareCode();
+    while (store.getShare(code)) code = generateShareCode();
+
+    store.insertShare({ code, userId: req.user.id, kind: file.kind, title: payload.title || null, file, expiresAt, createdAt: Date.now() });
+    const origin = req.get('origin') || `${req.protocol}://${req.get('host')}`;
+    res.json({ code, url: `${origin}/?share=${code}`, expiresAt });
+});
+
+// Public: anyone with the code can fetch the snapshot; each fetch counts as a view
+app.get('/api/share/:code', (req, res) => {
+    const share = store.getShare(req.params.code);
+    if (!share) return res.status(404).json({ error: "Share link not found" });
+    if (share.expiresAt && share.expiresAt < Date.now()) return res.status(410).json({ error: "This share link has expired" });
+
+    store.incrementShareViews(share.code);
+    res.json({
+        code: share.code,
+        kind: share.kind,
+        title: share.title,
+        file: share.file,
+        views: share.views + 1,
+        expiresAt: share.expiresAt,
+        createdAt: share.createdAt
+    });
+});
+
+// MEDIA (images and audio on cards)
+const MAX_MEDIA_BYTES = 5 * 1024 * 1024;
+const MEDIA_TYPE = /^(image|audio)\/[\w.+-]+$/;
+
+// Raw file body; the id is the SHA-256 of the bytes, so re-uploading the same file is a no-op
+app.post('/api/media', authenticateToken, express.raw({ type: () => true, limit: MAX_MEDIA_BYTES }), (req, res) => {
+    const type = (req.get('content-type') || '').split(';')[0].trim();
+    if (!MEDIA_TYPE.test(type)) return res.status(400).json({ error: "Only images and audio can be uploaded" });
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) return res.status(400).json({ error: "Empty file" });
+
+    const id = crypto.createHash('sha256').update(req.body).digest('hex').slice(0, 32);
+    if (!store.hasMedia(id)) {
+        const name = typeof req.query.name === 'string' ? req.query.name.slice(0, 200) : null;
+        store.insertMedia({ id, userId: req.user.id, type, name, data: req.body, createdAt: Date.now() });
+    }
+    res.json({ id, type, size: req.body.length });
+});
+
+// Public, like share links: ids can't be guessed without having the file, and shared decks need their media
+app.get('/api/media/:id', (req, res) => {
+    const media = store.getMedia(req.params.id);
+    if (!media) return res.status(404).json({ error: "Media not found" });
+    res.set('Content-Type', media.type);
+    res.set('Cache-Control', 'public, max-age=31536000, immutable');
+    res.send(media.data);
+});
+
 // COMMUNITY
 app.get('/api/community', (req, res) => {
-    const items = db.data.community.sort((a,b) => b.timestamp - a.timestamp).slice(0, 50);
-    res.json(items);
+    res.json(store.listCommunity(50));
 });
 
 app.post('/api/community', (req, res) => {
     const { id, type, title, description, author, data } = req.body;
-    if (db.data.community.find(i => i.id === id)) {
+    if (id && store.getCommunityItem(id)) {
         return res.json({ success: true, message: "Already shared" });
     }
     
@@ -367,22 +566,25 @@ app.post('/api/community', (req, res) => {
         timestamp: Date.now()
     };
     
-    db.data.community.unshift(newItem);
-    db.save();
+    store.insertCommunityItem(newItem);
     res.json({ success: true, id: newItem.id });
 });
 
 app.post('/api/community/:id/download', (req, res) => {
-    const item = db.data.community.find(i => i.id === req.params.id);
-    if (item) {
-        item.downloads += 1;
-        db.save();
+    if (store.incrementDownloads(req.params.id)) {
         res.json({ success: true });
     } else {
         res.status(404).json({ error: "Item not found" });
     }
 });
 
+// API errors are answered in JSON like every other API response, not with Express's HTML page
+app.use('/api', (err, req, res, next) => {
+    const status = err.status || 500;
+    if (status >= 500) console.error(`${req.method} ${req.originalUrl} failed:`, err);
+    res.status(status).json({ error: status < 500 ? err.message : "Something went wrong on the server" });
+});
+
 // --- SERVE FRONTEND (Deployment Support) ---
 // Serve static files from the build folder (e.g., 'dist' or 'build')
 app.use(express.static(path.join(__dirname, 'dist')));
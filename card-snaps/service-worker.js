@@ -2,7 +2,7 @@
 /* eslint-disable no-restricted-globals */
 
 // This service worker caches the app shell and handles offline requests.
-const CACHE_NAME = 'cardsnaps-v1';
+const CACHE_NAME = 'cardsnaps-v2';
 const URLS_TO_CACHE = [
   '/',
   '/index.html',
@@ -54,7 +54,24 @@ self.addEventListener('fetch', (event) => {
       return;
   }
 
-  // 3. App Shell - Cache First, Fallback to Network
+  // 3. Built Assets (JS, CSS, KaTeX fonts) - Cache First, stored on first load so math renders offline.
+  // Vite fingerprints these file names, so a cached copy never goes stale.
+  if (requestUrl.origin === self.location.origin && requestUrl.pathname.startsWith('/assets/')) {
+      event.respondWith(
+        caches.open(CACHE_NAME).then((cache) => {
+          return cache.match(event.request).then((response) => {
+            if (response) return response;
+            return fetch(event.request).then((networkResponse) => {
+              if (networkResponse.ok) cache.put(event.request, networkResponse.clone());
+              return networkResponse;
+            });
+          });
+        })
+      );
+      return;
+  }
+
+  // 4. App Shell - Cache First, Fallback to Network
   event.respondWith(
     caches.match(event.request)
       .then((response) => {
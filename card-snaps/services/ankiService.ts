@@ -0,0 +1,435 @@
+import initSqlJs, { Database, SqlJsStatic, SqlValue } from 'sql.js';
+import sqlWasmUrl from 'sql.js/dist/sql-wasm-browser.wasm?url';
+import { unzipSync, zipSync, strToU8, strFromU8 } from 'fflate';
+import { decompress as zstdDecompress } from 'fzstd';
+import { Card, Deck, SRSData, ClozeData, CARD_COLORS } from '../types';
+import { getCardState, getStudyOptions, DEFAULT_LEARNING_STEPS, DEFAULT_RELEARNING_STEPS } from './srsService';
+import { renderCloze } from './clozeService';
+import { addMedia, getMediaFiles, mediaTypeFromName, extensionForType } from './mediaService';
+import { mediaIdsIn, mediaToken, replaceMedia } from './richTextService';
+import { joinFolder, splitDeckName, uniqueTags } from './libraryService';
+
+// Anki packages (.apkg / .colpkg) are zip files holding an SQLite collection plus numbered media files.
+// Three collection flavours exist in the wild:
+//   collection.anki2   - schema 11, note types and decks stored as JSON in the `col` row
+//   collection.anki21  - same schema, written by 2.1.x
+//   collection.anki21b - zstd-compressed schema 18, note types and decks in their own tables
+
+const ONE_DAY = 24 * 60 * 60 * 1000;
+const FIELD_SEPARATOR = '\x1f';
+const ZSTD_MAGIC = [0x28, 0xb5, 0x2f, 0xfd];
+
+let sqlPromise: Promise<SqlJsStatic> | null = null;
+const loadSql = () => sqlPromise ??= initSqlJs({ locateFile: () => sqlWasmUrl });
+
+export interface AnkiImportResult {
+  decks: Deck[];
+  mediaCount: number; // Images and audio files added to the media store
+  noteCount: number;
+}
+
+interface AnkiNoteType {
+  cloze: boolean;
+}
+
+// --- Small helpers ---
+
+const isZstd = (data: Uint8Array) => ZSTD_MAGIC.every((byte, i) => data[i] === byte);
+const maybeZstd = (data: Uint8Array) => isZstd(data) ? zstdDecompress(data) : data;
+
+const rows = (db: Database, sql: string): Record<string, SqlValue>[] => {
+  const result = db.exec(sql)[0];
+  if (!result) return [];
+  return result.values.map(values => Object.fromEntries(result.columns.map((col, i) => [col, values[i]])));
+};
+
+const hasTable = (db: Database, name: string) =>
+  rows(db, `SELECT name FROM sqlite_master WHERE type = 'table' AND name = '${name}'`).length > 0;
+
+// Minimal protobuf reader: enough for the few schema-18 blobs we need
+type ProtoField = { field: number; value: number | Uint8Array };
+
+const readVarint = (buf: Uint8Array, pos: number): [number, number] => {
+  let result = 0;
+  let shift = 0;
+  while (pos < buf.length) {
+    const byte = buf[pos++];
+    result += (byte & 0x7f) * Math.pow(2, shift);
+    if (!(byte & 0x80)) break;
+    shift += 7;
+  }
+  return [result, pos];
+};
+
+const readProto = (buf: Uint8Array): ProtoField[] => {
+  const fields: ProtoField[] = [];
+  let pos = 0;
+  while (pos < buf.length) {
+    let key: number;
+    [key, pos] = readVarint(buf, pos);
+    const field = Math.floor(key / 8);
+    const wireType = key & 7;
+    if (wireType === 0) {
+      let value: number;
+      [value, pos] = readVarint(buf, pos);
+      fields.push({ field, value });
+    } else if (wireType === 2) {
+      let length: number;
+      [length, pos] = readVarint(buf, pos);
+      fields.push({ field, value: buf.subarray(pos, pos + length) });
+      pos += length;
+    } else if (wireType === 1) {
+      pos += 8;
+    } else if (wireType === 5) {
+      pos += 4;
+    } else {
+      break; // Groups are long deprecated; stop rather than misread
+    }
+  }
+  return fields;
+};
+
+// Anki fields are HTML; cards here are plain text. Images and sounds found in `media`
+// (filename -> token) become media references, anything else is dropped.
+const htmlToText = (html: string, media: Map<string, string> = new Map()): string => {
+  const lookup = (name: string) => {
+    try { name = decodeURIComponent(name); } catch (e) { /* keep as written */ }
+    return media.get(name) || '';
+  };
+  const withBreaks = html
+    .replace(/<img\b[^>]*?\bsrc\s*=\s*["']?([^"'\s>]+)["']?[^>]*>/gi, (_, name) => lookup(name))
+    .replace(/\[sound:([^\]]*)\]/g, (_, name) => lookup(name))
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(div|p|li)>/gi, '\n');
+  const doc = new DOMParser().parseFromString(withBreaks, 'text/html');
+  return (doc.body.textContent || '').replace(/\u00a0/g, ' ').replace(/\n{3,}/g, '\n\n').trim();
+};
+
+const textToHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\n/g, '<br>');
+
+// --- Import ---
+
+const readMediaMap = (files: Record<string, Uint8Array>): Record<string, string> => {
+  const raw = files['media'];
+  if (!raw) return {};
+  const data = maybeZstd(raw);
+  // Legacy packages: JSON { "0": "image.jpg" }
+  if (data[0] === 0x7b) {
+    try { return JSON.parse(strFromU8(data)); } catch (e) { return {}; }
+  }
+  // Newer packages: protobuf MediaEntries { repeated MediaEntry { string name = 1; ... } }
+  const map: Record<string, string> = {};
+  readProto(data).filter(f => f.field === 1 && f.value instanceof Uint8Array).forEach((entry, index) => {
+    const inner = readProto(entry.value as Uint8Array);
+    const name = inner.find(f => f.field === 1);
+    const legacyName = inner.find(f => f.field === 255);
+    if (name?.value instanceof Uint8Array) {
+      map[typeof legacyName?.value === 'number' ? String(legacyName.value) : String(index)] = strFromU8(name.value);
+    }
+  });
+  return map;
+};
+
+const readNoteTypes = (db: Database): Map<number, AnkiNoteType> => {
+  const types = new Map<number, AnkiNoteType>();
+  if (hasTable(db, 'notetypes')) {
+    rows(db, 'SELECT id, config FROM notetypes').forEach(row => {
+      // NotetypeConfig.kind (field 1): 0 = normal, 1 = cloze
+      const config = row.config instanceof Uint8Array ? readProto(row.config) : [];
+      types.set(Number(row.id), { cloze: config.some(f => f.field === 1 && f.value === 1) });
+    });
+  } else {
+    const [col] = rows(db, 'SELECT models FROM col');
+    const models = JSON.parse(String(col?.models || '{}'));
+    Object.values<any>(models).forEach(model => types.set(Number(model.id), { cloze: model.type === 1 }));
+  }
+  return types;
+};
+
+const readDeckNames = (db: Database): Map<number, { name: string, description: string }> => {
+  const names = new Map<number, { name: string, description: string }>();
+  if (hasTable(db, 'decks')) {
+    rows(db, 'SELECT id, name FROM decks').forEach(row => {
+      names.set(Number(row.id), { name: String(row.name).split(FIELD_SEPARATOR).join('::'), description: '' });
+    });
+  } else {
+    const [col] = rows(db, 'SELECT decks FROM col');
+    const decks = JSON.parse(String(col?.decks || '{}'));
+    Object.values<any>(decks).forEach(deck => names.set(Number(deck.id), { name: deck.name, description: htmlToText(deck.desc || '') }));
+  }
+  return names;
+};
+
+// Anki card type: 0 new, 1 learning, 2 review, 3 relearning.
+// Review due dates are day numbers counted from the collection's creation; learning ones are epoch seconds.
+const toSRS = (row: Record<string, SqlValue>, collectionCreated: number): SRSData | undefined => {
+  const type = Number(row.type);
+  if (type === 0) return undefined;
+
+  const due = Number(row.due);
+  const dueDate = due > 1e9 ? due * 1000 : (collectionCreated + due * 86400) * 1000;
+  const interval = Math.max(0, Number(row.ivl));
+  const lapses = Number(row.lapses) || 0;
+  const srs: SRSData = {
+    interval,
+    repetition: Math.max(1, (Number(row.reps) || 0) - lapses),
+    easeFactor: Number(row.factor) ? Number(row.factor) / 1000 : 2.5,
+    dueDate,
+    lastReview: dueDate - interval * ONE_DAY,
+    lapses,
+    state: type === 1 ? 'learning' : type === 3 ? 'relearning' : 'review',
+    step: 0,
+  };
+
+  // FSRS memory state, when the collection was scheduled with FSRS
+  try {
+    const data = JSON.parse(String(row.data || '{}'));
+    if (typeof data.s === 'number' && typeof data.d === 'number') {
+      srs.stability = data.s;
+      srs.difficulty = data.d;
+    }
+  } catch (e) {}
+
+  return srs;
+};
+
+export const importAnkiPackage = async (file: ArrayBuffer): Promise<AnkiImportResult> => {
+  const files = unzipSync(new Uint8Array(file));
+  const collection = files['collection.anki21b'] || files['collection.anki21'] || files['collection.anki2'];
+  if (!collection) throw new Error('Not an Anki package: no collection found.');
+
+  const SQL = await loadSql();
+  const db = new SQL.Database(maybeZstd(collection));
+
+  try {
+    const [col] = rows(db, 'SELECT crt FROM col');
+    const collectionCreated = Number(col?.crt) || Math.floor(Date.now() / 1000);
+    const noteTypes = readNoteTypes(db);
+    const deckNames = readDeckNames(db);
+
+    // Media goes into the media store first so fields can refer to it
+    const media = new Map<string, string>();
+    for (const [zipName, fileName] of Object.entries(readMediaMap(files))) {
+      const type = mediaTypeFromName(fileName);
+      if (!files[zipName] || !type) continue;
+      try {
+        const stored = await addMedia(new Blob([maybeZstd(files[zipName]) as Uint8Array<ArrayBuffer>], { type }), fileName);
+        media.set(fileName, mediaToken(stored.name, stored.id));
+      } catch (e) {
+        // Too large or unreadable: the card keeps its text without it
+      }
+    }
+
+    const notes = new Map<number, { guid: string, fields: string[], cloze: boolean, tags: string[] }>();
+    rows(db, 'SELECT id, guid, mid, flds, tags FROM notes').forEach(row => {
+      const fields = String(row.flds).split(FIELD_SEPARATOR);
+      const cloze = noteTypes.get(Number(row.mid))?.cloze ?? fields.some(f => /\{\{c\d+::/.test(f));
+      notes.set(Number(row.id), { guid: String(row.guid), fields, cloze, tags: uniqueTags(String(row.tags || '').split(' ')) });
+    });
+
+    const byDeck = new Map<number, Card[]>();
+    rows(db, 'SELECT nid, did, odid, ord, type, due, ivl, factor, reps, lapses, data FROM cards ORDER BY nid, ord').forEach(row => {
+      const note = notes.get(Number(row.nid));
+      if (!note) return;
+      const ord = Number(row.ord);
+      const fields = note.fields.map(field => htmlToText(field, media));
+
+      let front: string;
+      let back: string;
+      let cloze: ClozeData | undefined;
+      if (note.cloze) {
+        const extra = fields.slice(1).filter(Boolean).join('\n\n');
+        cloze = { text: fields[0], index: ord + 1, ...(extra && { extra }) };
+        front = renderCloze(fields[0], ord + 1, false);
+        back = [renderCloze(fields[0], ord + 1, true), extra].filter(Boolean).join('\n\n');
+      } else {
+        // Template n asks field n; everything else is the answer (covers "Basic (and reversed)")
+        const asked = Math.min(ord, fields.length - 1);
+        front = fields[asked];
+        back = fields.filter((f, i) => i !== asked && f).join('\n\n');
+      }
+      if (!front.trim() && !back.trim()) return;
+
+      // Cards pulled into a filtered deck still belong to their home deck
+      const deckId = Number(row.odid) || Number(row.did);
+      const cards = byDeck.get(deckId) || [];
+      cards.push({
+        id: crypto.randomUUID(),
+        front,
+        back,
+        color: CARD_COLORS[cards.length % CARD_COLORS.length],
+        srs: toSRS(row, collectionCreated),
+        groupId: `anki:${note.guid}`,
+        ...(note.tags.length > 0 && { tags: note.tags }),
+        ...(cloze && { cloze }),
+      });
+      byDeck.set(deckId, cards);
+    });
+
+    const now = Date.now();
+    const decks: Deck[] = [...byDeck.entries()].map(([deckId, cards]) => {
+      const info = deckNames.get(deckId);
+      // "Biology::Cells" sub-decks land in matching folders
+      const { folder, title } = splitDeckName(info?.name || '');
+      return {
+        id: crypto.randomUUID(),
+        title: title || 'Imported Deck',
+        ...(folder && { folder }),
+        description: info?.description || 'Imported from Anki',
+        cards,
+        createdAt: now,
+      };
+    });
+
+    return { decks, mediaCount: media.size, noteCount: notes.size };
+  } finally {
+    db.close();
+  }
+};
+
+// --- Export (schema 11, which every Anki version can import) ---
+
+const SCHEMA = `
+  CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+  CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+  CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+  CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+  CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+  CREATE INDEX ix_notes_usn ON notes (usn);
+  CREATE INDEX ix_cards_usn ON cards (usn);
+  CREATE INDEX ix_revlog_usn ON revlog (usn);
+  CREATE INDEX ix_cards_nid ON cards (nid);
+  CREATE INDEX ix_cards_sched ON cards (did, queue, due);
+  CREATE INDEX ix_revlog_cid ON revlog (cid);
+  CREATE INDEX ix_notes_csum ON notes (csum);
+`;
+
+const MODEL_ID = 1700000000001;
+
+const basicModel = (deckId: number, mod: number) => ({
+  id: MODEL_ID,
+  name: 'Card Snaps Basic',
+  type: 0,
+  mod,
+  usn: -1,
+  sortf: 0,
+  did: deckId,
+  tmpls: [{ name: 'Card 1', ord: 0, qfmt: '{{Front}}', afmt: '{{FrontSide}}<hr id=answer>{{Back}}', did: null, bqfmt: '', bafmt: '' }],
+  flds: ['Front', 'Back'].map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+  css: '.card { font-family: arial; font-size: 20px; text-align: center; color: black; background-color: white; }',
+  latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+  latexPost: '\\end{document}',
+  req: [[0, 'any', [0]]],
+  tags: [],
+  vers: [],
+});
+
+const deckEntry = (id: number, name: string, description: string, conf: number, mod: number) => ({
+  id, name, desc: textToHtml(description), conf, mod, usn: -1, dyn: 0, collapsed: false, browserCollapsed: false,
+  extendNew: 0, extendRev: 0, newToday: [0, 0], revToday: [0, 0], lrnToday: [0, 0], timeToday: [0, 0],
+});
+
+// Each exported deck gets its own options group so limits and steps survive the trip
+const deckConfig = (id: number, name: string, deck: Deck | null) => {
+  const options = getStudyOptions(deck || {});
+  return {
+    id, name, mod: 0, usn: -1, dyn: false, maxTaken: 60, timer: 0, autoplay: true, replayq: true,
+    new: {
+      delays: deck?.learningSteps ?? DEFAULT_LEARNING_STEPS, ints: [1, 4, 0], initialFactor: 2500,
+      order: options.newOrder === 'random' ? 0 : 1, perDay: options.newPerDay, bury: options.burySiblings,
+    },
+    rev: { perDay: options.reviewsPerDay, ease4: 1.3, ivlFct: 1, maxIvl: 36500, bury: options.burySiblings, hardFactor: 1.2 },
+    lapse: { delays: deck?.relearningSteps ?? DEFAULT_RELEARNING_STEPS, mult: 0, minInt: 1, leechFails: 8, leechAction: 1 },
+  };
+};
+
+const GUID_CHARS = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789!#$%&()*+,-./:;<=>?@[]^_`{|}~';
+const newGuid = () => Array.from(crypto.getRandomValues(new Uint8Array(10)), b => GUID_CHARS[b % GUID_CHARS.length]).join('');
+
+// Anki's duplicate check: first 8 hex digits of the SHA-1 of the sort field
+const checksum = async (text: string) => {
+  const hash = new Uint8Array(await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text)));
+  return ((hash[0] << 24) >>> 0) + (hash[1] << 16) + (hash[2] << 8) + hash[3];
+};
+
+export const exportAnkiPackage = async (decks: Deck[]): Promise<Blob> => {
+  const SQL = await loadSql();
+  const db = new SQL.Database();
+  db.exec(SCHEMA);
+
+  const now = Date.now();
+  const nowSeconds = Math.floor(now / 1000);
+  // Reduced rather than spread into Math.min: big collections overflow the argument limit
+  const earliestDue = decks.reduce((min, d) => d.cards.reduce((m, c) => c.srs?.dueDate ? Math.min(m, c.srs.dueDate) : m, min), now);
+  const collectionCreated = Math.floor(new Date(earliestDue).setHours(0, 0, 0, 0) / 1000);
+
+  const ankiDecks: Record<string, object> = { 1: deckEntry(1, 'Default', '', 1, nowSeconds) };
+  const deckConfigs: Record<string, object> = { 1: deckConfig(1, 'Default', null) };
+  let nextId = now;
+
+  const insertNote = db.prepare('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, ?)');
+  const insertCard = db.prepare('INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, ?, ?, ?, ?, ?, ?, ?, ?, 0, 0, 0, ?)');
+
+  // Media files are stored as numbered zip entries, named after their id so names never clash
+  const mediaFiles = await getMediaFiles(mediaIdsIn(decks.flatMap(d => d.cards.flatMap(c => [c.front, c.back]))));
+  const mediaNames = new Map(mediaFiles.map(file => [file.id, `${file.id}.${extensionForType(file.type)}`]));
+  const fieldHtml = (text: string) => replaceMedia(textToHtml(text), id => {
+    const file = mediaFiles.find(f => f.id === id);
+    if (!file) return '';
+    return file.type.startsWith('audio/') ? `[sound:${mediaNames.get(id)}]` : `<img src="${mediaNames.get(id)}">`;
+  });
+
+  try {
+    for (const [deckIndex, deck] of decks.entries()) {
+      const deckId = now + deckIndex + 1;
+      const confId = deckId;
+      const name = joinFolder(deck.folder, deck.title || 'Card Snaps Deck');
+      ankiDecks[deckId] = deckEntry(deckId, name, deck.description, confId, nowSeconds);
+      deckConfigs[confId] = deckConfig(confId, name, deck);
+
+      for (const [position, card] of deck.cards.entries()) {
+        const noteId = ++nextId;
+        const cardId = ++nextId;
+        const front = fieldHtml(card.front);
+        const tags = card.tags?.length ? ` ${card.tags.join(' ')} ` : '';
+        insertNote.run([noteId, newGuid(), MODEL_ID, nowSeconds, tags, `${front}${FIELD_SEPARATOR}${fieldHtml(card.back)}`, card.front, await checksum(card.front), '']);
+
+        const srs = card.srs;
+        const state = getCardState(srs);
+        let type = 0;
+        let due = position;
+        if (srs && state !== 'new') {
+          type = state === 'learning' ? 1 : state === 'relearning' ? 3 : 2;
+          due = type === 2 ? Math.max(0, Math.round((srs.dueDate / 1000 - collectionCreated) / 86400)) : Math.floor(srs.dueDate / 1000);
+        }
+        const data = srs?.stability !== undefined && srs.difficulty !== undefined ? JSON.stringify({ s: srs.stability, d: srs.difficulty }) : '';
+        insertCard.run([
+          cardId, noteId, deckId, nowSeconds, type, type, due,
+          srs?.interval || 0, srs ? Math.round(srs.easeFactor * 1000) : 0, (srs?.repetition || 0) + (srs?.lapses || 0), srs?.lapses || 0,
+          type === 1 || type === 3 ? 1 : 0, data,
+        ]);
+      }
+    }
+
+    const conf = { activeDecks: [1], curDeck: 1, newSpread: 0, collapseTime: 1200, timeLim: 0, estTimes: true, dueCounts: true, curModel: MODEL_ID, nextPos: 1, sortType: 'noteFld', sortBackwards: false, addToCur: true };
+    db.run('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+      collectionCreated, now, now, JSON.stringify(conf), JSON.stringify({ [MODEL_ID]: basicModel(1, nowSeconds) }),
+      JSON.stringify(ankiDecks), JSON.stringify(deckConfigs), '{}',
+    ]);
+
+    const entries: Record<string, Uint8Array> = { 'collection.anki2': db.export() };
+    const mediaMap: Record<string, string> = {};
+    for (const [index, file] of mediaFiles.entries()) {
+      entries[String(index)] = new Uint8Array(await file.blob.arrayBuffer());
+      mediaMap[String(index)] = mediaNames.get(file.id)!;
+    }
+    entries.media = strToU8(JSON.stringify(mediaMap));
+    const zip = zipSync(entries);
+    return new Blob([zip], { type: 'application/octet-stream' });
+  } finally {
+    insertNote.free();
+    insertCard.free();
+    db.close();
+  }
+};
@@ -1,5 +1,7 @@
 
-import { Deck, Note, Test, UserStats, UserProfile, ChatSession, ThemeMode, ColorScheme } from '../types';
+import { Deck, Card, Note, Test, ReviewLog, UserStats, UserProfile, ChatSession, ThemeMode, ColorScheme, DeckVersion, DeckVersionSummary } from '../types';
+import { CardSnapsFile } from './bundleService';
+import { withUniqueIds } from './cardEditService';
 
 // Storage Keys
 const KEYS = {
@@ -10,9 +12,27 @@ const KEYS = {
     TESTS: 'cardsnaps_tests',
     STATS: 'cardsnaps_stats',
     CHATS: 'cardsnaps_chats',
-    COMMUNITY: 'cardsnaps_community_db' 
+    COMMUNITY: 'cardsnaps_community_db',
+    OUTBOX: 'cardsnaps_outbox',
+    FAILED: 'cardsnaps_outbox_failed',
+    SESSION_EXPIRED: 'cardsnaps_session_expired',
+    DECK_SYNC: 'cardsnaps_deck_sync',
+    CONFLICTS: 'cardsnaps_deck_conflicts',
+    REVIEW_LOGS: 'cardsnaps_review_logs',
+    TRASH: 'cardsnaps_trash'
 };
 
+// Local review history is trimmed to this many entries; the server keeps everything
+const MAX_LOCAL_REVIEW_LOGS = 5000;
+
+// Deleted decks and notes wait here before the server purges them
+export const TRASH_RETENTION_DAYS = 30;
+
+export interface Trash {
+    decks: Deck[];
+    notes: Note[];
+}
+
 export interface CommunityItem {
     id: string;
     type: 'deck' | 'note';
@@ -24,6 +44,80 @@ export interface CommunityItem {
     timestamp: number;
 }
 
+export interface ShareLink {
+    code: string;
+    url: string;
+    expiresAt: number | null;
+}
+
+// A snapshot fetched by share code; `file` is a single-item cardsnaps file
+export interface SharedItem {
+    code: string;
+    kind: 'deck' | 'note';
+    title: string | null;
+    file: CardSnapsFile;
+    views: number;
+    expiresAt: number | null;
+    createdAt: number;
+}
+
+// A mutation that has been applied locally but not yet confirmed by the server.
+// Ops are replayed strictly in the order they were queued.
+export interface OutboxOp {
+    id: string;
+    method: 'POST' | 'PUT' | 'DELETE';
+    path: string;
+    body?: any;
+    auth: boolean;
+    // Ops sharing a key are upserts of the same record; a newer one replaces the queued body
+    dedupeKey?: string;
+    // The body is a list and ops sharing the key add to it instead, so a batch goes out as one request
+    append?: boolean;
+    // Deck id whose last-synced revision is attached as `baseRevision` when sent
+    deckId?: string;
+    // Pinned when the op is set aside, so a later retry is checked against the deck it was made on
+    baseRevision?: number;
+    attempts: number;
+    // Failed replies from a server that was reachable; only these can get an op set aside
+    serverErrors?: number;
+    // Why it was set aside, shown to the user (the server's own message when it turned the op down)
+    error?: string;
+    nextAttemptAt: number;
+    createdAt: number;
+}
+
+// What this device last saw on the server for a deck: the merge base
+export interface DeckSyncState {
+    revision: number;
+    syncedAt: number;
+    cardIds: string[];
+}
+
+// A local deck edit the server rejected because the deck moved on elsewhere
+export interface DeckConflict {
+    deckId: string;
+    local: Deck;
+    remote: Deck;
+    base?: DeckSyncState;
+    detectedAt: number;
+}
+
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+// After this many error replies an op is set aside so it stops holding up the ops behind it.
+// Network failures never count: being offline for a while is no reason to give up on an edit.
+const MAX_SERVER_ERRORS = 6;
+
+// A set-aside op as the user sees it, e.g. 'Deck "Biology": Every card needs an id'
+export const describeFailedOp = (op: OutboxOp): string => {
+    const title = typeof op.body?.title === 'string' && op.body.title ? ` "${op.body.title}"` : '';
+    const what = op.deckId ? `Deck${title}`
+        : op.path.startsWith('/notes') ? `Note${title}`
+        : op.path.startsWith('/review-logs') ? 'Review history'
+        : 'A change';
+    return `${what}: ${op.error || "the server couldn't save it"}`;
+};
+
 // Dynamic API URL for Deployment vs Development
 const isLocal = window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1';
 // If local, assume server is on 3001. If deployed (same origin), use relative path.
@@ -32,6 +126,20 @@ const API_URL = isLocal ? 'http://localhost:3001/api' : '/api';
 
 class ApiService {
     private token: string | null = localStorage.getItem(KEYS.TOKEN);
+    private flushing: Promise<void> | null = null;
+    private retryTimer: ReturnType<typeof setTimeout> | null = null;
+    private pendingListeners = new Set<(count: number) => void>();
+    private failedListeners = new Set<(ops: OutboxOp[]) => void>();
+    private sessionListeners = new Set<(expired: boolean) => void>();
+    private conflictListeners = new Set<(conflicts: DeckConflict[]) => void>();
+
+    constructor() {
+        if (typeof window !== 'undefined') {
+            window.addEventListener('online', () => { this.flushOutbox(); });
+        }
+        // Replay anything left over from a previous session
+        if (this.getPendingCount() > 0) this.flushOutbox();
+    }
 
     private getHeaders() {
         return {
@@ -56,6 +164,294 @@ class ApiService {
         localStorage.setItem(key, JSON.stringify(value));
     }
 
+    // === OUTBOX (offline-first sync) ===
+    getPendingCount(): number {
+        return this.getLocal<OutboxOp[]>(KEYS.OUTBOX, []).length;
+    }
+
+    subscribePending(listener: (count: number) => void): () => void {
+        this.pendingListeners.add(listener);
+        listener(this.getPendingCount());
+        return () => { this.pendingListeners.delete(listener); };
+    }
+
+    private setOutbox(ops: OutboxOp[]) {
+        this.setLocal(KEYS.OUTBOX, ops);
+        this.pendingListeners.forEach(l => l(ops.length));
+    }
+
+    // The server turned the token down. Queued ops are kept and flushing waits for a new sign-in.
+    isSessionExpired(): boolean {
+        return this.getLocal(KEYS.SESSION_EXPIRED, false);
+    }
+
+    subscribeSessionExpired(listener: (expired: boolean) => void): () => void {
+        this.sessionListeners.add(listener);
+        listener(this.isSessionExpired());
+        return () => { this.sessionListeners.delete(listener); };
+    }
+
+    private setSessionExpired(expired: boolean) {
+        if (expired) this.setLocal(KEYS.SESSION_EXPIRED, true);
+        else localStorage.removeItem(KEYS.SESSION_EXPIRED);
+        this.sessionListeners.forEach(l => l(expired));
+    }
+
+    // Ops that kept failing, and later ops for the same deck held back behind them. They wait
+    // here until the user retries or discards them; pulls wait too, so the server's copy
+    // doesn't replace the local edits they carry.
+    getFailedOps(): OutboxOp[] {
+        return this.getLocal<OutboxOp[]>(KEYS.FAILED, []);
+    }
+
+    subscribeFailed(listener: (ops: OutboxOp[]) => void): () => void {
+        this.failedListeners.add(listener);
+        listener(this.getFailedOps());
+        return () => { this.failedListeners.delete(listener); };
+    }
+
+    private setFailedOps(ops: OutboxOp[]) {
+        this.setLocal(KEYS.FAILED, ops);
+        this.failedListeners.forEach(l => l(ops));
+    }
+
+    // A newer write of the same record makes a set-aside one obsolete
+    private dropSupersededFailures(dedupeKey?: string) {
+        if (!dedupeKey) return;
+        const failed = this.getFailedOps();
+        if (failed.some(o => o.dedupeKey === dedupeKey)) this.setFailedOps(failed.filter(o => o.dedupeKey !== dedupeKey));
+    }
+
+    // Puts set-aside ops back at the head of the outbox, in their original order
+    retryFailedOps(): Promise<void> {
+        const failed = this.getFailedOps();
+        if (failed.length === 0) return Promise.resolve();
+        const ops = this.getLocal<OutboxOp[]>(KEYS.OUTBOX, []);
+        this.setOutbox([...failed.map(({ error, ...o }) => ({ ...o, attempts: 0, serverErrors: 0, nextAttemptAt: 0 })), ...ops]);
+        this.setFailedOps([]);
+        return this.flushOutbox();
+    }
+
+    discardFailedOps() {
+        this.setFailedOps([]);
+    }
+
+    private enqueue(op: Pick<OutboxOp, 'method' | 'path' | 'body' | 'dedupeKey' | 'deckId' | 'append'> & { auth?: boolean }) {
+        const auth = op.auth ?? true;
+        // Without a session there is nowhere to sync user data to
+        if (auth && !this.token) return;
+        if (!op.append) this.dropSupersededFailures(op.dedupeKey);
+
+        const ops = this.getLocal<OutboxOp[]>(KEYS.OUTBOX, []);
+        const existing = op.dedupeKey ? ops.find(o => o.dedupeKey === op.dedupeKey) : undefined;
+        if (existing) {
+            existing.body = op.append ? [...existing.body, ...op.body] : op.body;
+        } else {
+            ops.push({
+                id: crypto.randomUUID(),
+                method: op.method,
+                path: op.path,
+                body: op.body,
+                auth,
+                dedupeKey: op.dedupeKey,
+                append: op.append,
+                deckId: op.deckId,
+                attempts: 0,
+                nextAttemptAt: 0,
+                createdAt: Date.now()
+            });
+        }
+        this.setOutbox(ops);
+        this.flushOutbox();
+    }
+
+    // Replays queued ops in order. Stops at the first op that cannot be delivered
+    // so later edits never overtake earlier ones.
+    flushOutbox(): Promise<void> {
+        if (this.flushing) return this.flushing;
+        this.flushing = this._flush().finally(() => {
+            this.flushing = null;
+            // An op may have been queued after the loop saw an empty outbox
+            const next = this.getLocal<OutboxOp[]>(KEYS.OUTBOX, [])[0];
+            if (next && !this.retryTimer && this.isOnline() && next.nextAttemptAt <= Date.now()) this.flushOutbox();
+        });
+        return this.flushing;
+    }
+
+    private async _flush() {
+        if (this.retryTimer) {
+            clearTimeout(this.retryTimer);
+            this.retryTimer = null;
+        }
+        if (!this.isOnline() || this.isSessionExpired()) return;
+
+        while (true) {
+            const ops = this.getLocal<OutboxOp[]>(KEYS.OUTBOX, []);
+            const op = ops[0];
+            if (!op) return;
+
+            if (op.nextAttemptAt > Date.now()) {
+                this.scheduleRetry(op.nextAttemptAt - Date.now());
+                return;
+            }
+
+            // An edit to a deck whose earlier op was set aside would land without it (or 404 if that was the create)
+            if (op.deckId && this.getFailedOps().some(o => o.deckId === op.deckId)) {
+                this.setFailedOps([...this.getFailedOps(), { ...op, error: 'Waiting on an earlier change to this deck' }]);
+                this.setOutbox(ops.slice(1));
+                continue;
+            }
+
+            let delivered = false;
+            let permanent = false;
+            let reachedServer = false;
+            // Set when the server turned the op down for good; it's set aside for the user to see
+            let rejection: string | undefined;
+            try {
+                let body = op.body;
+                // Decks queued before ids were checked here could still carry duplicates the server turns down
+                if (op.deckId && Array.isArray(body?.cards)) body = { ...body, cards: withUniqueIds(body.cards) };
+                if (op.deckId && op.method === 'PUT') {
+                    const baseRevision = op.baseRevision ?? this.getDeckSyncState(op.deckId)?.revision;
+                    if (baseRevision !== undefined) body = { ...body, baseRevision };
+                }
+                const res = await fetch(`${API_URL}${op.path}`, {
+                    method: op.method,
+                    headers: op.auth ? this.getHeaders() : { 'Content-Type': 'application/json' },
+                    body: body !== undefined ? JSON.stringify(body) : undefined
+                });
+                delivered = res.ok;
+                reachedServer = true;
+                if (op.auth && (res.status === 401 || res.status === 403)) {
+                    // Not the op's fault: keep it (and everything behind it) until the user signs in again
+                    this.setSessionExpired(true);
+                    return;
+                }
+                if (res.status === 409 && op.deckId) {
+                    const { deck } = await res.json();
+                    this.recordConflict(op.body, deck);
+                    permanent = true;
+                } else if (res.status === 404 && op.method === 'DELETE') {
+                    // Already gone from the server
+                    permanent = true;
+                } else {
+                    // Client errors will not succeed on retry (except timeouts / rate limiting)
+                    permanent = !res.ok && res.status >= 400 && res.status < 500 && res.status !== 408 && res.status !== 429;
+                    if (permanent) {
+                        const data = await res.json().catch(() => ({}));
+                        rejection = data.error || `Turned down by the server (${res.status})`;
+                    }
+                }
+                if (delivered && !op.append) this.dropSupersededFailures(op.dedupeKey);
+                if (delivered && op.deckId) {
+                    const result = await res.json().catch(() => null);
+                    if (op.method === 'DELETE') this.clearDeckSyncState(op.deckId);
+                    else if (result?.revision) this.setDeckSyncState(op.deckId, result.revision, (result.cards || body?.cards || []).map((c: Card) => c.id));
+                }
+            } catch (e) { /* Network failure, retry later */ }
+
+            // Re-read: new ops may have been queued (or this one coalesced) while awaiting
+            const current = this.getLocal<OutboxOp[]>(KEYS.OUTBOX, []);
+            const index = current.findIndex(o => o.id === op.id);
+            if (delivered || permanent) {
+                // If the body was replaced mid-flight, keep the op so the newer body is sent too
+                const changed = index !== -1 && JSON.stringify(current[index].body) !== JSON.stringify(op.body);
+                if (index !== -1 && !changed && rejection) {
+                    const baseRevision = op.deckId ? this.getDeckSyncState(op.deckId)?.revision : undefined;
+                    this.setFailedOps([...this.getFailedOps(), { ...current[index], error: rejection, baseRevision }]);
+                }
+                if (index !== -1 && !changed) current.splice(index, 1);
+                else if (changed) {
+                    // Added to mid-flight: only what came after the delivered copy still needs sending
+                    if (op.append) current[index].body = current[index].body.slice(op.body.length);
+                    current[index].attempts = 0;
+                }
+                this.setOutbox(current);
+                continue;
+            }
+
+            if (index !== -1) {
+                const attempts = current[index].attempts + 1;
+                const serverErrors = (current[index].serverErrors || 0) + (reachedServer ? 1 : 0);
+                if (serverErrors >= MAX_SERVER_ERRORS) {
+                    // Set it aside so the ops behind it can go out
+                    console.warn(`Giving up on queued ${op.method} ${op.path} after ${serverErrors} server errors`);
+                    const baseRevision = op.deckId ? this.getDeckSyncState(op.deckId)?.revision : undefined;
+                    this.setFailedOps([...this.getFailedOps(), { ...current[index], attempts, serverErrors, baseRevision, error: "The server kept failing to save it" }]);
+                    current.splice(index, 1);
+                    this.setOutbox(current);
+                    continue;
+                }
+                const wait = Math.min(RETRY_BASE_MS * Math.pow(2, attempts - 1), RETRY_MAX_MS);
+                current[index] = { ...current[index], attempts, serverErrors, nextAttemptAt: Date.now() + wait };
+                this.setOutbox(current);
+                this.scheduleRetry(wait);
+            }
+            return;
+        }
+    }
+
+    private scheduleRetry(ms: number) {
+        if (this.retryTimer) clearTimeout(this.retryTimer);
+        this.retryTimer = setTimeout(() => {
+            this.retryTimer = null;
+            this.flushOutbox();
+        }, ms);
+    }
+
+    // === DECK REVISIONS & CONFLICTS ===
+    getDeckSyncState(deckId: string): DeckSyncState | undefined {
+        return this.getLocal<Record<string, DeckSyncState>>(KEYS.DECK_SYNC, {})[deckId];
+    }
+
+    private setDeckSyncState(deckId: string, revision: number, cardIds: string[]) {
+        const all = this.getLocal<Record<string, DeckSyncState>>(KEYS.DECK_SYNC, {});
+        all[deckId] = { revision, syncedAt: Date.now(), cardIds };
+        this.setLocal(KEYS.DECK_SYNC, all);
+    }
+
+    private clearDeckSyncState(deckId: string) {
+        const all = this.getLocal<Record<string, DeckSyncState>>(KEYS.DECK_SYNC, {});
+        delete all[deckId];
+        this.setLocal(KEYS.DECK_SYNC, all);
+    }
+
+    getConflicts(): DeckConflict[] {
+        return this.getLocal<DeckConflict[]>(KEYS.CONFLICTS, []);
+    }
+
+    subscribeConflicts(listener: (conflicts: DeckConflict[]) => void): () => void {
+        this.conflictListeners.add(listener);
+        listener(this.getConflicts());
+        return () => { this.conflictListeners.delete(listener); };
+    }
+
+    private setConflicts(conflicts: DeckConflict[]) {
+        this.setLocal(KEYS.CONFLICTS, conflicts);
+        this.conflictListeners.forEach(l => l(conflicts));
+    }
+
+    private recordConflict(local: Deck, remote: Deck) {
+        const conflicts = this.getConflicts().filter(c => c.deckId !== local.id);
+        conflicts.push({ deckId: local.id, local, remote, base: this.getDeckSyncState(local.id), detectedAt: Date.now() });
+        this.setConflicts(conflicts);
+    }
+
+    // Saves the user's merge on top of the server version it was reconciled against
+    async resolveDeckConflict(merged: Deck, remote: Deck): Promise<void> {
+        this.setDeckSyncState(merged.id, remote.revision || 0, remote.cards.map(c => c.id));
+        this.setConflicts(this.getConflicts().filter(c => c.deckId !== merged.id));
+        await this.updateDeck({ ...merged, revision: remote.revision });
+    }
+
+    // Pull endpoints must not clobber local edits the server hasn't seen yet, set-aside ones included
+    private async canPull(): Promise<boolean> {
+        if (!this.token || !this.isOnline() || this.isSessionExpired()) return false;
+        if (this.getFailedOps().length > 0) return false;
+        if (this.getPendingCount() > 0) await this.flushOutbox();
+        return this.getPendingCount() === 0;
+    }
+
     // === AUTH ===
     isAuthenticated() {
         return !!this.token;
@@ -72,9 +468,7 @@ class ApiService {
         
         if (!res.ok) throw new Error("Login failed");
         const data = await res.json();
-        this.token = data.token;
-        localStorage.setItem(KEYS.TOKEN, data.token);
-        localStorage.setItem(KEYS.USER, JSON.stringify(data.user));
+        this.startSession(data.token, data.user);
         return data.user;
     }
 
@@ -89,16 +483,33 @@ class ApiService {
 
         if (!res.ok) throw new Error("Registration failed");
         const data = await res.json();
-        this.token = data.token;
-        localStorage.setItem(KEYS.TOKEN, data.token);
-        localStorage.setItem(KEYS.USER, JSON.stringify(data.user));
+        this.startSession(data.token, data.user);
         return data.user;
     }
 
+    private startSession(token: string, user: { id: string }) {
+        const previous = this.getLocal<{ id?: string } | null>(KEYS.USER, null);
+        // Edits queued under an expired session only go out if the same account signs back in
+        if (this.isSessionExpired() && previous?.id !== user.id) this.clearSyncState();
+        this.token = token;
+        localStorage.setItem(KEYS.TOKEN, token);
+        localStorage.setItem(KEYS.USER, JSON.stringify(user));
+        this.setSessionExpired(false);
+        this.flushOutbox();
+    }
+
+    private clearSyncState() {
+        localStorage.removeItem(KEYS.DECK_SYNC);
+        this.setOutbox([]);
+        this.setFailedOps([]);
+        this.setConflicts([]);
+    }
+
     async getMe() {
         if (this.token && this.isOnline()) {
             try {
                 const res = await fetch(`${API_URL}/auth/me`, { headers: this.getHeaders() });
+                if (res.status === 401 || res.status === 403) this.setSessionExpired(true);
                 if (res.ok) {
                     const user = await res.json();
                     this.setLocal(KEYS.USER, user);
@@ -117,13 +528,7 @@ class ApiService {
     }
 
     async savePreferences(themeMode: string, colorScheme: string, enableSeasonal: boolean) {
-        if (this.token && this.isOnline()) {
-            fetch(`${API_URL}/user/preferences`, {
-                method: 'PUT',
-                headers: this.getHeaders(),
-                body: JSON.stringify({ themeMode, colorScheme, enableSeasonal })
-            }).catch(e => console.warn(e));
-        }
+        this.enqueue({ method: 'PUT', path: '/user/preferences', body: { themeMode, colorScheme, enableSeasonal }, dedupeKey: 'preferences' });
         const current = this.getLocal(KEYS.USER, {});
         const updated = { ...current, themeMode, colorScheme, enableSeasonal };
         this.setLocal(KEYS.USER, updated);
@@ -133,16 +538,21 @@ class ApiService {
         this.token = null;
         localStorage.removeItem(KEYS.TOKEN);
         localStorage.removeItem(KEYS.USER);
+        localStorage.removeItem(KEYS.REVIEW_LOGS);
+        localStorage.removeItem(KEYS.TRASH);
+        this.clearSyncState();
+        this.setSessionExpired(false);
     }
 
     // === HYBRID DATA PATTERN: Try Server -> Fallback Local ===
 
     async getDecks(): Promise<Deck[]> {
-        if (this.token && this.isOnline()) {
+        if (await this.canPull()) {
             try {
                 const res = await fetch(`${API_URL}/decks`, { headers: this.getHeaders() });
                 if (res.ok) {
-                    const decks = await res.json();
+                    const decks: Deck[] = await res.json();
+                    decks.forEach(d => this.setDeckSyncState(d.id, d.revision || 0, d.cards.map(c => c.id)));
                     this.setLocal(KEYS.DECKS, decks);
                     return decks;
                 }
@@ -152,15 +562,8 @@ class ApiService {
     }
 
     async createDeck(deck: Deck): Promise<Deck> {
-        if (this.token && this.isOnline()) {
-            try {
-                await fetch(`${API_URL}/decks`, {
-                    method: 'POST',
-                    headers: this.getHeaders(),
-                    body: JSON.stringify(deck)
-                });
-            } catch (e) { console.warn("Save failed"); }
-        }
+        deck = { ...deck, cards: withUniqueIds(deck.cards) };
+        this.enqueue({ method: 'POST', path: '/decks', body: deck, deckId: deck.id });
         const decks = this.getLocal<Deck[]>(KEYS.DECKS, []);
         decks.unshift(deck);
         this.setLocal(KEYS.DECKS, decks);
@@ -168,15 +571,8 @@ class ApiService {
     }
 
     async updateDeck(deck: Deck): Promise<void> {
-        if (this.token && this.isOnline()) {
-            try {
-                await fetch(`${API_URL}/decks/${deck.id}`, {
-                    method: 'PUT',
-                    headers: this.getHeaders(),
-                    body: JSON.stringify(deck)
-                });
-            } catch (e) { /* ignore */ }
-        }
+        deck = { ...deck, cards: withUniqueIds(deck.cards) };
+        this.enqueue({ method: 'PUT', path: `/decks/${deck.id}`, body: deck, dedupeKey: `deck:${deck.id}`, deckId: deck.id });
         const decks = this.getLocal<Deck[]>(KEYS.DECKS, []);
         const index = decks.findIndex(d => d.id === deck.id);
         if (index !== -1) {
@@ -185,20 +581,50 @@ class ApiService {
         }
     }
 
+    // Moves the deck to the trash; restoreDeck brings it back
     async deleteDeck(id: string): Promise<void> {
-        if (this.token && this.isOnline()) {
-            try {
-                await fetch(`${API_URL}/decks/${id}`, { method: 'DELETE', headers: this.getHeaders() });
-            } catch (e) { /* ignore */ }
-        }
+        this.enqueue({ method: 'DELETE', path: `/decks/${id}`, deckId: id });
         let decks = this.getLocal<Deck[]>(KEYS.DECKS, []);
+        const deck = decks.find(d => d.id === id);
         decks = decks.filter(d => d.id !== id);
         this.setLocal(KEYS.DECKS, decks);
+        if (deck) this.updateLocalTrash(trash => ({ ...trash, decks: [{ ...deck, deletedAt: Date.now() }, ...trash.decks] }));
+    }
+
+    async restoreDeck(deck: Deck): Promise<Deck> {
+        const { deletedAt: _, ...restored } = deck;
+        this.enqueue({ method: 'POST', path: `/decks/${deck.id}/restore`, deckId: deck.id });
+        const decks = this.getLocal<Deck[]>(KEYS.DECKS, []).filter(d => d.id !== deck.id);
+        decks.unshift(restored);
+        this.setLocal(KEYS.DECKS, decks);
+        this.updateLocalTrash(trash => ({ ...trash, decks: trash.decks.filter(d => d.id !== deck.id) }));
+        return restored;
+    }
+
+    // Version history lives on the server only; edits still waiting in the outbox aren't in it yet
+    async getDeckVersions(deckId: string): Promise<DeckVersionSummary[]> {
+        if (!this.isOnline()) throw new Error("You're offline. Deck history needs an internet connection.");
+        if (!this.token) throw new Error("Sign in to see deck history.");
+
+        const res = await fetch(`${API_URL}/decks/${deckId}/versions`, { headers: this.getHeaders() });
+        const data = await res.json().catch(() => ({}));
+        if (res.status === 404) return []; // Not synced yet
+        if (!res.ok) throw new Error(data.error || "Couldn't load deck history.");
+        return data;
+    }
+
+    async getDeckVersion(deckId: string, revision: number): Promise<DeckVersion> {
+        if (!this.isOnline()) throw new Error("You're offline. Deck history needs an internet connection.");
+
+        const res = await fetch(`${API_URL}/decks/${deckId}/versions/${revision}`, { headers: this.getHeaders() });
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data.error || "Couldn't load that version.");
+        return data;
     }
 
     // === NOTES ===
     async getNotes(): Promise<Note[]> {
-        if (this.token && this.isOnline()) {
+        if (await this.canPull()) {
             try {
                 const res = await fetch(`${API_URL}/notes`, { headers: this.getHeaders() });
                 if (res.ok) {
@@ -212,15 +638,7 @@ class ApiService {
     }
 
     async saveNote(note: Note): Promise<Note> {
-        if (this.token && this.isOnline()) {
-            try {
-                await fetch(`${API_URL}/notes`, {
-                    method: 'POST',
-                    headers: this.getHeaders(),
-                    body: JSON.stringify(note)
-                });
-            } catch(e) {}
-        }
+        this.enqueue({ method: 'POST', path: '/notes', body: note, dedupeKey: `note:${note.id}` });
         const notes = this.getLocal<Note[]>(KEYS.NOTES, []);
         const index = notes.findIndex(n => n.id === note.id);
         if (index !== -1) notes[index] = note;
@@ -229,32 +647,72 @@ class ApiService {
         return note;
     }
 
+    // Moves the note to the trash; restoreNote brings it back
     async deleteNote(id: string): Promise<void> {
-        if(this.token && this.isOnline()) {
-            try { await fetch(`${API_URL}/notes/${id}`, { method: 'DELETE', headers: this.getHeaders() }); } catch(e){}
-        }
+        this.enqueue({ method: 'DELETE', path: `/notes/${id}` });
         let notes = this.getLocal<Note[]>(KEYS.NOTES, []);
+        const note = notes.find(n => n.id === id);
         notes = notes.filter(n => n.id !== id);
         this.setLocal(KEYS.NOTES, notes);
+        if (note) this.updateLocalTrash(trash => ({ ...trash, notes: [{ ...note, deletedAt: Date.now() }, ...trash.notes] }));
+    }
+
+    async restoreNote(note: Note): Promise<Note> {
+        const { deletedAt: _, ...restored } = note;
+        this.enqueue({ method: 'POST', path: `/notes/${note.id}/restore` });
+        const notes = this.getLocal<Note[]>(KEYS.NOTES, []).filter(n => n.id !== note.id);
+        notes.unshift(restored);
+        this.setLocal(KEYS.NOTES, notes);
+        this.updateLocalTrash(trash => ({ ...trash, notes: trash.notes.filter(n => n.id !== note.id) }));
+        return restored;
+    }
+
+    // === TRASH ===
+    async getTrash(): Promise<Trash> {
+        if (await this.canPull()) {
+            try {
+                const res = await fetch(`${API_URL}/trash`, { headers: this.getHeaders() });
+                if (res.ok) {
+                    const { decks, notes } = await res.json();
+                    this.setLocal(KEYS.TRASH, { decks, notes });
+                    return { decks, notes };
+                }
+            } catch (e) {}
+        }
+        // Offline, expire what the server would have purged by now
+        const cutoff = Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+        const trash = this.getLocal<Trash>(KEYS.TRASH, { decks: [], notes: [] });
+        return { decks: trash.decks.filter(d => (d.deletedAt || 0) >= cutoff), notes: trash.notes.filter(n => (n.deletedAt || 0) >= cutoff) };
+    }
+
+    async deleteForever(kind: 'deck' | 'note', id: string): Promise<void> {
+        this.enqueue({ method: 'DELETE', path: `/trash/${kind}s/${id}` });
+        this.updateLocalTrash(trash => kind === 'deck'
+            ? { ...trash, decks: trash.decks.filter(d => d.id !== id) }
+            : { ...trash, notes: trash.notes.filter(n => n.id !== id) });
+    }
+
+    private updateLocalTrash(update: (trash: Trash) => Trash) {
+        this.setLocal(KEYS.TRASH, update(this.getLocal<Trash>(KEYS.TRASH, { decks: [], notes: [] })));
     }
 
     // === TESTS ===
     async getTests(): Promise<Test[]> {
-        if (this.token && this.isOnline()) {
+        if (await this.canPull()) {
             try {
                 const res = await fetch(`${API_URL}/tests`, { headers: this.getHeaders() });
-                if (res.ok) return await res.json();
+                if (res.ok) {
+                    const tests = await res.json();
+                    this.setLocal(KEYS.TESTS, tests);
+                    return tests;
+                }
             } catch(e){}
         }
         return this.getLocal(KEYS.TESTS, []);
     }
 
     async addTest(test: Test): Promise<Test> {
-        if (this.token && this.isOnline()) {
-            try {
-                await fetch(`${API_URL}/tests`, { method: 'POST', headers: this.getHeaders(), body: JSON.stringify(test) });
-            } catch(e){}
-        }
+        this.enqueue({ method: 'POST', path: '/tests', body: test });
         const tests = this.getLocal<Test[]>(KEYS.TESTS, []);
         tests.push(test);
         this.setLocal(KEYS.TESTS, tests);
@@ -262,9 +720,7 @@ class ApiService {
     }
 
     async deleteTest(id: string): Promise<void> {
-        if (this.token && this.isOnline()) {
-            try { await fetch(`${API_URL}/tests/${id}`, { method: 'DELETE', headers: this.getHeaders() }); } catch(e){}
-        }
+        this.enqueue({ method: 'DELETE', path: `/tests/${id}` });
         let tests = this.getLocal<Test[]>(KEYS.TESTS, []);
         tests = tests.filter(t => t.id !== id);
         this.setLocal(KEYS.TESTS, tests);
@@ -272,7 +728,7 @@ class ApiService {
 
     // === STATS ===
     async getStats(): Promise<UserStats | null> {
-        if (this.token && this.isOnline()) {
+        if (await this.canPull()) {
             try {
                 const res = await fetch(`${API_URL}/stats`, { headers: this.getHeaders() });
                 if (res.ok) {
@@ -286,31 +742,50 @@ class ApiService {
     }
 
     async syncStats(stats: UserStats): Promise<void> {
-        if (this.token && this.isOnline()) {
+        this.enqueue({ method: 'POST', path: '/stats', body: stats, dedupeKey: 'stats' });
+        this.setLocal(KEYS.STATS, stats);
+    }
+
+    // === REVIEW LOG ===
+    async getReviewLogs(): Promise<ReviewLog[]> {
+        if (await this.canPull()) {
             try {
-                await fetch(`${API_URL}/stats`, { method: 'POST', headers: this.getHeaders(), body: JSON.stringify(stats) });
+                const res = await fetch(`${API_URL}/review-logs`, { headers: this.getHeaders() });
+                if (res.ok) {
+                    const logs: ReviewLog[] = await res.json();
+                    this.setLocal(KEYS.REVIEW_LOGS, logs.slice(-MAX_LOCAL_REVIEW_LOGS));
+                    return logs;
+                }
             } catch(e){}
         }
-        this.setLocal(KEYS.STATS, stats);
+        return this.getLocal(KEYS.REVIEW_LOGS, []);
+    }
+
+    async addReviewLog(log: ReviewLog): Promise<void> {
+        // Answers given while a batch waits join it; the endpoint takes a list
+        this.enqueue({ method: 'POST', path: '/review-logs', body: [log], dedupeKey: 'review-logs', append: true });
+        const logs = this.getLocal<ReviewLog[]>(KEYS.REVIEW_LOGS, []);
+        logs.push(log);
+        this.setLocal(KEYS.REVIEW_LOGS, logs.slice(-MAX_LOCAL_REVIEW_LOGS));
     }
 
     // === CHAT ===
     async getChatSessions(): Promise<ChatSession[]> {
-        if (this.token && this.isOnline()) {
+        if (await this.canPull()) {
             try {
                 const res = await fetch(`${API_URL}/chats`, { headers: this.getHeaders() });
-                if (res.ok) return await res.json();
+                if (res.ok) {
+                    const sessions = await res.json();
+                    this.setLocal(KEYS.CHATS, sessions);
+                    return sessions;
+                }
             } catch(e){}
         }
         return this.getLocal(KEYS.CHATS, []);
     }
 
     async saveChatSession(session: ChatSession): Promise<void> {
-        if (this.token && this.isOnline()) {
-            try {
-                await fetch(`${API_URL}/chats`, { method: 'POST', headers: this.getHeaders(), body: JSON.stringify(session) });
-            } catch(e){}
-        }
+        this.enqueue({ method: 'POST', path: '/chats', body: session, dedupeKey: `chat:${session.id}` });
         const sessions = this.getLocal<ChatSession[]>(KEYS.CHATS, []);
         const index = sessions.findIndex(s => s.id === session.id);
         if (index !== -1) sessions[index] = session;
@@ -318,6 +793,58 @@ class ApiService {
         this.setLocal(KEYS.CHATS, sessions);
     }
 
+    // === SHARE LINKS ===
+    async createShareLink(file: CardSnapsFile, expiresInDays?: number): Promise<ShareLink> {
+        if (!this.isOnline()) throw new Error("You're offline. Share links need an internet connection.");
+        if (!this.token) throw new Error("Sign in to create share links.");
+
+        const res = await fetch(`${API_URL}/share`, {
+            method: 'POST',
+            headers: this.getHeaders(),
+            body: JSON.stringify({ file, expiresInDays })
+        });
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data.error || "Couldn't create a share link.");
+        return data;
+    }
+
+    async getSharedItem(code: string): Promise<SharedItem> {
+        if (!this.isOnline()) throw new Error("You're offline. Connect to open share links.");
+
+        const res = await fetch(`${API_URL}/share/${encodeURIComponent(code)}`);
+        const data = await res.json().catch(() => ({}));
+        if (res.status === 404) throw new Error("Invalid link code. Please check the text and try again.");
+        if (!res.ok) throw new Error(data.error || "Couldn't open that share link.");
+        return data;
+    }
+
+    // === MEDIA ===
+    // Resolves to false when the file can't go up right now (offline or signed out) so the caller keeps it queued
+    async uploadMedia(blob: Blob, name: string): Promise<boolean> {
+        if (!this.isOnline() || !this.token) return false;
+
+        const res = await fetch(`${API_URL}/media?name=${encodeURIComponent(name)}`, {
+            method: 'POST',
+            headers: { 'Content-Type': blob.type, 'Authorization': `Bearer ${this.token}` },
+            body: blob
+        });
+        if (!res.ok) {
+            const data = await res.json().catch(() => ({}));
+            throw new Error(data.error || "Couldn't upload media.");
+        }
+        return true;
+    }
+
+    async getMedia(id: string): Promise<Blob | null> {
+        if (!this.isOnline()) return null;
+        try {
+            const res = await fetch(`${API_URL}/media/${encodeURIComponent(id)}`);
+            return res.ok ? await res.blob() : null;
+        } catch (e) {
+            return null;
+        }
+    }
+
     // === COMMUNITY ===
     async shareToCommunity(item: Deck | Note, type: 'deck' | 'note', authorName: string): Promise<void> {
         const sharedItem = {
@@ -331,16 +858,8 @@ class ApiService {
             timestamp: Date.now()
         };
 
-        // 1. Try server
-        if (this.isOnline()) {
-            try {
-                await fetch(`${API_URL}/community`, {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify(sharedItem)
-                });
-            } catch (e) { console.warn("Community sync failed"); }
-        }
+        // 1. Queue for server
+        this.enqueue({ method: 'POST', path: '/community', body: sharedItem, auth: false });
         
         // 2. Local Simulation
         this._localShare(sharedItem);
@@ -362,11 +881,7 @@ class ApiService {
 
     async incrementDownload(communityId: string): Promise<void> {
         this._localIncrement(communityId);
-        if (this.isOnline()) {
-            try {
-                await fetch(`${API_URL}/community/${communityId}/download`, { method: 'POST' });
-            } catch (e) { /* ignore */ }
-        }
+        this.enqueue({ method: 'POST', path: `/community/${communityId}/download`, auth: false });
     }
 
     // --- Local Fallback Helpers ---
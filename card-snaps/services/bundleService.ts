@@ -0,0 +1,407 @@
+import { Deck, Card, Note, Test, SRSData, StudyOptions, ClozeData, CARD_COLORS } from '../types';
+import { sanitizeHtml } from './sanitizeService';
+import { addMedia, getMediaFiles, isSupportedMedia, blobToBase64, base64ToBlob } from './mediaService';
+import { mediaIdsIn } from './richTextService';
+import { normalizeFolder, uniqueTags } from './libraryService';
+
+// The `cardsnaps` interchange format: what the Library exports and the Dock imports.
+//
+//   { format: 'cardsnaps', formatVersion, kind: 'deck' | 'note' | 'test' | 'bundle', payload }
+//
+// Version history:
+//   0 - a bare deck or note object (old link codes and community shares)
+//   1 - { kind: 'bundle', payload: { decks } }
+//   2 - adds single-item kinds and notes/tests in bundles
+//   3 - adds `media`, the images and audio the cards refer to, as base64
+//
+// Files are validated field by field and rebuilt from known fields only, so nothing
+// unexpected reaches storage. Bump FORMAT_VERSION and add an upgrade step when the shape changes.
+
+export const FORMAT_NAME = 'cardsnaps';
+export const FORMAT_VERSION = 3;
+
+export type CardSnapsKind = 'deck' | 'note' | 'test' | 'bundle';
+
+export interface BundleContents {
+  decks: Deck[];
+  notes: Note[];
+  tests: Test[];
+}
+
+// A media file embedded in a CardSnaps file. Cards refer to it as ![name](media:id).
+export interface PortableMedia {
+  id: string;
+  name: string;
+  type: string;
+  data: string; // Base64
+}
+
+export interface CardSnapsFile {
+  format: typeof FORMAT_NAME;
+  formatVersion: number;
+  kind: CardSnapsKind;
+  exportedAt?: number;
+  payload: Deck | Note | Test | BundleContents;
+  media?: PortableMedia[];
+}
+
+export interface FormatIssue {
+  path: string; // e.g. "payload.decks[0].cards[3].front"
+  message: string;
+}
+
+export class FormatError extends Error {
+  issues: FormatIssue[];
+
+  constructor(message: string, issues: FormatIssue[] = []) {
+    super(message);
+    this.name = 'FormatError';
+    this.issues = issues;
+  }
+}
+
+// --- Upgrades: each step takes version n to n + 1 ---
+
+const UPGRADES: Record<number, (file: any) => any> = {
+  0: (data) => {
+    if (Array.isArray(data?.cards)) return { format: FORMAT_NAME, formatVersion: 1, kind: 'deck', payload: data };
+    if (typeof data?.content === 'string') return { format: FORMAT_NAME, formatVersion: 1, kind: 'note', payload: data };
+    throw new FormatError("This isn't a deck, note or CardSnaps file.");
+  },
+  1: (file) => file.kind === 'bundle'
+    ? { ...file, formatVersion: 2, payload: { notes: [], tests: [], ...file.payload } }
+    : { ...file, formatVersion: 2 },
+  2: (file) => ({ ...file, formatVersion: 3 }),
+};
+
+export const upgradeFile = (data: any): { file: any, upgradedFrom: number | null } => {
+  let version = data?.format === FORMAT_NAME ? data.formatVersion : 0;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    throw new FormatError('Unreadable file version.', [{ path: 'formatVersion', message: 'must be a whole number' }]);
+  }
+  if (version > FORMAT_VERSION) {
+    throw new FormatError(`This file was made by a newer version of CardSnaps (format ${version}). Please update the app.`);
+  }
+  const upgradedFrom = version < FORMAT_VERSION ? version : null;
+  let file = data;
+  while (version < FORMAT_VERSION) {
+    file = UPGRADES[version](file);
+    version = file.formatVersion;
+  }
+  return { file, upgradedFrom };
+};
+
+// --- Validation ---
+
+type Reader = ReturnType<typeof createReader>;
+
+const describe = (value: unknown) => value === undefined ? 'nothing' : value === null ? 'null' : Array.isArray(value) ? 'a list' : typeof value;
+
+// Collects every problem instead of stopping at the first, so the Dock can list them all
+const createReader = () => {
+  const issues: FormatIssue[] = [];
+  const fail = (path: string, message: string) => { issues.push({ path, message }); };
+
+  const isObject = (value: unknown): value is Record<string, any> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+  const object = (value: unknown, path: string): Record<string, any> | null => {
+    if (isObject(value)) return value;
+    fail(path, `expected an object, got ${describe(value)}`);
+    return null;
+  };
+
+  const string = (value: unknown, path: string, { optional = false, nonEmpty = false } = {}): string | undefined => {
+    if (value === undefined && optional) return undefined;
+    if (typeof value !== 'string') { fail(path, `expected text, got ${describe(value)}`); return undefined; }
+    if (nonEmpty && !value.trim()) { fail(path, 'must not be empty'); return undefined; }
+    return value;
+  };
+
+  const number = (value: unknown, path: string, { optional = false, min = -Infinity } = {}): number | undefined => {
+    if (value === undefined && optional) return undefined;
+    if (typeof value !== 'number' || !Number.isFinite(value)) { fail(path, `expected a number, got ${describe(value)}`); return undefined; }
+    if (value < min) { fail(path, `must be at least ${min}`); return undefined; }
+    return value;
+  };
+
+  const oneOf = <T extends string>(value: unknown, options: readonly T[], path: string): T | undefined => {
+    if (value === undefined) return undefined;
+    if (typeof value === 'string' && (options as readonly string[]).includes(value)) return value as T;
+    fail(path, `expected one of ${options.join(', ')}`);
+    return undefined;
+  };
+
+  const list = <T>(value: unknown, path: string, item: (entry: unknown, path: string) => T | null, { optional = false } = {}): T[] => {
+    if (value === undefined && optional) return [];
+    if (!Array.isArray(value)) { fail(path, `expected a list, got ${describe(value)}`); return []; }
+    return value.map((entry, i) => item(entry, `${path}[${i}]`)).filter((entry): entry is T => entry !== null);
+  };
+
+  return { issues, fail, object, string, number, oneOf, list };
+};
+
+const readSRS = (r: Reader, value: unknown, path: string): SRSData | undefined => {
+  if (value === undefined) return undefined;
+  const srs = r.object(value, path);
+  if (!srs) return undefined;
+  const data: SRSData = {
+    interval: r.number(srs.interval, `${path}.interval`, { min: 0 }) ?? 0,
+    repetition: r.number(srs.repetition, `${path}.repetition`, { min: 0 }) ?? 0,
+    easeFactor: r.number(srs.easeFactor, `${path}.easeFactor`, { min: 1.3 }) ?? 2.5,
+    dueDate: r.number(srs.dueDate, `${path}.dueDate`) ?? Date.now(),
+  };
+  const stability = r.number(srs.stability, `${path}.stability`, { optional: true, min: 0 });
+  const difficulty = r.number(srs.difficulty, `${path}.difficulty`, { optional: true, min: 1 });
+  const lastReview = r.number(srs.lastReview, `${path}.lastReview`, { optional: true });
+  const lapses = r.number(srs.lapses, `${path}.lapses`, { optional: true, min: 0 });
+  const state = r.oneOf(srs.state, ['new', 'learning', 'review', 'relearning'] as const, `${path}.state`);
+  const step = r.number(srs.step, `${path}.step`, { optional: true, min: 0 });
+  return {
+    ...data,
+    ...(stability !== undefined && { stability }),
+    ...(difficulty !== undefined && { difficulty }),
+    ...(lastReview !== undefined && { lastReview }),
+    ...(lapses !== undefined && { lapses }),
+    ...(state !== undefined && { state }),
+    ...(step !== undefined && { step }),
+  };
+};
+
+const readCloze = (r: Reader, value: unknown, path: string): ClozeData | undefined => {
+  if (value === undefined) return undefined;
+  const cloze = r.object(value, path);
+  if (!cloze) return undefined;
+  const text = r.string(cloze.text, `${path}.text`, { nonEmpty: true });
+  const index = r.number(cloze.index, `${path}.index`, { min: 1 });
+  const extra = r.string(cloze.extra, `${path}.extra`, { optional: true });
+  if (text === undefined || index === undefined) return undefined;
+  return { text, index, ...(extra && { extra }) };
+};
+
+const readFlag = (r: Reader, value: unknown, path: string): boolean | undefined => {
+  if (value === undefined || typeof value === 'boolean') return value;
+  r.fail(path, `expected true or false, got ${describe(value)}`);
+  return undefined;
+};
+
+const readCard = (r: Reader, value: unknown, path: string): Card | null => {
+  const card = r.object(value, path);
+  if (!card) return null;
+  const front = r.string(card.front, `${path}.front`);
+  const back = r.string(card.back, `${path}.back`);
+  const color = r.string(card.color, `${path}.color`, { optional: true });
+  const id = r.string(card.id, `${path}.id`, { optional: true });
+  const groupId = r.string(card.groupId, `${path}.groupId`, { optional: true });
+  const tags = uniqueTags(r.list(card.tags, `${path}.tags`, (tag, tagPath) => r.string(tag, tagPath) ?? null, { optional: true }));
+  const srs = readSRS(r, card.srs, `${path}.srs`);
+  const cloze = readCloze(r, card.cloze, `${path}.cloze`);
+  const reverse = readFlag(r, card.reverse, `${path}.reverse`);
+  const reverseSrs = readSRS(r, card.reverseSrs, `${path}.reverseSrs`);
+  if (front === undefined || back === undefined) return null;
+  return {
+    id: id || crypto.randomUUID(),
+    front,
+    back,
+    color: color || CARD_COLORS[0],
+    ...(srs && { srs }),
+    ...(groupId && { groupId }),
+    ...(tags.length > 0 && { tags }),
+    ...(cloze && { cloze }),
+    ...(reverse !== undefined && { reverse }),
+    ...(reverseSrs && { reverseSrs }),
+  };
+};
+
+const readSteps = (r: Reader, value: unknown, path: string) =>
+  value === undefined ? undefined : r.list(value, path, (step, stepPath) => r.number(step, stepPath, { min: 0 }) ?? null);
+
+const readStudyOptions = (r: Reader, value: unknown, path: string): StudyOptions | undefined => {
+  if (value === undefined) return undefined;
+  const options = r.object(value, path);
+  if (!options) return undefined;
+  const newPerDay = r.number(options.newPerDay, `${path}.newPerDay`, { min: 0 });
+  const reviewsPerDay = r.number(options.reviewsPerDay, `${path}.reviewsPerDay`, { min: 0 });
+  const newOrder = r.oneOf(options.newOrder, ['sequential', 'random'] as const, `${path}.newOrder`);
+  if (typeof options.burySiblings !== 'boolean') r.fail(`${path}.burySiblings`, `expected true or false, got ${describe(options.burySiblings)}`);
+  if (newPerDay === undefined || reviewsPerDay === undefined || !newOrder || typeof options.burySiblings !== 'boolean') return undefined;
+  return { newPerDay, reviewsPerDay, newOrder, burySiblings: options.burySiblings };
+};
+
+// Imported items always get fresh ids so they never collide with what's already in the library
+const readDeck = (r: Reader, value: unknown, path: string): Deck | null => {
+  const deck = r.object(value, path);
+  if (!deck) return null;
+  const title = r.string(deck.title, `${path}.title`, { nonEmpty: true });
+  const description = r.string(deck.description, `${path}.description`, { optional: true });
+  const folder = normalizeFolder(r.string(deck.folder, `${path}.folder`, { optional: true }));
+  const cards = r.list(deck.cards, `${path}.cards`, (card, cardPath) => readCard(r, card, cardPath));
+  const scheduler = r.oneOf(deck.scheduler, ['sm2', 'fsrs'] as const, `${path}.scheduler`);
+  const learningSteps = readSteps(r, deck.learningSteps, `${path}.learningSteps`);
+  const relearningSteps = readSteps(r, deck.relearningSteps, `${path}.relearningSteps`);
+  const studyOptions = readStudyOptions(r, deck.studyOptions, `${path}.studyOptions`);
+  const studyReverse = readFlag(r, deck.studyReverse, `${path}.studyReverse`);
+  const createdAt = r.number(deck.createdAt, `${path}.createdAt`, { optional: true });
+  if (title === undefined) return null;
+  return {
+    id: crypto.randomUUID(),
+    title,
+    description: description || '',
+    ...(folder && { folder }),
+    cards,
+    createdAt: createdAt ?? Date.now(),
+    ...(scheduler && { scheduler }),
+    ...(learningSteps && learningSteps.length > 0 && { learningSteps }),
+    ...(relearningSteps && relearningSteps.length > 0 && { relearningSteps }),
+    ...(studyOptions && { studyOptions }),
+    ...(studyReverse && { studyReverse }),
+  };
+};
+
+const readNote = (r: Reader, value: unknown, path: string): Note | null => {
+  const note = r.object(value, path);
+  if (!note) return null;
+  const title = r.string(note.title, `${path}.title`, { optional: true });
+  const subject = r.string(note.subject, `${path}.subject`, { optional: true });
+  const content = r.string(note.content, `${path}.content`);
+  const background = r.oneOf(note.background, ['blank', 'lined', 'grid'] as const, `${path}.background`);
+  const createdAt = r.number(note.createdAt, `${path}.createdAt`, { optional: true });
+  if (content === undefined) return null;
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    title: title?.trim() || 'Untitled Note',
+    subject: subject || '',
+    content: sanitizeHtml(content),
+    background: background || 'blank',
+    createdAt: createdAt ?? now,
+    lastModified: now,
+  };
+};
+
+const readTest = (r: Reader, value: unknown, path: string): Test | null => {
+  const test = r.object(value, path);
+  if (!test) return null;
+  const title = r.string(test.title, `${path}.title`, { nonEmpty: true });
+  const date = r.number(test.date, `${path}.date`);
+  const topics = r.list(test.topics, `${path}.topics`, (topic, topicPath) => r.string(topic, topicPath) ?? null, { optional: true });
+  if (title === undefined || date === undefined) return null;
+  return { id: crypto.randomUUID(), title, date, topics };
+};
+
+const readMedia = (r: Reader, value: unknown, path: string): PortableMedia | null => {
+  const media = r.object(value, path);
+  if (!media) return null;
+  const id = r.string(media.id, `${path}.id`, { nonEmpty: true });
+  const name = r.string(media.name, `${path}.name`, { optional: true });
+  const type = r.string(media.type, `${path}.type`, { nonEmpty: true });
+  const data = r.string(media.data, `${path}.data`, { nonEmpty: true });
+  if (id !== undefined && !/^[a-f0-9]+$/.test(id)) r.fail(`${path}.id`, 'must be a media id');
+  if (type !== undefined && !isSupportedMedia(type)) r.fail(`${path}.type`, `expected an image or audio type, got "${type}"`);
+  if (id === undefined || type === undefined || data === undefined || !/^[a-f0-9]+$/.test(id) || !isSupportedMedia(type)) return null;
+  return { id, name: name || id, type, data };
+};
+
+const readFile = (r: Reader, file: any): BundleContents => {
+  const contents: BundleContents = { decks: [], notes: [], tests: [] };
+  const kind = r.oneOf(file.kind, ['deck', 'note', 'test', 'bundle'] as const, 'kind');
+  if (file.kind === undefined) r.fail('kind', 'is missing');
+
+  if (kind === 'deck') {
+    const deck = readDeck(r, file.payload, 'payload');
+    if (deck) contents.decks.push(deck);
+  } else if (kind === 'note') {
+    const note = readNote(r, file.payload, 'payload');
+    if (note) contents.notes.push(note);
+  } else if (kind === 'test') {
+    const test = readTest(r, file.payload, 'payload');
+    if (test) contents.tests.push(test);
+  } else if (kind === 'bundle') {
+    const payload = r.object(file.payload, 'payload');
+    if (payload) {
+      contents.decks = r.list(payload.decks, 'payload.decks', (deck, path) => readDeck(r, deck, path), { optional: true });
+      contents.notes = r.list(payload.notes, 'payload.notes', (note, path) => readNote(r, note, path), { optional: true });
+      contents.tests = r.list(payload.tests, 'payload.tests', (test, path) => readTest(r, test, path), { optional: true });
+    }
+  }
+  return contents;
+};
+
+// Parses, upgrades and validates a file. Throws FormatError listing every invalid field.
+export const parseCardSnapsFile = (text: string): BundleContents & { media: PortableMedia[], upgradedFrom: number | null } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new FormatError("This isn't valid JSON. Make sure you copied the whole code.");
+  }
+  const { file, upgradedFrom } = upgradeFile(data);
+  const reader = createReader();
+  const contents = readFile(reader, file);
+  const media = reader.list(file.media, 'media', (item, path) => readMedia(reader, item, path), { optional: true });
+
+  if (reader.issues.length > 0) {
+    throw new FormatError(`Found ${reader.issues.length} problem${reader.issues.length === 1 ? '' : 's'} in this file.`, reader.issues);
+  }
+  if (contents.decks.length + contents.notes.length + contents.tests.length === 0) {
+    throw new FormatError('This file is empty.');
+  }
+  return { ...contents, media, upgradedFrom };
+};
+
+// Puts a file's media into the local store. Ids are content hashes, so files already there are skipped.
+export const saveFileMedia = async (media: PortableMedia[]) => {
+  for (const item of media) await addMedia(base64ToBlob(item.data, item.type), item.name);
+};
+
+// --- Export ---
+
+// Review schedules are the exporter's own progress; whoever imports the deck starts it fresh
+export const withoutProgress = (deck: Deck): Deck => ({
+  ...deck,
+  cards: deck.cards.map(({ srs, reverseSrs, ...card }) => card),
+});
+
+// Revisions, sync timestamps, trash state and today's study counts belong to the exporting account, not the file
+const portableDeck = ({ revision, updatedAt, studiedToday, deletedAt, ...deck }: Deck, includeProgress = false): Deck => {
+  const portable = { ...deck, cards: deck.cards.map(({ revision, updatedAt, ...card }) => card) };
+  return includeProgress ? portable : withoutProgress(portable);
+};
+
+export interface BundleOptions {
+  // Keep each card's review schedule, e.g. when moving your own decks to another account
+  includeProgress?: boolean;
+}
+
+export const createBundle = ({ decks = [], notes = [], tests = [] }: Partial<BundleContents>, { includeProgress = false }: BundleOptions = {}): CardSnapsFile => ({
+  format: FORMAT_NAME,
+  formatVersion: FORMAT_VERSION,
+  kind: 'bundle',
+  exportedAt: Date.now(),
+  payload: { decks: decks.map(deck => portableDeck(deck, includeProgress)), notes, tests },
+});
+
+// A single deck or note, as sent to share links. Never carries study progress.
+export const createItemFile = (kind: 'deck' | 'note', item: Deck | Note): CardSnapsFile => ({
+  format: FORMAT_NAME,
+  formatVersion: FORMAT_VERSION,
+  kind,
+  exportedAt: Date.now(),
+  payload: kind === 'deck' ? portableDeck(item as Deck) : item,
+});
+
+const deckTexts = (deck: Deck) => deck.cards.flatMap(card =>
+  [card.front, card.back, card.cloze?.text || '', card.cloze?.extra || '']);
+
+// Embeds every image and audio file the file's decks refer to, so it works on a device that has never seen them
+export const attachMedia = async (file: CardSnapsFile): Promise<CardSnapsFile> => {
+  const payload = file.payload as Partial<BundleContents> & Partial<Deck>;
+  const decks = file.kind === 'bundle' ? payload.decks || [] : file.kind === 'deck' ? [payload as Deck] : [];
+  const files = await getMediaFiles(mediaIdsIn(decks.flatMap(deckTexts)));
+  if (files.length === 0) return file;
+  const media = await Promise.all(files.map(async ({ id, name, type, blob }) => ({ id, name, type, data: await blobToBase64(blob) })));
+  return { ...file, media };
+};
+
+export const bundleToBlob = (file: CardSnapsFile) =>
+  new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
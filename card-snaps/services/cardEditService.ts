@@ -0,0 +1,134 @@
+import { Card } from '../types';
+import { editOutsideMedia } from './richTextService';
+import { renderClozeSides, editClozeContent } from './clozeService';
+import { uniqueTags } from './libraryService';
+
+// Bulk edits for the deck editor's selection. Each function takes the whole card list and the
+// selected ids and returns a new list, so the editor can keep the old one around for undo
+// and save the deck once.
+
+export type CardSide = 'front' | 'back' | 'both';
+
+export interface FindReplaceOptions {
+  find: string;
+  replace: string;
+  side: CardSide;
+  matchCase: boolean;
+}
+
+export interface FindReplaceResult {
+  cards: Card[];
+  matches: number; // Occurrences replaced; a cloze note counts once, not once per sibling
+}
+
+// Cloze siblings are rendered from one source text, so editing one means editing all of them
+export const withSiblings = (cards: Card[], ids: Set<string>) => {
+  const groups = new Set(cards.filter(c => ids.has(c.id) && c.cloze && c.groupId).map(c => c.groupId));
+  return new Set(cards.filter(c => ids.has(c.id) || (!!c.cloze && !!c.groupId && groups.has(c.groupId))).map(c => c.id));
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// A function replacement, so "$1" in the replacement text stays literal. Media references, and
+// with `cloze` the {{cN::...}} markup, are left alone so a search for "c1" or "::" can't break them.
+const replaceAll = (text: string, pattern: RegExp, replacement: string, cloze = false) => {
+  let count = 0;
+  const edit = (part: string) => editOutsideMedia(part, plain => plain.replace(pattern, () => { count++; return replacement; }));
+  const result = cloze ? editClozeContent(text, edit) : edit(text);
+  return { text: result, count };
+};
+
+// For cloze cards, "front" is the cloze text and "back" is the extra; the sides are re-rendered from them
+export const findAndReplace = (cards: Card[], ids: Set<string>, options: FindReplaceOptions): FindReplaceResult => {
+  if (!options.find) return { cards, matches: 0 };
+  const pattern = new RegExp(escapeRegExp(options.find), options.matchCase ? 'g' : 'gi');
+  const front = options.side !== 'back';
+  const back = options.side !== 'front';
+  const countedGroups = new Set<string>();
+  let matches = 0;
+
+  const edited = cards.map(card => {
+    if (!ids.has(card.id)) return card;
+    let count = 0;
+    let result: Card;
+    if (card.cloze) {
+      const text = front ? replaceAll(card.cloze.text, pattern, options.replace, true) : { text: card.cloze.text, count: 0 };
+      const extra = back && card.cloze.extra ? replaceAll(card.cloze.extra, pattern, options.replace) : { text: card.cloze.extra, count: 0 };
+      count = text.count + extra.count;
+      const { extra: _, ...source } = card.cloze;
+      const cloze = { ...source, text: text.text, ...(extra.text && { extra: extra.text }) };
+      result = { ...card, cloze, ...renderClozeSides(cloze) };
+    } else {
+      const newFront = front ? replaceAll(card.front, pattern, options.replace) : { text: card.front, count: 0 };
+      const newBack = back ? replaceAll(card.back, pattern, options.replace) : { text: card.back, count: 0 };
+      count = newFront.count + newBack.count;
+      result = { ...card, front: newFront.text, back: newBack.text };
+    }
+    if (count === 0) return card;
+    if (!card.cloze || !card.groupId || !countedGroups.has(card.groupId)) matches += count;
+    if (card.cloze && card.groupId) countedGroups.add(card.groupId);
+    return result;
+  });
+  return { cards: edited, matches };
+};
+
+// Back becomes front. Progress follows the direction: the old back→front schedule becomes the main one.
+// Cloze cards have no meaningful swap and are left alone.
+export const swapSides = (cards: Card[], ids: Set<string>) => cards.map(card => {
+  if (!ids.has(card.id) || card.cloze) return card;
+  const { srs, reverseSrs, ...rest } = card;
+  return { ...rest, front: card.back, back: card.front, ...(reverseSrs && { srs: reverseSrs }), ...(srs && { reverseSrs: srs }) };
+});
+
+export const resetProgress = (cards: Card[], ids: Set<string>) => cards.map(card => {
+  if (!ids.has(card.id)) return card;
+  const { srs: _, reverseSrs: __, ...rest } = card;
+  return rest;
+});
+
+export const recolor = (cards: Card[], ids: Set<string>, color: string) =>
+  cards.map(card => ids.has(card.id) ? { ...card, color } : card);
+
+export const addTags = (cards: Card[], ids: Set<string>, tags: string[]) =>
+  cards.map(card => ids.has(card.id) ? { ...card, tags: uniqueTags([...(card.tags || []), ...tags]) } : card);
+
+export const removeTags = (cards: Card[], ids: Set<string>, tags: string[]) => {
+  const unwanted = new Set(tags.map(tag => tag.toLowerCase()));
+  return cards.map(card => {
+    if (!ids.has(card.id) || !card.tags) return card;
+    const { tags: current, ...rest } = card;
+    const kept = current.filter(tag => !unwanted.has(tag.toLowerCase()));
+    return kept.length > 0 ? { ...rest, tags: kept } : rest;
+  });
+};
+
+// Copies are new cards: fresh ids, no progress, and cloze siblings keep a group of their own
+export const copyCards = (cards: Card[]): Card[] => {
+  const groupIds = new Map<string, string>();
+  return cards.map(card => {
+    const { srs: _, reverseSrs: __, revision: ___, updatedAt: ____, ...rest } = card;
+    if (card.groupId && !groupIds.has(card.groupId)) groupIds.set(card.groupId, crypto.randomUUID());
+    return { ...rest, id: crypto.randomUUID(), ...(card.groupId && { groupId: groupIds.get(card.groupId) }) };
+  });
+};
+
+// The server stores a deck's cards by id, so no two may share one. A card repeating an earlier id (say, one
+// left behind by a move that was never saved) gets its own, derived from the old id so re-saving is stable.
+export const withUniqueIds = (cards: Card[]): Card[] => {
+  const taken = new Set(cards.map(card => card.id));
+  if (taken.size === cards.length && !taken.has('')) return cards;
+  const seen = new Set<string>();
+  return cards.map(card => {
+    if (card.id && !seen.has(card.id)) {
+      seen.add(card.id);
+      return card;
+    }
+    const base = card.id || 'card';
+    let n = 2;
+    while (taken.has(`${base}-${n}`)) n++;
+    const id = `${base}-${n}`;
+    taken.add(id);
+    seen.add(id);
+    return { ...card, id };
+  });
+};
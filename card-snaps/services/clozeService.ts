@@ -0,0 +1,82 @@
+import { Card, ClozeData } from '../types';
+
+// Cloze deletions: "The {{c1::mitochondria}} is the {{c2::powerhouse::energy}}".
+// One source text becomes one card per cloze number; the siblings share a groupId so
+// they are buried together, and each keeps its own SRSData.
+// `front`/`back` are always rendered to plain text as well, so every other study mode,
+// export and search keeps working without knowing about clozes.
+
+const CLOZE_PATTERN = /\{\{c(\d+)::([\s\S]*?)(?:::([\s\S]*?))?\}\}/g;
+
+export const hasCloze = (text: string) => new RegExp(CLOZE_PATTERN.source).test(text);
+
+export const getClozeNumbers = (text: string): number[] =>
+  [...new Set(Array.from(text.matchAll(CLOZE_PATTERN), m => Number(m[1])))].sort((a, b) => a - b);
+
+// `active` is the cloze being asked; the others are shown in full
+export const renderCloze = (text: string, active: number, reveal: boolean) =>
+  text.replace(CLOZE_PATTERN, (_, num, answer, hint) => {
+    if (Number(num) !== active || reveal) return answer;
+    return hint ? `[${hint}]` : '[...]';
+  });
+
+export interface ClozeSegment {
+  text: string;
+  kind: 'text' | 'blank' | 'answer';
+}
+
+// Same as renderCloze, but keeps the active cloze separate so it can be highlighted
+export const clozeSegments = (text: string, active: number, reveal: boolean): ClozeSegment[] => {
+  const segments: ClozeSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(CLOZE_PATTERN)) {
+    const [whole, num, answer, hint] = match;
+    if (match.index! > last) segments.push({ text: text.slice(last, match.index), kind: 'text' });
+    if (Number(num) !== active) segments.push({ text: answer, kind: 'text' });
+    else if (reveal) segments.push({ text: answer, kind: 'answer' });
+    else segments.push({ text: hint ? `[${hint}]` : '[...]', kind: 'blank' });
+    last = match.index! + whole.length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last), kind: 'text' });
+  return segments;
+};
+
+// Applies `edit` to the plain text, answers and hints, but not to the {{cN::...}} markup around them
+export const editClozeContent = (text: string, edit: (part: string) => string) => {
+  let result = '';
+  let last = 0;
+  for (const match of text.matchAll(CLOZE_PATTERN)) {
+    const [whole, num, answer, hint] = match;
+    result += edit(text.slice(last, match.index)) + `{{c${num}::${edit(answer)}${hint !== undefined ? `::${edit(hint)}` : ''}}}`;
+    last = match.index! + whole.length;
+  }
+  return result + edit(text.slice(last));
+};
+
+// What the learner is expected to recall (used by typed-answer modes)
+export const getExpectedAnswer = (card: Card) => {
+  if (!card.cloze) return card.back;
+  return Array.from(card.cloze.text.matchAll(CLOZE_PATTERN))
+    .filter(m => Number(m[1]) === card.cloze!.index)
+    .map(m => m[2])
+    .join(', ');
+};
+
+// The plain front/back every non-cloze-aware mode reads
+export const renderClozeSides = (cloze: ClozeData) => ({
+  front: renderCloze(cloze.text, cloze.index, false),
+  back: [renderCloze(cloze.text, cloze.index, true), cloze.extra].filter(Boolean).join('\n\n'),
+});
+
+// One sibling per cloze number, in order
+export const buildClozeCards = (text: string, extra: string, color: string, groupId: string = crypto.randomUUID()): Card[] =>
+  getClozeNumbers(text).map(index => {
+    const cloze: ClozeData = { text, index, ...(extra.trim() && { extra: extra.trim() }) };
+    return { id: crypto.randomUUID(), ...renderClozeSides(cloze), color, groupId, cloze };
+  });
+
+// Next free cloze number, for wrapping a selection in the editor
+export const nextClozeNumber = (text: string) => {
+  const numbers = getClozeNumbers(text);
+  return numbers.length ? numbers[numbers.length - 1] + 1 : 1;
+};
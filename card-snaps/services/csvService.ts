@@ -0,0 +1,163 @@
+import { Card, Deck, CARD_COLORS } from '../types';
+
+// Delimited text (CSV, TSV, Quizlet exports) <-> cards.
+// Quizlet lets users pick both separators, so neither is assumed.
+
+export interface Separators {
+  field: string; // Between term and definition, e.g. '\t', ',', ' - '
+  row: string;   // Between cards, e.g. '\n', ';'
+}
+
+export type ColumnRole = 'front' | 'back' | 'color' | 'tags' | 'ignore';
+
+export const SEPARATOR_PRESETS = {
+  field: [
+    { label: 'Tab', value: '\t' },
+    { label: 'Comma', value: ',' },
+    { label: 'Semicolon', value: ';' },
+    { label: 'Dash ( - )', value: ' - ' },
+  ],
+  row: [
+    { label: 'New line', value: '\n' },
+    { label: 'Semicolon', value: ';' },
+    { label: 'Blank line', value: '\n\n' },
+  ],
+};
+
+// Splits text into rows of fields. Double quotes wrap fields containing separators ("" escapes a quote).
+export const parseDelimited = (text: string, separators: Separators): string[][] => {
+  const source = separators.row.includes('\n') ? text.replace(/\r\n?/g, '\n') : text;
+  const { field: fieldSep, row: rowSep } = separators;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let quoted = false;
+  let atFieldStart = true;
+  let i = 0;
+
+  const endField = () => { row.push(value.trim()); value = ''; atFieldStart = true; };
+  const endRow = () => {
+    endField();
+    if (row.some(cell => cell !== '')) rows.push(row);
+    row = [];
+  };
+
+  while (i < source.length) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') { value += '"'; i += 2; continue; }
+      if (char === '"') { quoted = false; i++; continue; }
+      value += char;
+      i++;
+      continue;
+    }
+    if (atFieldStart && char === '"') { quoted = true; atFieldStart = false; i++; continue; }
+    if (fieldSep && source.startsWith(fieldSep, i)) { endField(); i += fieldSep.length; continue; }
+    if (rowSep && source.startsWith(rowSep, i)) { endRow(); i += rowSep.length; continue; }
+    if (char !== ' ') atFieldStart = false;
+    value += char;
+    i++;
+  }
+  if (value || row.length) endRow();
+  return rows;
+};
+
+// Picks the preset field separator that appears on the most lines (tab wins ties)
+export const detectSeparators = (text: string): Separators => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n').filter(l => l.trim()).slice(0, 20);
+  const score = (sep: string) => {
+    const counts = lines.map(l => l.split(sep).length - 1);
+    const withSep = counts.filter(c => c > 0).length;
+    return withSep / Math.max(lines.length, 1);
+  };
+  const candidates = SEPARATOR_PRESETS.field.map(p => p.value);
+  const field = candidates.reduce((best, sep) => score(sep) > score(best) ? sep : best, '\t');
+  return { field, row: '\n' };
+};
+
+const HEADER_HINTS: Record<Exclude<ColumnRole, 'ignore'>, RegExp> = {
+  front: /^(front|term|question|word|prompt|q)$/i,
+  back: /^(back|definition|answer|meaning|response|a)$/i,
+  color: /^(colou?r)$/i,
+  tags: /^(tags?|labels?|categor(y|ies))$/i,
+};
+
+export const looksLikeHeader = (row: string[]) =>
+  row.some(cell => Object.values(HEADER_HINTS).some(pattern => pattern.test(cell.trim())));
+
+// Initial mapping: header names when there are any, otherwise first two columns as front/back
+export const guessColumnRoles = (firstRow: string[], hasHeader: boolean): ColumnRole[] => {
+  const roles: ColumnRole[] = firstRow.map((cell, i) => {
+    if (hasHeader) {
+      const match = (Object.keys(HEADER_HINTS) as (keyof typeof HEADER_HINTS)[]).find(role => HEADER_HINTS[role].test(cell.trim()));
+      return match || 'ignore';
+    }
+    return i === 0 ? 'front' : i === 1 ? 'back' : 'ignore';
+  });
+  // Headers that matched nothing still need somewhere to put front and back
+  for (const role of ['front', 'back'] as const) {
+    const free = roles.indexOf('ignore');
+    if (!roles.includes(role) && free >= 0) roles[free] = role;
+  }
+  return roles;
+};
+
+// Accepts our own classes ("bg-blue-100") as well as plain names ("blue")
+const toCardColor = (value: string, fallback: string) => {
+  const name = value.trim().toLowerCase();
+  if (!name) return fallback;
+  return CARD_COLORS.find(c => c === name || c === `bg-${name}` || c === `bg-${name}-100`) || fallback;
+};
+
+export const normalizeForDuplicates = (text: string) =>
+  text.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+export interface ImportRow {
+  card: Card;
+  duplicate: 'existing' | 'import' | null; // Same front as a card already in the deck, or earlier in this import
+}
+
+export const rowsToCards = (rows: string[][], roles: ColumnRole[], existing: Card[], defaultColor = CARD_COLORS[0]): ImportRow[] => {
+  const seen = new Set(existing.map(c => normalizeForDuplicates(c.front)));
+  const inImport = new Set<string>();
+  const column = (role: ColumnRole) => roles.indexOf(role);
+
+  return rows
+    .map(row => {
+      const pick = (role: ColumnRole) => column(role) >= 0 ? (row[column(role)] || '').trim() : '';
+      const tags = pick('tags').split(/[,;\s]+/).filter(Boolean);
+      const card: Card = {
+        id: crypto.randomUUID(),
+        front: pick('front'),
+        back: pick('back'),
+        color: toCardColor(pick('color'), defaultColor),
+        ...(tags.length ? { tags } : {}),
+      };
+      return card;
+    })
+    .filter(card => card.front || card.back)
+    .map(card => {
+      const key = normalizeForDuplicates(card.front);
+      const duplicate = seen.has(key) ? 'existing' : inImport.has(key) ? 'import' : null;
+      inImport.add(key);
+      return { card, duplicate };
+    });
+};
+
+const escapeCsvField = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Header names match HEADER_HINTS so an exported file maps itself on re-import.
+// A deck column is added when several decks share one file.
+export const decksToCsv = (decks: Deck[]): string => {
+  const withDeck = decks.length > 1;
+  const header = [...(withDeck ? ['Deck'] : []), 'Front', 'Back', 'Color', 'Tags'];
+  const lines = decks.flatMap(deck => deck.cards.map(card => [
+    ...(withDeck ? [deck.title] : []),
+    card.front,
+    card.back,
+    card.color,
+    (card.tags || []).join(' '),
+  ]));
+  return [header, ...lines].map(row => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,81 @@
+import { Card } from '../types';
+import { mostAdvancedSRS } from './deckMerge';
+import { withSiblings } from './cardEditService';
+
+// Compares a saved version of a deck with the cards in the editor, and takes cards back from it.
+// Restoring never rolls study progress back: a card keeps whichever schedule is further along,
+// so a version from before a "reset progress" also brings the progress back.
+
+// Relative to the version: 'removed' cards were deleted since, 'added' ones are new since
+export type VersionChangeKind = 'removed' | 'changed' | 'added';
+
+export type CardField = 'front' | 'back' | 'color' | 'tags' | 'reverse';
+
+export interface VersionCardChange {
+  id: string;
+  kind: VersionChangeKind;
+  version?: Card; // As saved in the version
+  current?: Card; // As in the editor now
+  fields: CardField[]; // What differs, for 'changed'
+}
+
+export const changedFields = (a: Card, b: Card): CardField[] => {
+  const fields: CardField[] = [];
+  if (a.front !== b.front) fields.push('front');
+  if (a.back !== b.back) fields.push('back');
+  if (a.color !== b.color) fields.push('color');
+  if ((a.tags || []).join(' ') !== (b.tags || []).join(' ')) fields.push('tags');
+  if (!!a.reverse !== !!b.reverse) fields.push('reverse');
+  return fields;
+};
+
+export const diffVersion = (version: Card[], current: Card[]): VersionCardChange[] => {
+  const currentById = new Map(current.map(c => [c.id, c]));
+  const versionIds = new Set(version.map(c => c.id));
+  const changes: VersionCardChange[] = [];
+
+  version.forEach(card => {
+    const now = currentById.get(card.id);
+    if (!now) {
+      changes.push({ id: card.id, kind: 'removed', version: card, fields: [] });
+      return;
+    }
+    const fields = changedFields(card, now);
+    if (fields.length > 0) changes.push({ id: card.id, kind: 'changed', version: card, current: now, fields });
+  });
+
+  current.forEach(card => {
+    if (!versionIds.has(card.id)) changes.push({ id: card.id, kind: 'added', current: card, fields: [] });
+  });
+
+  return changes;
+};
+
+const withBestProgress = (card: Card, current?: Card): Card => {
+  const { srs: _, reverseSrs: __, ...rest } = card;
+  const srs = mostAdvancedSRS(card.srs, current?.srs);
+  const reverseSrs = mostAdvancedSRS(card.reverseSrs, current?.reverseSrs);
+  return { ...rest, ...(srs && { srs }), ...(reverseSrs && { reverseSrs }) };
+};
+
+// The whole card list as it was in the version
+export const restoreVersionCards = (current: Card[], version: Card[]): Card[] => {
+  const currentById = new Map(current.map(c => [c.id, c]));
+  return version.map(card => withBestProgress(card, currentById.get(card.id)));
+};
+
+// Single cards taken back from a version: changed ones are reverted in place, deleted ones come
+// back at the end. Cloze siblings share one source text, so a cloze note comes back whole and
+// siblings added to it since are dropped.
+export const restoreCardsFromVersion = (current: Card[], version: Card[], ids: Set<string>): Card[] => {
+  const wanted = withSiblings(version, ids);
+  const restored = new Map(version.filter(c => wanted.has(c.id)).map(c => [c.id, c]));
+  const groups = new Set([...restored.values()].filter(c => c.cloze && c.groupId).map(c => c.groupId));
+  const currentIds = new Set(current.map(c => c.id));
+
+  const kept = current
+    .filter(card => restored.has(card.id) || !card.cloze || !card.groupId || !groups.has(card.groupId))
+    .map(card => restored.has(card.id) ? withBestProgress(restored.get(card.id)!, card) : card);
+  const returning = [...restored.values()].filter(card => !currentIds.has(card.id)).map(card => withBestProgress(card));
+  return [...kept, ...returning];
+};
@@ -0,0 +1,116 @@
+import { Card, Deck, SRSData } from '../types';
+import { DeckSyncState } from './api';
+
+// How a single card differs between this device's copy and the server's copy.
+// "Added"/"removed" are judged against the card ids both sides last agreed on.
+export type CardDiffKind =
+  | 'added_local'
+  | 'added_remote'
+  | 'removed_local'
+  | 'removed_remote'
+  | 'edited'
+  | 'srs_diverged';
+
+export interface CardDiff {
+  id: string;
+  kind: CardDiffKind;
+  local?: Card;
+  remote?: Card;
+}
+
+export type MergeChoice = 'local' | 'remote';
+
+const sameContent = (a: Card, b: Card) =>
+  a.front === b.front && a.back === b.back && a.color === b.color && (a.tags || []).join(' ') === (b.tags || []).join(' ');
+
+const sameSRS = (a?: SRSData, b?: SRSData) => JSON.stringify(a || null) === JSON.stringify(b || null);
+
+// Picks whichever schedule reflects more successful practice
+export const mostAdvancedSRS = (a?: SRSData, b?: SRSData): SRSData | undefined => {
+  if (!a) return b;
+  if (!b) return a;
+  if (a.repetition !== b.repetition) return a.repetition > b.repetition ? a : b;
+  return a.dueDate >= b.dueDate ? a : b;
+};
+
+export const diffDecks = (local: Deck, remote: Deck, base?: DeckSyncState): CardDiff[] => {
+  const known = new Set(base?.cardIds || []);
+  const remoteById = new Map(remote.cards.map(c => [c.id, c]));
+  const localIds = new Set(local.cards.map(c => c.id));
+  const diffs: CardDiff[] = [];
+
+  local.cards.forEach(card => {
+    const other = remoteById.get(card.id);
+    if (!other) {
+      diffs.push({ id: card.id, kind: known.has(card.id) ? 'removed_remote' : 'added_local', local: card });
+    } else if (!sameContent(card, other)) {
+      diffs.push({ id: card.id, kind: 'edited', local: card, remote: other });
+    } else if (!sameSRS(card.srs, other.srs) || !sameSRS(card.reverseSrs, other.reverseSrs)) {
+      diffs.push({ id: card.id, kind: 'srs_diverged', local: card, remote: other });
+    }
+  });
+
+  remote.cards.forEach(card => {
+    if (localIds.has(card.id)) return;
+    diffs.push({ id: card.id, kind: known.has(card.id) ? 'removed_local' : 'added_remote', remote: card });
+  });
+
+  return diffs;
+};
+
+// Default resolution: keep every card anyone still has, prefer this device's wording
+export const defaultChoice = (diff: CardDiff): MergeChoice => {
+  switch (diff.kind) {
+    case 'added_local':
+    case 'removed_remote':
+    case 'edited':
+      return 'local';
+    case 'added_remote':
+    case 'removed_local':
+      return 'remote';
+    case 'srs_diverged': {
+      // Judge by whichever direction actually diverged
+      const key = sameSRS(diff.local?.srs, diff.remote?.srs) ? 'reverseSrs' : 'srs';
+      const local = diff.local?.[key];
+      return mostAdvancedSRS(local, diff.remote?.[key]) === local ? 'local' : 'remote';
+    }
+  }
+};
+
+// Builds the merged deck. For one-sided cards, the chosen side either has the card (kept) or not (dropped).
+export const mergeDecks = (
+  local: Deck,
+  remote: Deck,
+  diffs: CardDiff[],
+  choices: Record<string, MergeChoice>,
+  meta: { title: MergeChoice; description: MergeChoice; folder: MergeChoice }
+): Deck => {
+  const diffById = new Map(diffs.map(d => [d.id, d]));
+  const pick = (diff: CardDiff) => (choices[diff.id] || defaultChoice(diff)) === 'local' ? diff.local : diff.remote;
+
+  // Walk the remote order first so the server's arrangement is stable, then append local additions
+  const cards: Card[] = [];
+  remote.cards.forEach(card => {
+    const diff = diffById.get(card.id);
+    if (!diff) cards.push(card);
+    else {
+      const chosen = pick(diff);
+      if (chosen) cards.push(chosen);
+    }
+  });
+  local.cards.forEach(card => {
+    const diff = diffById.get(card.id);
+    if (diff && !diff.remote) {
+      const chosen = pick(diff);
+      if (chosen) cards.push(chosen);
+    }
+  });
+
+  return {
+    ...remote,
+    title: meta.title === 'local' ? local.title : remote.title,
+    description: meta.description === 'local' ? local.description : remote.description,
+    folder: meta.folder === 'local' ? local.folder : remote.folder,
+    cards
+  };
+};
@@ -0,0 +1,185 @@
+import { unzipSync, strFromU8 } from 'fflate';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+// Text extraction for uploaded study material, done in the browser. PDFs go through pdf.js;
+// Word and PowerPoint files are zips of XML and are read directly. Each page or slide stays a
+// section of its own so the user can pick a range, and the picked text keeps "[Page 3]" markers
+// so a model can tell where one ends and the next begins.
+
+export type DocumentKind = 'pdf' | 'docx' | 'pptx' | 'text';
+
+export interface DocumentSection {
+  label: string; // "Page 3", "Slide 2"
+  text: string;
+}
+
+export interface ExtractedDocument {
+  kind: DocumentKind;
+  name: string;
+  sections: DocumentSection[];
+}
+
+const MIME_KINDS: Record<string, DocumentKind> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'pptx',
+  'text/plain': 'text',
+  'text/markdown': 'text',
+};
+
+const EXTENSION_KINDS: Record<string, DocumentKind> = { pdf: 'pdf', docx: 'docx', pptx: 'pptx', txt: 'text', md: 'text' };
+
+export const documentKind = (file: File): DocumentKind | null =>
+  MIME_KINDS[file.type] || EXTENSION_KINDS[file.name.split('.').pop()?.toLowerCase() || ''] || null;
+
+export const sectionUnit = (doc: ExtractedDocument) => doc.kind === 'pptx' ? 'slide' : 'page';
+
+let pdfPromise: Promise<typeof import('pdfjs-dist')> | null = null;
+const loadPdf = () => pdfPromise ??= import('pdfjs-dist').then(pdfjs => {
+  pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+  return pdfjs;
+});
+
+const tidy = (text: string) => text.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+
+const parseXml = (data: Uint8Array) => new DOMParser().parseFromString(strFromU8(data), 'application/xml');
+
+// --- PDF ---
+
+const extractPdf = async (data: ArrayBuffer): Promise<DocumentSection[]> => {
+  const pdfjs = await loadPdf();
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(data) }).promise;
+  const sections: DocumentSection[] = [];
+  for (let number = 1; number <= pdf.numPages; number++) {
+    const page = await pdf.getPage(number);
+    const content = await page.getTextContent();
+    const text = content.items.map(item => 'str' in item ? item.str + (item.hasEOL ? '\n' : '') : '').join('');
+    sections.push({ label: `Page ${number}`, text: tidy(text) });
+  }
+  await pdf.destroy();
+  return sections;
+};
+
+// --- DOCX ---
+// Word doesn't store pages; it records where they fell the last time it laid the file out
+// (w:lastRenderedPageBreak) next to the breaks the author typed (w:br w:type="page").
+// Files written by other tools may have neither, and come out as a single page.
+
+const extractDocx = (files: Record<string, Uint8Array>): DocumentSection[] => {
+  const xml = files['word/document.xml'];
+  if (!xml) throw new Error("This Word file has no document body.");
+  const pages: string[] = [];
+  let current = '';
+  const breakPage = () => {
+    // An explicit break is usually followed by a rendered one; only the first counts
+    if (current.trim()) pages.push(current);
+    current = '';
+  };
+
+  const elements = parseXml(xml).getElementsByTagName('*');
+  for (let i = 0; i < elements.length; i++) {
+    const el = elements[i];
+    switch (el.tagName) {
+      case 'w:p': if (current && !current.endsWith('\n')) current += '\n'; break;
+      case 'w:t': current += el.textContent || ''; break;
+      case 'w:tab': current += '\t'; break;
+      case 'w:lastRenderedPageBreak': breakPage(); break;
+      case 'w:br':
+        if (el.getAttribute('w:type') === 'page') breakPage();
+        else current += '\n';
+        break;
+    }
+  }
+  breakPage();
+  return pages.map((text, i) => ({ label: `Page ${i + 1}`, text: tidy(text) }));
+};
+
+// --- PPTX ---
+
+const slideText = (xml: Uint8Array) => {
+  let text = '';
+  const elements = parseXml(xml).getElementsByTagName('*');
+  for (let i = 0; i < elements.length; i++) {
+    const el = elements[i];
+    if (el.tagName === 'a:p' && text && !text.endsWith('\n')) text += '\n';
+    else if (el.tagName === 'a:t') text += el.textContent || '';
+    else if (el.tagName === 'a:br') text += '\n';
+  }
+  return tidy(text);
+};
+
+const slideNumber = (path: string) => Number(path.match(/slide(\d+)\.xml$/)?.[1] || 0);
+
+// Slide files are numbered in the order they were created; the deck order lives in presentation.xml
+const slideOrder = (files: Record<string, Uint8Array>) => {
+  const slides = Object.keys(files).filter(path => /^ppt\/slides\/slide\d+\.xml$/.test(path)).sort((a, b) => slideNumber(a) - slideNumber(b));
+  const presentation = files['ppt/presentation.xml'];
+  const rels = files['ppt/_rels/presentation.xml.rels'];
+  if (!presentation || !rels) return slides;
+
+  const targets = new Map<string, string>();
+  const relElements = parseXml(rels).getElementsByTagName('Relationship');
+  for (let i = 0; i < relElements.length; i++) {
+    targets.set(relElements[i].getAttribute('Id') || '', `ppt/${(relElements[i].getAttribute('Target') || '').replace(/^\/?(ppt\/)?/, '')}`);
+  }
+  const ordered: string[] = [];
+  const ids = parseXml(presentation).getElementsByTagName('p:sldId');
+  for (let i = 0; i < ids.length; i++) {
+    const path = targets.get(ids[i].getAttribute('r:id') || '');
+    if (path && files[path]) ordered.push(path);
+  }
+  return ordered.length > 0 ? ordered : slides;
+};
+
+const extractPptx = (files: Record<string, Uint8Array>): DocumentSection[] =>
+  slideOrder(files).map((path, i) => ({ label: `Slide ${i + 1}`, text: slideText(files[path]) }));
+
+export const extractDocument = async (file: File): Promise<ExtractedDocument> => {
+  const kind = documentKind(file);
+  if (!kind) throw new Error(`Can't read text from "${file.name}". Use a PDF, Word (.docx), PowerPoint (.pptx) or text file.`);
+
+  let sections: DocumentSection[];
+  if (kind === 'text') {
+    sections = [{ label: 'Page 1', text: tidy(await file.text()) }];
+  } else if (kind === 'pdf') {
+    sections = await extractPdf(await file.arrayBuffer());
+  } else {
+    let files: Record<string, Uint8Array>;
+    try {
+      files = unzipSync(new Uint8Array(await file.arrayBuffer()));
+    } catch (e) {
+      throw new Error(`"${file.name}" isn't a valid ${kind === 'docx' ? 'Word' : 'PowerPoint'} file. Older .doc and .ppt files need saving as .docx or .pptx first.`);
+    }
+    sections = kind === 'docx' ? extractDocx(files) : extractPptx(files);
+  }
+
+  if (!sections.some(section => section.text)) {
+    throw new Error(kind === 'pdf'
+      ? `No text found in "${file.name}". Scanned PDFs are images; upload the pages as pictures instead.`
+      : `No text found in "${file.name}".`);
+  }
+  return { kind, name: file.name, sections };
+};
+
+// "1-3, 5" → [0, 1, 2, 4]. Blank means everything; null means the input can't be read.
+export const parsePageRange = (input: string, total: number): number[] | null => {
+  if (!input.trim()) return Array.from({ length: total }, (_, i) => i);
+  const picked = new Set<number>();
+  for (const part of input.split(/[,;\s]+/).filter(Boolean)) {
+    const match = part.match(/^(\d+)(?:-(\d+))?$/);
+    if (!match) return null;
+    const from = Number(match[1]);
+    const to = Math.min(Number(match[2] ?? match[1]), total);
+    if (from < 1 || from > total || to < from) return null;
+    for (let page = from; page <= to; page++) picked.add(page - 1);
+  }
+  return [...picked].sort((a, b) => a - b);
+};
+
+export const documentText = (doc: ExtractedDocument, indices: number[]) => {
+  const sections = indices.map(i => doc.sections[i]).filter(section => section && section.text);
+  if (doc.sections.length === 1) return sections.map(section => section.text).join('');
+  return sections.map(section => `[${section.label}]\n${section.text}`).join('\n\n');
+};
+
+export const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
@@ -0,0 +1,210 @@
+import { Card, Deck, SRSData } from '../types';
+import { toPlainText } from './richTextService';
+import { mostAdvancedSRS } from './deckMerge';
+import { uniqueTags } from './libraryService';
+
+// Finds cards that say the same thing, within a deck or across the library.
+// Texts are normalized (markup, case, accents and punctuation dropped) before comparing: equal
+// normalized front and back is an exact duplicate, otherwise a pair counts when its word overlap
+// reaches the threshold. Pairs are chained into groups, so A~B and B~C show up together.
+
+export interface DuplicateEntry {
+  key: string; // deckId:cardId, since a card id is only unique within its deck
+  deckId: string;
+  deckTitle: string;
+  card: Card;
+}
+
+export interface DuplicateGroup {
+  key: string;
+  entries: DuplicateEntry[];
+  exact: boolean;
+  similarity: number; // The weakest link that joined the group, 0-1
+}
+
+export interface DuplicateOptions {
+  acrossDecks: boolean;
+  threshold: number; // 0-1
+}
+
+// Which card of a group survives, and which of the others are folded into it
+export interface DuplicateResolution {
+  keep: DuplicateEntry;
+  remove: DuplicateEntry[];
+}
+
+export const DEFAULT_SIMILARITY = 0.8;
+
+// The question matters more than the wording of the answer
+const FRONT_WEIGHT = 0.7;
+// Words found on more cards than this say nothing about duplication ("the", "what")
+const COMMON_WORD_SHARE = 0.1;
+const MIN_COMMON_WORD_CARDS = 50;
+
+interface Prepared {
+  entry: DuplicateEntry;
+  exactKey: string;
+  front: TextFeatures;
+  back: TextFeatures;
+}
+
+interface TextFeatures {
+  words: Set<string>;
+  pairs: Set<string>; // Letter pairs, for texts too short for word overlap to mean much
+}
+
+export const normalizeCardText = (text: string) =>
+  toPlainText(text, false)
+    .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+const features = (normalized: string): TextFeatures => {
+  const joined = normalized.replace(/ /g, '');
+  const pairs = new Set<string>();
+  for (let i = 0; i < joined.length - 1; i++) pairs.add(joined.slice(i, i + 2));
+  return { words: new Set(normalized.split(' ').filter(Boolean)), pairs };
+};
+
+// Dice coefficient: shared items over the average size
+const dice = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  a.forEach(item => { if (b.has(item)) shared++; });
+  return (2 * shared) / (a.size + b.size);
+};
+
+const textSimilarity = (a: TextFeatures, b: TextFeatures) =>
+  a.words.size < 3 || b.words.size < 3 ? dice(a.pairs, b.pairs) : dice(a.words, b.words);
+
+const prepare = (deck: Deck, card: Card): Prepared => {
+  const front = normalizeCardText(card.front);
+  const back = normalizeCardText(card.back);
+  // Media-only sides normalize to nothing; fall back to the raw text so different images don't match
+  const exactFront = front || card.front.trim();
+  const exactBack = back || card.back.trim();
+  return {
+    entry: { key: `${deck.id}:${card.id}`, deckId: deck.id, deckTitle: deck.title, card },
+    exactKey: `${card.cloze?.index ?? ''}\u0000${exactFront}\u0000${exactBack}`,
+    front: features(front),
+    back: features(back),
+  };
+};
+
+// Cloze siblings differ only in which blank is asked, so they never count as duplicates of each
+// other, and a cloze only matches another cloze asking the same blank number
+const comparable = (a: Prepared, b: Prepared, acrossDecks: boolean) => {
+  if (!acrossDecks && a.entry.deckId !== b.entry.deckId) return false;
+  const ca = a.entry.card, cb = b.entry.card;
+  if (!!ca.cloze !== !!cb.cloze) return false;
+  if (ca.cloze && cb.cloze) {
+    if (ca.cloze.index !== cb.cloze.index) return false;
+    if (ca.groupId && ca.groupId === cb.groupId && a.entry.deckId === b.entry.deckId) return false;
+  }
+  return true;
+};
+
+const cardSimilarity = (a: Prepared, b: Prepared) =>
+  FRONT_WEIGHT * textSimilarity(a.front, b.front) + (1 - FRONT_WEIGHT) * textSimilarity(a.back, b.back);
+
+export const findDuplicates = (decks: Deck[], { acrossDecks, threshold }: DuplicateOptions): DuplicateGroup[] => {
+  const items = decks.flatMap(deck => deck.cards.map(card => prepare(deck, card)));
+
+  // Union-find over the items; each edge remembers its similarity
+  const parent = items.map((_, i) => i);
+  const find = (i: number): number => parent[i] === i ? i : (parent[i] = find(parent[i]));
+  const edges: { a: number, b: number, similarity: number, exact: boolean }[] = [];
+  const link = (a: number, b: number, similarity: number, exact: boolean) => {
+    edges.push({ a, b, similarity, exact });
+    parent[find(a)] = find(b);
+  };
+
+  // Exact duplicates straight from the normalized text
+  const byExactKey = new Map<string, number[]>();
+  items.forEach((item, i) => {
+    if (!byExactKey.has(item.exactKey)) byExactKey.set(item.exactKey, []);
+    byExactKey.get(item.exactKey)!.push(i);
+  });
+  const exactPairs = new Set<string>();
+  byExactKey.forEach(indices => {
+    for (let x = 0; x < indices.length; x++) {
+      for (let y = x + 1; y < indices.length; y++) {
+        if (!comparable(items[indices[x]], items[indices[y]], acrossDecks)) continue;
+        link(indices[x], indices[y], 1, true);
+        exactPairs.add(`${indices[x]}:${indices[y]}`);
+      }
+    }
+  });
+
+  // Fuzzy candidates: only pairs sharing at least one uncommon word are scored
+  if (threshold < 1) {
+    const postings = new Map<string, number[]>();
+    items.forEach((item, i) => new Set([...item.front.words, ...item.back.words]).forEach(word => {
+      if (!postings.has(word)) postings.set(word, []);
+      postings.get(word)!.push(i);
+    }));
+    const commonLimit = Math.max(MIN_COMMON_WORD_CARDS, items.length * COMMON_WORD_SHARE);
+    items.forEach((item, i) => {
+      const candidates = new Set<number>();
+      new Set([...item.front.words, ...item.back.words]).forEach(word => {
+        const posting = postings.get(word)!;
+        if (posting.length <= commonLimit) posting.forEach(j => { if (j > i) candidates.add(j); });
+      });
+      candidates.forEach(j => {
+        if (exactPairs.has(`${i}:${j}`) || !comparable(item, items[j], acrossDecks)) return;
+        const similarity = cardSimilarity(item, items[j]);
+        if (similarity >= threshold) link(i, j, similarity, false);
+      });
+    });
+  }
+
+  const groups = new Map<number, { members: Set<number>, exact: boolean, similarity: number }>();
+  edges.forEach(edge => {
+    const root = find(edge.a);
+    const group = groups.get(root) || { members: new Set<number>(), exact: true, similarity: 1 };
+    group.members.add(edge.a).add(edge.b);
+    group.exact = group.exact && edge.exact;
+    group.similarity = Math.min(group.similarity, edge.similarity);
+    groups.set(root, group);
+  });
+
+  return [...groups.values()]
+    .map(group => {
+      const entries = [...group.members].sort((a, b) => a - b).map(i => items[i].entry);
+      return { key: entries.map(e => e.key).join('|'), entries, exact: group.exact, similarity: group.similarity };
+    })
+    .sort((a, b) => Number(b.exact) - Number(a.exact) || b.similarity - a.similarity || b.entries.length - a.entries.length);
+};
+
+const bestSRS = (cards: Card[], key: 'srs' | 'reverseSrs') =>
+  cards.reduce<SRSData | undefined>((best, card) => mostAdvancedSRS(best, card[key]), undefined);
+
+// Default keeper: the card the learner knows best, else the first one found
+export const suggestKeeper = (group: DuplicateGroup): DuplicateEntry => {
+  const best = bestSRS(group.entries.map(e => e.card), 'srs');
+  return group.entries.find(e => best && e.card.srs === best) || group.entries[0];
+};
+
+// The kept card takes the most advanced progress in each direction and everyone's tags
+export const mergeDuplicateCards = (keep: Card, others: Card[]): Card => {
+  const all = [keep, ...others];
+  const srs = bestSRS(all, 'srs');
+  const reverseSrs = bestSRS(all, 'reverseSrs');
+  const tags = uniqueTags(all.flatMap(card => card.tags || []));
+  return { ...keep, ...(srs && { srs }), ...(reverseSrs && { reverseSrs }), ...(tags.length > 0 && { tags }) };
+};
+
+// Returns only the decks that changed, so each is saved once
+export const applyDuplicateResolutions = (decks: Deck[], resolutions: DuplicateResolution[]): Deck[] => {
+  const removed = new Set(resolutions.flatMap(r => r.remove.map(e => e.key)));
+  const merged = new Map(resolutions.map(r => [r.keep.key, mergeDuplicateCards(r.keep.card, r.remove.map(e => e.card))]));
+  const touched = new Set(resolutions.flatMap(r => [r.keep, ...r.remove].map(e => e.deckId)));
+
+  return decks.filter(deck => touched.has(deck.id)).map(deck => ({
+    ...deck,
+    cards: deck.cards
+      .filter(card => !removed.has(`${deck.id}:${card.id}`))
+      .map(card => merged.get(`${deck.id}:${card.id}`) || card),
+  }));
+};
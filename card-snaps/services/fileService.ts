@@ -0,0 +1,16 @@
+// Browser file helpers shared by the import and export features
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const safeFileName = (title: string, extension: string) =>
+  `${(title || 'card-snaps').replace(/[\\/:*?"<>|]+/g, '-').trim().slice(0, 80) || 'card-snaps'}.${extension}`;
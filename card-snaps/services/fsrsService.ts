@@ -0,0 +1,180 @@
+import { SRSData, ReviewLog } from '../types';
+
+// FSRS (Free Spaced Repetition Scheduler), version 4.5.
+// Memory is modelled by stability S (days until recall probability falls to 90%)
+// and difficulty D (1-10). Retrievability R is the current probability of recall.
+
+export type FSRSGrade = 1 | 2 | 3 | 4; // Again, Hard, Good, Easy
+
+export const DEFAULT_FSRS_PARAMS: number[] = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474,
+  0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755,
+];
+
+const DECAY = -0.5;
+const FACTOR = 19 / 81; // Chosen so that R(S, S) = 0.9
+const DESIRED_RETENTION = 0.9;
+const MAX_INTERVAL = 36500;
+const ONE_DAY = 24 * 60 * 60 * 1000;
+
+// Sane bounds for each weight, used to keep the optimiser from wandering off
+const PARAM_BOUNDS: [number, number][] = [
+  [0.1, 100], [0.1, 100], [0.1, 100], [0.1, 100], [1, 10], [0.1, 5], [0.1, 5], [0, 0.75], [0, 4],
+  [0, 0.8], [0.01, 3], [0.5, 5], [0.01, 0.2], [0.01, 0.9], [0.01, 3], [0, 1], [1, 6],
+];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const retrievability = (elapsedDays: number, stability: number) =>
+  Math.pow(1 + FACTOR * elapsedDays / stability, DECAY);
+
+export const intervalForStability = (stability: number, retention = DESIRED_RETENTION) =>
+  clamp(Math.round(stability / FACTOR * (Math.pow(retention, 1 / DECAY) - 1)), 1, MAX_INTERVAL);
+
+const initialStability = (w: number[], grade: FSRSGrade) => Math.max(w[grade - 1], 0.1);
+
+const initialDifficulty = (w: number[], grade: FSRSGrade) => clamp(w[4] - (grade - 3) * w[5], 1, 10);
+
+const nextDifficulty = (w: number[], d: number, grade: FSRSGrade) => {
+  const updated = d - w[6] * (grade - 3);
+  // Mean reversion towards the difficulty of a card first answered "Good"
+  return clamp(w[7] * initialDifficulty(w, 3) + (1 - w[7]) * updated, 1, 10);
+};
+
+const recallStability = (w: number[], d: number, s: number, r: number, grade: FSRSGrade) => {
+  const hardPenalty = grade === 2 ? w[15] : 1;
+  const easyBonus = grade === 4 ? w[16] : 1;
+  return s * (Math.exp(w[8]) * (11 - d) * Math.pow(s, -w[9]) * (Math.exp(w[10] * (1 - r)) - 1) * hardPenalty * easyBonus + 1);
+};
+
+const forgetStability = (w: number[], d: number, s: number, r: number) =>
+  Math.min(s, w[11] * Math.pow(d, -w[12]) * (Math.pow(s + 1, w[13]) - 1) * Math.exp(w[14] * (1 - r)));
+
+export interface FSRSMemory {
+  stability: number;
+  difficulty: number;
+}
+
+// Core state transition, shared by scheduling and the optimiser
+export const nextMemory = (w: number[], memory: FSRSMemory | null, grade: FSRSGrade, elapsedDays: number): FSRSMemory => {
+  if (!memory) {
+    return { stability: initialStability(w, grade), difficulty: initialDifficulty(w, grade) };
+  }
+  const r = retrievability(Math.max(elapsedDays, 0), memory.stability);
+  const stability = grade === 1
+    ? forgetStability(w, memory.difficulty, memory.stability, r)
+    : recallStability(w, memory.difficulty, memory.stability, r, grade);
+  return { stability: clamp(stability, 0.1, MAX_INTERVAL), difficulty: nextDifficulty(w, memory.difficulty, grade) };
+};
+
+// Converts an SM-2 schedule into FSRS memory state without resetting progress:
+// the current interval becomes the stability, and ease maps linearly onto difficulty.
+export const migrateFromSM2 = (srs: SRSData): SRSData => {
+  if (srs.stability !== undefined && srs.difficulty !== undefined) return srs;
+  if (srs.repetition === 0 && srs.interval === 0) return srs; // Never successfully reviewed: stays new
+  const difficulty = clamp(10 - (srs.easeFactor - 1.3) * (5 / 1.2), 1, 10);
+  return {
+    ...srs,
+    stability: Math.max(srs.interval, 0.5),
+    difficulty,
+    lastReview: srs.lastReview ?? srs.dueDate - srs.interval * ONE_DAY,
+  };
+};
+
+export const fsrsSchedule = (srs: SRSData | undefined, grade: FSRSGrade, params: number[] = DEFAULT_FSRS_PARAMS, now = Date.now()): SRSData => {
+  const migrated = srs ? migrateFromSM2(srs) : undefined;
+  const memory = migrated?.stability !== undefined && migrated.difficulty !== undefined
+    ? { stability: migrated.stability, difficulty: migrated.difficulty }
+    : null;
+  const elapsedDays = migrated?.lastReview ? (now - migrated.lastReview) / ONE_DAY : 0;
+  const next = nextMemory(params, memory, grade, elapsedDays);
+  const interval = intervalForStability(next.stability);
+
+  return {
+    interval,
+    repetition: grade === 1 ? 0 : (migrated?.repetition || 0) + 1,
+    // Kept in step so switching a deck back to SM-2 behaves sensibly
+    easeFactor: clamp(1.3 + (10 - next.difficulty) * (1.2 / 5), 1.3, 5),
+    dueDate: now + interval * ONE_DAY,
+    stability: next.stability,
+    difficulty: next.difficulty,
+    lastReview: now,
+    lapses: (migrated?.lapses || 0) + (grade === 1 && memory ? 1 : 0),
+  };
+};
+
+// --- Parameter optimisation ---
+
+export interface FSRSReview {
+  cardId: string;
+  grade: FSRSGrade;
+  reviewedAt: number; // Timestamp
+}
+
+export const MIN_REVIEWS_TO_OPTIMIZE = 50;
+
+const LOG_GRADES: Record<ReviewLog['rating'], FSRSGrade> = { again: 1, hard: 2, good: 3, easy: 4 };
+
+// Only spaced-repetition answers are real recall observations; free practice is ignored
+export const reviewsFromLogs = (logs: ReviewLog[]): FSRSReview[] =>
+  logs
+    .filter(log => log.mode === 'srs')
+    .map(log => ({ cardId: log.cardId, grade: LOG_GRADES[log.rating], reviewedAt: log.reviewedAt }));
+
+// Mean log-loss of predicted recall against what actually happened (Again = forgotten)
+const logLoss = (w: number[], histories: FSRSReview[][]) => {
+  let loss = 0;
+  let count = 0;
+  histories.forEach(reviews => {
+    let memory: FSRSMemory | null = null;
+    let last = 0;
+    reviews.forEach(review => {
+      if (memory) {
+        const elapsed = Math.max((review.reviewedAt - last) / ONE_DAY, 0);
+        const p = clamp(retrievability(elapsed, memory.stability), 0.0001, 0.9999);
+        const recalled = review.grade > 1 ? 1 : 0;
+        loss -= recalled * Math.log(p) + (1 - recalled) * Math.log(1 - p);
+        count++;
+      }
+      memory = nextMemory(w, memory, review.grade, memory ? (review.reviewedAt - last) / ONE_DAY : 0);
+      last = review.reviewedAt;
+    });
+  });
+  return count ? loss / count : 0;
+};
+
+// Fits the weights to a user's own review history with coordinate descent on log-loss.
+// Returns the defaults untouched when there isn't enough history to learn from.
+export const optimizeParameters = (reviews: FSRSReview[], start: number[] = DEFAULT_FSRS_PARAMS, iterations = 8): number[] => {
+  if (reviews.length < MIN_REVIEWS_TO_OPTIMIZE) return [...start];
+
+  const byCard = new Map<string, FSRSReview[]>();
+  reviews.forEach(r => byCard.set(r.cardId, [...(byCard.get(r.cardId) || []), r]));
+  const histories = [...byCard.values()]
+    .map(list => list.sort((a, b) => a.reviewedAt - b.reviewedAt))
+    .filter(list => list.length > 1);
+  if (histories.length === 0) return [...start];
+
+  const w = [...start];
+  let best = logLoss(w, histories);
+  let step = 0.2;
+
+  for (let i = 0; i < iterations; i++) {
+    for (let k = 0; k < w.length; k++) {
+      for (const direction of [1, -1]) {
+        const original = w[k];
+        const delta = Math.max(Math.abs(original), 0.05) * step * direction;
+        w[k] = clamp(original + delta, PARAM_BOUNDS[k][0], PARAM_BOUNDS[k][1]);
+        const loss = logLoss(w, histories);
+        if (loss < best) {
+          best = loss;
+          break;
+        }
+        w[k] = original;
+      }
+    }
+    step /= 2;
+  }
+
+  return w.map(v => Math.round(v * 10000) / 10000);
+};
@@ -1,6 +1,7 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
 import { Card, Deck, ChatMessage, Exercise, DailyGoal, Test, UserStats } from "../types";
+import { getLlmProvider, parseModelJson } from "./llmService";
 
 const getKey = () => {
     if (!process.env.API_KEY) {
@@ -12,22 +13,34 @@ const getKey = () => {
 
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-// --- RULE-BASED DECK GENERATOR (NO AI) ---
-export const generateDeckFromContent = async (
-    fileData: string | null, 
-    mimeType: string | null, 
-    textData: string | null, 
-    instructions: string
-): Promise<{title: string, description: string, cards: Omit<Card, 'id' | 'color'>[]}> => {
-    
-    // Simulate processing delay
-    await delay(1500);
+// --- DECK GENERATOR ---
+export interface DeckGenerationOptions {
+    count: number;
+    focus: string;
+}
+
+export interface GeneratedDeck {
+    title: string;
+    description: string;
+    cards: Omit<Card, 'id' | 'color'>[];
+}
+
+// Long documents are cut here; the model would lose the thread long before its context runs out
+const MAX_SOURCE_CHARS = 30000;
 
+const DECK_SYSTEM_PROMPT = `You write flashcards for students.
+Each card tests one fact or idea from the source material: a short, specific question on the front
+and a concise answer on the back. Never make a card the source doesn't support.
+Write math as LaTeX between $...$ and chemical formulas as \\ce{...} (e.g. \\ce{H2SO4}).
+Answer with JSON only: {"title": string, "description": string, "cards": [{"front": string, "back": string}]}`;
+
+// Sentence halves, for when no model is configured
+const generateRuleBasedDeck = (textData: string | null, { count }: DeckGenerationOptions): GeneratedDeck => {
     const content = textData || "Generic Content";
     const sentences = content.split(/[.!?]+/).filter(s => s.trim().length > 10);
-    
-    const cards = sentences.slice(0, 10).map(s => {
-        const words = s.trim().split(' ');
+
+    const cards = sentences.slice(0, count).map(s => {
+        const words = s.trim().split(/\s+/);
         const mid = Math.floor(words.length / 2);
         const front = words.slice(0, mid).join(' ') + "...";
         const back = "..." + words.slice(mid).join(' ');
@@ -43,7 +56,54 @@ export const generateDeckFromContent = async (
         description: "Created from your uploaded content using smart parsing.",
         cards: cards
     };
-}
+};
+
+export const generateDeckFromContent = async (
+    fileData: string | null,
+    mimeType: string | null,
+    textData: string | null,
+    options: DeckGenerationOptions
+): Promise<GeneratedDeck> => {
+    const provider = getLlmProvider();
+    if (!provider) {
+        await delay(1500);
+        return generateRuleBasedDeck(textData, options);
+    }
+
+    const file = fileData && mimeType ? { data: fileData, mimeType } : null;
+    if (file && !provider.acceptsFile(file.mimeType) && !textData) {
+        throw new Error(`The ${provider.name} model can't read this kind of file. Paste its text instead.`);
+    }
+
+    const source = textData ? textData.slice(0, MAX_SOURCE_CHARS) : '';
+    const prompt = [
+        source && `Source material:\n"""\n${source}\n"""`,
+        file && !source && 'The source material is the attached file.',
+        `Write exactly ${options.count} flashcards.`,
+        options.focus.trim() && `Focus on: ${options.focus.trim()}.`,
+        'Give the deck a short title naming its subject, and a one-sentence description.'
+    ].filter(Boolean).join('\n\n');
+
+    const reply = await provider.generate({
+        system: DECK_SYSTEM_PROMPT,
+        prompt,
+        json: true,
+        ...(file && provider.acceptsFile(file.mimeType) && { file })
+    });
+
+    const parsed = parseModelJson<Partial<GeneratedDeck>>(reply);
+    const cards = (Array.isArray(parsed.cards) ? parsed.cards : [])
+        .filter(c => c && typeof c.front === 'string' && typeof c.back === 'string' && c.front.trim() && c.back.trim())
+        .map(c => ({ front: c.front.trim(), back: c.back.trim() }))
+        .slice(0, options.count);
+    if (cards.length === 0) throw new Error("The AI didn't come up with any cards. Try again or change the focus.");
+
+    return {
+        title: (typeof parsed.title === 'string' && parsed.title.trim()) || "Generated Deck",
+        description: (typeof parsed.description === 'string' && parsed.description.trim()) || `${cards.length} cards generated with AI.`,
+        cards
+    };
+};
 
 // --- LEARN MODE AI (KEPT AS REQUESTED) ---
 export const generateGamifiedExercises = async (content: string, topic: string, count: number = 15, gradeLevel: string = "10th Grade"): Promise<Exercise[]> => {
@@ -113,6 +173,7 @@ export const generateGamifiedExercises = async (content: string, topic: string,
             
             Generate ${numQuestions} varied gamified exercises.
             Use a diverse mix of types.
+            Write math as LaTeX between $...$ and chemical formulas as \\ce{...} (e.g. \\ce{H2SO4}).
         `;
 
         try {
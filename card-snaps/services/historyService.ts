@@ -0,0 +1,46 @@
+// Undo/redo stacks for the editors. `present` is what's on screen; `past` and `future` hold
+// the states either side of it. Editors keep their history for the session only.
+
+export interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+export const MAX_HISTORY = 100;
+
+export const createHistory = <T>(present: T): History<T> => ({ past: [], present, future: [] });
+
+// A new edit starts a new branch, so whatever could have been redone is dropped
+export const pushHistory = <T>(history: History<T>, present: T, limit = MAX_HISTORY): History<T> => ({
+  past: [...history.past, history.present].slice(-limit),
+  present,
+  future: [],
+});
+
+export const undoHistory = <T>(history: History<T>): History<T> => {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+  };
+};
+
+export const redoHistory = <T>(history: History<T>): History<T> => {
+  if (history.future.length === 0) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+  };
+};
+
+// Ctrl/Cmd+Z undoes; Ctrl/Cmd+Shift+Z and Ctrl+Y redo
+export const historyShortcut = (e: { key: string, ctrlKey: boolean, metaKey: boolean, shiftKey: boolean }): 'undo' | 'redo' | null => {
+  if (!e.ctrlKey && !e.metaKey) return null;
+  const key = e.key.toLowerCase();
+  if (key === 'z') return e.shiftKey ? 'redo' : 'undo';
+  if (key === 'y' && !e.shiftKey) return 'redo';
+  return null;
+};
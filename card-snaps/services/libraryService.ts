@@ -0,0 +1,117 @@
+import { Card, Deck } from '../types';
+
+// Folders and tags for organising the library.
+// A deck's folder is a path like "Biology::Cells::Organelles" (the same separator Anki uses for
+// sub-decks). Folders only exist while a deck lives in them; the root folder is ''.
+// Tags are single words on cards ("exam-1", "hard"), used to filter study sessions.
+
+export const FOLDER_SEPARATOR = '::';
+
+export interface FolderSummary {
+  path: string;
+  name: string;
+  deckCount: number; // Including sub-folders
+  cardCount: number;
+}
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+export const folderParts = (folder?: string) =>
+  (folder || '').split(FOLDER_SEPARATOR).map(part => part.trim()).filter(Boolean);
+
+export const normalizeFolder = (folder?: string) => folderParts(folder).join(FOLDER_SEPARATOR);
+
+export const joinFolder = (...paths: (string | undefined)[]) => paths.flatMap(folderParts).join(FOLDER_SEPARATOR);
+
+export const folderName = (path: string) => folderParts(path).pop() || '';
+
+export const parentFolder = (path: string) => folderParts(path).slice(0, -1).join(FOLDER_SEPARATOR);
+
+// Anki-style "Parent::Child" deck names, split into folder and title
+export const splitDeckName = (name: string) => {
+  const parts = folderParts(name);
+  return { folder: parts.slice(0, -1).join(FOLDER_SEPARATOR), title: parts[parts.length - 1] || name };
+};
+
+export const isInFolder = (folder: string | undefined, path: string) => {
+  const own = normalizeFolder(folder);
+  return path === '' || own === path || own.startsWith(path + FOLDER_SEPARATOR);
+};
+
+// Every deck in this folder or below it
+export const decksInFolder = (decks: Deck[], path: string) => decks.filter(d => isInFolder(d.folder, path));
+
+// The folders directly inside `path`, alphabetically
+export const getSubfolders = (decks: Deck[], path: string): FolderSummary[] => {
+  const depth = folderParts(path).length;
+  const children = new Set<string>();
+  decks.forEach(deck => {
+    const parts = folderParts(deck.folder);
+    if (parts.length > depth && isInFolder(deck.folder, path)) children.add(parts.slice(0, depth + 1).join(FOLDER_SEPARATOR));
+  });
+  return [...children].sort((a, b) => a.localeCompare(b)).map(child => {
+    const inside = decksInFolder(decks, child);
+    return {
+      path: child,
+      name: folderName(child),
+      deckCount: inside.length,
+      cardCount: inside.reduce((sum, d) => sum + d.cards.length, 0),
+    };
+  });
+};
+
+export const getAllFolders = (decks: Deck[]) => {
+  const folders = new Set<string>();
+  decks.forEach(deck => {
+    const parts = folderParts(deck.folder);
+    parts.forEach((_, i) => folders.add(parts.slice(0, i + 1).join(FOLDER_SEPARATOR)));
+  });
+  return [...folders].sort((a, b) => a.localeCompare(b));
+};
+
+// Where a deck ends up when the folder `from` is dropped into `to`: the whole sub-tree moves along
+export const moveFolderPath = (deckFolder: string | undefined, from: string, to: string) => {
+  const own = normalizeFolder(deckFolder);
+  if (!isInFolder(own, from)) return own;
+  return joinFolder(to, folderName(from), own.slice(from.length));
+};
+
+// A folder can't be dropped into itself or one of its own sub-folders
+export const canMoveFolder = (from: string, to: string) => !isInFolder(to, from) && parentFolder(from) !== to;
+
+export const normalizeTag = (tag: string) => tag.trim().replace(/^#+/, '').replace(/\s+/g, '_');
+
+// "exam-1, hard  #chapter3" -> ['exam-1', 'hard', 'chapter3']
+export const parseTags = (text: string) => uniqueTags(text.split(/[,\s]+/));
+
+export const uniqueTags = (tags: string[]) => {
+  const seen = new Set<string>();
+  return tags.map(normalizeTag).filter(tag => {
+    const key = tag.toLowerCase();
+    if (!tag || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// All tags used in these decks, most used first. "Exam" and "exam" count as one tag.
+export const collectTags = (decks: Deck[]): TagCount[] => {
+  const counts = new Map<string, TagCount>();
+  decks.forEach(deck => deck.cards.forEach(card => (card.tags || []).forEach(tag => {
+    const entry = counts.get(tag.toLowerCase());
+    if (entry) entry.count++;
+    else counts.set(tag.toLowerCase(), { tag, count: 1 });
+  })));
+  return [...counts.values()].sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
+
+// No tags selected means no filter
+export const hasAnyTag = (card: Card, tags: string[]) =>
+  tags.length === 0 || (card.tags || []).some(tag => tags.some(wanted => wanted.toLowerCase() === tag.toLowerCase()));
+
+// A study-time view of the deck with only the matching cards. Never save it: the other cards would be lost.
+export const filterDeckByTags = (deck: Deck, tags: string[]): Deck =>
+  tags.length === 0 ? deck : { ...deck, cards: deck.cards.filter(card => hasAnyTag(card, tags)) };
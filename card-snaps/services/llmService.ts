@@ -0,0 +1,99 @@
+import { GoogleGenAI } from "@google/genai";
+
+// --- MODEL PROVIDERS ---
+// Features that need a language model go through an LlmProvider, so the model behind them can be
+// swapped without touching the feature. Configured at build time (see vite.config.ts):
+//   API_KEY                 Gemini key
+//   LLM_PROVIDER            'gemini' or 'openai'; picked from what's set when missing
+//   LLM_BASE_URL            OpenAI-compatible endpoint, e.g. http://localhost:11434/v1 for a local model
+//   LLM_MODEL, LLM_API_KEY  Model name and key for that endpoint (a local one usually needs no key)
+
+export interface LlmRequest {
+    system: string;
+    prompt: string;
+    // Attached source material, base64 without the data: prefix
+    file?: { data: string, mimeType: string };
+    // Parse the reply as JSON (and ask the model for JSON where the API allows)
+    json?: boolean;
+}
+
+export interface LlmProvider {
+    name: string;
+    // Whether the attachment can be sent along; otherwise callers must pass the content as text
+    acceptsFile: (mimeType: string) => boolean;
+    generate: (request: LlmRequest) => Promise<string>;
+}
+
+const GEMINI_MODEL = "gemini-3-flash-preview";
+const DEFAULT_OPENAI_MODEL = "llama3.1";
+
+const geminiProvider = (apiKey: string): LlmProvider => ({
+    name: 'Gemini',
+    // Gemini reads images, audio, video and PDFs directly
+    acceptsFile: () => true,
+    generate: async ({ system, prompt, file, json }) => {
+        const ai = new GoogleGenAI({ apiKey });
+        const response = await ai.models.generateContent({
+            model: GEMINI_MODEL,
+            contents: [{
+                role: 'user',
+                parts: [
+                    ...(file ? [{ inlineData: { data: file.data, mimeType: file.mimeType } }] : []),
+                    { text: prompt }
+                ]
+            }],
+            config: {
+                systemInstruction: system,
+                ...(json && { responseMimeType: "application/json" })
+            }
+        });
+        return response.text || '';
+    }
+});
+
+// Works with anything speaking the OpenAI chat completions API: OpenAI itself, Ollama, llama.cpp, LM Studio...
+const openAiCompatibleProvider = (baseUrl: string, model: string, apiKey?: string): LlmProvider => ({
+    name: 'OpenAI-compatible',
+    // Vision models take images; other files have to be turned into text first
+    acceptsFile: (mimeType) => mimeType.startsWith('image/'),
+    generate: async ({ system, prompt, file, json }) => {
+        const content = file
+            ? [{ type: 'image_url', image_url: { url: `data:${file.mimeType};base64,${file.data}` } }, { type: 'text', text: prompt }]
+            : prompt;
+        const res = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...(apiKey && { 'Authorization': `Bearer ${apiKey}` }) },
+            body: JSON.stringify({
+                model,
+                messages: [{ role: 'system', content: system }, { role: 'user', content }],
+                ...(json && { response_format: { type: 'json_object' } })
+            })
+        });
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data.error?.message || `The model endpoint answered ${res.status}.`);
+        return data.choices?.[0]?.message?.content || '';
+    }
+});
+
+// null when nothing is configured; callers fall back to their non-AI behaviour
+export const getLlmProvider = (): LlmProvider | null => {
+    const provider = process.env.LLM_PROVIDER || (process.env.LLM_BASE_URL ? 'openai' : 'gemini');
+    if (provider === 'openai') {
+        if (!process.env.LLM_BASE_URL) return null;
+        return openAiCompatibleProvider(process.env.LLM_BASE_URL, process.env.LLM_MODEL || DEFAULT_OPENAI_MODEL, process.env.LLM_API_KEY);
+    }
+    return process.env.API_KEY ? geminiProvider(process.env.API_KEY) : null;
+};
+
+// Models wrap JSON in code fences or chatter more often than not, especially small local ones
+export const parseModelJson = <T>(text: string): T => {
+    const unfenced = text.replace(/```(?:json)?/gi, '').trim();
+    try {
+        return JSON.parse(unfenced);
+    } catch (e) {
+        const start = unfenced.search(/[[{]/);
+        const end = Math.max(unfenced.lastIndexOf('}'), unfenced.lastIndexOf(']'));
+        if (start === -1 || end <= start) throw new Error("The model didn't answer with JSON.");
+        return JSON.parse(unfenced.slice(start, end + 1));
+    }
+};
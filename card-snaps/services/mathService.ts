@@ -0,0 +1,78 @@
+import katex from 'katex';
+import 'katex/contrib/mhchem';
+
+// Math and chemistry in card and note text, rendered with the bundled KaTeX (works offline).
+//   $x^2$ or \(x^2\)        inline math
+//   $$\int f$$ or \[\int f\] display math
+//   \ce{H2SO4}              chemistry (mhchem), also allowed outside of $...$
+//   \$                      a literal dollar sign
+// A single $ only opens math when followed by a non-space, and only closes before a non-digit,
+// so prices like "$5 and $10" stay text.
+
+export type MathSegment =
+  | { kind: 'text', text: string }
+  | { kind: 'math', tex: string, display: boolean };
+
+export const MATH_PATTERN = /\\\$|\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\]|\\\(([\s\S]+?)\\\)|\$(?=[^\s$])((?:\\\$|[^$\n])*?[^\s\\])\$(?!\d)|(\\ce\{(?:[^{}]|\{(?:[^{}]|\{[^{}]*\})*\})*\})/g;
+
+export const splitMath = (text: string): MathSegment[] => {
+  const segments: MathSegment[] = [];
+  let buffer = '';
+  let last = 0;
+  for (const match of text.matchAll(MATH_PATTERN)) {
+    const [whole, display, bracketDisplay, parenInline, inline, chem] = match;
+    buffer += text.slice(last, match.index);
+    last = match.index! + whole.length;
+    if (whole === '\\$') {
+      buffer += '$';
+      continue;
+    }
+    if (buffer) segments.push({ kind: 'text', text: buffer });
+    buffer = '';
+    const tex = display ?? bracketDisplay ?? parenInline ?? inline ?? chem;
+    segments.push({ kind: 'math', tex: tex.trim(), display: display !== undefined || bracketDisplay !== undefined });
+  }
+  buffer += text.slice(last);
+  if (buffer) segments.push({ kind: 'text', text: buffer });
+  return segments;
+};
+
+export const hasMath = (text: string) => splitMath(text).some(segment => segment.kind === 'math');
+
+// Rendered HTML is cached; study sessions re-render the same cards many times
+const cache = new Map<string, string>();
+export const renderMath = (tex: string, display: boolean) => {
+  const key = `${display ? 'D' : 'I'}${tex}`;
+  let html = cache.get(key);
+  if (html === undefined) {
+    // Bad TeX shows up as red source instead of throwing
+    html = katex.renderToString(tex, { displayMode: display, throwOnError: false, strict: false });
+    cache.set(key, html);
+  }
+  return html;
+};
+
+// Renders math inside rich HTML (notes) in place, leaving code blocks and existing math alone
+export const renderMathInElement = (root: HTMLElement) => {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+    acceptNode: (node) => node.parentElement?.closest('code, pre, .katex') ? NodeFilter.FILTER_REJECT : NodeFilter.FILTER_ACCEPT,
+  });
+  const nodes: Text[] = [];
+  while (walker.nextNode()) nodes.push(walker.currentNode as Text);
+
+  nodes.forEach(node => {
+    const segments = splitMath(node.data);
+    if (!segments.some(segment => segment.kind === 'math')) return;
+    const fragment = document.createDocumentFragment();
+    segments.forEach(segment => {
+      if (segment.kind === 'text') {
+        fragment.appendChild(document.createTextNode(segment.text));
+        return;
+      }
+      const span = document.createElement(segment.display ? 'div' : 'span');
+      span.innerHTML = renderMath(segment.tex, segment.display);
+      fragment.appendChild(span);
+    });
+    node.replaceWith(fragment);
+  });
+};
@@ -0,0 +1,137 @@
+import { api } from './api';
+
+// Images and audio on cards. Files are content-addressed: the id is (the start of) the SHA-256
+// of the bytes, the same id the server computes, so a file keeps its id across devices,
+// exports and re-imports. Everything lives in IndexedDB so decks with media work offline;
+// signed-in users also upload their files so other devices (and share links) can fetch them.
+
+export interface MediaFile {
+  id: string;
+  name: string;
+  type: string; // MIME type, image/* or audio/*
+  blob: Blob;
+  uploaded: boolean;
+  createdAt: number;
+}
+
+export const MAX_MEDIA_BYTES = 5 * 1024 * 1024;
+
+const DB_NAME = 'card-snaps-media';
+const STORE = 'files';
+
+const EXTENSION_TYPES: Record<string, string> = {
+  png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', gif: 'image/gif', webp: 'image/webp', svg: 'image/svg+xml',
+  mp3: 'audio/mpeg', m4a: 'audio/mp4', ogg: 'audio/ogg', oga: 'audio/ogg', wav: 'audio/wav', webm: 'audio/webm',
+};
+
+// Files from Anki packages come without a type
+export const mediaTypeFromName = (name: string) =>
+  EXTENSION_TYPES[name.split('.').pop()?.toLowerCase() || ''] || '';
+
+export const extensionForType = (type: string) =>
+  Object.keys(EXTENSION_TYPES).find(ext => EXTENSION_TYPES[ext] === type) || type.split('/')[1]?.replace(/[^a-z0-9]/g, '') || 'bin';
+
+export const isSupportedMedia = (type: string) => /^(image|audio)\//.test(type);
+
+// --- IndexedDB ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const openDb = () => dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: 'id' });
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const readLocal = (id: string) => run<MediaFile | undefined>('readonly', store => store.get(id));
+const writeLocal = (file: MediaFile) => run('readwrite', store => store.put(file));
+
+// --- Public API ---
+
+export const hashMedia = async (blob: Blob) => {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', await blob.arrayBuffer()));
+  return Array.from(digest.slice(0, 16), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Stores a file (or finds the copy already stored) and queues it for upload
+export const addMedia = async (blob: Blob, name: string): Promise<MediaFile> => {
+  const type = blob.type || mediaTypeFromName(name);
+  if (!isSupportedMedia(type)) throw new Error(`"${name}" isn't an image or audio file.`);
+  if (blob.size > MAX_MEDIA_BYTES) throw new Error(`"${name}" is larger than ${MAX_MEDIA_BYTES / 1024 / 1024} MB.`);
+
+  const id = await hashMedia(blob);
+  const existing = await readLocal(id);
+  if (existing) return existing;
+
+  const file: MediaFile = { id, name, type, blob: blob.type === type ? blob : new Blob([blob], { type }), uploaded: false, createdAt: Date.now() };
+  await writeLocal(file);
+  uploadPendingMedia();
+  return file;
+};
+
+// Local copy first; files added on another device are fetched once and kept for offline use
+export const getMedia = async (id: string): Promise<MediaFile | undefined> => {
+  const local = await readLocal(id);
+  if (local) return local;
+  const blob = await api.getMedia(id);
+  if (!blob) return undefined;
+  const file: MediaFile = { id, name: id, type: blob.type, blob, uploaded: true, createdAt: Date.now() };
+  await writeLocal(file);
+  return file;
+};
+
+// Object URLs are made once per file and kept for the lifetime of the page
+const urls = new Map<string, Promise<{ url: string, type: string } | null>>();
+export const getMediaUrl = (id: string) => {
+  if (!urls.has(id)) {
+    const loading = getMedia(id).then(file => file ? { url: URL.createObjectURL(file.blob), type: file.type } : null, () => null);
+    // A miss (e.g. offline) is retried on the next render instead of being remembered
+    loading.then(result => { if (!result) urls.delete(id); });
+    urls.set(id, loading);
+  }
+  return urls.get(id)!;
+};
+
+export const getMediaFiles = async (ids: string[]): Promise<MediaFile[]> =>
+  (await Promise.all(ids.map(id => getMedia(id)))).filter((file): file is MediaFile => !!file);
+
+// Sends everything added while offline or signed out; stops at the first failure and retries next time
+let uploading: Promise<void> | null = null;
+export const uploadPendingMedia = () => uploading ??= (async () => {
+  try {
+    const pending = (await run<MediaFile[]>('readonly', store => store.getAll())).filter(file => !file.uploaded);
+    for (const file of pending) {
+      if (!await api.uploadMedia(file.blob, file.name)) break;
+      await writeLocal({ ...file, uploaded: true });
+    }
+  } catch (e) {
+    console.warn('Media upload failed, will retry', e);
+  } finally {
+    uploading = null;
+  }
+})();
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => { uploadPendingMedia(); });
+}
+
+// --- Portable encoding (CardSnaps files embed media as base64) ---
+
+export const blobToBase64 = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+export const base64ToBlob = (data: string, type: string) =>
+  new Blob([Uint8Array.from(atob(data), c => c.charCodeAt(0))], { type });
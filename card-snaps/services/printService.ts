@@ -0,0 +1,93 @@
+import { Deck } from '../types';
+import { toPlainText } from './richTextService';
+
+// Printable cut-out sheets. Each sheet is a page of fronts followed by a page of backs;
+// the backs page mirrors every row so that, printed duplex (flip on long edge),
+// each answer lands directly behind its question.
+
+const COLUMNS = 3;
+const ROWS = 4;
+const PER_PAGE = COLUMNS * ROWS;
+
+// The print window has no Tailwind, so card classes become plain colors
+const PRINT_COLORS: Record<string, string> = {
+  'bg-white': '#ffffff',
+  'bg-blue-100': '#dbeafe',
+  'bg-green-100': '#dcfce7',
+  'bg-yellow-100': '#fef9c3',
+  'bg-red-100': '#fee2e2',
+  'bg-purple-100': '#f3e8ff',
+  'bg-pink-100': '#fce7f3',
+  'bg-orange-100': '#ffedd5',
+  'bg-teal-100': '#ccfbf1',
+  'bg-indigo-100': '#e0e7ff',
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const printColor = (color: string) => color.startsWith('#') ? color : PRINT_COLORS[color] || '#ffffff';
+
+interface PrintCard {
+  text: string;
+  label: string;
+  color: string;
+}
+
+const renderPage = (cells: (PrintCard | null)[]) => `
+  <section class="page">
+    ${cells.map(cell => cell
+      ? `<div class="card" style="background:${printColor(cell.color)}"><span class="label">${escapeHtml(cell.label)}</span><div class="text">${escapeHtml(cell.text)}</div></div>`
+      : '<div class="card empty"></div>').join('')}
+  </section>`;
+
+export const buildPrintHtml = (decks: Deck[]): string => {
+  const cards = decks.flatMap(deck => deck.cards.map(card => ({ deck: deck.title, card })));
+  const pages: string[] = [];
+
+  for (let start = 0; start < cards.length; start += PER_PAGE) {
+    const sheet = cards.slice(start, start + PER_PAGE);
+    const fronts: (PrintCard | null)[] = Array.from({ length: PER_PAGE }, (_, i) => sheet[i]
+      ? { text: toPlainText(sheet[i].card.front), label: sheet[i].deck, color: sheet[i].card.color }
+      : null);
+    const backs: (PrintCard | null)[] = Array.from({ length: PER_PAGE }, (_, i) => {
+      const row = Math.floor(i / COLUMNS);
+      const mirrored = sheet[row * COLUMNS + (COLUMNS - 1 - (i % COLUMNS))];
+      return mirrored ? { text: toPlainText(mirrored.card.back), label: 'Answer', color: mirrored.card.color } : null;
+    });
+    pages.push(renderPage(fronts), renderPage(backs));
+  }
+
+  const title = decks.length === 1 ? decks[0].title : 'CardSnaps Flashcards';
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  @page { size: A4 portrait; margin: 10mm; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: system-ui, -apple-system, sans-serif; color: #1e293b; }
+  .page { display: grid; grid-template-columns: repeat(${COLUMNS}, 1fr); grid-template-rows: repeat(${ROWS}, 1fr); width: 190mm; height: 277mm; page-break-after: always; break-after: page; }
+  .page:last-child { page-break-after: auto; break-after: auto; }
+  .card { position: relative; border: 1px dashed #94a3b8; display: flex; align-items: center; justify-content: center; padding: 8mm 5mm; text-align: center; overflow: hidden; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  .card.empty { background: #ffffff; }
+  .label { position: absolute; top: 3mm; left: 0; right: 0; font-size: 7pt; font-weight: 700; text-transform: uppercase; letter-spacing: 0.08em; color: #94a3b8; }
+  .text { font-size: 12pt; font-weight: 600; line-height: 1.35; white-space: pre-wrap; word-break: break-word; }
+</style>
+</head>
+<body>${pages.join('')}</body>
+</html>`;
+};
+
+// Opens the sheets in a new window and brings up the print dialog
+export const printDecks = (decks: Deck[]) => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) throw new Error('Allow pop-ups to print your cards.');
+  printWindow.document.open();
+  printWindow.document.write(buildPrintHtml(decks));
+  printWindow.document.close();
+  printWindow.focus();
+  // Let the layout settle before the dialog snapshots it
+  setTimeout(() => printWindow.print(), 250);
+};
@@ -0,0 +1,125 @@
+import { MATH_PATTERN, splitMath } from './mathService';
+
+// Card sides are plain strings with a small markdown-style markup:
+//   **bold**  *italic*  `code`  "- item" / "1. item" lists  ``` fenced code blocks
+//   ![name](media:ID) embeds an image or audio file from the media store
+//   $...$, $$...$$ and \ce{...} math and chemistry (see mathService)
+// Keeping the markup in the string (instead of HTML) means CSV, search and anything
+// that doesn't care about formatting still see readable text.
+
+export type Inline =
+  | { kind: 'text', text: string }
+  | { kind: 'bold' | 'italic', children: Inline[] }
+  | { kind: 'code', text: string }
+  | { kind: 'media', id: string, name: string }
+  | { kind: 'math', tex: string, display: boolean };
+
+export type Block =
+  | { kind: 'paragraph', content: Inline[] }
+  | { kind: 'list', ordered: boolean, items: Inline[][] }
+  | { kind: 'code', text: string };
+
+const MEDIA_PATTERN = /!\[([^\]\n]*)\]\(media:([a-f0-9]+)\)/g;
+const MARKUP_PATTERN = /!\[([^\]\n]*)\]\(media:([a-f0-9]+)\)|`([^`\n]+)`|\*\*(.+?)\*\*(?!\*)|\*([^*\n]+)\*/;
+// Math goes first so `*` and backticks inside a formula aren't read as formatting
+const INLINE_PATTERN = new RegExp(`(${MATH_PATTERN.source})|${MARKUP_PATTERN.source}`, 'g');
+const MATH_GROUPS = 6; // The whole formula plus mathService's own groups
+const BULLET = /^\s*[-*]\s+(.*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/;
+const FENCE = /^\s*```/;
+
+export const mediaToken = (name: string, id: string) => `![${name.replace(/[\]\n]/g, ' ')}](media:${id})`;
+
+export const mediaIdsIn = (texts: string[]): string[] =>
+  [...new Set(texts.flatMap(text => Array.from(text.matchAll(MEDIA_PATTERN), m => m[2])))];
+
+// Swaps every media reference for whatever `replace` returns (used to translate to and from Anki's syntax)
+export const replaceMedia = (text: string, replace: (id: string, name: string) => string) =>
+  text.replace(MEDIA_PATTERN, (_, name, id) => replace(id, name));
+
+// Applies `edit` only to the text between media references, so a find-and-replace can't break an embed
+export const editOutsideMedia = (text: string, edit: (part: string) => string) => {
+  let result = '';
+  let last = 0;
+  for (const match of text.matchAll(MEDIA_PATTERN)) {
+    result += edit(text.slice(last, match.index)) + match[0];
+    last = match.index! + match[0].length;
+  }
+  return result + edit(text.slice(last));
+};
+
+export const hasRichContent = (text: string) => {
+  INLINE_PATTERN.lastIndex = 0;
+  return INLINE_PATTERN.test(text) || text.split('\n').some(line => BULLET.test(line) || NUMBERED.test(line) || FENCE.test(line));
+};
+
+export const parseInline = (text: string): Inline[] => {
+  const result: Inline[] = [];
+  let last = 0;
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const [whole, formula] = match;
+    const [name, id, code, bold, italic] = match.slice(MATH_GROUPS + 1);
+    if (match.index! > last) result.push({ kind: 'text', text: text.slice(last, match.index) });
+    if (formula !== undefined) {
+      const [segment] = splitMath(formula);
+      result.push(segment.kind === 'math' ? segment : { kind: 'text', text: segment.text });
+    }
+    else if (id) result.push({ kind: 'media', id, name });
+    else if (code !== undefined) result.push({ kind: 'code', text: code });
+    else if (bold !== undefined) result.push({ kind: 'bold', children: parseInline(bold) });
+    else result.push({ kind: 'italic', children: parseInline(italic) });
+    last = match.index! + whole.length;
+  }
+  if (last < text.length) result.push({ kind: 'text', text: text.slice(last) });
+  return result;
+};
+
+export const parseRichText = (text: string): Block[] => {
+  const blocks: Block[] = [];
+  const lines = text.split('\n');
+  let paragraph: string[] = [];
+  const endParagraph = () => {
+    if (paragraph.length) blocks.push({ kind: 'paragraph', content: parseInline(paragraph.join('\n')) });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (FENCE.test(line)) {
+      endParagraph();
+      const code: string[] = [];
+      while (++i < lines.length && !FENCE.test(lines[i])) code.push(lines[i]);
+      blocks.push({ kind: 'code', text: code.join('\n') });
+      continue;
+    }
+    const bullet = BULLET.exec(line);
+    const numbered = !bullet && NUMBERED.exec(line);
+    if (bullet || numbered) {
+      endParagraph();
+      const ordered = !bullet;
+      const item = parseInline((bullet || numbered as RegExpExecArray)[1]);
+      const previous = blocks[blocks.length - 1];
+      if (previous?.kind === 'list' && previous.ordered === ordered) previous.items.push(item);
+      else blocks.push({ kind: 'list', ordered, items: [item] });
+      continue;
+    }
+    paragraph.push(line);
+  }
+  endParagraph();
+  return blocks;
+};
+
+const inlineText = (content: Inline[], withMedia: boolean): string => content.map(node => {
+  if (node.kind === 'text' || node.kind === 'code') return node.text;
+  if (node.kind === 'math') return node.tex;
+  if (node.kind === 'media') return withMedia ? `[${node.name || 'media'}]` : '';
+  return inlineText(node.children, withMedia);
+}).join('');
+
+// The text without markup: for previews, printing and typed-answer checks (which skip media)
+export const toPlainText = (text: string, withMedia = true) =>
+  parseRichText(text).map(block => {
+    if (block.kind === 'code') return block.text;
+    if (block.kind === 'paragraph') return inlineText(block.content, withMedia);
+    return block.items.map(item => inlineText(item, withMedia)).join('\n');
+  }).join('\n').replace(/[ \t]+\n/g, '\n').trim();
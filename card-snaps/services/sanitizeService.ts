@@ -0,0 +1,51 @@
+// Allowlist HTML sanitizer for rich text that comes from outside the app (imports, shared links).
+// Unknown elements are unwrapped so their text survives; dangerous ones are dropped entirely.
+
+const ALLOWED_TAGS = new Set([
+  'p', 'div', 'br', 'span', 'b', 'strong', 'i', 'em', 'u', 's', 'strike', 'sub', 'sup', 'mark',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'blockquote', 'pre', 'code', 'hr',
+  'a', 'img', 'table', 'thead', 'tbody', 'tr', 'th', 'td',
+]);
+
+const DROPPED_TAGS = new Set(['script', 'style', 'iframe', 'object', 'embed', 'template', 'link', 'meta', 'form', 'input', 'button', 'textarea', 'select']);
+
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  a: ['href', 'title'],
+  img: ['src', 'alt', 'title', 'width', 'height'],
+  td: ['colspan', 'rowspan'],
+  th: ['colspan', 'rowspan'],
+};
+
+const SAFE_URL = /^(https?:|mailto:|#|\/)/i;
+const SAFE_IMAGE_URL = /^(https?:|data:image\/(png|jpe?g|gif|webp);|blob:|\/)/i;
+
+const cleanNode = (node: Node, doc: Document): Node[] => {
+  if (node.nodeType === Node.TEXT_NODE) return [doc.createTextNode(node.textContent || '')];
+  if (node.nodeType !== Node.ELEMENT_NODE) return [];
+
+  const element = node as Element;
+  const tag = element.tagName.toLowerCase();
+  if (DROPPED_TAGS.has(tag)) return [];
+
+  const children = Array.from(element.childNodes).flatMap(child => cleanNode(child, doc));
+  if (!ALLOWED_TAGS.has(tag)) return children;
+
+  const clean = doc.createElement(tag);
+  for (const name of ALLOWED_ATTRIBUTES[tag] || []) {
+    const value = element.getAttribute(name);
+    if (value === null) continue;
+    if (name === 'href' && !SAFE_URL.test(value.trim())) continue;
+    if (name === 'src' && !SAFE_IMAGE_URL.test(value.trim())) continue;
+    clean.setAttribute(name, value);
+  }
+  if (tag === 'a') clean.setAttribute('rel', 'noopener noreferrer');
+  children.forEach(child => clean.appendChild(child));
+  return [clean];
+};
+
+export const sanitizeHtml = (html: string): string => {
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  const container = doc.createElement('div');
+  Array.from(doc.body.childNodes).flatMap(child => cleanNode(child, doc)).forEach(child => container.appendChild(child));
+  return container.innerHTML;
+};
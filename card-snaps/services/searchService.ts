@@ -0,0 +1,182 @@
+import { Deck, Note, Test, ChatSession } from '../types';
+import { toPlainText } from './richTextService';
+import { renderCloze } from './clozeService';
+
+// Global search (the Ctrl+K palette). Everything lives in memory already, so the "index" is a flat
+// list of documents with pre-folded text, rebuilt whenever the library changes.
+// Every query word must appear in a document; title hits and word-start hits rank higher.
+
+export type SearchKind = 'deck' | 'card' | 'note' | 'test' | 'chat';
+
+// Where a result leads
+export type SearchTarget =
+  | { kind: 'deck', deckId: string }
+  | { kind: 'card', deckId: string, cardId: string }
+  | { kind: 'note', noteId: string }
+  | { kind: 'test', testId: string }
+  | { kind: 'chat', sessionId: string };
+
+export interface SearchDocument {
+  key: string;
+  target: SearchTarget;
+  title: string;
+  body: string;
+  subtitle: string;
+  foldedTitle: string;
+  foldedBody: string;
+}
+
+// Text with the matched words marked, ready to render
+export type Highlighted = { text: string, match: boolean }[];
+
+export interface SearchResult {
+  key: string;
+  target: SearchTarget;
+  title: Highlighted;
+  snippet: Highlighted;
+  subtitle: string;
+  score: number;
+}
+
+export interface SearchSources {
+  decks: Deck[];
+  notes: Note[];
+  tests: Test[];
+  chats: ChatSession[];
+}
+
+// Decks and notes are what people look for most; a chat mentioning the word is the weakest hint
+const KIND_WEIGHT: Record<SearchKind, number> = { deck: 1.3, note: 1.2, card: 1, test: 1, chat: 0.8 };
+const SNIPPET_CONTEXT = 40;
+const MAX_BODY = 20000;
+
+// Lowercase and drop accents one character at a time, so offsets in folded text match the original
+const fold = (text: string) => text.split('').map(ch => ch.normalize('NFD').charAt(0).toLowerCase().charAt(0)).join('');
+
+export const stripHtml = (html: string) => {
+  const withBreaks = html.replace(/<br\s*\/?>/gi, '\n').replace(/<\/(div|p|li|h\d)>/gi, '\n');
+  const doc = new DOMParser().parseFromString(withBreaks, 'text/html');
+  return (doc.body.textContent || '').replace(/\u00a0/g, ' ').replace(/\n{2,}/g, '\n').trim();
+};
+
+const makeDocument = (key: string, target: SearchTarget, title: string, body: string, subtitle: string): SearchDocument => {
+  const trimmed = body.slice(0, MAX_BODY);
+  return { key, target, title, body: trimmed, subtitle, foldedTitle: fold(title), foldedBody: fold(trimmed) };
+};
+
+export const buildSearchIndex = ({ decks, notes, tests, chats }: SearchSources): SearchDocument[] => {
+  const documents: SearchDocument[] = [];
+  decks.forEach(deck => {
+    const where = deck.folder ? `${deck.folder.split('::').join(' / ')} · ` : '';
+    documents.push(makeDocument(`deck:${deck.id}`, { kind: 'deck', deckId: deck.id }, deck.title, [deck.description, deck.folder].filter(Boolean).join('\n'), `${where}${deck.cards.length} cards`));
+    // Cloze siblings share their text; one hit per note is enough
+    const seenGroups = new Set<string>();
+    deck.cards.forEach(card => {
+      if (card.cloze && card.groupId) {
+        if (seenGroups.has(card.groupId)) return;
+        seenGroups.add(card.groupId);
+      }
+      const front = card.cloze ? toPlainText(renderCloze(card.cloze.text, 0, true), false) : toPlainText(card.front, false);
+      const back = [toPlainText(card.back, false), card.cloze?.extra, (card.tags || []).map(tag => `#${tag}`).join(' ')].filter(Boolean).join('\n');
+      documents.push(makeDocument(`card:${card.id}`, { kind: 'card', deckId: deck.id, cardId: card.id }, front, back, deck.title));
+    });
+  });
+  notes.forEach(note => {
+    documents.push(makeDocument(`note:${note.id}`, { kind: 'note', noteId: note.id }, note.title, stripHtml(note.content || ''), note.subject));
+  });
+  tests.forEach(test => {
+    documents.push(makeDocument(`test:${test.id}`, { kind: 'test', testId: test.id }, test.title, test.topics.join(', '), new Date(test.date).toLocaleDateString()));
+  });
+  chats.forEach(session => {
+    const text = session.messages.map(m => m.text).join('\n');
+    documents.push(makeDocument(`chat:${session.id}`, { kind: 'chat', sessionId: session.id }, session.title, text, `${session.messages.length} messages`));
+  });
+  return documents;
+};
+
+const isWordStart = (text: string, index: number) => index === 0 || !/[\p{L}\p{N}]/u.test(text[index - 1]);
+
+// Best single-term score within one field
+const scoreField = (folded: string, term: string, weight: number) => {
+  const first = folded.indexOf(term);
+  if (first === -1) return 0;
+  let score = weight;
+  let index = first;
+  while (index !== -1) {
+    if (isWordStart(folded, index)) {
+      score = weight * 2;
+      break;
+    }
+    index = folded.indexOf(term, index + 1);
+  }
+  // Short fields matched mostly by the query are better hits than long ones that mention it once
+  return score * (1 + term.length / Math.max(folded.length, term.length));
+};
+
+const highlight = (text: string, folded: string, terms: string[], start = 0, end = text.length): Highlighted => {
+  const marks = new Array(end - start).fill(false);
+  terms.forEach(term => {
+    let index = folded.indexOf(term, start);
+    while (index !== -1 && index < end) {
+      for (let i = index; i < Math.min(index + term.length, end); i++) marks[i - start] = true;
+      index = folded.indexOf(term, index + term.length);
+    }
+  });
+  const parts: Highlighted = [];
+  marks.forEach((match, i) => {
+    const ch = text[start + i];
+    const last = parts[parts.length - 1];
+    if (last && last.match === match) last.text += ch;
+    else parts.push({ text: ch, match });
+  });
+  return parts;
+};
+
+// A window of the body around the first hit, cut at spaces where possible
+const makeSnippet = (doc: SearchDocument, terms: string[]): Highlighted => {
+  const hits = terms.map(term => doc.foldedBody.indexOf(term)).filter(i => i !== -1);
+  const first = hits.length > 0 ? Math.min(...hits) : 0;
+  let start = Math.max(0, first - SNIPPET_CONTEXT);
+  let end = Math.min(doc.body.length, first + SNIPPET_CONTEXT * 2);
+  if (start > 0) {
+    const space = doc.body.indexOf(' ', start);
+    if (space !== -1 && space < first) start = space + 1;
+  }
+  if (end < doc.body.length) {
+    const space = doc.body.lastIndexOf(' ', end);
+    if (space > first) end = space;
+  }
+  const parts = highlight(doc.body.replace(/\n/g, ' '), doc.foldedBody, terms, start, end);
+  if (start > 0) parts.unshift({ text: '…', match: false });
+  if (end < doc.body.length) parts.push({ text: '…', match: false });
+  return parts;
+};
+
+export const searchIndex = (documents: SearchDocument[], query: string, limit = 30): SearchResult[] => {
+  const terms = [...new Set(fold(query).split(/\s+/).filter(Boolean))];
+  if (terms.length === 0) return [];
+  const phrase = terms.join(' ');
+
+  const results: SearchResult[] = [];
+  documents.forEach(doc => {
+    let score = 0;
+    for (const term of terms) {
+      const termScore = Math.max(scoreField(doc.foldedTitle, term, 3), scoreField(doc.foldedBody, term, 1));
+      if (termScore === 0) return;
+      score += termScore;
+    }
+    if (terms.length > 1 && (doc.foldedTitle.includes(phrase) || doc.foldedBody.includes(phrase))) score *= 1.5;
+    if (doc.foldedTitle === phrase) score *= 2;
+    score *= KIND_WEIGHT[doc.target.kind];
+
+    results.push({
+      key: doc.key,
+      target: doc.target,
+      title: highlight(doc.title, doc.foldedTitle, terms),
+      snippet: doc.body ? makeSnippet(doc, terms) : [],
+      subtitle: doc.subtitle,
+      score,
+    });
+  });
+  return results.sort((a, b) => b.score - a.score).slice(0, limit);
+};
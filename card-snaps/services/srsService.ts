@@ -1,4 +1,5 @@
-import { Card, SRSData } from '../types';
+import { Card, Deck, SRSData, SchedulerType, ReviewLog, CardState, StudyOptions, DailyStudyCount } from '../types';
+import { fsrsSchedule, FSRSGrade } from './fsrsService';
 
 // Ratings:
 // 1: Again (Fail) - Review immediately/soon
@@ -8,6 +9,21 @@ import { Card, SRSData } from '../types';
 
 export type SRSRating = 'again' | 'hard' | 'good' | 'easy';
 
+export const RATING_GRADES: Record<SRSRating, FSRSGrade> = { again: 1, hard: 2, good: 3, easy: 4 };
+
+export interface SchedulerOptions {
+  scheduler?: SchedulerType;
+  fsrsParams?: number[];
+  learningSteps?: number[]; // Minutes
+  relearningSteps?: number[]; // Minutes
+}
+
+export const DEFAULT_LEARNING_STEPS = [1, 10];
+export const DEFAULT_RELEARNING_STEPS = [10];
+
+const ONE_MINUTE = 60 * 1000;
+const ONE_DAY = 24 * 60 * ONE_MINUTE;
+
 const DEFAULT_SRS: SRSData = {
   interval: 0,
   repetition: 0,
@@ -15,7 +31,12 @@ const DEFAULT_SRS: SRSData = {
   dueDate: 0,
 };
 
-export const calculateReview = (card: Card, rating: SRSRating): Card => {
+// Day-level scheduling, applied when a card graduates and on every review after that
+const scheduleDays = (card: Card, rating: SRSRating, options: SchedulerOptions): Card => {
+  if (options.scheduler === 'fsrs') {
+    return { ...card, srs: fsrsSchedule(card.srs, RATING_GRADES[rating], options.fsrsParams) };
+  }
+
   const currentSRS = card.srs || { ...DEFAULT_SRS };
   
   let { interval, repetition, easeFactor } = currentSRS;
@@ -66,12 +87,259 @@ export const calculateReview = (card: Card, rating: SRSRating): Card => {
       interval,
       repetition,
       easeFactor,
-      dueDate
+      dueDate,
+      lastReview: now
     }
   };
 };
 
-export const getDueCards = (cards: Card[]): Card[] => {
+// Cards saved before learning steps existed have no state; infer it from their progress
+export const getCardState = (srs?: SRSData): CardState => {
+  if (srs?.state) return srs.state;
+  if (!srs || (srs.repetition === 0 && srs.interval === 0)) return 'new';
+  return 'review';
+};
+
+export const isLearning = (card: Card) => {
+  const state = getCardState(card.srs);
+  return state === 'learning' || state === 'relearning';
+};
+
+const atStep = (srs: SRSData, state: CardState, step: number, minutes: number, now: number): SRSData =>
+  ({ ...srs, state, step, dueDate: now + minutes * ONE_MINUTE });
+
+export const calculateReview = (card: Card, rating: SRSRating, options: SchedulerOptions = {}): Card => {
+  const state = getCardState(card.srs);
   const now = Date.now();
-  return cards.filter(c => !c.srs || c.srs.dueDate <= now);
+
+  if (state === 'review') {
+    const scheduled = scheduleDays(card, rating, options);
+    const relearningSteps = options.relearningSteps ?? DEFAULT_RELEARNING_STEPS;
+    if (rating === 'again' && relearningSteps.length > 0) {
+      // The lapse is already counted; the card just has to be relearned before its new interval starts
+      return { ...scheduled, srs: atStep(scheduled.srs!, 'relearning', 0, relearningSteps[0], now) };
+    }
+    return { ...scheduled, srs: { ...scheduled.srs!, state: 'review', step: 0 } };
+  }
+
+  const steps = state === 'relearning'
+    ? options.relearningSteps ?? DEFAULT_RELEARNING_STEPS
+    : options.learningSteps ?? DEFAULT_LEARNING_STEPS;
+  const base: SRSData = card.srs || { ...DEFAULT_SRS };
+  const current = Math.min(base.step || 0, Math.max(steps.length - 1, 0));
+  const learningState: CardState = state === 'relearning' ? 'relearning' : 'learning';
+
+  if (steps.length > 0 && rating === 'again') {
+    return { ...card, srs: atStep(base, learningState, 0, steps[0], now) };
+  }
+  if (steps.length > 0 && rating === 'hard') {
+    // Repeat the current step; on the first step, halfway to the next one
+    const minutes = current === 0 && steps.length > 1 ? (steps[0] + steps[1]) / 2 : steps[current];
+    return { ...card, srs: atStep(base, learningState, current, minutes, now) };
+  }
+  if (steps.length > 0 && rating === 'good' && current + 1 < steps.length) {
+    return { ...card, srs: atStep(base, learningState, current + 1, steps[current + 1], now) };
+  }
+
+  // Graduation
+  if (state === 'relearning') {
+    const interval = Math.max(1, base.interval);
+    return { ...card, srs: { ...base, interval, dueDate: now + interval * ONE_DAY, state: 'review', step: 0 } };
+  }
+  const scheduled = scheduleDays(card, rating === 'easy' ? 'easy' : 'good', options);
+  return { ...scheduled, srs: { ...scheduled.srs!, state: 'review', step: 0 } };
+};
+
+// Reads "1m 10m 1h 1d" style input into minutes; null if anything is unreadable
+export const parseSteps = (text: string): number[] | null => {
+  const units: Record<string, number> = { m: 1, h: 60, d: 24 * 60 };
+  const tokens = text.trim().split(/[\s,]+/).filter(Boolean);
+  const steps: number[] = [];
+  for (const token of tokens) {
+    const match = token.match(/^(\d+(?:\.\d+)?)([mhd]?)$/i);
+    if (!match) return null;
+    steps.push(parseFloat(match[1]) * units[(match[2] || 'm').toLowerCase()]);
+  }
+  return steps;
+};
+
+export const formatSteps = (steps: number[]): string =>
+  steps.map(m => m % (24 * 60) === 0 ? `${m / (24 * 60)}d` : m % 60 === 0 ? `${m / 60}h` : `${m}m`).join(' ');
+
+// Human-readable "next due" hint for each rating button
+export const previewInterval = (card: Card, rating: SRSRating, options: SchedulerOptions = {}): string => {
+  const next = calculateReview(card, rating, options).srs!;
+  const minutes = Math.round((next.dueDate - Date.now()) / 60000);
+  if (minutes < 1) return '< 1min';
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes < 24 * 60) return `${Math.round(minutes / 60)}h`;
+  const days = Math.round(minutes / (24 * 60));
+  if (days < 31) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+};
+
+// Snapshot of one answer, taken from the card before and after scheduling
+export const createReviewLog = (
+  deckId: string,
+  before: Card,
+  after: Card,
+  rating: SRSRating,
+  mode: ReviewLog['mode'],
+  responseTimeMs: number
+): ReviewLog => ({
+  id: crypto.randomUUID(),
+  cardId: reviewKey(before),
+  deckId,
+  rating,
+  prevInterval: before.srs?.interval || 0,
+  nextInterval: after.srs?.interval || 0,
+  ease: after.srs?.easeFactor ?? DEFAULT_SRS.easeFactor,
+  responseTimeMs: Math.round(responseTimeMs),
+  mode,
+  reviewedAt: Date.now(),
+});
+
+export const DEFAULT_STUDY_OPTIONS: StudyOptions = {
+  newPerDay: 20,
+  reviewsPerDay: 200,
+  newOrder: 'sequential',
+  burySiblings: true,
+};
+
+export const getStudyOptions = (deck: Pick<Deck, 'studyOptions'>): StudyOptions =>
+  ({ ...DEFAULT_STUDY_OPTIONS, ...deck.studyOptions });
+
+export const getStudiedToday = (deck: Pick<Deck, 'studiedToday'>, now = Date.now()): DailyStudyCount => {
+  const date = new Date(now).toDateString();
+  return deck.studiedToday?.date === date ? deck.studiedToday : { date, newCards: 0, reviews: 0 };
+};
+
+// Counts one answer against today's limits. Learning-step repeats are free.
+export const countStudied = (deck: Pick<Deck, 'studiedToday'>, before: Card, now = Date.now()): DailyStudyCount => {
+  const today = getStudiedToday(deck, now);
+  const state = getCardState(before.srs);
+  if (state === 'new') return { ...today, newCards: today.newCards + 1 };
+  if (state === 'review') return { ...today, reviews: today.reviews + 1 };
+  return today;
+};
+
+const shuffle = <T>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// --- Reverse cards ---
+// A card can also be asked back→front. Each direction is its own review item with its own
+// schedule (`srs` and `reverseSrs`); both directions count as siblings for burying.
+
+export const studiesReverse = (card: Card, deck: Pick<Deck, 'studyReverse'>) =>
+  !card.cloze && (card.reverse ?? !!deck.studyReverse);
+
+const reverseOf = (card: Card): Card => {
+  const { reverseSrs, ...rest } = card;
+  return { ...rest, front: card.back, back: card.front, srs: reverseSrs, direction: 'reverse', groupId: card.groupId ?? card.id };
+};
+
+// Everything there is to study in a deck: each card, plus its swapped copy where reverse is on
+export const getStudyItems = (deck: Pick<Deck, 'cards' | 'studyReverse'>): Card[] =>
+  deck.cards.flatMap(card => studiesReverse(card, deck)
+    ? [{ ...card, groupId: card.groupId ?? card.id }, reverseOf(card)]
+    : [card]);
+
+// Tells the two directions of a card apart (queue burying, review logs)
+export const reviewKey = (card: Card) => card.direction === 'reverse' ? `${card.id}:reverse` : card.id;
+
+// Saves a reviewed study item's schedule back onto its card, in whichever direction it was asked
+export const applyReview = (cards: Card[], reviewed: Card): Card[] =>
+  cards.map(c => c.id !== reviewed.id ? c
+    : reviewed.direction === 'reverse' ? { ...c, reverseSrs: reviewed.srs } : { ...c, srs: reviewed.srs });
+
+// Today's queue for a deck: due learning cards, then reviews (most overdue first) and new cards, within the deck's daily limits
+export const getDueCards = (deck: Pick<Deck, 'cards' | 'studyOptions' | 'studiedToday' | 'studyReverse'>, now = Date.now()): Card[] => {
+  const options = getStudyOptions(deck);
+  const items = getStudyItems(deck);
+  const today = getStudiedToday(deck, now);
+  const todayStart = new Date(now).setHours(0, 0, 0, 0);
+
+  // Groups that already had a card answered today are buried until tomorrow, and a group
+  // with a card still in learning (e.g. c1 of a cloze) holds back its new siblings until it graduates
+  const answeredToday = new Map<string, string>();
+  const stillLearning = new Map<string, string>();
+  if (options.burySiblings) {
+    items.forEach(c => {
+      if (!c.groupId) return;
+      if (c.srs?.lastReview && c.srs.lastReview >= todayStart) answeredToday.set(c.groupId, reviewKey(c));
+      if (isLearning(c)) stillLearning.set(c.groupId, reviewKey(c));
+    });
+  }
+  const taken = new Set<string>();
+  const allowed = (card: Card) => {
+    if (!options.burySiblings || !card.groupId) return true;
+    const answered = answeredToday.get(card.groupId);
+    if ((answered && answered !== reviewKey(card)) || taken.has(card.groupId)) return false;
+    const learning = stillLearning.get(card.groupId);
+    if (learning && learning !== reviewKey(card) && getCardState(card.srs) === 'new') return false;
+    taken.add(card.groupId);
+    return true;
+  };
+
+  const learning = items
+    .filter(c => isLearning(c) && c.srs!.dueDate <= now)
+    .sort((a, b) => a.srs!.dueDate - b.srs!.dueDate)
+    .filter(allowed);
+  const reviews = items
+    .filter(c => getCardState(c.srs) === 'review' && c.srs!.dueDate <= now)
+    .sort((a, b) => a.srs!.dueDate - b.srs!.dueDate)
+    .filter(allowed)
+    .slice(0, Math.max(0, options.reviewsPerDay - today.reviews));
+  const newCards = items.filter(c => getCardState(c.srs) === 'new');
+  const ordered = (options.newOrder === 'random' ? shuffle(newCards) : newCards)
+    .filter(allowed)
+    .slice(0, Math.max(0, options.newPerDay - today.newCards));
+
+  return [...learning, ...reviews, ...ordered];
+};
+
+// --- Cross-deck review ---
+
+export type InterleaveStrategy = 'round_robin' | 'shuffle' | 'most_overdue' | 'deck_by_deck';
+
+export interface ReviewItem {
+  deckId: string;
+  card: Card;
+}
+
+// Every deck's own queue (limits and burying included), merged into one session
+export const buildReviewQueue = (decks: Deck[], strategy: InterleaveStrategy, now = Date.now()): ReviewItem[] => {
+  const perDeck = decks.map(deck => getDueCards(deck, now).map(card => ({ deckId: deck.id, card })));
+
+  switch (strategy) {
+    case 'deck_by_deck':
+      return perDeck.flat();
+    case 'shuffle':
+      return shuffle(perDeck.flat());
+    case 'most_overdue': {
+      // Learning cards are the most time-sensitive, new cards can always wait
+      const group = (item: ReviewItem) => {
+        const state = getCardState(item.card.srs);
+        return state === 'new' ? 2 : state === 'review' ? 1 : 0;
+      };
+      return perDeck.flat().sort((a, b) =>
+        group(a) - group(b) || (group(a) === 2 ? 0 : a.card.srs!.dueDate - b.card.srs!.dueDate));
+    }
+    case 'round_robin':
+    default: {
+      const result: ReviewItem[] = [];
+      const longest = Math.max(0, ...perDeck.map(q => q.length));
+      for (let i = 0; i < longest; i++) {
+        perDeck.forEach(queue => { if (queue[i]) result.push(queue[i]); });
+      }
+      return result;
+    }
+  }
 };
@@ -0,0 +1,75 @@
+const fs = require('fs');
+const crypto = require('crypto');
+
+// Older clients could save two cards under one id, which the cards table can't hold;
+// the later copies get ids of their own so no card is lost
+const repairCardIds = (cards) => {
+    const seen = new Set();
+    return cards.filter(card => card && typeof card === 'object').map(card => {
+        let id = card.id === undefined || card.id === null ? '' : String(card.id);
+        if (!id || seen.has(id)) id = crypto.randomUUID();
+        seen.add(id);
+        return id === card.id ? card : { ...card, id };
+    });
+};
+
+// Copies everything from the legacy database.json into a storage instance in one transaction,
+// so a half-finished import never leaves the new database partially populated. A row that
+// can't be written is skipped and reported instead: this runs at server start, and one bad
+// deck shouldn't keep the server down.
+const importJsonDatabase = (storage, file) => {
+    const data = JSON.parse(fs.readFileSync(file, 'utf8'));
+    const counts = { users: 0, decks: 0, notes: 0, tests: 0, stats: 0, chats: 0, community: 0, skipped: 0 };
+    const parseMaybe = (value) => typeof value === 'string' ? JSON.parse(value) : value;
+
+    // Nested transactions are savepoints, so a failed row is rolled back on its own
+    const importRow = (kind, row, write) => {
+        try {
+            storage.transaction(() => write(row));
+            counts[kind]++;
+        } catch (err) {
+            counts.skipped++;
+            console.warn(`Skipped ${kind} ${row && row.id} from database.json: ${err.message}`);
+        }
+    };
+
+    storage.transaction(() => {
+        (data.users || []).forEach(user => importRow('users', user, storage.insertUser));
+        const userIds = new Set((data.users || []).map(u => u.id));
+        const owned = (row) => row && userIds.has(row.userId);
+
+        (data.decks || []).filter(owned).forEach(deck => importRow('decks', deck, () => {
+            const cards = repairCardIds(parseMaybe(deck.cards) || []);
+            storage.insertDeck({ ...deck, cards, createdAt: deck.created_at || deck.createdAt });
+        }));
+        (data.notes || []).filter(owned).forEach(note => importRow('notes', note, () => {
+            storage.upsertNote({ ...note, createdAt: note.created_at, lastModified: note.updated_at });
+        }));
+        (data.tests || []).filter(owned).forEach(test => importRow('tests', test, () => {
+            storage.insertTest({ ...test, topics: parseMaybe(test.topics) || [] });
+        }));
+        (data.stats || []).filter(owned).forEach(stats => importRow('stats', stats, () => {
+            storage.saveStats(stats.userId, stats);
+        }));
+        (data.chat_sessions || []).filter(owned).forEach(session => importRow('chats', session, storage.upsertChat));
+        (data.community || []).forEach(item => importRow('community', item, storage.insertCommunityItem));
+    });
+
+    return counts;
+};
+
+module.exports = { importJsonDatabase };
+
+// CLI: node storage/importJson.js [path/to/database.json]
+if (require.main === module) {
+    const path = require('path');
+    const { createSqliteStorage } = require('./sqliteStorage');
+    const source = path.resolve(process.argv[2] || path.join(__dirname, '..', 'database.json'));
+    const target = process.env.DB_FILE || path.resolve(__dirname, '..', 'cardsnaps.sqlite');
+    const storage = createSqliteStorage(target);
+    if (!storage.isEmpty()) {
+        console.error(`${target} already contains data; refusing to import twice.`);
+        process.exit(1);
+    }
+    console.log('Imported:', importJsonDatabase(storage, source));
+}
@@ -0,0 +1,46 @@
+// --- STORAGE LAYER ---
+// server.js only talks to the interface below, never to a concrete database.
+// Every method is synchronous; `transaction(fn)` runs fn atomically.
+//
+// Storage interface:
+//   transaction(fn)
+//   isEmpty()
+//   users:     findUserByEmail(email), findUserById(id), insertUser(user), updateUser(id, fields)
+//   decks:     listDecks(userId), getDeck(userId, id), insertDeck(deck), updateDeck(deck), deleteDeck(userId, id),
+//              listTrashedDecks(userId), trashDeck(userId, id, deletedAt), restoreDeck(userId, id)
+//   versions:  listDeckVersions(userId, deckId), countDeckVersions(userId, deckId),
+//              getDeckVersion(userId, deckId, revision), insertDeckVersion(version, keep)
+//   notes:     listNotes(userId), getNote(userId, id), upsertNote(note), deleteNote(userId, id),
+//              listTrashedNotes(userId), trashNote(userId, id, deletedAt), restoreNote(userId, id)
+//   trash:     purgeTrash(before)
+//   tests:     listTests(userId), getTest(userId, id), insertTest(test), deleteTest(userId, id)
+//   stats:     getStats(userId), saveStats(userId, stats)
+//   chats:     listChats(userId), upsertChat(session)
+//   reviews:   listReviewLogs(userId, since), insertReviewLogs(userId, logs)
+//   shares:    getShare(code), insertShare(share), incrementShareViews(code)
+//   media:     getMedia(id), hasMedia(id), insertMedia(media)
+//   community: listCommunity(limit), getCommunityItem(id), insertCommunityItem(item), incrementDownloads(id)
+
+const path = require('path');
+const fs = require('fs');
+const { createSqliteStorage } = require('./sqliteStorage');
+const { importJsonDatabase } = require('./importJson');
+
+const DEFAULT_DB_FILE = path.resolve(__dirname, '..', 'cardsnaps.sqlite');
+const LEGACY_JSON_FILE = path.resolve(__dirname, '..', 'database.json');
+
+const createStorage = ({ driver = process.env.STORAGE_DRIVER || 'sqlite', file = process.env.DB_FILE || DEFAULT_DB_FILE } = {}) => {
+    if (driver !== 'sqlite') throw new Error(`Unknown storage driver: ${driver}`);
+    const storage = createSqliteStorage(file);
+
+    // One-shot upgrade from the old JSON file database
+    if (storage.isEmpty() && fs.existsSync(LEGACY_JSON_FILE)) {
+        const counts = importJsonDatabase(storage, LEGACY_JSON_FILE);
+        fs.renameSync(LEGACY_JSON_FILE, `${LEGACY_JSON_FILE}.imported`);
+        console.log(`Imported database.json into SQLite (${counts.users} users, ${counts.decks} decks, ${counts.notes} notes${counts.skipped ? `, ${counts.skipped} rows skipped` : ''}).`);
+    }
+
+    return storage;
+};
+
+module.exports = { createStorage };
@@ -0,0 +1,635 @@
+const Database = require('better-sqlite3');
+
+// Each entry upgrades the schema by one version (tracked in PRAGMA user_version).
+// Never edit a shipped entry; append a new one instead.
+const MIGRATIONS = [
+    `
+    CREATE TABLE users (
+        id TEXT PRIMARY KEY,
+        email TEXT NOT NULL UNIQUE,
+        password TEXT NOT NULL,
+        name TEXT,
+        avatar TEXT,
+        grade_level TEXT,
+        theme_mode TEXT,
+        color_scheme TEXT,
+        enable_seasonal INTEGER NOT NULL DEFAULT 1,
+        created_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE decks (
+        id TEXT NOT NULL,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        title TEXT NOT NULL DEFAULT '',
+        description TEXT NOT NULL DEFAULT '',
+        revision INTEGER NOT NULL DEFAULT 0,
+        updated_at INTEGER,
+        created_at INTEGER NOT NULL,
+        extra TEXT,
+        PRIMARY KEY (user_id, id)
+    );
+
+    CREATE TABLE cards (
+        id TEXT NOT NULL,
+        deck_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        front TEXT NOT NULL DEFAULT '',
+        back TEXT NOT NULL DEFAULT '',
+        color TEXT,
+        srs TEXT,
+        revision INTEGER,
+        updated_at INTEGER,
+        extra TEXT,
+        PRIMARY KEY (user_id, deck_id, id),
+        FOREIGN KEY (user_id, deck_id) REFERENCES decks(user_id, id) ON DELETE CASCADE
+    );
+    CREATE INDEX cards_by_deck ON cards(user_id, deck_id, position);
+
+    CREATE TABLE notes (
+        id TEXT NOT NULL,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        title TEXT,
+        subject TEXT,
+        content TEXT,
+        background TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        PRIMARY KEY (user_id, id)
+    );
+
+    CREATE TABLE tests (
+        id TEXT NOT NULL,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        title TEXT,
+        date INTEGER,
+        topics TEXT NOT NULL DEFAULT '[]',
+        PRIMARY KEY (user_id, id)
+    );
+
+    CREATE TABLE stats (
+        user_id TEXT PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+        data TEXT NOT NULL
+    );
+
+    CREATE TABLE chat_sessions (
+        id TEXT NOT NULL,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        title TEXT,
+        messages TEXT NOT NULL DEFAULT '[]',
+        last_active INTEGER,
+        PRIMARY KEY (user_id, id)
+    );
+
+    CREATE TABLE community (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        title TEXT,
+        description TEXT,
+        author TEXT,
+        data TEXT NOT NULL,
+        downloads INTEGER NOT NULL DEFAULT 0,
+        timestamp INTEGER NOT NULL
+    );
+    CREATE INDEX community_by_time ON community(timestamp DESC);
+    `,
+    `
+    CREATE TABLE review_logs (
+        id TEXT NOT NULL,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        card_id TEXT NOT NULL,
+        deck_id TEXT NOT NULL,
+        rating TEXT NOT NULL,
+        prev_interval REAL,
+        next_interval REAL,
+        ease REAL,
+        response_time_ms INTEGER,
+        mode TEXT,
+        reviewed_at INTEGER NOT NULL,
+        PRIMARY KEY (user_id, id)
+    );
+    CREATE INDEX review_logs_by_time ON review_logs(user_id, reviewed_at);
+    CREATE INDEX review_logs_by_card ON review_logs(user_id, card_id);
+    `,
+    `
+    CREATE TABLE shares (
+        code TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        kind TEXT NOT NULL,
+        title TEXT,
+        data TEXT NOT NULL,
+        views INTEGER NOT NULL DEFAULT 0,
+        expires_at INTEGER,
+        created_at INTEGER NOT NULL
+    );
+    CREATE INDEX shares_by_user ON shares(user_id, created_at DESC);
+    `,
+    `
+    CREATE TABLE media (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        type TEXT NOT NULL,
+        name TEXT,
+        size INTEGER NOT NULL,
+        data BLOB NOT NULL,
+        created_at INTEGER NOT NULL
+    );
+    `,
+    `
+    ALTER TABLE decks ADD COLUMN folder TEXT NOT NULL DEFAULT '';
+    CREATE INDEX decks_by_folder ON decks(user_id, folder);
+    ALTER TABLE cards ADD COLUMN tags TEXT;
+    UPDATE decks SET folder = json_extract(extra, '$.folder'), extra = json_remove(extra, '$.folder')
+        WHERE json_type(extra, '$.folder') = 'text';
+    UPDATE cards SET tags = json_extract(extra, '$.tags'), extra = json_remove(extra, '$.tags')
+        WHERE json_type(extra, '$.tags') = 'array';
+    `,
+    `
+    ALTER TABLE decks ADD COLUMN deleted_at INTEGER;
+    ALTER TABLE notes ADD COLUMN deleted_at INTEGER;
+    CREATE INDEX decks_deleted ON decks(deleted_at) WHERE deleted_at IS NOT NULL;
+    CREATE INDEX notes_deleted ON notes(deleted_at) WHERE deleted_at IS NOT NULL;
+    `,
+    `
+    CREATE TABLE deck_versions (
+        user_id TEXT NOT NULL,
+        deck_id TEXT NOT NULL,
+        revision INTEGER NOT NULL,
+        title TEXT NOT NULL DEFAULT '',
+        description TEXT NOT NULL DEFAULT '',
+        folder TEXT NOT NULL DEFAULT '',
+        cards TEXT NOT NULL,
+        author TEXT,
+        created_at INTEGER NOT NULL,
+        PRIMARY KEY (user_id, deck_id, revision),
+        FOREIGN KEY (user_id, deck_id) REFERENCES decks(user_id, id) ON DELETE CASCADE
+    );
+    `
+];
+
+const parse = (text, fallback) => {
+    if (text === null || text === undefined) return fallback;
+    try { return JSON.parse(text); } catch (e) { return fallback; }
+};
+
+// Columns hold the fields the server queries on; anything else a client sends rides along in `extra`
+const splitExtra = (obj, known) => {
+    const extra = {};
+    Object.keys(obj || {}).forEach(key => {
+        if (!known.includes(key) && obj[key] !== undefined) extra[key] = obj[key];
+    });
+    return Object.keys(extra).length ? JSON.stringify(extra) : null;
+};
+
+const DECK_FIELDS = ['id', 'userId', 'title', 'description', 'folder', 'cards', 'revision', 'updatedAt', 'createdAt', 'created_at', 'baseRevision', 'deletedAt'];
+const CARD_FIELDS = ['id', 'front', 'back', 'color', 'tags', 'srs', 'revision', 'updatedAt'];
+
+const rowToUser = (row) => row && ({
+    id: row.id,
+    email: row.email,
+    password: row.password,
+    name: row.name,
+    avatar: row.avatar,
+    gradeLevel: row.grade_level,
+    themeMode: row.theme_mode,
+    colorScheme: row.color_scheme,
+    enableSeasonal: !!row.enable_seasonal,
+    created_at: row.created_at
+});
+
+const rowToCard = (row) => {
+    const card = { ...parse(row.extra, {}), id: row.id, front: row.front, back: row.back, color: row.color };
+    if (row.tags) card.tags = parse(row.tags, []);
+    if (row.srs) card.srs = parse(row.srs, undefined);
+    if (row.revision !== null) card.revision = row.revision;
+    if (row.updated_at !== null) card.updatedAt = row.updated_at;
+    return card;
+};
+
+const rowToNote = (row) => row && ({
+    id: row.id,
+    userId: row.user_id,
+    title: row.title,
+    subject: row.subject,
+    content: row.content,
+    background: row.background,
+    createdAt: row.created_at,
+    lastModified: row.updated_at,
+    ...(row.deleted_at && { deletedAt: row.deleted_at })
+});
+
+const rowToTest = (row) => row && ({
+    id: row.id,
+    userId: row.user_id,
+    title: row.title,
+    date: row.date,
+    topics: parse(row.topics, [])
+});
+
+const rowToChat = (row) => ({
+    id: row.id,
+    userId: row.user_id,
+    title: row.title,
+    messages: parse(row.messages, []),
+    lastActive: row.last_active
+});
+
+const rowToReviewLog = (row) => ({
+    id: row.id,
+    cardId: row.card_id,
+    deckId: row.deck_id,
+    rating: row.rating,
+    prevInterval: row.prev_interval,
+    nextInterval: row.next_interval,
+    ease: row.ease,
+    responseTimeMs: row.response_time_ms,
+    mode: row.mode,
+    reviewedAt: row.reviewed_at
+});
+
+const rowToShare = (row) => row && ({
+    code: row.code,
+    userId: row.user_id,
+    kind: row.kind,
+    title: row.title,
+    file: parse(row.data, null),
+    views: row.views,
+    expiresAt: row.expires_at,
+    createdAt: row.created_at
+});
+
+const rowToMedia = (row) => row && ({
+    id: row.id,
+    userId: row.user_id,
+    type: row.type,
+    name: row.name,
+    size: row.size,
+    data: row.data,
+    createdAt: row.created_at
+});
+
+const rowToDeckVersion = (row) => row && ({
+    deckId: row.deck_id,
+    revision: row.revision,
+    title: row.title,
+    ...(row.description !== undefined && { description: row.description }),
+    ...(row.folder && { folder: row.folder }),
+    ...(row.cards !== undefined ? { cards: parse(row.cards, []) } : { cardCount: row.card_count }),
+    author: row.author,
+    createdAt: row.created_at
+});
+
+const rowToCommunity = (row) => row && ({
+    id: row.id,
+    type: row.type,
+    title: row.title,
+    description: row.description,
+    author: row.author,
+    data: parse(row.data, null),
+    downloads: row.downloads,
+    timestamp: row.timestamp
+});
+
+const createSqliteStorage = (file) => {
+    const db = new Database(file);
+    db.pragma('journal_mode = WAL');
+    db.pragma('foreign_keys = ON');
+
+    const version = db.pragma('user_version', { simple: true });
+    MIGRATIONS.slice(version).forEach((sql, i) => {
+        db.transaction(() => {
+            db.exec(sql);
+            db.pragma(`user_version = ${version + i + 1}`);
+        })();
+    });
+
+    const stmt = {
+        userByEmail: db.prepare('SELECT * FROM users WHERE email = ?'),
+        userById: db.prepare('SELECT * FROM users WHERE id = ?'),
+        insertUser: db.prepare(`INSERT INTO users (id, email, password, name, avatar, grade_level, theme_mode, color_scheme, enable_seasonal, created_at)
+            VALUES (@id, @email, @password, @name, @avatar, @gradeLevel, @themeMode, @colorScheme, @enableSeasonal, @createdAt)`),
+
+        listDecks: db.prepare('SELECT * FROM decks WHERE user_id = ? AND deleted_at IS NULL ORDER BY created_at DESC'),
+        listTrashedDecks: db.prepare('SELECT * FROM decks WHERE user_id = ? AND deleted_at IS NOT NULL ORDER BY deleted_at DESC'),
+        setDeckDeleted: db.prepare('UPDATE decks SET deleted_at = ? WHERE user_id = ? AND id = ?'),
+        purgeDecks: db.prepare('DELETE FROM decks WHERE deleted_at IS NOT NULL AND deleted_at < ?'),
+        getDeck: db.prepare('SELECT * FROM decks WHERE user_id = ? AND id = ?'),
+        insertDeck: db.prepare(`INSERT INTO decks (id, user_id, title, description, folder, revision, updated_at, created_at, extra)
+            VALUES (@id, @userId, @title, @description, @folder, @revision, @updatedAt, @createdAt, @extra)`),
+        updateDeck: db.prepare(`UPDATE decks SET title = @title, description = @description, folder = @folder, revision = @revision, updated_at = @updatedAt, extra = @extra
+            WHERE user_id = @userId AND id = @id`),
+        deleteDeck: db.prepare('DELETE FROM decks WHERE user_id = ? AND id = ?'),
+        cardsForDeck: db.prepare('SELECT * FROM cards WHERE user_id = ? AND deck_id = ? ORDER BY position'),
+        deleteCards: db.prepare('DELETE FROM cards WHERE user_id = ? AND deck_id = ?'),
+        insertCard: db.prepare(`INSERT INTO cards (id, deck_id, user_id, position, front, back, color, tags, srs, revision, updated_at, extra)
+            VALUES (@id, @deckId, @userId, @position, @front, @back, @color, @tags, @srs, @revision, @updatedAt, @extra)`),
+
+        listDeckVersions: db.prepare(`SELECT deck_id, revision, title, author, created_at, json_array_length(cards) AS card_count
+            FROM deck_versions WHERE user_id = ? AND deck_id = ? ORDER BY revision DESC`),
+        countDeckVersions: db.prepare('SELECT COUNT(*) AS n FROM deck_versions WHERE user_id = ? AND deck_id = ?'),
+        getDeckVersion: db.prepare('SELECT * FROM deck_versions WHERE user_id = ? AND deck_id = ? AND revision = ?'),
+        insertDeckVersion: db.prepare(`INSERT OR IGNORE INTO deck_versions (user_id, deck_id, revision, title, description, folder, cards, author, created_at)
+            VALUES (@userId, @deckId, @revision, @title, @description, @folder, @cards, @author, @createdAt)`),
+        pruneDeckVersions: db.prepare(`DELETE FROM deck_versions WHERE user_id = @userId AND deck_id = @deckId AND revision NOT IN
+            (SELECT revision FROM deck_versions WHERE user_id = @userId AND deck_id = @deckId ORDER BY revision DESC LIMIT @keep)`),
+
+        listNotes: db.prepare('SELECT * FROM notes WHERE user_id = ? AND deleted_at IS NULL ORDER BY updated_at DESC'),
+        listTrashedNotes: db.prepare('SELECT * FROM notes WHERE user_id = ? AND deleted_at IS NOT NULL ORDER BY deleted_at DESC'),
+        setNoteDeleted: db.prepare('UPDATE notes SET deleted_at = ? WHERE user_id = ? AND id = ?'),
+        purgeNotes: db.prepare('DELETE FROM notes WHERE deleted_at IS NOT NULL AND deleted_at < ?'),
+        getNote: db.prepare('SELECT * FROM notes WHERE user_id = ? AND id = ?'),
+        upsertNote: db.prepare(`INSERT INTO notes (id, user_id, title, subject, content, background, created_at, updated_at)
+            VALUES (@id, @userId, @title, @subject, @content, @background, @createdAt, @updatedAt)
+            ON CONFLICT (user_id, id) DO UPDATE SET title = excluded.title, subject = excluded.subject, content = excluded.content,
+                background = excluded.background, updated_at = excluded.updated_at`),
+        deleteNote: db.prepare('DELETE FROM notes WHERE user_id = ? AND id = ?'),
+
+        listTests: db.prepare('SELECT * FROM tests WHERE user_id = ? ORDER BY date ASC'),
+        getTest: db.prepare('SELECT * FROM tests WHERE user_id = ? AND id = ?'),
+        insertTest: db.prepare('INSERT INTO tests (id, user_id, title, date, topics) VALUES (@id, @userId, @title, @date, @topics)'),
+        deleteTest: db.prepare('DELETE FROM tests WHERE user_id = ? AND id = ?'),
+
+        getStats: db.prepare('SELECT data FROM stats WHERE user_id = ?'),
+        saveStats: db.prepare(`INSERT INTO stats (user_id, data) VALUES (?, ?)
+            ON CONFLICT (user_id) DO UPDATE SET data = excluded.data`),
+
+        listChats: db.prepare('SELECT * FROM chat_sessions WHERE user_id = ? ORDER BY last_active DESC'),
+        upsertChat: db.prepare(`INSERT INTO chat_sessions (id, user_id, title, messages, last_active)
+            VALUES (@id, @userId, @title, @messages, @lastActive)
+            ON CONFLICT (user_id, id) DO UPDATE SET title = excluded.title, messages = excluded.messages, last_active = excluded.last_active`),
+
+        listReviewLogs: db.prepare('SELECT * FROM review_logs WHERE user_id = ? AND reviewed_at >= ? ORDER BY reviewed_at'),
+        insertReviewLog: db.prepare(`INSERT OR IGNORE INTO review_logs (id, user_id, card_id, deck_id, rating, prev_interval, next_interval, ease, response_time_ms, mode, reviewed_at)
+            VALUES (@id, @userId, @cardId, @deckId, @rating, @prevInterval, @nextInterval, @ease, @responseTimeMs, @mode, @reviewedAt)`),
+
+        getShare: db.prepare('SELECT * FROM shares WHERE code = ?'),
+        insertShare: db.prepare(`INSERT INTO shares (code, user_id, kind, title, data, views, expires_at, created_at)
+            VALUES (@code, @userId, @kind, @title, @data, 0, @expiresAt, @createdAt)`),
+        incrementShareViews: db.prepare('UPDATE shares SET views = views + 1 WHERE code = ?'),
+
+        getMedia: db.prepare('SELECT * FROM media WHERE id = ?'),
+        hasMedia: db.prepare('SELECT 1 FROM media WHERE id = ?'),
+        insertMedia: db.prepare(`INSERT OR IGNORE INTO media (id, user_id, type, name, size, data, created_at)
+            VALUES (@id, @userId, @type, @name, @size, @data, @createdAt)`),
+
+        listCommunity: db.prepare('SELECT * FROM community ORDER BY timestamp DESC LIMIT ?'),
+        getCommunity: db.prepare('SELECT * FROM community WHERE id = ?'),
+        insertCommunity: db.prepare(`INSERT INTO community (id, type, title, description, author, data, downloads, timestamp)
+            VALUES (@id, @type, @title, @description, @author, @data, @downloads, @timestamp)`),
+        incrementDownloads: db.prepare('UPDATE community SET downloads = downloads + 1 WHERE id = ?'),
+
+        countUsers: db.prepare('SELECT COUNT(*) AS n FROM users'),
+        countCommunity: db.prepare('SELECT COUNT(*) AS n FROM community'),
+    };
+
+    const writeCards = (userId, deckId, cards) => {
+        stmt.deleteCards.run(userId, deckId);
+        (cards || []).forEach((card, position) => {
+            stmt.insertCard.run({
+                id: card.id,
+                deckId,
+                userId,
+                position,
+                front: card.front || '',
+                back: card.back || '',
+                color: card.color || null,
+                tags: card.tags && card.tags.length ? JSON.stringify(card.tags) : null,
+                srs: card.srs ? JSON.stringify(card.srs) : null,
+                revision: card.revision ?? null,
+                updatedAt: card.updatedAt ?? null,
+                extra: splitExtra(card, CARD_FIELDS)
+            });
+        });
+    };
+
+    const rowToDeck = (row) => row && ({
+        ...parse(row.extra, {}),
+        id: row.id,
+        userId: row.user_id,
+        title: row.title,
+        description: row.description,
+        ...(row.folder && { folder: row.folder }),
+        cards: stmt.cardsForDeck.all(row.user_id, row.id).map(rowToCard),
+        revision: row.revision,
+        updatedAt: row.updated_at,
+        createdAt: row.created_at,
+        ...(row.deleted_at && { deletedAt: row.deleted_at })
+    });
+
+    const deckParams = (deck) => ({
+        id: deck.id,
+        userId: deck.userId,
+        title: deck.title || '',
+        description: deck.description || '',
+        folder: deck.folder || '',
+        revision: deck.revision || 0,
+        updatedAt: deck.updatedAt ?? null,
+        createdAt: deck.createdAt || Date.now(),
+        extra: splitExtra(deck, DECK_FIELDS)
+    });
+
+    const transaction = (fn) => db.transaction(fn)();
+
+    return {
+        transaction,
+
+        isEmpty() {
+            return stmt.countUsers.get().n === 0 && stmt.countCommunity.get().n === 0;
+        },
+
+        // USERS
+        findUserByEmail: (email) => rowToUser(stmt.userByEmail.get(email)),
+        findUserById: (id) => rowToUser(stmt.userById.get(id)),
+        insertUser(user) {
+            stmt.insertUser.run({
+                id: user.id,
+                email: user.email,
+                password: user.password,
+                name: user.name ?? null,
+                avatar: user.avatar ?? null,
+                gradeLevel: user.gradeLevel ?? null,
+                themeMode: user.themeMode ?? null,
+                colorScheme: user.colorScheme ?? null,
+                enableSeasonal: user.enableSeasonal === false ? 0 : 1,
+                createdAt: user.created_at || Date.now()
+            });
+        },
+        updateUser(id, fields) {
+            const columns = { themeMode: 'theme_mode', colorScheme: 'color_scheme', enableSeasonal: 'enable_seasonal', name: 'name', avatar: 'avatar', gradeLevel: 'grade_level' };
+            const keys = Object.keys(fields).filter(k => columns[k]);
+            if (keys.length === 0) return;
+            const values = keys.map(k => k === 'enableSeasonal' ? (fields[k] ? 1 : 0) : fields[k]);
+            db.prepare(`UPDATE users SET ${keys.map(k => `${columns[k]} = ?`).join(', ')} WHERE id = ?`).run(...values, id);
+        },
+
+        // DECKS (cards are written with their deck in one transaction)
+        listDecks: (userId) => stmt.listDecks.all(userId).map(rowToDeck),
+        getDeck: (userId, id) => rowToDeck(stmt.getDeck.get(userId, id)),
+        insertDeck(deck) {
+            transaction(() => {
+                stmt.insertDeck.run(deckParams(deck));
+                writeCards(deck.userId, deck.id, deck.cards);
+            });
+        },
+        updateDeck(deck) {
+            transaction(() => {
+                stmt.updateDeck.run(deckParams(deck));
+                writeCards(deck.userId, deck.id, deck.cards);
+            });
+        },
+        deleteDeck: (userId, id) => stmt.deleteDeck.run(userId, id).changes > 0,
+        listTrashedDecks: (userId) => stmt.listTrashedDecks.all(userId).map(rowToDeck),
+        trashDeck: (userId, id, deletedAt) => stmt.setDeckDeleted.run(deletedAt, userId, id).changes > 0,
+        restoreDeck: (userId, id) => stmt.setDeckDeleted.run(null, userId, id).changes > 0,
+
+        // DECK VERSIONS (snapshots of a deck's content; listing leaves the cards out)
+        listDeckVersions: (userId, deckId) => stmt.listDeckVersions.all(userId, deckId).map(rowToDeckVersion),
+        countDeckVersions: (userId, deckId) => stmt.countDeckVersions.get(userId, deckId).n,
+        getDeckVersion: (userId, deckId, revision) => rowToDeckVersion(stmt.getDeckVersion.get(userId, deckId, revision)),
+        // Adds a snapshot and drops the oldest beyond `keep`
+        insertDeckVersion(version, keep) {
+            transaction(() => {
+                stmt.insertDeckVersion.run({
+                    userId: version.userId,
+                    deckId: version.deckId,
+                    revision: version.revision,
+                    title: version.title || '',
+                    description: version.description || '',
+                    folder: version.folder || '',
+                    cards: JSON.stringify(version.cards || []),
+                    author: version.author ?? null,
+                    createdAt: version.createdAt || Date.now()
+                });
+                stmt.pruneDeckVersions.run({ userId: version.userId, deckId: version.deckId, keep });
+            });
+        },
+
+        // NOTES
+        listNotes: (userId) => stmt.listNotes.all(userId).map(rowToNote),
+        getNote: (userId, id) => rowToNote(stmt.getNote.get(userId, id)),
+        upsertNote(note) {
+            stmt.upsertNote.run({
+                id: note.id,
+                userId: note.userId,
+                title: note.title ?? null,
+                subject: note.subject ?? null,
+                content: note.content ?? null,
+                background: note.background ?? null,
+                createdAt: note.createdAt || Date.now(),
+                updatedAt: note.lastModified || Date.now()
+            });
+        },
+        deleteNote: (userId, id) => stmt.deleteNote.run(userId, id).changes > 0,
+        listTrashedNotes: (userId) => stmt.listTrashedNotes.all(userId).map(rowToNote),
+        trashNote: (userId, id, deletedAt) => stmt.setNoteDeleted.run(deletedAt, userId, id).changes > 0,
+        restoreNote: (userId, id) => stmt.setNoteDeleted.run(null, userId, id).changes > 0,
+
+        // TRASH (decks and notes deleted before `before` are gone for good, cards along with their deck)
+        purgeTrash(before) {
+            return transaction(() => stmt.purgeDecks.run(before).changes + stmt.purgeNotes.run(before).changes);
+        },
+
+        // TESTS
+        listTests: (userId) => stmt.listTests.all(userId).map(rowToTest),
+        getTest: (userId, id) => rowToTest(stmt.getTest.get(userId, id)),
+        insertTest(test) {
+            stmt.insertTest.run({
+                id: test.id,
+                userId: test.userId,
+                title: test.title ?? null,
+                date: test.date ?? null,
+                topics: JSON.stringify(Array.isArray(test.topics) ? test.topics : parse(test.topics, []))
+            });
+        },
+        deleteTest: (userId, id) => stmt.deleteTest.run(userId, id).changes > 0,
+
+        // STATS
+        getStats(userId) {
+            const row = stmt.getStats.get(userId);
+            return row ? { ...parse(row.data, {}), userId } : null;
+        },
+        saveStats(userId, stats) {
+            const { userId: _, ...data } = stats;
+            stmt.saveStats.run(userId, JSON.stringify(data));
+        },
+
+        // CHATS
+        listChats: (userId) => stmt.listChats.all(userId).map(rowToChat),
+        upsertChat(session) {
+            stmt.upsertChat.run({
+                id: session.id,
+                userId: session.userId,
+                title: session.title ?? null,
+                messages: JSON.stringify(session.messages || []),
+                lastActive: session.lastActive ?? Date.now()
+            });
+        },
+
+        // REVIEW LOGS (append-only; re-sent logs are ignored by id)
+        listReviewLogs: (userId, since = 0) => stmt.listReviewLogs.all(userId, since).map(rowToReviewLog),
+        insertReviewLogs(userId, logs) {
+            transaction(() => logs.forEach(log => stmt.insertReviewLog.run({
+                id: log.id,
+                userId,
+                cardId: log.cardId,
+                deckId: log.deckId,
+                rating: log.rating,
+                prevInterval: log.prevInterval ?? null,
+                nextInterval: log.nextInterval ?? null,
+                ease: log.ease ?? null,
+                responseTimeMs: log.responseTimeMs ?? null,
+                mode: log.mode ?? null,
+                reviewedAt: log.reviewedAt || Date.now()
+            })));
+        },
+
+        // SHARE LINKS (immutable snapshots addressed by a short code)
+        getShare: (code) => rowToShare(stmt.getShare.get(code)),
+        insertShare(share) {
+            stmt.insertShare.run({
+                code: share.code,
+                userId: share.userId,
+                kind: share.kind,
+                title: share.title ?? null,
+                data: JSON.stringify(share.file),
+                expiresAt: share.expiresAt ?? null,
+                createdAt: share.createdAt || Date.now()
+            });
+        },
+        incrementShareViews: (code) => stmt.incrementShareViews.run(code).changes > 0,
+
+        // MEDIA (content-addressed: the id is the SHA-256 of the bytes, so uploads are idempotent)
+        getMedia: (id) => rowToMedia(stmt.getMedia.get(id)),
+        hasMedia: (id) => !!stmt.hasMedia.get(id),
+        insertMedia(media) {
+            stmt.insertMedia.run({
+                id: media.id,
+                userId: media.userId,
+                type: media.type,
+                name: media.name ?? null,
+                size: media.data.length,
+                data: media.data,
+                createdAt: media.createdAt || Date.now()
+            });
+        },
+
+        // COMMUNITY
+        listCommunity: (limit) => stmt.listCommunity.all(limit).map(rowToCommunity),
+        getCommunityItem: (id) => rowToCommunity(stmt.getCommunity.get(id)),
+        insertCommunityItem(item) {
+            stmt.insertCommunity.run({
+                id: item.id,
+                type: item.type,
+                title: item.title ?? null,
+                description: item.description ?? null,
+                author: item.author ?? null,
+                data: JSON.stringify(item.data ?? null),
+                downloads: item.downloads || 0,
+                timestamp: item.timestamp || Date.now()
+            });
+        },
+        incrementDownloads: (id) => stmt.incrementDownloads.run(id).changes > 0,
+    };
+};
+
+module.exports = { createSqliteStorage };
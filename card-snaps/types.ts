@@ -5,22 +5,107 @@ export interface SRSData {
   repetition: number;
   easeFactor: number;
   dueDate: number; // Timestamp
+  // FSRS memory state (filled in when the deck uses the FSRS scheduler)
+  stability?: number; // Days until recall probability drops to 90%
+  difficulty?: number; // 1 (easy) - 10 (hard)
+  lastReview?: number; // Timestamp
+  lapses?: number;
+  // Learning queue position (cards without a state are inferred from repetition/interval)
+  state?: CardState;
+  step?: number; // Index into the deck's learning or relearning steps
 }
 
+export type CardState = 'new' | 'learning' | 'review' | 'relearning';
+
+export type SchedulerType = 'sm2' | 'fsrs';
+
+export type NewCardOrder = 'sequential' | 'random';
+
+export interface StudyOptions {
+  newPerDay: number;
+  reviewsPerDay: number;
+  newOrder: NewCardOrder;
+  burySiblings: boolean; // Only one card per group a day
+}
+
+// What has already been studied against the daily limits
+export interface DailyStudyCount {
+  date: string; // Date.toDateString()
+  newCards: number;
+  reviews: number;
+}
+
+// A cloze deletion card. Every sibling holds the same source text and asks a different cloze.
+export interface ClozeData {
+  text: string; // "The {{c1::mitochondria}} is the {{c2::powerhouse}}"
+  index: number; // The cN this card asks for
+  extra?: string; // Shown under the answer
+}
+
+export type CardDirection = 'forward' | 'reverse';
+
 export interface Card {
   id: string;
   front: string;
   back: string;
   color: string; // Tailwind color class or hex
   srs?: SRSData;
+  groupId?: string; // Sibling cards generated from the same source share a group
+  tags?: string[]; // Single words, used to filter study sessions
+  cloze?: ClozeData; // front/back are rendered from it
+  reverse?: boolean; // Also study back→front; overrides the deck's studyReverse
+  reverseSrs?: SRSData; // Scheduling for the back→front direction
+  direction?: CardDirection; // Only set on study-time copies, never saved
+  revision?: number; // Server-assigned, bumped whenever the card changes
+  updatedAt?: number;
 }
 
 export interface Deck {
   id: string;
   title: string;
   description: string;
+  folder?: string; // "Biology::Cells", '' or missing for the top level
   cards: Card[];
   createdAt: number;
+  revision?: number; // Server-assigned, used to reject stale writes
+  updatedAt?: number;
+  scheduler?: SchedulerType; // Defaults to 'sm2'
+  learningSteps?: number[]; // Minutes, for new cards before they graduate
+  relearningSteps?: number[]; // Minutes, for lapsed review cards
+  studyOptions?: StudyOptions;
+  studiedToday?: DailyStudyCount;
+  studyReverse?: boolean; // Every card is also studied back→front
+  deletedAt?: number; // Set while the deck is in the trash
+}
+
+// A saved state of a deck's content, kept on the server so a deck can be rolled back.
+// `author` is whoever saved it; null for the state a deck had before history was kept.
+export interface DeckVersion {
+  deckId: string;
+  revision: number;
+  title: string;
+  description: string;
+  folder?: string;
+  cards: Card[];
+  author: string | null;
+  createdAt: number;
+}
+
+// How versions are listed; the cards are only fetched for the one being looked at
+export type DeckVersionSummary = Omit<DeckVersion, 'description' | 'folder' | 'cards'> & { cardCount: number };
+
+// One answered card. Append-only history used for statistics, scheduler tuning and undo.
+export interface ReviewLog {
+  id: string;
+  cardId: string;
+  deckId: string;
+  rating: 'again' | 'hard' | 'good' | 'easy';
+  prevInterval: number; // Days
+  nextInterval: number; // Days
+  ease: number; // Ease factor after the review
+  responseTimeMs: number; // From card shown to answer
+  mode: 'srs' | 'standard';
+  reviewedAt: number; // Timestamp
 }
 
 export interface Note {
@@ -31,6 +116,7 @@ export interface Note {
   background: 'blank' | 'lined' | 'grid';
   createdAt: number;
   lastModified: number;
+  deletedAt?: number; // Set while the note is in the trash
 }
 
 export interface Test {
@@ -84,6 +170,7 @@ export interface UserStats {
   goalsGeneratedDate: string;
   inventory: Record<string, 'locked' | 'unlocked' | 'ready'>; // Snap Cards Inventory
   learnSessionsToday: number; // New: Track daily AI learn usage
+  fsrsParams?: number[]; // Personal FSRS weights, optimised from review history
 }
 
 export type SnapCardPerk = 
@@ -262,6 +349,7 @@ export enum AppView {
   EDIT_DECK = 'EDIT_DECK',
   STUDY = 'STUDY',
   STUDY_SRS = 'STUDY_SRS',
+  REVIEW_ALL = 'REVIEW_ALL',
   PREPARATION = 'PREPARATION',
   THEMES = 'THEMES',
   LEARN = 'LEARN',
@@ -275,7 +363,8 @@ export enum AppView {
   CARDY = 'CARDY',
   RESOURCES = 'RESOURCES', // Replaces Explore, Tools, Guides
   FOCUS = 'FOCUS',
-  COMMUNITY = 'COMMUNITY'
+  COMMUNITY = 'COMMUNITY',
+  DUPLICATES = 'DUPLICATES'
 }
 
 export type SortOption = 'date' | 'name' | 'count';
@@ -9,7 +9,11 @@ export default defineConfig({
     emptyOutDir: true
   },
   define: {
-    'process.env.API_KEY': JSON.stringify(process.env.API_KEY)
+    'process.env.API_KEY': JSON.stringify(process.env.API_KEY),
+    'process.env.LLM_PROVIDER': JSON.stringify(process.env.LLM_PROVIDER),
+    'process.env.LLM_BASE_URL': JSON.stringify(process.env.LLM_BASE_URL),
+    'process.env.LLM_MODEL': JSON.stringify(process.env.LLM_MODEL),
+    'process.env.LLM_API_KEY': JSON.stringify(process.env.LLM_API_KEY)
   },
   server: {
     proxy: {